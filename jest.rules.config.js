@@ -0,0 +1,19 @@
+/**
+ * Jest Configuration for Firestore Security Rules Tests
+ * 
+ * Runs tests/rules against the Firestore emulator (see `npm run test:rules`),
+ * separately from the unit tests, which don't need the emulator
+ */
+
+export default {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/rules/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        esModuleInterop: true
+      }
+    }]
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Seed command
+ *
+ * Generates a deterministic dataset and writes it through the app's own API
+ * functions (src/utils/seedDatabase.ts). The app code expects Vite (import.meta.env,
+ * the VITE_DATA_BACKEND alias), so it is loaded through a Vite server rather
+ * than run by Node directly.
+ *
+ *   npm run seed -- [--seed 1] [--products 40] [--users 12] [--orders 60]
+ *                   [--backend firestore|memory] [--mode development] [--out data.json]
+ *
+ * Writing to Firestore uses the VITE_FIREBASE_* settings for the mode. If the
+ * security rules require a signed-in user, set SEED_EMAIL and SEED_PASSWORD.
+ * With --backend memory nothing leaves the process; use --out to save what was
+ * written as JSON (keyed by document path).
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { createServer } from 'vite'
+
+const { values: args } = parseArgs({
+  options: {
+    seed: { type: 'string' },
+    products: { type: 'string' },
+    users: { type: 'string' },
+    orders: { type: 'string' },
+    backend: { type: 'string' },
+    mode: { type: 'string', default: 'development' },
+    out: { type: 'string' },
+  },
+})
+
+const toCount = (name) => {
+  if (args[name] === undefined) {
+    return undefined
+  }
+  const value = Number(args[name])
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`--${name} must be a whole number, got "${args[name]}"`)
+  }
+  return value
+}
+
+const options = {
+  seed: toCount('seed'),
+  products: toCount('products'),
+  users: toCount('users'),
+  orders: toCount('orders'),
+}
+Object.keys(options).forEach((key) => options[key] === undefined && delete options[key])
+
+if (args.backend) {
+  if (!['firestore', 'memory'].includes(args.backend)) {
+    throw new Error(`--backend must be firestore or memory, got "${args.backend}"`)
+  }
+  // Read by vite.config.ts, which swaps in the in-memory backend
+  process.env.VITE_DATA_BACKEND = args.backend
+}
+
+if (args.out && process.env.VITE_DATA_BACKEND !== 'memory') {
+  throw new Error('--out is only supported with --backend memory')
+}
+
+const server = await createServer({
+  mode: args.mode,
+  appType: 'custom',
+  logLevel: 'warn',
+  server: { middlewareMode: true, hmr: false },
+  // Only server-side loading is needed; skip the browser dependency scan
+  optimizeDeps: { noDiscovery: true, include: [] },
+})
+
+let exitCode = 0
+try {
+  const backend = process.env.VITE_DATA_BACKEND === 'memory' ? 'memory' : 'firestore'
+  console.log(`🌱 Seeding ${backend}`, options)
+
+  if (backend === 'firestore' && process.env.SEED_EMAIL) {
+    const { signInWithEmailAndPassword } = await import('firebase/auth')
+    const { auth } = await server.ssrLoadModule('/src/config/firebase.ts')
+    await signInWithEmailAndPassword(auth, process.env.SEED_EMAIL, process.env.SEED_PASSWORD ?? '')
+    console.log(`🔑 Signed in as ${process.env.SEED_EMAIL}`)
+  }
+
+  const { seedDatabase } = await server.ssrLoadModule('/src/utils/seedDatabase.ts')
+  const summary = await seedDatabase(options)
+  console.log(`✅ Seeded ${summary.products} products, ${summary.users} users and ${summary.orders} orders`)
+
+  if (args.out) {
+    const { exportMemoryFirestore } = await server.ssrLoadModule('/src/utils/memoryFirestore.ts')
+    await writeFile(args.out, JSON.stringify(exportMemoryFirestore(), null, 2))
+    console.log(`💾 Wrote ${args.out}`)
+  }
+} catch (error) {
+  console.error('❌ Seeding failed:', error)
+  exitCode = 1
+} finally {
+  await server.close()
+}
+
+// Firebase keeps connections open; don't wait for them
+process.exit(exitCode)
@@ -7,6 +7,7 @@
  * - Product catalog management (CRUD with Firestore)
  * - Shopping cart (Redux state management)
  * - Order management (creation, history, details)
+ * - URL routing with deep links and sign-in protected routes
  * 
  * This template can be customized for any type of online store.
  * 
@@ -14,16 +15,30 @@
  * @version 1.0.0
  */
 
-import { useAuth } from "./context/AuthContext";
-import AuthForm from "./components/auth/AuthForm";
+import React from "react";
+import { Navigate, NavLink, Outlet, Route, Routes } from "react-router-dom";
+import Navigation from "./components/Navigation";
+import ProtectedRoute from "./components/routing/ProtectedRoute";
+import RequireRole from "./components/routing/RequireRole";
 import Homepage from "./pages/Homepage";
+import LoginPage from "./pages/LoginPage";
+import NotFound from "./pages/NotFound";
+import ProductPage from "./pages/ProductPage";
+import OrderDetailPage from "./pages/OrderDetailPage";
+import PackingSlipPage from "./pages/PackingSlipPage";
 import ShoppingCart from "./components/shopping cart/ShoppingCart";
+import Checkout from "./components/checkout/Checkout";
+import OrderHistory from "./components/orders/OrderHistory";
+import EditProfile from "./components/profile/EditProfile";
+import AdminProducts from "./components/product catalog/AdminProducts";
+import ProductImport from "./components/product catalog/ProductImport";
+import AdminOrders from "./components/orders/AdminOrders";
 
 /**
  * App Styles - Clean, modern design
  */
 const appStyles = {
-  loggedInContainer: {
+  appContainer: {
     minHeight: '100vh',
     width: '100%',
     background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
@@ -34,48 +49,6 @@ const appStyles = {
     flexDirection: 'column' as const
   },
 
-  header: {
-    background: 'rgba(255, 255, 255, 0.95)',
-    borderBottom: '1px solid rgba(0, 0, 0, 0.1)',
-    padding: 'clamp(15px, 4vw, 20px) clamp(20px, 5vw, 40px)',
-    display: 'flex',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    flexWrap: 'wrap' as const,
-    gap: '15px',
-    position: 'sticky' as const,
-    top: 0,
-    zIndex: 100,
-    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
-    width: '100%',
-    boxSizing: 'border-box' as const
-  },
-
-  logo: {
-    fontSize: 'clamp(18px, 4vw, 24px)',
-    fontWeight: '700',
-    color: '#333',
-    letterSpacing: '-0.5px'
-  },
-
-  userInfo: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: 'clamp(10px, 3vw, 20px)',
-    color: '#333',
-    fontSize: 'clamp(14px, 3vw, 16px)',
-    flexWrap: 'wrap' as const
-  },
-
-  welcomeText: {
-    background: 'rgba(102, 126, 234, 0.1)',
-    padding: '8px 16px',
-    borderRadius: '20px',
-    border: '1px solid rgba(102, 126, 234, 0.2)',
-    color: '#333',
-    whiteSpace: 'nowrap' as const
-  },
-
   mainContent: {
     padding: 'clamp(20px, 5vw, 40px)',
     maxWidth: '1200px',
@@ -101,6 +74,21 @@ const appStyles = {
     fontWeight: '600',
     marginBottom: '20px',
     textAlign: 'center' as const
+  },
+
+  adminTabs: {
+    display: 'flex',
+    gap: '10px',
+    marginBottom: '20px'
+  },
+
+  adminTab: {
+    padding: '8px 16px',
+    borderRadius: '20px',
+    color: 'white',
+    textDecoration: 'none',
+    fontWeight: '600',
+    background: 'rgba(255, 255, 255, 0.2)'
   }
 };
 
@@ -139,65 +127,98 @@ const AppStyles = () => (
 );
 
 /**
- * Main Application Content Component
- * Displays authentication or main app based on user login status
+ * White card wrapping each page's content; pages without their own heading get a title
  */
-const AppContent = () => {
-  const { user } = useAuth();
-
-  console.log('🔄 AppContent rendering, user state:', user ? `Logged in as ${user.email}` : 'Not logged in');
-
-  // Show authentication forms if user is not logged in
-  if (!user) {
-    console.log('📝 Rendering auth form (not logged in)');
-    return (
-      <>
-        <AppStyles />
-        <AuthForm />
-      </>
-    );
-  }
+const Section: React.FC<{ title?: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div style={appStyles.section} className="section">
+    {title && <h2 style={appStyles.sectionTitle}>{title}</h2>}
+    {children}
+  </div>
+);
 
-  // Show main e-commerce app when user is logged in
-  console.log('✅ Rendering logged-in app');
+/**
+ * Shared layout for every page except login: navigation bar plus the routed page
+ */
+const AppLayout = () => {
   return (
-    <>
-      <AppStyles />
-      <div style={appStyles.loggedInContainer}>
-        <header style={appStyles.header}>
-          <div style={appStyles.logo}>
-            🛍️ E-Commerce Store
-          </div>
-          <div style={appStyles.userInfo}>
-            <div style={appStyles.welcomeText}>
-              Welcome, {user.email?.split('@')[0]}
-            </div>
-            <AuthForm isHeaderContext={true} />
-          </div>
-        </header>
-        
-        <main style={appStyles.mainContent} className="main-content">
-          {/* Shopping Cart Section */}
-          <div style={appStyles.section} className="section">
-            <h2 style={appStyles.sectionTitle}>🛒 Shopping Cart</h2>
-            <ShoppingCart />
-          </div>
-
-          {/* Product Catalog Section */}
-          <div style={appStyles.section} className="section">
-            <h2 style={appStyles.sectionTitle}>📦 Products</h2>
-            <Homepage />
-          </div>
-        </main>
-      </div>
-    </>
+    <div style={appStyles.appContainer}>
+      <Navigation />
+      <main style={appStyles.mainContent} className="main-content">
+        <Outlet />
+      </main>
+    </div>
   );
 };
 
+/**
+ * Admin area layout: tabs for each admin page above the routed page
+ */
+const getAdminTabStyle = ({ isActive }: { isActive: boolean }) =>
+  isActive ? { ...appStyles.adminTab, background: 'white', color: '#764ba2' } : appStyles.adminTab;
+
+const AdminLayout = () => (
+  <>
+    <nav style={appStyles.adminTabs} aria-label="Admin sections">
+      <NavLink to="/admin/products" style={getAdminTabStyle}>Products</NavLink>
+      <NavLink to="/admin/archived" style={getAdminTabStyle}>Archived</NavLink>
+      <NavLink to="/admin/orders" style={getAdminTabStyle}>Orders</NavLink>
+    </nav>
+    <Outlet />
+  </>
+);
+
+/**
+ * Main Application Component
+ * Maps URLs to pages. Browsing the catalog and cart works signed out;
+ * checkout, orders, profile and admin send visitors to /login and back,
+ * and the admin area additionally needs a staff or admin role. Packing slips
+ * render without the layout so they print cleanly
+ */
 const App = () => {
   return (
-    <AppContent />
+    <>
+      <AppStyles />
+      <Routes>
+        <Route path="/login" element={<LoginPage />} />
+        <Route
+          path="/admin/orders/:orderId/packing-slip"
+          element={<RequireRole role="staff"><PackingSlipPage /></RequireRole>}
+        />
+
+        <Route element={<AppLayout />}>
+          <Route index element={<Section title="📦 Products"><Homepage /></Section>} />
+          <Route path="products/:id" element={<ProductPage />} />
+          <Route path="cart" element={<Section title="🛒 Shopping Cart"><ShoppingCart /></Section>} />
+
+          <Route element={<ProtectedRoute />}>
+            <Route path="checkout" element={<Section><Checkout /></Section>} />
+            <Route path="orders" element={<Section><OrderHistory /></Section>} />
+            <Route path="orders/:orderId" element={<OrderDetailPage />} />
+            <Route path="profile" element={<Section><EditProfile /></Section>} />
+            <Route path="admin" element={<RequireRole role="staff" />}>
+              <Route element={<AdminLayout />}>
+                <Route index element={<Navigate to="products" replace />} />
+                <Route
+                  path="products"
+                  element={
+                    <Section title="🛠️ Manage Products">
+                      <ProductImport />
+                      <AdminProducts />
+                    </Section>
+                  }
+                />
+                <Route path="archived" element={<Section title="🗄️ Archived Products"><AdminProducts archived /></Section>} />
+                <Route path="orders" element={<Section title="📋 Manage Orders"><AdminOrders /></Section>} />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Route>
+          </Route>
+
+          <Route path="*" element={<NotFound />} />
+        </Route>
+      </Routes>
+    </>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
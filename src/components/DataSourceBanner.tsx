@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ProductSource } from '../utils/productRepository';
+
+interface DataSourceBannerProps {
+  source: ProductSource;
+  degraded: boolean;
+}
+
+const SOURCE_NAMES: Record<ProductSource, string> = {
+  firestore: 'the store database',
+  rest: 'the backup product API',
+  memory: 'a local sample catalog'
+};
+
+const bannerStyle: React.CSSProperties = {
+  background: '#fff3cd',
+  border: '1px solid #ffe08a',
+  color: '#664d03',
+  borderRadius: '6px',
+  padding: '12px 16px',
+  marginBottom: '20px',
+  fontSize: '14px'
+};
+
+/**
+ * DataSourceBanner component - warns that products are coming from a fallback
+ * source, so what's shown (IDs, prices, stock) may not match the real store.
+ * Renders nothing while the configured source is serving normally.
+ */
+const DataSourceBanner: React.FC<DataSourceBannerProps> = ({ source, degraded }) => {
+  if (!degraded) {
+    return null;
+  }
+
+  return (
+    <div style={bannerStyle} role="status">
+      <strong>Limited mode:</strong> our product catalog is unavailable right now, so you're seeing products
+      from {SOURCE_NAMES[source]}. Prices and stock may be out of date, and orders for these products may not go through.
+    </div>
+  );
+};
+
+export default DataSourceBanner;
@@ -0,0 +1,196 @@
+import React from 'react';
+import type { ProductFacets, ProductFilters } from '../utils/productFacets';
+import { hasFacetFilters } from '../utils/productFacets';
+
+interface FacetFiltersProps {
+  facets: ProductFacets;
+  filters: ProductFilters;
+  onChange: (filters: ProductFilters) => void;
+}
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '20px'
+};
+
+const headingStyle: React.CSSProperties = {
+  color: '#333',
+  fontSize: '14px',
+  fontWeight: 'bold',
+  margin: '0 0 8px'
+};
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  color: '#333',
+  fontSize: '14px',
+  marginBottom: '6px',
+  cursor: 'pointer'
+};
+
+const countStyle: React.CSSProperties = {
+  color: '#999',
+  fontSize: '12px'
+};
+
+/**
+ * FacetFilters component - sidebar of combinable catalog filters
+ * Shows a price range slider, brand and tag checkboxes, minimum rating and
+ * in-stock toggle, each with a live count of the products it would show
+ */
+const FacetFilters: React.FC<FacetFiltersProps> = ({ facets, filters, onChange }) => {
+  const { min, max } = facets.priceRange;
+  const currentMin = filters.minPrice ?? min;
+  const currentMax = filters.maxPrice ?? max;
+
+  // Toggles a value in one of the multi-select facets
+  const toggleValue = (key: 'brands' | 'tags', value: string) => {
+    const values = filters[key].includes(value)
+      ? filters[key].filter(existing => existing !== value)
+      : [...filters[key], value];
+    onChange({ ...filters, [key]: values });
+  };
+
+  // Dragging a handle back to the edge of the range clears that side of the filter
+  const handlePriceChange = (side: 'minPrice' | 'maxPrice', value: number) => {
+    if (side === 'minPrice') {
+      const next = Math.min(value, currentMax);
+      onChange({ ...filters, minPrice: next <= min ? undefined : next });
+    } else {
+      const next = Math.max(value, currentMin);
+      onChange({ ...filters, maxPrice: next >= max ? undefined : next });
+    }
+  };
+
+  return (
+    <aside aria-label="Product filters" style={{
+      padding: '20px',
+      border: '1px solid #ddd',
+      borderRadius: '8px',
+      background: 'white'
+    }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '15px'
+      }}>
+        <h2 style={{ margin: 0, fontSize: '18px', color: '#333' }}>Filters</h2>
+        {hasFacetFilters(filters) && (
+          <button
+            onClick={() => onChange({ ...filters, minPrice: undefined, maxPrice: undefined, brands: [], minRating: undefined, tags: [], inStockOnly: false })}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: '#667eea',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {/* Price Range */}
+      {max > min && (
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Price: ${currentMin} – ${currentMax}</h3>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            value={currentMin}
+            onChange={(event) => handlePriceChange('minPrice', Number(event.target.value))}
+            aria-label="Minimum price"
+            style={{ width: '100%' }}
+          />
+          <input
+            type="range"
+            min={min}
+            max={max}
+            value={currentMax}
+            onChange={(event) => handlePriceChange('maxPrice', Number(event.target.value))}
+            aria-label="Maximum price"
+            style={{ width: '100%' }}
+          />
+        </div>
+      )}
+
+      {/* Brands */}
+      {facets.brands.length > 0 && (
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Brand</h3>
+          {facets.brands.map(({ value, count }) => (
+            <label key={value} style={optionStyle}>
+              <input
+                type="checkbox"
+                checked={filters.brands.includes(value)}
+                onChange={() => toggleValue('brands', value)}
+              />
+              {value} <span style={countStyle}>({count})</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Minimum Rating */}
+      <div style={sectionStyle}>
+        <h3 style={headingStyle}>Customer Rating</h3>
+        <label style={optionStyle}>
+          <input
+            type="radio"
+            name="min-rating"
+            checked={filters.minRating === undefined}
+            onChange={() => onChange({ ...filters, minRating: undefined })}
+          />
+          Any rating
+        </label>
+        {facets.ratings.map(({ minRating, count }) => (
+          <label key={minRating} style={optionStyle}>
+            <input
+              type="radio"
+              name="min-rating"
+              checked={filters.minRating === minRating}
+              onChange={() => onChange({ ...filters, minRating })}
+            />
+            {'★'.repeat(minRating)}{'☆'.repeat(5 - minRating)} & up <span style={countStyle}>({count})</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Tags */}
+      {facets.tags.length > 0 && (
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Tags</h3>
+          {facets.tags.map(({ value, count }) => (
+            <label key={value} style={optionStyle}>
+              <input
+                type="checkbox"
+                checked={filters.tags.includes(value)}
+                onChange={() => toggleValue('tags', value)}
+              />
+              {value} <span style={countStyle}>({count})</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Availability */}
+      <div style={{ ...sectionStyle, marginBottom: 0 }}>
+        <h3 style={headingStyle}>Availability</h3>
+        <label style={optionStyle}>
+          <input
+            type="checkbox"
+            checked={filters.inStockOnly}
+            onChange={() => onChange({ ...filters, inStockOnly: !filters.inStockOnly })}
+          />
+          In stock only <span style={countStyle}>({facets.inStock})</span>
+        </label>
+      </div>
+    </aside>
+  );
+};
+
+export default FacetFilters;
@@ -1,25 +1,23 @@
 /**
  * Navigation Component for E-Commerce Application
  * 
- * Provides main navigation between different sections of the application
- * with clean modern styling
+ * Provides main navigation between the application's routes
+ * with clean modern styling; the active route's link is highlighted
  * 
  * @fileoverview Main navigation component
  * @version 1.0.0
  */
 
 import React from 'react';
-import { useAuth } from '../context/AuthContext';
+import { Link, NavLink } from 'react-router-dom';
+import { useAuth, useRequireRole } from '../context/AuthContext';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
 
-interface NavigationProps {
-  currentView: string;
-  onViewChange: (view: string) => void;
-}
-
-const Navigation: React.FC<NavigationProps> = ({ currentView, onViewChange }) => {
+const Navigation: React.FC = () => {
   const { user, logout } = useAuth();
+  // The admin area is for staff and admins only
+  const { allowed: canManageStore } = useRequireRole('staff');
   const cartItems = useSelector((state: RootState) => state.cart.items);
   const cartItemCount = cartItems.reduce((total, item) => total + item.quantity, 0);
 
@@ -43,7 +41,8 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, onViewChange }) =>
       fontFamily: 'monospace, "Courier New"',
       letterSpacing: '2px',
       textShadow: '0 0 15px rgba(255, 215, 0, 0.4)',
-      cursor: 'pointer'
+      cursor: 'pointer',
+      textDecoration: 'none'
     },
     
     navButtons: {
@@ -64,7 +63,8 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, onViewChange }) =>
       letterSpacing: '1px',
       cursor: 'pointer',
       transition: 'all 0.3s ease',
-      position: 'relative' as const
+      position: 'relative' as const,
+      textDecoration: 'none'
     },
     
     activeButton: {
@@ -108,13 +108,14 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, onViewChange }) =>
       fontSize: 'clamp(11px, 2vw, 13px)',
       fontFamily: 'monospace, "Courier New"',
       cursor: 'pointer',
-      transition: 'all 0.3s ease'
+      transition: 'all 0.3s ease',
+      textDecoration: 'none'
     }
   };
 
-  const getButtonStyle = (view: string) => ({
+  const getButtonStyle = ({ isActive }: { isActive: boolean }) => ({
     ...navStyles.navButton,
-    ...(currentView === view ? navStyles.activeButton : {})
+    ...(isActive ? navStyles.activeButton : {})
   });
 
   return (
@@ -136,69 +137,56 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, onViewChange }) =>
         `}
       </style>
       <nav style={navStyles.nav}>
-        <div 
-          style={navStyles.logo}
-          onClick={() => onViewChange('home')}
-        >
+        <Link to="/" style={navStyles.logo}>
           🛍️ E-Commerce Store
-        </div>
+        </Link>
         
         <div style={navStyles.navButtons}>
-          <button
-            style={getButtonStyle('home')}
-            onClick={() => onViewChange('home')}
-            className="nav-button"
-          >
-            🏠 Home
-          </button>
-          
-          <button
-            style={getButtonStyle('products')}
-            onClick={() => onViewChange('products')}
-            className="nav-button"
-          >
+          <NavLink to="/" end style={getButtonStyle} className="nav-button">
             🛍️ Products
-          </button>
+          </NavLink>
           
-          <button
-            style={getButtonStyle('cart')}
-            onClick={() => onViewChange('cart')}
-            className="nav-button"
-          >
+          <NavLink to="/cart" style={getButtonStyle} className="nav-button">
             🛒 Cart
             {cartItemCount > 0 && (
               <span style={navStyles.cartBadge}>
                 {cartItemCount}
               </span>
             )}
-          </button>
+          </NavLink>
           
-          <button
-            style={getButtonStyle('orders')}
-            onClick={() => onViewChange('orders')}
-            className="nav-button"
-          >
+          <NavLink to="/orders" style={getButtonStyle} className="nav-button">
             📋 Orders
-          </button>
+          </NavLink>
           
-          <button
-            style={getButtonStyle('profile')}
-            onClick={() => onViewChange('profile')}
-            className="nav-button"
-          >
+          <NavLink to="/profile" style={getButtonStyle} className="nav-button">
             👤 Profile
-          </button>
+          </NavLink>
+          
+          {canManageStore && (
+            <NavLink to="/admin" style={getButtonStyle} className="nav-button">
+              🛠️ Admin
+            </NavLink>
+          )}
         </div>
         
         <div style={navStyles.userInfo}>
-          <span>Welcome, {user?.email?.split('@')[0]}</span>
-          <button
-            style={navStyles.logoutButton}
-            onClick={logout}
-            className="logout-button"
-          >
-            Logout
-          </button>
+          {user ? (
+            <>
+              <span>Welcome, {user.email?.split('@')[0]}</span>
+              <button
+                style={navStyles.logoutButton}
+                onClick={logout}
+                className="logout-button"
+              >
+                Logout
+              </button>
+            </>
+          ) : (
+            <Link to="/login" style={navStyles.navButton} className="nav-button">
+              Sign In
+            </Link>
+          )}
         </div>
       </nav>
     </>
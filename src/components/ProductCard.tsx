@@ -1,6 +1,11 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Product } from '../types/product';
-import { useDispatch } from 'react-redux';
-import { addItem } from '../features/cart/cartSlice';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { addItem, getAddToCartBlocker, getAvailableStock, getCartLineKey, selectCartWarning } from '../features/cart/cartSlice';
+import { findVariant, getVariantPriceRange, hasVariants, resolveVariant } from '../utils/productVariants';
+import VariantPicker from './VariantPicker';
 
 interface ProductCardProps {
   product: Product;
@@ -94,6 +99,25 @@ const cardStyles = {
     boxShadow: '0 0 15px rgba(255, 215, 0, 0.2)'
   },
   
+  buttonDisabled: {
+    opacity: 0.4,
+    cursor: 'not-allowed'
+  },
+  
+  stockStatus: {
+    color: 'rgba(255, 215, 0, 0.8)',
+    fontSize: 'clamp(12px, 2.5vw, 14px)',
+    fontFamily: 'monospace, "Courier New"',
+    marginBottom: '10px'
+  },
+  
+  warning: {
+    color: '#ff6b6b',
+    fontSize: 'clamp(12px, 2.5vw, 14px)',
+    fontFamily: 'monospace, "Courier New"',
+    marginBottom: '10px'
+  },
+  
   ratingStars: {
     color: '#ffd700',
     fontSize: '16px'
@@ -102,9 +126,30 @@ const cardStyles = {
 
 const ProductCard = ({ product }: ProductCardProps) => {
   const dispatch = useDispatch();
+  const [selection, setSelection] = useState<Record<string, string>>({});
+
+  // Products with variants are added as the chosen variant, which brings its own price and stock
+  const variant = hasVariants(product) ? findVariant(product, selection) : undefined;
+  const cartProduct = variant ? resolveVariant(product, variant) : product;
+  const warning = useSelector((state: RootState) => selectCartWarning(state, getCartLineKey(cartProduct)));
+
+  // Products that can't be bought at all get a disabled button instead of an add
+  const blocker = getAddToCartBlocker(cartProduct);
+  const availableStock = getAvailableStock(cartProduct);
+  const priceRange = getVariantPriceRange(product);
 
   const handleAddToCart = () => {
-    dispatch(addItem(product));
+    dispatch(addItem(cartProduct));
+  };
+
+  const getButtonLabel = () => {
+    if (!blocker) {
+      return 'Add to Cart';
+    }
+    if (blocker.reason === 'inactive') {
+      return 'Unavailable';
+    }
+    return blocker.reason === 'variant-required' ? 'Choose Options' : 'Out of Stock';
   };
 
   // Generate star rating display
@@ -147,9 +192,13 @@ const ProductCard = ({ product }: ProductCardProps) => {
       </style>
       <article style={cardStyles.card} className="product-card">
         <div style={cardStyles.header}>
-          <h2 style={cardStyles.title}>{product.title}</h2>
+          <h2 style={cardStyles.title}>
+            <Link to={`/products/${product.id}`} style={{ color: 'inherit', textDecoration: 'none' }}>
+              {product.title}
+            </Link>
+          </h2>
           <img 
-            src={product.image} 
+            src={cartProduct.image} 
             alt={product.title} 
             style={cardStyles.image}
           />
@@ -169,19 +218,38 @@ const ProductCard = ({ product }: ProductCardProps) => {
         </div>
         
         <div style={cardStyles.price}>
-          ${product.price.toFixed(2)}
+          {!variant && priceRange.min !== priceRange.max
+            ? `From $${priceRange.min.toFixed(2)}`
+            : `$${cartProduct.price.toFixed(2)}`}
         </div>
         
         <p style={cardStyles.description}>
           {product.description}
         </p>
         
+        {hasVariants(product) && (
+          <VariantPicker product={product} selection={selection} onChange={setSelection} />
+        )}
+        
+        {availableStock !== undefined && availableStock > 0 && (
+          <div style={cardStyles.stockStatus}>
+            {availableStock <= 5 ? `Only ${availableStock} left in stock` : 'In stock'}
+          </div>
+        )}
+        
+        {warning && (
+          <div style={cardStyles.warning} role="alert">
+            ⚠️ {warning.message}
+          </div>
+        )}
+        
         <button 
           onClick={handleAddToCart}
-          style={cardStyles.button}
+          style={{ ...cardStyles.button, ...(blocker ? cardStyles.buttonDisabled : {}) }}
           className="add-to-cart-btn"
+          disabled={!!blocker}
         >
-          Add to Cart
+          {getButtonLabel()}
         </button>
       </article>
     </>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+
+interface ProductGalleryProps {
+  images: string[];
+  title: string;
+  activeImage?: string; // Jumps to this image when it changes, e.g. the chosen variant's
+}
+
+const mainImageStyle: React.CSSProperties = {
+  width: '100%',
+  height: '360px',
+  objectFit: 'contain',
+  background: 'white',
+  borderRadius: '8px',
+  border: '1px solid rgba(255, 215, 0, 0.2)'
+};
+
+const thumbnailRowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '8px',
+  marginTop: '10px',
+  flexWrap: 'wrap'
+};
+
+const thumbnailStyle = (selected: boolean): React.CSSProperties => ({
+  width: '64px',
+  height: '64px',
+  padding: 0,
+  background: 'white',
+  borderRadius: '6px',
+  border: selected ? '2px solid #ffd700' : '2px solid rgba(255, 215, 0, 0.2)',
+  cursor: 'pointer',
+  overflow: 'hidden'
+});
+
+/**
+ * ProductGallery component - large image with a row of selectable thumbnails
+ * The thumbnail row is hidden when the product only has one image
+ */
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, title, activeImage }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [shownActiveImage, setShownActiveImage] = useState(activeImage);
+
+  if (activeImage !== shownActiveImage) {
+    setShownActiveImage(activeImage);
+    if (activeImage && images.includes(activeImage)) {
+      setSelectedIndex(images.indexOf(activeImage));
+    }
+  }
+
+  if (images.length === 0) {
+    return null;
+  }
+
+  // Guards against the image list shrinking under a stale selection
+  const current = Math.min(selectedIndex, images.length - 1);
+
+  return (
+    <div>
+      <img src={images[current]} alt={title} style={mainImageStyle} />
+      {images.length > 1 && (
+        <div style={thumbnailRowStyle}>
+          {images.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              style={thumbnailStyle(index === current)}
+              aria-label={`Show image ${index + 1} of ${images.length}`}
+              aria-pressed={index === current}
+            >
+              <img
+                src={url}
+                alt=""
+                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { Product } from '../types/product';
+import { isOptionValueAvailable } from '../utils/productVariants';
+
+interface VariantPickerProps {
+  product: Product;
+  selection: Record<string, string>;
+  onChange: (selection: Record<string, string>) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  color: 'rgba(255, 215, 0, 0.8)',
+  fontSize: '13px',
+  fontFamily: 'monospace, "Courier New"',
+  marginBottom: '6px'
+};
+
+const valueButtonStyle = (selected: boolean, available: boolean): React.CSSProperties => ({
+  padding: '6px 12px',
+  background: selected ? 'rgba(255, 215, 0, 0.25)' : 'transparent',
+  border: selected ? '2px solid #ffd700' : '1px solid rgba(255, 215, 0, 0.4)',
+  borderRadius: '6px',
+  color: '#ffd700',
+  fontFamily: 'monospace, "Courier New"',
+  fontSize: '13px',
+  cursor: available ? 'pointer' : 'not-allowed',
+  opacity: available ? 1 : 0.4,
+  textDecoration: available ? 'none' : 'line-through'
+});
+
+/**
+ * VariantPicker component - one row of option buttons per variant axis (size, colour, ...)
+ * Values that can't lead to a purchasable variant with the other choices are disabled;
+ * clicking the selected value again clears it
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({ product, selection, onChange }) => {
+  const handleSelect = (name: string, value: string) => {
+    const next = { ...selection };
+    if (next[name] === value) {
+      delete next[name];
+    } else {
+      next[name] = value;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div style={{ marginBottom: '15px' }}>
+      {(product.variantOptions ?? []).map(option => (
+        <div key={option.name} role="group" aria-label={option.name} style={{ marginBottom: '10px' }}>
+          <div style={labelStyle}>
+            {option.name}{selection[option.name] ? `: ${selection[option.name]}` : ''}
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+            {option.values.map(value => {
+              const selected = selection[option.name] === value;
+              const available = isOptionValueAvailable(product, selection, option.name, value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => handleSelect(option.name, value)}
+                  disabled={!available && !selected}
+                  aria-pressed={selected}
+                  style={valueButtonStyle(selected, available)}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
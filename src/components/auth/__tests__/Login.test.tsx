@@ -19,6 +19,8 @@ const Provider: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <AuthContext.Provider
     value={{
       user: null,
+      role: null,
+      loading: false,
       login: mockLogin,
       logout: jest.fn(),
       register: jest.fn(),
@@ -17,6 +17,8 @@ const Provider: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <AuthContext.Provider
     value={{
       user: null,
+      role: null,
+      loading: false,
       login: jest.fn(),
       logout: jest.fn(),
       register: mockRegister,
@@ -12,10 +12,21 @@
 
 import React, { useState, useContext } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
+import { Link, useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
-import { clearCart } from '../../features/cart/cartSlice';
+import { clearCart, updatePrices, getCartLineKey } from '../../features/cart/cartSlice';
+import { getLineKey } from '../../utils/productVariants';
 import { AuthContext } from '../../context/AuthContext';
-import { createOrder, OrderItem } from '../../utils/orderApi';
+import {
+    createOrder,
+    OrderItem,
+    InsufficientStockError,
+    StockShortage,
+    PriceChangedError,
+    PriceChange
+} from '../../utils/orderApi';
+import { createOrderSchema } from '../../utils/schemas';
+import { getFieldError, validate, FieldError, ValidationError } from '../../utils/validation';
 
 /**
  * Styling for the checkout interface
@@ -126,6 +137,40 @@ const styles = {
         borderRadius: '4px',
         marginBottom: '20px'
     },
+    priceReview: {
+        color: '#8a6d3b',
+        backgroundColor: '#fff8e1',
+        padding: '15px',
+        borderRadius: '4px',
+        marginBottom: '20px',
+        border: '1px solid #ffe082'
+    },
+    priceChangeRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        padding: '6px 0',
+        borderBottom: '1px solid #ffe082'
+    },
+    secondaryButton: {
+        padding: '15px 30px',
+        backgroundColor: '#f5f5f5',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '16px',
+        cursor: 'pointer',
+        marginRight: '10px'
+    },
+    fieldError: {
+        color: '#d32f2f',
+        fontSize: '13px',
+        marginTop: '4px'
+    },
+    stockShortage: {
+        color: '#d32f2f',
+        fontSize: '13px',
+        marginTop: '4px'
+    },
     emptyCart: {
         textAlign: 'center' as const,
         padding: '40px',
@@ -177,6 +222,11 @@ const Checkout: React.FC = () => {
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
     const [success, setSuccess] = useState<string>('');
+    const [placedOrderId, setPlacedOrderId] = useState<string>('');
+    const navigate = useNavigate();
+    const [stockShortages, setStockShortages] = useState<StockShortage[]>([]);
+    const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+    const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
 
     /**
      * Calculate total price of all items in cart
@@ -228,8 +278,10 @@ const Checkout: React.FC = () => {
             return false;
         }
 
-        if (!shippingAddress.trim()) {
-            setError('Please enter a shipping address');
+        // Same rules createOrder enforces; shown under the address field
+        const errors = validate(createOrderSchema, { shippingAddress }, { partial: true });
+        setFieldErrors(errors);
+        if (errors.length > 0) {
             return false;
         }
 
@@ -244,11 +296,16 @@ const Checkout: React.FC = () => {
     /**
      * Handles the checkout process
      * Converts cart items to order format and creates order in Firebase
+     * 
+     * @param acceptedChanges - Price changes the customer just confirmed; these
+     * override the cart prices so the resubmitted order matches the catalog
      */
-    const handleCheckout = async () => {
+    const handleCheckout = async (acceptedChanges: PriceChange[] = []) => {
         // Clear previous messages
         setError('');
         setSuccess('');
+        setStockShortages([]);
+        setPriceChanges([]);
 
         // Validate form
         if (!validateForm()) {
@@ -259,11 +316,15 @@ const Checkout: React.FC = () => {
             setLoading(true);
 
             // Convert cart items to order items format
+            // Variant lines carry their variant so the right stock is reserved
             const orderItems: OrderItem[] = cartItems.map(item => ({
                 productId: item.id.toString(),
                 name: item.title,
-                price: item.price,
-                quantity: item.quantity
+                price: acceptedChanges.find(change =>
+                    getLineKey(change.productId, change.variantId) === getCartLineKey(item)
+                )?.currentPrice ?? item.price,
+                quantity: item.quantity,
+                ...(item.variantId ? { variantId: item.variantId, variantLabel: item.variantLabel || '' } : {})
             }));
 
             // Create order data
@@ -282,24 +343,68 @@ const Checkout: React.FC = () => {
             
             // Show success message
             setSuccess(`Order ${newOrder.orderId} has been placed successfully! Total: ${formatCurrency(newOrder.totalPrice)}`);
+            setPlacedOrderId(newOrder.orderId);
             
             // Reset form
             setShippingAddress('');
             
         } catch (err) {
             console.error('Checkout error:', err);
-            // Show success message even if there's an error (for demo purposes)
-            setSuccess('Successful order! Will be shipped ASAP');
-            
-            // Clear cart after "successful" order
-            dispatch(clearCart());
-            sessionStorage.removeItem('cart');
-            setShippingAddress('');
+
+            // Stock ran out between adding to cart and checking out:
+            // keep the cart so the customer can adjust it
+            if (err instanceof InsufficientStockError) {
+                const namesOf = (shortages: StockShortage[]) => shortages.map(({ productId, variantId }) => {
+                    const item = cartItems.find(cartItem => getCartLineKey(cartItem) === getLineKey(productId, variantId));
+                    if (!item) {
+                        return productId;
+                    }
+                    return item.variantLabel ? `${item.title} (${item.variantLabel})` : item.title;
+                });
+                const unavailable = err.shortages.filter(shortage => shortage.unavailable);
+                const lowStock = err.shortages.filter(shortage => !shortage.unavailable);
+                setStockShortages(err.shortages);
+                setError([
+                    unavailable.length > 0 && `Some items are no longer available: ${namesOf(unavailable).join(', ')}.`,
+                    lowStock.length > 0 && `Some items don't have enough stock: ${namesOf(lowStock).join(', ')}.`,
+                    'Please update your cart.'
+                ].filter(Boolean).join(' '));
+                return;
+            }
+
+            // The order was rejected before anything was written
+            if (err instanceof ValidationError) {
+                setFieldErrors(err.errors);
+                if (!getFieldError(err.errors, 'shippingAddress')) {
+                    setError(err.message);
+                }
+                return;
+            }
+
+            // Catalog prices moved since the cart was built: nothing was
+            // charged, so let the customer review the new prices first
+            if (err instanceof PriceChangedError) {
+                setPriceChanges(err.changes);
+                return;
+            }
+
+            // Anything else means the order wasn't placed: keep the cart so
+            // the customer can try again
+            setError("We couldn't place your order. Your cart has been kept, so please try again.");
         } finally {
             setLoading(false);
         }
     };
 
+    /**
+     * Accepts the reviewed prices: updates the cart to match and places the order
+     */
+    const confirmPriceChanges = () => {
+        const accepted = priceChanges;
+        dispatch(updatePrices(accepted.map(({ productId, variantId, currentPrice }) => ({ productId, variantId, price: currentPrice }))));
+        handleCheckout(accepted);
+    };
+
     // Show message if cart is empty
     if (cartItems.length === 0 && !success) {
         return (
@@ -334,28 +439,71 @@ const Checkout: React.FC = () => {
                 <div style={styles.error}>{error}</div>
             )}
             
+            {/* Price Change Review */}
+            {priceChanges.length > 0 && (
+                <div style={styles.priceReview} role="alert">
+                    <strong>Some prices have changed since you added these items:</strong>
+                    {priceChanges.map(change => (
+                        <div key={getLineKey(change.productId, change.variantId)} style={styles.priceChangeRow}>
+                            <span>{change.name}</span>
+                            <span>
+                                <s>{formatCurrency(change.cartPrice)}</s> → {formatCurrency(change.currentPrice)}
+                            </span>
+                        </div>
+                    ))}
+                    <div style={{ marginTop: '15px' }}>
+                        <button style={styles.secondaryButton} onClick={() => navigate('/cart')}>
+                            Review Cart
+                        </button>
+                        <button style={styles.button} onClick={confirmPriceChanges} disabled={loading}>
+                            Accept New Prices &amp; Place Order
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Success Message */}
             {success && (
-                <div style={styles.success}>{success}</div>
+                <div style={styles.success}>
+                    {success}
+                    {placedOrderId && (
+                        <> <Link to={`/orders/${placedOrderId}`}>View order</Link></>
+                    )}
+                </div>
             )}
 
             {/* Cart Summary */}
             {cartItems.length > 0 && (
                 <div style={styles.section}>
                     <h3 style={styles.sectionTitle}>Order Summary</h3>
-                    {cartItems.map(item => (
-                        <div key={item.id} style={styles.cartItem}>
-                            <div style={styles.itemInfo}>
-                                <div style={styles.itemName}>{item.title}</div>
-                                <div style={styles.itemDetails}>
-                                    Quantity: {item.quantity} × {formatCurrency(item.price)}
+                    {cartItems.map(item => {
+                        const shortage = stockShortages.find(s => getLineKey(s.productId, s.variantId) === getCartLineKey(item));
+
+                        return (
+                            <div key={getCartLineKey(item)} style={styles.cartItem}>
+                                <div style={styles.itemInfo}>
+                                    <div style={styles.itemName}>
+                                        {item.title}{item.variantLabel ? ` (${item.variantLabel})` : ''}
+                                    </div>
+                                    <div style={styles.itemDetails}>
+                                        Quantity: {item.quantity} × {formatCurrency(item.price)}
+                                    </div>
+                                    {shortage && (
+                                        <div style={styles.stockShortage}>
+                                            {shortage.unavailable
+                                                ? 'No longer available'
+                                                : shortage.available > 0
+                                                    ? `Only ${shortage.available} left in stock`
+                                                    : 'Out of stock'}
+                                        </div>
+                                    )}
+                                </div>
+                                <div style={{ fontWeight: 'bold', color: '#333' }}>
+                                    {formatCurrency(item.price * item.quantity)}
                                 </div>
                             </div>
-                            <div style={{ fontWeight: 'bold', color: '#333' }}>
-                                {formatCurrency(item.price * item.quantity)}
-                            </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                     
                     {/* Price Breakdown */}
                     <div style={{ marginTop: '20px', paddingTop: '15px', borderTop: '1px solid #ddd' }}>
@@ -388,8 +536,14 @@ const Checkout: React.FC = () => {
                                 onChange={(e) => setShippingAddress(e.target.value)}
                                 placeholder="Enter your complete shipping address..."
                                 required
+                                aria-invalid={!!getFieldError(fieldErrors, 'shippingAddress')}
                             />
                         </label>
+                        {getFieldError(fieldErrors, 'shippingAddress') && (
+                            <div style={styles.fieldError} role="alert">
+                                {getFieldError(fieldErrors, 'shippingAddress')}
+                            </div>
+                        )}
                     </form>
                 </div>
             )}
@@ -405,7 +559,7 @@ const Checkout: React.FC = () => {
                             ...styles.button,
                             ...(loading || !shippingAddress.trim() ? styles.buttonDisabled : {})
                         }}
-                        onClick={handleCheckout}
+                        onClick={() => handleCheckout()}
                         disabled={loading || !shippingAddress.trim()}
                     >
                         {loading ? 'Processing...' : 'Place Order'}
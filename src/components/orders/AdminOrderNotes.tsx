@@ -0,0 +1,121 @@
+/**
+ * Admin Order Notes Component
+ *
+ * Internal notes staff keep on an order (gift wrapping, phone calls, ...).
+ * Customers never see them.
+ *
+ * @fileoverview Staff-only notes for one order
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { addOrderNote, getOrderNotes, OrderNote } from '../../utils/orderApi';
+
+const styles = {
+    container: {
+        padding: '12px 16px',
+        backgroundColor: '#fafafa',
+        borderTop: '1px solid #eee'
+    },
+    note: {
+        padding: '6px 0',
+        borderBottom: '1px solid #eee',
+        fontSize: '14px',
+        color: '#333'
+    },
+    noteMeta: {
+        color: '#888',
+        fontSize: '12px'
+    },
+    form: {
+        display: 'flex',
+        gap: '8px',
+        marginTop: '10px'
+    },
+    input: {
+        flex: 1,
+        padding: '8px',
+        border: '1px solid #ddd',
+        borderRadius: '4px'
+    },
+    button: {
+        padding: '8px 14px',
+        backgroundColor: '#1976d2',
+        color: 'white',
+        border: 'none',
+        borderRadius: '4px',
+        cursor: 'pointer'
+    },
+    error: {
+        color: '#d32f2f',
+        fontSize: '13px',
+        marginTop: '6px'
+    }
+};
+
+/**
+ * AdminOrderNotes component - lists an order's notes and adds new ones
+ */
+const AdminOrderNotes: React.FC<{ orderId: string }> = ({ orderId }) => {
+    const queryClient = useQueryClient();
+    const [text, setText] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const { data: notes = [], isLoading, isError } = useQuery<OrderNote[], Error>({
+        queryKey: ['orderNotes', orderId],
+        queryFn: () => getOrderNotes(orderId)
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setFormError(null);
+        try {
+            await addOrderNote(orderId, text);
+            setText('');
+            await queryClient.invalidateQueries({ queryKey: ['orderNotes', orderId] });
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'Failed to save note');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div style={styles.container}>
+            {isLoading && <div style={styles.noteMeta}>Loading notes...</div>}
+            {isError && <div style={styles.error}>Failed to load notes.</div>}
+            {!isLoading && !isError && notes.length === 0 && (
+                <div style={styles.noteMeta}>No notes yet.</div>
+            )}
+            {notes.map(note => (
+                <div key={note.noteId} style={styles.note}>
+                    <div>{note.text}</div>
+                    <div style={styles.noteMeta}>
+                        {note.authorUid} · {note.createdAt.toLocaleString()}
+                    </div>
+                </div>
+            ))}
+
+            <form onSubmit={handleSubmit} style={styles.form}>
+                <input
+                    type="text"
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder="Add an internal note"
+                    aria-label={`Note for order ${orderId}`}
+                    maxLength={2000}
+                    style={styles.input}
+                />
+                <button type="submit" disabled={saving || !text.trim()} style={styles.button}>
+                    {saving ? 'Saving...' : 'Add note'}
+                </button>
+            </form>
+            {formError && <div style={styles.error}>{formError}</div>}
+        </div>
+    );
+};
+
+export default AdminOrderNotes;
@@ -0,0 +1,226 @@
+/**
+ * Admin Order Returns Component
+ *
+ * Staff handling of return requests: approve or reject what the customer
+ * asked for, mark the parcel received, then refund it (which restocks the
+ * items). Shows one order's returns, or every return still waiting on staff
+ * when no order is given.
+ *
+ * @fileoverview Staff processing of return (RMA) requests
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../context/AuthContext';
+import {
+    getOpenReturns,
+    getOrderReturns,
+    updateReturnStatus,
+    RETURN_STATUS_TRANSITIONS,
+    ReturnRequest,
+    ReturnStatus
+} from '../../utils/returnApi';
+
+interface AdminOrderReturnsProps {
+    orderId?: string;               // Omit to list every open return
+}
+
+const ACTION_LABELS: Record<ReturnStatus, string> = {
+    requested: 'Requested',
+    approved: 'Approve',
+    received: 'Mark received',
+    refunded: 'Refund',
+    rejected: 'Reject'
+};
+
+const styles = {
+    container: {
+        padding: '12px 16px',
+        backgroundColor: '#fafafa',
+        borderTop: '1px solid #eee'
+    },
+    returnCard: {
+        padding: '10px 0',
+        borderBottom: '1px solid #eee',
+        fontSize: '14px',
+        color: '#333'
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '4px'
+    },
+    meta: {
+        color: '#888',
+        fontSize: '12px'
+    },
+    statusBadge: {
+        padding: '3px 10px',
+        borderRadius: '20px',
+        fontSize: '12px',
+        fontWeight: 'bold',
+        textTransform: 'uppercase' as const
+    },
+    actions: {
+        display: 'flex',
+        gap: '8px',
+        alignItems: 'center',
+        flexWrap: 'wrap' as const,
+        marginTop: '8px'
+    },
+    input: {
+        flex: 1,
+        minWidth: '160px',
+        padding: '6px 8px',
+        border: '1px solid #ddd',
+        borderRadius: '4px'
+    },
+    button: {
+        padding: '6px 12px',
+        backgroundColor: '#1976d2',
+        color: 'white',
+        border: 'none',
+        borderRadius: '4px',
+        cursor: 'pointer'
+    },
+    rejectButton: {
+        padding: '6px 12px',
+        backgroundColor: 'white',
+        color: '#d32f2f',
+        border: '1px solid #d32f2f',
+        borderRadius: '4px',
+        cursor: 'pointer'
+    },
+    error: {
+        color: '#d32f2f',
+        fontSize: '13px',
+        marginTop: '6px'
+    }
+};
+
+/**
+ * Returns styling for return status badges
+ */
+const getReturnBadgeStyle = (status: ReturnStatus) => {
+    switch (status) {
+        case 'requested':
+            return { ...styles.statusBadge, backgroundColor: '#fff3e0', color: '#ef6c00' };
+        case 'approved':
+            return { ...styles.statusBadge, backgroundColor: '#e3f2fd', color: '#1976d2' };
+        case 'received':
+            return { ...styles.statusBadge, backgroundColor: '#f3e5f5', color: '#7b1fa2' };
+        case 'refunded':
+            return { ...styles.statusBadge, backgroundColor: '#e8f5e8', color: '#2e7d32' };
+        case 'rejected':
+            return { ...styles.statusBadge, backgroundColor: '#ffebee', color: '#d32f2f' };
+        default:
+            return { ...styles.statusBadge, backgroundColor: '#f5f5f5', color: '#666' };
+    }
+};
+
+const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+/**
+ * AdminOrderReturns component - lists returns and moves them to their next status
+ */
+const AdminOrderReturns: React.FC<AdminOrderReturnsProps> = ({ orderId }) => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const { data: returns = [], isLoading, isError } = useQuery<ReturnRequest[], Error>({
+        queryKey: orderId ? ['orderReturns', orderId] : ['openReturns'],
+        queryFn: () => (orderId ? getOrderReturns(orderId) : getOpenReturns())
+    });
+
+    const handleStatusChange = async (returnRequest: ReturnRequest, status: ReturnStatus) => {
+        setUpdatingId(returnRequest.returnId);
+        setActionError(null);
+        try {
+            await updateReturnStatus(returnRequest.returnId, status, {
+                actorUid: user?.uid,
+                note: notes[returnRequest.returnId]
+            });
+            setNotes(previous => {
+                const next = { ...previous };
+                delete next[returnRequest.returnId];
+                return next;
+            });
+            // The order list and the other returns view show the same returns
+            await Promise.all(
+                [['orderReturns'], ['openReturns'], ['adminOrders']]
+                    .map(queryKey => queryClient.invalidateQueries({ queryKey }))
+            );
+        } catch (err) {
+            setActionError(`#${returnRequest.returnId}: ${err instanceof Error ? err.message : 'Failed to update return'}`);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    return (
+        <div style={styles.container}>
+            {isLoading && <div style={styles.meta}>Loading returns...</div>}
+            {isError && <div style={styles.error}>Failed to load returns.</div>}
+            {!isLoading && !isError && returns.length === 0 && (
+                <div style={styles.meta}>{orderId ? 'No returns on this order.' : 'No returns waiting on staff.'}</div>
+            )}
+            {returns.map(returnRequest => {
+                const nextStatuses = RETURN_STATUS_TRANSITIONS[returnRequest.status] ?? [];
+                const updating = updatingId === returnRequest.returnId;
+                return (
+                    <div key={returnRequest.returnId} style={styles.returnCard}>
+                        <div style={styles.header}>
+                            <strong>
+                                {returnRequest.returnId}
+                                {!orderId && <span style={styles.meta}> · order #{returnRequest.orderId}</span>}
+                            </strong>
+                            <span style={getReturnBadgeStyle(returnRequest.status)}>{returnRequest.status}</span>
+                        </div>
+                        <div>
+                            {returnRequest.items.map(item =>
+                                `${item.name}${item.variantLabel ? ` (${item.variantLabel})` : ''} × ${item.quantity}`
+                            ).join(', ')}
+                        </div>
+                        <div style={styles.meta}>
+                            Refund {formatCurrency(returnRequest.refundAmount)} · Reason: {returnRequest.reason} ·
+                            Requested {returnRequest.createdAt.toLocaleString()}
+                        </div>
+                        {nextStatuses.length > 0 && (
+                            <div style={styles.actions}>
+                                <input
+                                    type="text"
+                                    value={notes[returnRequest.returnId] ?? ''}
+                                    onChange={e => setNotes({ ...notes, [returnRequest.returnId]: e.target.value })}
+                                    placeholder="Note for the status history (optional)"
+                                    aria-label={`Note for return ${returnRequest.returnId}`}
+                                    maxLength={500}
+                                    style={styles.input}
+                                />
+                                {nextStatuses.map(status => (
+                                    <button
+                                        key={status}
+                                        type="button"
+                                        onClick={() => handleStatusChange(returnRequest, status)}
+                                        disabled={updating}
+                                        style={status === 'rejected' ? styles.rejectButton : styles.button}
+                                    >
+                                        {ACTION_LABELS[status]}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            {actionError && <div style={styles.error} role="alert">{actionError}</div>}
+        </div>
+    );
+};
+
+export default AdminOrderReturns;
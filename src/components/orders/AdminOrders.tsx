@@ -0,0 +1,443 @@
+/**
+ * Admin Orders Component
+ *
+ * The staff view of every customer's orders: filter by status, date range,
+ * customer email and total, move several orders to a new status at once,
+ * keep internal notes, handle return requests, and open a printable packing
+ * slip.
+ *
+ * @fileoverview Staff order management dashboard
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../context/AuthContext';
+import {
+    getOrdersPage,
+    updateOrderStatuses,
+    BulkStatusUpdateResult,
+    Order,
+    OrderFilters,
+    OrderPage
+} from '../../utils/orderApi';
+import { getUserProfile } from '../../utils/userApi';
+import AdminOrderNotes from './AdminOrderNotes';
+import AdminOrderReturns from './AdminOrderReturns';
+
+const ORDER_STATUSES: Order['status'][] = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'];
+
+// Cancelling puts the order's stock back (see updateOrderStatus)
+const BULK_TARGET_STATUSES: Order['status'][] = ['confirmed', 'shipped', 'delivered', 'cancelled'];
+
+const styles = {
+    filters: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+        gap: '10px',
+        alignItems: 'end',
+        marginBottom: '20px'
+    },
+    label: {
+        display: 'flex',
+        flexDirection: 'column' as const,
+        gap: '4px',
+        fontSize: '13px',
+        color: '#555'
+    },
+    input: {
+        padding: '8px',
+        border: '1px solid #ddd',
+        borderRadius: '4px'
+    },
+    button: {
+        padding: '8px 14px',
+        backgroundColor: '#1976d2',
+        color: 'white',
+        border: 'none',
+        borderRadius: '4px',
+        cursor: 'pointer'
+    },
+    secondaryButton: {
+        padding: '6px 10px',
+        backgroundColor: '#f5f5f5',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontSize: '13px'
+    },
+    bulkBar: {
+        display: 'flex',
+        gap: '10px',
+        alignItems: 'center',
+        flexWrap: 'wrap' as const,
+        padding: '10px',
+        marginBottom: '10px',
+        backgroundColor: '#e3f2fd',
+        borderRadius: '6px'
+    },
+    table: {
+        width: '100%',
+        borderCollapse: 'collapse' as const,
+        fontSize: '14px'
+    },
+    cell: {
+        padding: '10px 8px',
+        borderBottom: '1px solid #eee',
+        textAlign: 'left' as const,
+        verticalAlign: 'top' as const
+    },
+    statusBadge: {
+        padding: '3px 10px',
+        borderRadius: '20px',
+        fontSize: '12px',
+        fontWeight: 'bold',
+        textTransform: 'uppercase' as const
+    },
+    message: {
+        padding: '10px',
+        borderRadius: '4px',
+        marginBottom: '10px',
+        fontSize: '14px'
+    },
+    empty: {
+        textAlign: 'center' as const,
+        padding: '30px',
+        color: '#666'
+    },
+    returnsQueue: {
+        marginBottom: '20px',
+        border: '1px solid #eee',
+        borderRadius: '6px',
+        overflow: 'hidden' as const
+    },
+    returnsQueueTitle: {
+        margin: 0,
+        padding: '10px 16px',
+        fontSize: '15px',
+        color: '#333',
+        backgroundColor: '#f5f5f5'
+    }
+};
+
+/**
+ * Returns styling for order status badges
+ */
+const getStatusBadgeStyle = (status: Order['status']) => {
+    switch (status) {
+        case 'pending':
+            return { ...styles.statusBadge, backgroundColor: '#fff3e0', color: '#ef6c00' };
+        case 'confirmed':
+            return { ...styles.statusBadge, backgroundColor: '#e3f2fd', color: '#1976d2' };
+        case 'shipped':
+            return { ...styles.statusBadge, backgroundColor: '#f3e5f5', color: '#7b1fa2' };
+        case 'delivered':
+            return { ...styles.statusBadge, backgroundColor: '#e8f5e8', color: '#2e7d32' };
+        case 'cancelled':
+            return { ...styles.statusBadge, backgroundColor: '#ffebee', color: '#d32f2f' };
+        default:
+            return { ...styles.statusBadge, backgroundColor: '#f5f5f5', color: '#666' };
+    }
+};
+
+const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+interface FilterForm {
+    status: Order['status'] | '';
+    from: string;
+    to: string;
+    customerEmail: string;
+    minTotal: string;
+    maxTotal: string;
+}
+
+const EMPTY_FILTER_FORM: FilterForm = { status: '', from: '', to: '', customerEmail: '', minTotal: '', maxTotal: '' };
+
+/**
+ * Turns the form's text fields into OrderFilters; dates cover the whole chosen day
+ */
+const toOrderFilters = (form: FilterForm): OrderFilters => ({
+    ...(form.status ? { status: form.status } : {}),
+    ...(form.from ? { from: new Date(`${form.from}T00:00:00`) } : {}),
+    ...(form.to ? { to: new Date(`${form.to}T23:59:59.999`) } : {}),
+    ...(form.customerEmail.trim() ? { customerEmail: form.customerEmail.trim() } : {}),
+    ...(form.minTotal !== '' ? { minTotal: Number(form.minTotal) } : {}),
+    ...(form.maxTotal !== '' ? { maxTotal: Number(form.maxTotal) } : {})
+});
+
+/**
+ * AdminOrders component - filterable list of all orders with bulk actions
+ */
+const AdminOrders: React.FC = () => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const [form, setForm] = useState<FilterForm>(EMPTY_FILTER_FORM);
+    const [filters, setFilters] = useState<FilterForm>(EMPTY_FILTER_FORM);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [bulkStatus, setBulkStatus] = useState<Order['status']>('confirmed');
+    const [updating, setUpdating] = useState(false);
+    const [bulkResult, setBulkResult] = useState<BulkStatusUpdateResult | null>(null);
+    const [bulkError, setBulkError] = useState<string | null>(null);
+    const [openNotes, setOpenNotes] = useState<string | null>(null);
+    const [openReturns, setOpenReturns] = useState<string | null>(null);
+
+    // Changing the filters starts again from the first page
+    const {
+        data,
+        isLoading,
+        isError,
+        error,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage
+    } = useInfiniteQuery({
+        queryKey: ['adminOrders', filters],
+        queryFn: ({ pageParam }) => getOrdersPage(toOrderFilters(filters), { cursor: pageParam }),
+        initialPageParam: null as OrderPage['nextCursor'],
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined
+    });
+
+    const orders = data?.pages.flatMap(page => page.orders) ?? [];
+    const customerIds = [...new Set(orders.map(order => order.userId))].sort();
+
+    // Orders only store the customer's ID, so look up their emails for display
+    const { data: customerEmails = {} } = useQuery<Record<string, string>, Error>({
+        queryKey: ['orderCustomers', customerIds],
+        queryFn: async () => {
+            const profiles = await Promise.all(customerIds.map(uid => getUserProfile(uid).catch(() => null)));
+            return Object.fromEntries(profiles.flatMap(profile => (profile ? [[profile.uid, profile.email]] : [])));
+        },
+        enabled: customerIds.length > 0,
+        staleTime: 5 * 60 * 1000
+    });
+
+    const updateForm = (field: keyof FilterForm) =>
+        (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm({ ...form, [field]: e.target.value });
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setFilters(form);
+        setSelected(new Set());
+    };
+
+    const handleReset = () => {
+        setForm(EMPTY_FILTER_FORM);
+        setFilters(EMPTY_FILTER_FORM);
+        setSelected(new Set());
+    };
+
+    const toggleSelected = (orderId: string) => {
+        const next = new Set(selected);
+        if (next.has(orderId)) {
+            next.delete(orderId);
+        } else {
+            next.add(orderId);
+        }
+        setSelected(next);
+    };
+
+    const allSelected = orders.length > 0 && orders.every(order => selected.has(order.orderId));
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(orders.map(order => order.orderId)));
+    };
+
+    const handleBulkUpdate = async () => {
+        setUpdating(true);
+        setBulkResult(null);
+        setBulkError(null);
+        try {
+            const result = await updateOrderStatuses([...selected], bulkStatus, { actorUid: user?.uid });
+            setBulkResult(result);
+            setSelected(new Set(result.failed.map(failure => failure.orderId)));
+            await queryClient.invalidateQueries({ queryKey: ['adminOrders'] });
+        } catch (err) {
+            setBulkError(err instanceof Error ? err.message : 'Failed to update orders');
+        } finally {
+            setUpdating(false);
+        }
+    };
+
+    return (
+        <div>
+            <section style={styles.returnsQueue} aria-label="Returns waiting on staff">
+                <h3 style={styles.returnsQueueTitle}>↩️ Returns waiting on staff</h3>
+                <AdminOrderReturns />
+            </section>
+
+            <form onSubmit={handleSearch} style={styles.filters} aria-label="Order filters">
+                <label style={styles.label}>
+                    Status
+                    <select value={form.status} onChange={updateForm('status')} style={styles.input}>
+                        <option value="">All statuses</option>
+                        {ORDER_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                    </select>
+                </label>
+                <label style={styles.label}>
+                    Placed from
+                    <input type="date" value={form.from} onChange={updateForm('from')} style={styles.input} />
+                </label>
+                <label style={styles.label}>
+                    Placed to
+                    <input type="date" value={form.to} onChange={updateForm('to')} style={styles.input} />
+                </label>
+                <label style={styles.label}>
+                    Customer email
+                    <input type="email" value={form.customerEmail} onChange={updateForm('customerEmail')} style={styles.input} />
+                </label>
+                <label style={styles.label}>
+                    Min total
+                    <input type="number" min="0" step="0.01" value={form.minTotal} onChange={updateForm('minTotal')} style={styles.input} />
+                </label>
+                <label style={styles.label}>
+                    Max total
+                    <input type="number" min="0" step="0.01" value={form.maxTotal} onChange={updateForm('maxTotal')} style={styles.input} />
+                </label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button type="submit" style={styles.button}>Search</button>
+                    <button type="button" onClick={handleReset} style={styles.secondaryButton}>Reset</button>
+                </div>
+            </form>
+
+            {selected.size > 0 && (
+                <div style={styles.bulkBar}>
+                    <strong>{selected.size} selected</strong>
+                    <label>
+                        Move to{' '}
+                        <select value={bulkStatus} onChange={e => setBulkStatus(e.target.value as Order['status'])} style={styles.input}>
+                            {BULK_TARGET_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                        </select>
+                    </label>
+                    <button type="button" onClick={handleBulkUpdate} disabled={updating} style={styles.button}>
+                        {updating ? 'Updating...' : 'Update status'}
+                    </button>
+                </div>
+            )}
+
+            {bulkResult && (
+                <div
+                    role="status"
+                    style={{
+                        ...styles.message,
+                        backgroundColor: bulkResult.failed.length ? '#fff3e0' : '#e8f5e8'
+                    }}
+                >
+                    Updated {bulkResult.updated.length} order(s).
+                    {bulkResult.failed.length > 0 && (
+                        <ul style={{ margin: '6px 0 0', paddingLeft: '20px' }}>
+                            {bulkResult.failed.map(({ orderId, error: failure }) => (
+                                <li key={orderId}>#{orderId}: {failure.message}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+            {bulkError && (
+                <div role="alert" style={{ ...styles.message, backgroundColor: '#ffebee', color: '#d32f2f' }}>{bulkError}</div>
+            )}
+
+            {isLoading && <div style={styles.empty}>Loading orders...</div>}
+            {isError && (
+                <div role="alert" style={{ ...styles.message, backgroundColor: '#ffebee', color: '#d32f2f' }}>
+                    Failed to load orders: {error.message}
+                </div>
+            )}
+            {!isLoading && !isError && orders.length === 0 && (
+                <div style={styles.empty}>No orders match these filters.</div>
+            )}
+
+            {orders.length > 0 && (
+                <table style={styles.table}>
+                    <thead>
+                        <tr>
+                            <th style={styles.cell}>
+                                <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all orders" />
+                            </th>
+                            <th style={styles.cell}>Order</th>
+                            <th style={styles.cell}>Placed</th>
+                            <th style={styles.cell}>Customer</th>
+                            <th style={styles.cell}>Items</th>
+                            <th style={styles.cell}>Total</th>
+                            <th style={styles.cell}>Status</th>
+                            <th style={styles.cell}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {orders.map(order => (
+                            <React.Fragment key={order.orderId}>
+                                <tr>
+                                    <td style={styles.cell}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(order.orderId)}
+                                            onChange={() => toggleSelected(order.orderId)}
+                                            aria-label={`Select order ${order.orderId}`}
+                                        />
+                                    </td>
+                                    <td style={styles.cell}>#{order.orderId}</td>
+                                    <td style={styles.cell}>{order.createdAt.toLocaleString()}</td>
+                                    <td style={styles.cell}>{customerEmails[order.userId] ?? order.userId}</td>
+                                    <td style={styles.cell}>{order.products.reduce((sum, item) => sum + item.quantity, 0)}</td>
+                                    <td style={styles.cell}>{formatCurrency(order.totalPrice)}</td>
+                                    <td style={styles.cell}>
+                                        <span style={getStatusBadgeStyle(order.status)}>{order.status}</span>
+                                    </td>
+                                    <td style={{ ...styles.cell, whiteSpace: 'nowrap' }}>
+                                        <button
+                                            type="button"
+                                            onClick={() => setOpenNotes(openNotes === order.orderId ? null : order.orderId)}
+                                            style={styles.secondaryButton}
+                                        >
+                                            📝 Notes
+                                        </button>{' '}
+                                        <button
+                                            type="button"
+                                            onClick={() => setOpenReturns(openReturns === order.orderId ? null : order.orderId)}
+                                            style={styles.secondaryButton}
+                                        >
+                                            ↩️ Returns
+                                        </button>{' '}
+                                        <Link
+                                            to={`/admin/orders/${order.orderId}/packing-slip`}
+                                            target="_blank"
+                                            style={{ ...styles.secondaryButton, textDecoration: 'none', color: '#333' }}
+                                        >
+                                            🖨️ Packing slip
+                                        </Link>
+                                    </td>
+                                </tr>
+                                {openNotes === order.orderId && (
+                                    <tr>
+                                        <td colSpan={8} style={{ padding: 0 }}>
+                                            <AdminOrderNotes orderId={order.orderId} />
+                                        </td>
+                                    </tr>
+                                )}
+                                {openReturns === order.orderId && (
+                                    <tr>
+                                        <td colSpan={8} style={{ padding: 0 }}>
+                                            <AdminOrderReturns orderId={order.orderId} />
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {hasNextPage && (
+                <div style={{ textAlign: 'center', marginTop: '15px' }}>
+                    <button type="button" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} style={styles.button}>
+                        {isFetchingNextPage ? 'Loading...' : 'Load more orders'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminOrders;
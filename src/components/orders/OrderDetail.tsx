@@ -10,8 +10,12 @@
  * @version 1.0.0
  */
 
-import React, { useState, useEffect } from 'react';
-import { getOrder, Order } from '../../utils/orderApi';
+import React, { useState, useEffect, useContext } from 'react';
+import { AuthContext } from '../../context/AuthContext';
+import { getOrder, cancelOrder, isOrderCancellable, Order } from '../../utils/orderApi';
+import { getExistingProductIds } from '../../utils/productApi';
+import OrderReturns from './OrderReturns';
+import OrderItemLine from './OrderItemLine';
 
 /**
  * Props for the OrderDetail component
@@ -95,30 +99,63 @@ const styles = {
         borderBottom: '1px solid #f0f0f0',
         paddingBottom: '10px'
     },
-    productItem: {
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-        padding: '15px 0',
-        borderBottom: '1px solid #f0f0f0'
+    timeline: {
+        listStyle: 'none',
+        margin: 0,
+        padding: 0,
+        borderLeft: '2px solid #e0e0e0'
     },
-    productInfo: {
-        flex: 1
+    timelineEntry: {
+        position: 'relative' as const,
+        padding: '0 0 20px 20px'
     },
-    productName: {
-        fontWeight: 'bold',
-        color: '#333',
-        fontSize: '16px',
-        marginBottom: '4px'
+    timelineDot: {
+        position: 'absolute' as const,
+        left: '-7px',
+        top: '4px',
+        width: '12px',
+        height: '12px',
+        borderRadius: '50%',
+        backgroundColor: '#1976d2'
     },
-    productDetails: {
+    timelineMeta: {
         color: '#666',
-        fontSize: '14px'
+        fontSize: '13px',
+        marginTop: '4px'
     },
-    productPrice: {
-        fontWeight: 'bold',
+    timelineNote: {
         color: '#333',
-        fontSize: '16px'
+        fontSize: '14px',
+        marginTop: '6px',
+        fontStyle: 'italic'
+    },
+    cancelSection: {
+        marginBottom: '30px',
+        padding: '20px',
+        border: '1px solid #ffcdd2',
+        borderRadius: '8px',
+        backgroundColor: '#fff8f8'
+    },
+    cancelButton: {
+        padding: '10px 20px',
+        backgroundColor: '#d32f2f',
+        color: 'white',
+        border: 'none',
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontSize: '14px',
+        fontWeight: 'bold'
+    },
+    textarea: {
+        width: '100%',
+        padding: '12px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '14px',
+        minHeight: '70px',
+        resize: 'vertical' as const,
+        boxSizing: 'border-box' as const,
+        margin: '10px 0'
     },
     totalSection: {
         backgroundColor: '#f8f9fa',
@@ -189,6 +226,9 @@ const getStatusBadgeStyle = (status: Order['status']) => {
  * - Complete product listing with prices
  * - Total amount calculation
  * - Shipping address information
+ * - Status change timeline
+ * - Customer cancellation (with confirmation) while the order hasn't shipped
+ * - Return requests and refunds once the order is delivered
  * - Loading and error states
  * 
  * @component
@@ -217,6 +257,17 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
     const [order, setOrder] = useState<Order | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string>('');
+    const [existingProductIds, setExistingProductIds] = useState<Set<string>>(new Set());
+    
+    // Cancellation state
+    const [showCancelConfirm, setShowCancelConfirm] = useState<boolean>(false);
+    const [cancelReason, setCancelReason] = useState<string>('');
+    const [cancelling, setCancelling] = useState<boolean>(false);
+    const [cancelError, setCancelError] = useState<string>('');
+    
+    // Get current user from authentication context
+    const authContext = useContext(AuthContext);
+    const user = authContext?.user;
 
     /**
      * Fetches order details from Firebase
@@ -231,6 +282,11 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
             
             if (!orderData) {
                 setError('Order not found');
+            } else {
+                // Lines render from their snapshots either way; this only decides which link to the product
+                getExistingProductIds(orderData.products.map(item => item.productId))
+                    .then(setExistingProductIds)
+                    .catch(() => setExistingProductIds(new Set()));
             }
         } catch (err) {
             console.error('Error fetching order detail:', err);
@@ -249,6 +305,29 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
         }
     }, [orderId]);
 
+    /**
+     * Cancels the order after the customer confirms, then reloads it
+     */
+    const handleCancelOrder = async () => {
+        if (!order) return;
+        
+        try {
+            setCancelling(true);
+            setCancelError('');
+            
+            await cancelOrder(order.orderId, cancelReason);
+            
+            setShowCancelConfirm(false);
+            setCancelReason('');
+            await fetchOrderDetail();
+        } catch (err) {
+            console.error('Error cancelling order:', err);
+            setCancelError(err instanceof Error ? err.message : 'Failed to cancel order. Please try again.');
+        } finally {
+            setCancelling(false);
+        }
+    };
+
     /**
      * Formats a date object to a user-friendly string
      */
@@ -272,6 +351,14 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
         }).format(amount);
     };
 
+    /**
+     * Describes who made a status change without exposing raw user IDs
+     */
+    const getActorLabel = (actorUid: string | null): string => {
+        if (!actorUid) return 'System';
+        return order && actorUid === order.userId ? 'You' : 'Store staff';
+    };
+
     /**
      * Calculates subtotal before any taxes or fees
      */
@@ -366,21 +453,105 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
             <div style={styles.section}>
                 <h3 style={styles.sectionTitle}>Items Ordered ({order.products.length} items)</h3>
                 {order.products.map((product, index) => (
-                    <div key={`${product.productId}_${index}`} style={styles.productItem}>
-                        <div style={styles.productInfo}>
-                            <div style={styles.productName}>{product.name}</div>
-                            <div style={styles.productDetails}>
-                                Product ID: {product.productId}<br />
-                                Unit Price: {formatCurrency(product.price)} × {product.quantity}
-                            </div>
-                        </div>
-                        <div style={styles.productPrice}>
-                            {formatCurrency(product.price * product.quantity)}
-                        </div>
-                    </div>
+                    <OrderItemLine
+                        key={`${product.productId}_${index}`}
+                        item={product}
+                        productExists={existingProductIds.has(product.productId)}
+                        detailed
+                    />
                 ))}
             </div>
 
+            {/* Cancellation */}
+            {user && user.uid === order.userId && isOrderCancellable(order.status) && (
+                <div style={styles.cancelSection}>
+                    {!showCancelConfirm ? (
+                        <button style={styles.cancelButton} onClick={() => setShowCancelConfirm(true)}>
+                            Cancel Order
+                        </button>
+                    ) : (
+                        <>
+                            <strong>Cancel this order?</strong>
+                            <p style={{ margin: '8px 0 0', color: '#666', fontSize: '14px' }}>
+                                Items will be returned to stock. This can't be undone.
+                            </p>
+                            <textarea
+                                style={styles.textarea}
+                                value={cancelReason}
+                                onChange={(e) => setCancelReason(e.target.value)}
+                                placeholder="Why are you cancelling? (required)"
+                                aria-label="Cancellation reason"
+                            />
+                            {cancelError && (
+                                <div style={{ ...styles.error, marginBottom: '10px' }}>{cancelError}</div>
+                            )}
+                            <button
+                                style={{ ...styles.backButton, marginRight: '10px' }}
+                                onClick={() => {
+                                    setShowCancelConfirm(false);
+                                    setCancelError('');
+                                }}
+                                disabled={cancelling}
+                            >
+                                Keep Order
+                            </button>
+                            <button
+                                style={{
+                                    ...styles.cancelButton,
+                                    ...(cancelling || !cancelReason.trim() ? { opacity: 0.5, cursor: 'not-allowed' } : {})
+                                }}
+                                onClick={handleCancelOrder}
+                                disabled={cancelling || !cancelReason.trim()}
+                            >
+                                {cancelling ? 'Cancelling...' : 'Confirm Cancellation'}
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {order.status === 'cancelled' && order.cancellationReason && (
+                <div style={styles.section}>
+                    <h3 style={styles.sectionTitle}>Cancellation</h3>
+                    <p style={{ margin: 0, color: '#333', fontSize: '16px' }}>
+                        {order.cancelledAt && <>Cancelled on {formatDate(order.cancelledAt)}<br /></>}
+                        <strong>Reason:</strong> {order.cancellationReason}
+                    </p>
+                </div>
+            )}
+
+            {/* Returns */}
+            <OrderReturns
+                order={order}
+                canRequest={!!user && user.uid === order.userId}
+                onReturnRequested={fetchOrderDetail}
+            />
+
+            {/* Status Timeline */}
+            {order.statusHistory && order.statusHistory.length > 0 && (
+                <div style={styles.section}>
+                    <h3 style={styles.sectionTitle}>Status History</h3>
+                    <ol style={styles.timeline}>
+                        {order.statusHistory.map((change, index) => (
+                            <li key={`${change.to}_${index}`} style={styles.timelineEntry}>
+                                <span style={styles.timelineDot} />
+                                <div>
+                                    <span style={getStatusBadgeStyle(change.from)}>{change.from}</span>
+                                    {' → '}
+                                    <span style={getStatusBadgeStyle(change.to)}>{change.to}</span>
+                                </div>
+                                <div style={styles.timelineMeta}>
+                                    {formatDate(change.at)} · {getActorLabel(change.actorUid)}
+                                </div>
+                                {change.note && (
+                                    <div style={styles.timelineNote}>{change.note}</div>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
             {/* Shipping Information */}
             <div style={styles.section}>
                 <h3 style={styles.sectionTitle}>Shipping Information</h3>
@@ -406,6 +577,18 @@ const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, onBack }) => {
                     <span>Total:</span>
                     <span>{formatCurrency(order.totalPrice)}</span>
                 </div>
+                {!!order.refundedTotal && (
+                    <>
+                        <div style={{ ...styles.totalRow, marginTop: '8px', color: '#d32f2f' }}>
+                            <span>Refunded:</span>
+                            <span>−{formatCurrency(order.refundedTotal)}</span>
+                        </div>
+                        <div style={styles.totalRow}>
+                            <span>Net Paid:</span>
+                            <span>{formatCurrency(order.totalPrice - order.refundedTotal)}</span>
+                        </div>
+                    </>
+                )}
             </div>
         </div>
     );
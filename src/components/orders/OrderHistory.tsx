@@ -11,8 +11,11 @@
  */
 
 import React, { useState, useEffect, useContext } from 'react';
+import { Link } from 'react-router-dom';
 import { AuthContext } from '../../context/AuthContext';
 import { getUserOrders, Order } from '../../utils/orderApi';
+import { getExistingProductIds } from '../../utils/productApi';
+import OrderItemLine from './OrderItemLine';
 
 /**
  * Styling for the order history interface
@@ -67,24 +70,6 @@ const styles = {
     productList: {
         marginBottom: '15px'
     },
-    productItem: {
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-        padding: '8px 0',
-        borderBottom: '1px solid #f0f0f0'
-    },
-    productInfo: {
-        flex: 1
-    },
-    productName: {
-        fontWeight: 'bold',
-        color: '#333'
-    },
-    productDetails: {
-        color: '#666',
-        fontSize: '14px'
-    },
     totalPrice: {
         fontSize: '18px',
         fontWeight: 'bold',
@@ -177,6 +162,7 @@ const OrderHistory: React.FC = () => {
     const [orders, setOrders] = useState<Order[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string>('');
+    const [existingProductIds, setExistingProductIds] = useState<Set<string>>(new Set());
     
     // Get current user from authentication context
     const authContext = useContext(AuthContext);
@@ -199,6 +185,10 @@ const OrderHistory: React.FC = () => {
             
             const userOrders = await getUserOrders(user.uid);
             setOrders(userOrders);
+            // Only decides which lines link to their product; a failed lookup just leaves the links out
+            getExistingProductIds(userOrders.flatMap(order => order.products.map(item => item.productId)))
+                .then(setExistingProductIds)
+                .catch(() => setExistingProductIds(new Set()));
         } catch (err) {
             console.error('Error fetching order history:', err);
             setError('Failed to load order history. Please try again.');
@@ -313,17 +303,11 @@ const OrderHistory: React.FC = () => {
                     <div style={styles.productList}>
                         <h4 style={{ margin: '0 0 10px 0', color: '#333' }}>Items Ordered:</h4>
                         {order.products.map((product, index) => (
-                            <div key={`${product.productId}_${index}`} style={styles.productItem}>
-                                <div style={styles.productInfo}>
-                                    <div style={styles.productName}>{product.name}</div>
-                                    <div style={styles.productDetails}>
-                                        Quantity: {product.quantity} × {formatCurrency(product.price)}
-                                    </div>
-                                </div>
-                                <div style={{ fontWeight: 'bold', color: '#333' }}>
-                                    {formatCurrency(product.price * product.quantity)}
-                                </div>
-                            </div>
+                            <OrderItemLine
+                                key={`${product.productId}_${index}`}
+                                item={product}
+                                productExists={existingProductIds.has(product.productId)}
+                            />
                         ))}
                     </div>
 
@@ -335,6 +319,13 @@ const OrderHistory: React.FC = () => {
                     <div style={styles.shippingAddress}>
                         <strong>Shipping to:</strong> {order.shippingAddress}
                     </div>
+
+                    <Link
+                        to={`/orders/${order.orderId}`}
+                        style={{ display: 'inline-block', marginTop: '10px', color: '#1976d2', fontWeight: 'bold' }}
+                    >
+                        View order details →
+                    </Link>
                 </div>
             ))}
         </div>
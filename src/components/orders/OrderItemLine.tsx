@@ -0,0 +1,101 @@
+/**
+ * Order Item Line Component
+ *
+ * One line of an order, shown as the product was when it was bought (from
+ * the line's snapshot), so renaming, repricing or purging the product later
+ * doesn't change order history. Links to the live product only while it
+ * still exists.
+ *
+ * @fileoverview Order line rendered from its purchase-time product snapshot
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { getItemSnapshot, OrderItem } from '../../utils/orderApi';
+
+interface OrderItemLineProps {
+    item: OrderItem;
+    productExists: boolean;         // False once the product is purged (or while unknown)
+    detailed?: boolean;             // Also show SKU, category and brand
+}
+
+const styles = {
+    line: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '10px 0',
+        borderBottom: '1px solid #f0f0f0'
+    },
+    image: {
+        width: '56px',
+        height: '56px',
+        objectFit: 'contain' as const,
+        flexShrink: 0
+    },
+    info: {
+        flex: 1
+    },
+    title: {
+        fontWeight: 'bold',
+        color: '#333'
+    },
+    link: {
+        color: '#1976d2',
+        textDecoration: 'none'
+    },
+    details: {
+        color: '#666',
+        fontSize: '14px'
+    },
+    total: {
+        fontWeight: 'bold',
+        color: '#333'
+    }
+};
+
+const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD'
+    }).format(amount);
+};
+
+/**
+ * OrderItemLine component - image, title, variant and price of one order line
+ */
+const OrderItemLine: React.FC<OrderItemLineProps> = ({ item, productExists, detailed = false }) => {
+    const snapshot = getItemSnapshot(item);
+    const facts = detailed
+        ? [
+            snapshot.sku && `SKU: ${snapshot.sku}`,
+            snapshot.category && `Category: ${snapshot.category}`,
+            snapshot.brand && `Brand: ${snapshot.brand}`
+        ].filter(Boolean)
+        : [];
+
+    return (
+        <div style={styles.line}>
+            {snapshot.image && <img src={snapshot.image} alt="" style={styles.image} />}
+            <div style={styles.info}>
+                <div style={styles.title}>
+                    {productExists
+                        ? <Link to={`/products/${item.productId}`} style={styles.link}>{snapshot.title}</Link>
+                        : snapshot.title}
+                    {snapshot.variantLabel ? ` (${snapshot.variantLabel})` : ''}
+                </div>
+                <div style={styles.details}>
+                    {facts.length > 0 && <>{facts.join(' · ')}<br /></>}
+                    Quantity: {item.quantity} × {formatCurrency(snapshot.unitPrice)}
+                    {!productExists && <><br />No longer in the catalog</>}
+                </div>
+            </div>
+            <div style={styles.total}>
+                {formatCurrency(snapshot.unitPrice * item.quantity)}
+            </div>
+        </div>
+    );
+};
+
+export default OrderItemLine;
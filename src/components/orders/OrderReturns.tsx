@@ -0,0 +1,332 @@
+/**
+ * Order Returns Component
+ *
+ * Shows the return requests raised against an order and, for the customer who
+ * placed a delivered order, a form to pick the items and quantities to send
+ * back along with a reason.
+ *
+ * @fileoverview Return (RMA) requests for a single order
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Order } from '../../utils/orderApi';
+import {
+    createReturnRequest,
+    getOrderReturns,
+    getReturnableQuantities,
+    ReturnRequest,
+    ReturnStatus
+} from '../../utils/returnApi';
+import { getLineKey } from '../../utils/productVariants';
+
+/**
+ * Props for the OrderReturns component
+ */
+interface OrderReturnsProps {
+    /** The order whose returns to show */
+    order: Order;
+    /** Whether the signed-in user may request a return on this order */
+    canRequest: boolean;
+    /** Called after a return is requested so the parent can reload the order */
+    onReturnRequested?: () => void;
+}
+
+/**
+ * Styling for the returns interface
+ */
+const styles = {
+    section: {
+        marginBottom: '30px',
+        padding: '20px',
+        border: '1px solid #ddd',
+        borderRadius: '8px',
+        backgroundColor: '#fff'
+    },
+    sectionTitle: {
+        color: '#333',
+        marginBottom: '20px',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        borderBottom: '1px solid #f0f0f0',
+        paddingBottom: '10px'
+    },
+    returnCard: {
+        padding: '15px 0',
+        borderBottom: '1px solid #f0f0f0'
+    },
+    returnHeader: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '8px'
+    },
+    statusBadge: {
+        padding: '4px 10px',
+        borderRadius: '20px',
+        fontSize: '12px',
+        fontWeight: 'bold',
+        textTransform: 'uppercase' as const,
+        display: 'inline-block'
+    },
+    details: {
+        color: '#666',
+        fontSize: '14px'
+    },
+    selectRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '10px 0',
+        borderBottom: '1px solid #f0f0f0'
+    },
+    quantityInput: {
+        width: '70px',
+        padding: '6px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '14px'
+    },
+    textarea: {
+        width: '100%',
+        padding: '12px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '14px',
+        minHeight: '70px',
+        resize: 'vertical' as const,
+        boxSizing: 'border-box' as const,
+        margin: '10px 0'
+    },
+    primaryButton: {
+        padding: '10px 20px',
+        backgroundColor: '#1976d2',
+        color: 'white',
+        border: 'none',
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontSize: '14px',
+        fontWeight: 'bold'
+    },
+    secondaryButton: {
+        padding: '10px 20px',
+        backgroundColor: '#f5f5f5',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontSize: '14px',
+        marginRight: '10px'
+    },
+    error: {
+        color: '#d32f2f',
+        backgroundColor: '#ffebee',
+        padding: '10px',
+        borderRadius: '4px',
+        marginBottom: '10px'
+    }
+};
+
+/**
+ * Returns appropriate styling for return status badges
+ */
+const getReturnBadgeStyle = (status: ReturnStatus) => {
+    const baseStyle = styles.statusBadge;
+
+    switch (status) {
+        case 'requested':
+            return { ...baseStyle, backgroundColor: '#fff3e0', color: '#ef6c00' };
+        case 'approved':
+            return { ...baseStyle, backgroundColor: '#e3f2fd', color: '#1976d2' };
+        case 'received':
+            return { ...baseStyle, backgroundColor: '#f3e5f5', color: '#7b1fa2' };
+        case 'refunded':
+            return { ...baseStyle, backgroundColor: '#e8f5e8', color: '#2e7d32' };
+        case 'rejected':
+            return { ...baseStyle, backgroundColor: '#ffebee', color: '#d32f2f' };
+        default:
+            return { ...baseStyle, backgroundColor: '#f5f5f5', color: '#666' };
+    }
+};
+
+/**
+ * Formats currency values for display
+ */
+const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD'
+    }).format(amount);
+};
+
+/**
+ * Order Returns Component
+ *
+ * @component
+ * @param {OrderReturnsProps} props - The order, whether returns can be requested, and a reload callback
+ * @returns {JSX.Element | null} Returns section, or nothing when there's nothing to show
+ */
+const OrderReturns: React.FC<OrderReturnsProps> = ({ order, canRequest, onReturnRequested }) => {
+    const [returns, setReturns] = useState<ReturnRequest[]>([]);
+    const [loadError, setLoadError] = useState<string>('');
+
+    // Request form state
+    const [showForm, setShowForm] = useState<boolean>(false);
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [reason, setReason] = useState<string>('');
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [submitError, setSubmitError] = useState<string>('');
+
+    const returnable = getReturnableQuantities(order, returns);
+    const hasReturnableItems = Object.values(returnable).some(quantity => quantity > 0);
+    const selectedCount = Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0);
+
+    /**
+     * Loads existing returns for the order
+     */
+    const fetchReturns = useCallback(async () => {
+        try {
+            setLoadError('');
+            setReturns(await getOrderReturns(order.orderId));
+        } catch (err) {
+            console.error('Error fetching returns:', err);
+            setLoadError('Failed to load returns for this order.');
+        }
+    }, [order.orderId]);
+
+    useEffect(() => {
+        fetchReturns();
+    }, [fetchReturns]);
+
+    /**
+     * Sets the quantity to return for one line, kept within what's still returnable
+     */
+    const handleQuantityChange = (lineKey: string, value: string) => {
+        const parsed = Math.floor(Number(value));
+        const quantity = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), returnable[lineKey] || 0) : 0;
+        setQuantities(prev => ({ ...prev, [lineKey]: quantity }));
+    };
+
+    /**
+     * Submits the selected items as a return request
+     */
+    const handleSubmit = async () => {
+        try {
+            setSubmitting(true);
+            setSubmitError('');
+
+            // Quantities are keyed by line, so two sizes of one product are returned separately
+            const selections = Object.entries(quantities).map(([lineKey, quantity]) => {
+                const line = order.products.find(item => getLineKey(item.productId, item.variantId) === lineKey);
+                return { productId: line?.productId ?? lineKey, variantId: line?.variantId, quantity };
+            });
+            await createReturnRequest(order.orderId, selections, reason);
+
+            setShowForm(false);
+            setQuantities({});
+            setReason('');
+            await fetchReturns();
+            onReturnRequested?.();
+        } catch (err) {
+            console.error('Error requesting return:', err);
+            setSubmitError(err instanceof Error ? err.message : 'Failed to request return. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const showRequestForm = canRequest && order.status === 'delivered' && hasReturnableItems;
+
+    if (returns.length === 0 && !loadError && !showRequestForm) {
+        return null;
+    }
+
+    return (
+        <div style={styles.section}>
+            <h3 style={styles.sectionTitle}>Returns</h3>
+
+            {loadError && <div style={styles.error}>{loadError}</div>}
+
+            {returns.map(returnRequest => (
+                <div key={returnRequest.returnId} style={styles.returnCard}>
+                    <div style={styles.returnHeader}>
+                        <strong>{returnRequest.returnId}</strong>
+                        <span style={getReturnBadgeStyle(returnRequest.status)}>{returnRequest.status}</span>
+                    </div>
+                    <div style={styles.details}>
+                        {returnRequest.items.map(item =>
+                            `${item.name}${item.variantLabel ? ` (${item.variantLabel})` : ''} × ${item.quantity}`
+                        ).join(', ')}<br />
+                        Refund: {formatCurrency(returnRequest.refundAmount)} · Reason: {returnRequest.reason}
+                    </div>
+                </div>
+            ))}
+
+            {showRequestForm && (
+                <div style={{ marginTop: returns.length > 0 ? '20px' : 0 }}>
+                    {!showForm ? (
+                        <button style={styles.primaryButton} onClick={() => setShowForm(true)}>
+                            Request a Return
+                        </button>
+                    ) : (
+                        <>
+                            <strong>Which items are you returning?</strong>
+                            {order.products.map((item, index) => {
+                                const lineKey = getLineKey(item.productId, item.variantId);
+                                return (
+                                    <div key={`${lineKey}_${index}`} style={styles.selectRow}>
+                                        <div>
+                                            <div>{item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''}</div>
+                                            <div style={styles.details}>
+                                                {returnable[lineKey] || 0} of {item.quantity} returnable · {formatCurrency(item.price)} each
+                                            </div>
+                                        </div>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={returnable[lineKey] || 0}
+                                            value={quantities[lineKey] ?? 0}
+                                            onChange={(e) => handleQuantityChange(lineKey, e.target.value)}
+                                            disabled={!returnable[lineKey]}
+                                            style={styles.quantityInput}
+                                            aria-label={`Quantity of ${item.name} to return`}
+                                        />
+                                    </div>
+                                );
+                            })}
+                            <textarea
+                                style={styles.textarea}
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="Why are you returning these items? (required)"
+                                aria-label="Return reason"
+                            />
+                            {submitError && <div style={styles.error}>{submitError}</div>}
+                            <button
+                                style={styles.secondaryButton}
+                                onClick={() => {
+                                    setShowForm(false);
+                                    setSubmitError('');
+                                }}
+                                disabled={submitting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                style={{
+                                    ...styles.primaryButton,
+                                    ...(submitting || selectedCount === 0 || !reason.trim() ? { opacity: 0.5, cursor: 'not-allowed' } : {})
+                                }}
+                                onClick={handleSubmit}
+                                disabled={submitting || selectedCount === 0 || !reason.trim()}
+                            >
+                                {submitting ? 'Submitting...' : 'Submit Return Request'}
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OrderReturns;
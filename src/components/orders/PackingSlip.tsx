@@ -0,0 +1,101 @@
+/**
+ * Packing Slip Component
+ *
+ * Printable slip that goes in the parcel: ship-to address, order reference
+ * and the quantity of each item to pick, without prices.
+ *
+ * @fileoverview Printable packing slip for one order
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import type { PackingSlip as PackingSlipData } from '../../utils/packingSlip';
+
+const styles = {
+    page: {
+        maxWidth: '750px',
+        margin: '0 auto',
+        padding: '30px',
+        backgroundColor: 'white',
+        color: '#000',
+        fontFamily: 'Arial, sans-serif'
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+        borderBottom: '2px solid #000',
+        paddingBottom: '12px',
+        marginBottom: '20px'
+    },
+    block: {
+        marginBottom: '20px',
+        lineHeight: 1.5
+    },
+    table: {
+        width: '100%',
+        borderCollapse: 'collapse' as const
+    },
+    cell: {
+        padding: '8px',
+        borderBottom: '1px solid #999',
+        textAlign: 'left' as const
+    },
+    check: {
+        width: '40px',
+        textAlign: 'center' as const
+    }
+};
+
+/**
+ * PackingSlip component - renders slip content built by buildPackingSlip
+ */
+const PackingSlip: React.FC<{ slip: PackingSlipData }> = ({ slip }) => (
+    <div style={styles.page} className="packing-slip">
+        <div style={styles.header}>
+            <h1 style={{ margin: 0, fontSize: '24px' }}>Packing Slip</h1>
+            <div style={{ textAlign: 'right' }}>
+                <div><strong>Order #{slip.orderId}</strong></div>
+                <div>Placed {slip.orderDate.toLocaleDateString()}</div>
+            </div>
+        </div>
+
+        <div style={styles.block}>
+            <strong>Ship to</strong>
+            {slip.customerName && <div>{slip.customerName}</div>}
+            {slip.shipTo.map((line, index) => <div key={index}>{line}</div>)}
+            {slip.customerEmail && <div>{slip.customerEmail}</div>}
+        </div>
+
+        <table style={styles.table}>
+            <thead>
+                <tr>
+                    <th style={{ ...styles.cell, ...styles.check }}>✓</th>
+                    <th style={styles.cell}>Item</th>
+                    <th style={styles.cell}>SKU / Product ID</th>
+                    <th style={{ ...styles.cell, textAlign: 'right' }}>Qty</th>
+                </tr>
+            </thead>
+            <tbody>
+                {slip.lines.map(line => (
+                    <tr key={`${line.productId}::${line.variantId ?? ''}`}>
+                        <td style={{ ...styles.cell, ...styles.check }}>☐</td>
+                        <td style={styles.cell}>
+                            {line.name}{line.variantLabel ? ` (${line.variantLabel})` : ''}
+                        </td>
+                        <td style={styles.cell}>{line.sku ?? line.productId}</td>
+                        <td style={{ ...styles.cell, textAlign: 'right' }}>{line.quantity}</td>
+                    </tr>
+                ))}
+            </tbody>
+            <tfoot>
+                <tr>
+                    <td style={styles.cell} colSpan={3}><strong>Total units</strong></td>
+                    <td style={{ ...styles.cell, textAlign: 'right' }}><strong>{slip.totalUnits}</strong></td>
+                </tr>
+            </tfoot>
+        </table>
+    </div>
+);
+
+export default PackingSlip;
@@ -0,0 +1,560 @@
+/**
+ * Admin Products Component
+ *
+ * Staff table for the whole catalog, inactive products included: inline
+ * editing of every product field, an active toggle per row, and bulk
+ * activate / deactivate / change category / archive for the selected rows.
+ * The archived view lists archived products for restoring or, when no order
+ * refers to them, purging for good. Every change shows in the table straight
+ * away and is rolled back if the save fails; the last archive, restore or
+ * bulk edit can be undone.
+ *
+ * @fileoverview Admin product table with optimistic edits, bulk actions, archive and undo
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Product } from '../../types/product';
+import type { Sourced } from '../../utils/productCatalog';
+import { getProductCatalog } from '../../utils/productCatalog';
+import { createProduct, purgeProduct, updateProduct, ProductInUseError } from '../../utils/productApi';
+import { EditableProductField, getChangedFields } from '../../utils/productForm';
+import { applyProductChange, invertProductChange, ProductChange, runProductChange } from '../../utils/productChanges';
+import { useRequireRole } from '../../context/AuthContext';
+import DataSourceBanner from '../DataSourceBanner';
+import ProductEditor from './ProductEditor';
+
+const ADMIN_PRODUCTS_KEY = ['adminProducts'];
+
+/**
+ * A change to save, with the undo message when it can be undone
+ */
+interface ChangeRequest {
+  change: ProductChange;
+  undoLabel?: string;                 // Set for archives, restores and bulk edits
+}
+
+interface AdminProductsProps {
+  archived?: boolean;                 // List archived products, to restore or purge, instead of the catalog
+}
+
+interface UndoableAction {
+  label: string;
+  undo: ProductChange;
+}
+
+interface ChangeContext {
+  previous?: Sourced<Product[]>;
+  undo: ProductChange;
+}
+
+const styles = {
+  panel: {
+    background: 'white',
+    borderRadius: '8px',
+    padding: '20px',
+    color: '#333'
+  },
+  toolbar: {
+    display: 'flex',
+    gap: '10px',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const,
+    marginBottom: '15px'
+  },
+  bulkBar: {
+    display: 'flex',
+    gap: '10px',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const,
+    padding: '10px 12px',
+    marginBottom: '15px',
+    background: '#eef1fb',
+    borderRadius: '6px'
+  },
+  undoBar: {
+    display: 'flex',
+    gap: '10px',
+    alignItems: 'center',
+    padding: '10px 12px',
+    marginBottom: '15px',
+    background: '#fff8e1',
+    border: '1px solid #ffe08a',
+    borderRadius: '6px'
+  },
+  button: {
+    padding: '8px 14px',
+    background: '#007bff',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '8px 14px',
+    background: 'white',
+    color: '#333',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  dangerButton: {
+    padding: '8px 14px',
+    background: '#dc3545',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  input: {
+    padding: '8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px'
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    fontSize: '14px'
+  },
+  cell: {
+    padding: '8px',
+    borderBottom: '1px solid #eee',
+    textAlign: 'left' as const,
+    verticalAlign: 'middle' as const
+  },
+  thumbnail: {
+    width: '48px',
+    height: '48px',
+    objectFit: 'contain' as const
+  },
+  inactive: {
+    opacity: 0.55
+  },
+  error: {
+    color: '#dc3545',
+    marginBottom: '10px'
+  },
+  message: {
+    textAlign: 'center' as const,
+    padding: '30px',
+    color: '#666'
+  }
+};
+
+// Shown stock: the product's own, or the sum over variants that track it
+const getStockLabel = (product: Product): string => {
+  const tracked = product.variants?.length
+    ? product.variants.map(variant => variant.stock).filter((stock): stock is number => stock !== undefined)
+    : [product.stock].filter((stock): stock is number => stock !== undefined);
+  return tracked.length > 0 ? String(tracked.reduce((sum, stock) => sum + stock, 0)) : '—';
+};
+
+// Firestore rejects undefined values in new documents, so blank optional fields are left out
+const withoutUndefined = <T extends object>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const AdminProducts: React.FC<AdminProductsProps> = ({ archived = false }) => {
+  const queryClient = useQueryClient();
+  const { allowed: canArchive } = useRequireRole('admin');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [lastAction, setLastAction] = useState<UndoableAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Writes go to Firestore, so the table is only editable while Firestore is serving it
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ADMIN_PRODUCTS_KEY,
+    queryFn: () => getProductCatalog().getProducts({ activeOnly: false })
+  });
+  const products = (data?.data ?? []).filter(product => !!product.archivedAt === archived);
+  const readOnly = !data || data.source !== 'firestore';
+
+  // Storefront lists and product pages cache products too
+  const refreshCatalog = () => Promise.all(
+    [ADMIN_PRODUCTS_KEY, ['productCatalog'], ['products'], ['product']]
+      .map(queryKey => queryClient.invalidateQueries({ queryKey }))
+  );
+
+  const changeMutation = useMutation<void, Error, ChangeRequest, ChangeContext>({
+    mutationFn: ({ change }) => runProductChange(change),
+    onMutate: async ({ change }) => {
+      await queryClient.cancelQueries({ queryKey: ADMIN_PRODUCTS_KEY });
+      const previous = queryClient.getQueryData<Sourced<Product[]>>(ADMIN_PRODUCTS_KEY);
+      if (previous) {
+        queryClient.setQueryData<Sourced<Product[]>>(ADMIN_PRODUCTS_KEY, {
+          ...previous,
+          data: applyProductChange(previous.data, change)
+        });
+      }
+      setError(null);
+      return { previous, undo: invertProductChange(change, previous?.data ?? []) };
+    },
+    onError: (err, _request, context) => {
+      console.error('Error saving product changes:', err);
+      if (context?.previous) {
+        queryClient.setQueryData(ADMIN_PRODUCTS_KEY, context.previous);
+      }
+      setError(`Couldn't save your changes, so they were undone: ${err.message}`);
+    },
+    onSuccess: (_result, { undoLabel }, context) => {
+      if (undoLabel) {
+        setLastAction({ label: undoLabel, undo: context.undo });
+      }
+    },
+    onSettled: refreshCatalog
+  });
+
+  // Purging can't be undone and is refused for products in orders, so it waits for the server
+  const purgeMutation = useMutation<void, Error, string>({
+    mutationFn: purgeProduct,
+    onMutate: () => setError(null),
+    onSuccess: (_result, productId) => {
+      queryClient.setQueryData<Sourced<Product[]>>(ADMIN_PRODUCTS_KEY, previous => previous && {
+        ...previous,
+        data: previous.data.filter(product => String(product.id) !== productId)
+      });
+    },
+    onError: (err, productId) => {
+      console.error('Error purging product:', err);
+      const name = describeProducts([productId]);
+      if (err instanceof ProductInUseError) {
+        const shown = err.orderIds.slice(0, 3).join(', ');
+        const more = err.orderIds.length > 3 ? ` and ${err.orderIds.length - 3} more` : '';
+        setError(`${name} is in ${plural(err.orderIds.length, 'order')} (${shown}${more}), so it stays archived.`);
+      } else {
+        setError(`Couldn't purge ${name}: ${err.message}`);
+      }
+    },
+    onSettled: refreshCatalog
+  });
+
+  const saveChange = (change: ProductChange, undoLabel?: string) => changeMutation.mutate({ change, undoLabel });
+
+  const describeProducts = (productIds: string[]) => (productIds.length === 1
+    ? `"${products.find(product => String(product.id) === productIds[0])?.title ?? productIds[0]}"`
+    : plural(productIds.length, 'product'));
+
+  const handleCreate = async (product: Pick<Product, EditableProductField>) => {
+    const productId = await createProduct({ ...withoutUndefined(product), rating: { rate: 0, count: 0 } });
+    // createProduct always publishes; keep a product the editor marked inactive hidden
+    if (!product.active) {
+      await updateProduct(productId, { active: false });
+    }
+    setCreating(false);
+    await refreshCatalog();
+  };
+
+  const handleEdit = (original: Product, edited: Pick<Product, EditableProductField>) => {
+    const updates = getChangedFields(original, edited);
+    if (Object.keys(updates).length > 0) {
+      saveChange({ kind: 'update', productIds: [String(original.id)], updates });
+    }
+    setEditingId(null);
+  };
+
+  const handleArchive = (productIds: string[]) => {
+    const names = describeProducts(productIds);
+    if (!window.confirm(`Archive ${names}? Archived products are hidden from the store but kept for past orders.`)) {
+      return;
+    }
+    saveChange({ kind: 'archive', productIds }, `Archived ${names}.`);
+    setSelectedIds(new Set());
+  };
+
+  const handleRestore = (productIds: string[]) => {
+    saveChange({ kind: 'restore', productIds }, `Restored ${describeProducts(productIds)} to the store.`);
+    setSelectedIds(new Set());
+  };
+
+  const handlePurge = (productId: string) => {
+    if (window.confirm(`Permanently delete ${describeProducts([productId])}? This can't be undone.`)) {
+      purgeMutation.mutate(productId);
+    }
+  };
+
+  const handleBulkUpdate = (updates: Partial<Product>, label: string) => {
+    const productIds = [...selectedIds];
+    saveChange({ kind: 'update', productIds, updates }, `${label} ${plural(productIds.length, 'product')}.`);
+  };
+
+  const handleUndo = () => {
+    if (lastAction) {
+      changeMutation.mutate({ change: lastAction.undo }, { onSuccess: () => setLastAction(null) });
+    }
+  };
+
+  const toggleSelected = (productId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(productId)) {
+      next.delete(productId);
+    } else {
+      next.add(productId);
+    }
+    setSelectedIds(next);
+  };
+
+  const term = filter.trim().toLowerCase();
+  const visibleProducts = term
+    ? products.filter(product => [product.title, product.sku, product.category, product.brand]
+      .some(value => value?.toLowerCase().includes(term)))
+    : products;
+  const allVisibleSelected = visibleProducts.length > 0 && visibleProducts.every(product => selectedIds.has(String(product.id)));
+
+  const toggleAllVisible = () => {
+    const next = new Set(selectedIds);
+    visibleProducts.forEach(product => (allVisibleSelected ? next.delete(String(product.id)) : next.add(String(product.id))));
+    setSelectedIds(next);
+  };
+
+  // Status and actions cells of a catalog row
+  const renderCatalogCells = (product: Product) => {
+    const productId = String(product.id);
+    const active = product.active !== false;
+    return (
+      <>
+        <td style={styles.cell}>
+          <label>
+            <input
+              type="checkbox"
+              checked={active}
+              disabled={readOnly}
+              onChange={() => saveChange({ kind: 'update', productIds: [productId], updates: { active: !active } })}
+              aria-label={`${product.title} active`}
+            />
+            {active ? ' Active' : ' Hidden'}
+          </label>
+        </td>
+        <td style={{ ...styles.cell, whiteSpace: 'nowrap' }}>
+          <button
+            type="button"
+            onClick={() => setEditingId(editingId === productId ? null : productId)}
+            disabled={readOnly}
+            style={styles.secondaryButton}
+          >
+            {editingId === productId ? 'Close' : 'Edit'}
+          </button>
+          {canArchive && (
+            <button
+              type="button"
+              onClick={() => handleArchive([productId])}
+              disabled={readOnly}
+              style={{ ...styles.dangerButton, marginLeft: '6px' }}
+            >
+              Archive
+            </button>
+          )}
+        </td>
+      </>
+    );
+  };
+
+  // Status and actions cells of an archived row
+  const renderArchivedCells = (product: Product) => {
+    const productId = String(product.id);
+    return (
+      <>
+        <td style={styles.cell}>
+          {product.archivedAt?.toLocaleDateString()}
+          {product.archivedBy && <div style={{ fontSize: '12px', color: '#666' }}>by {product.archivedBy}</div>}
+        </td>
+        <td style={{ ...styles.cell, whiteSpace: 'nowrap' }}>
+          {canArchive && (
+            <>
+              <button type="button" onClick={() => handleRestore([productId])} disabled={readOnly} style={styles.secondaryButton}>
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => handlePurge(productId)}
+                disabled={readOnly || purgeMutation.isPending}
+                style={{ ...styles.dangerButton, marginLeft: '6px' }}
+              >
+                Purge
+              </button>
+            </>
+          )}
+        </td>
+      </>
+    );
+  };
+
+  if (isLoading) {
+    return <div style={styles.message}>Loading products...</div>;
+  }
+
+  if (isError || !data) {
+    return <div style={{ ...styles.message, ...styles.error }} role="alert">Failed to load products. Please try again.</div>;
+  }
+
+  return (
+    <div style={styles.panel}>
+      <DataSourceBanner source={data.source} degraded={data.degraded} />
+      {readOnly && (
+        <div style={styles.error} role="alert">
+          Products are coming from {data.source}, not Firestore, so editing is turned off until Firestore is back.
+        </div>
+      )}
+      {error && <div style={styles.error} role="alert">{error}</div>}
+
+      {lastAction && (
+        <div style={styles.undoBar} role="status">
+          <span>{lastAction.label}</span>
+          <button type="button" onClick={handleUndo} disabled={changeMutation.isPending} style={styles.secondaryButton}>
+            Undo
+          </button>
+        </div>
+      )}
+
+      <div style={styles.toolbar}>
+        <input
+          type="search"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter by title, SKU, category or brand"
+          aria-label="Filter products"
+          style={{ ...styles.input, flex: 1, minWidth: '220px' }}
+        />
+        <span>{plural(visibleProducts.length, archived ? 'archived product' : 'product')}</span>
+        {!archived && (
+          <button type="button" onClick={() => setCreating(true)} disabled={readOnly || creating} style={styles.button}>
+            + Add product
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div style={{ marginBottom: '15px' }}>
+          <ProductEditor onSave={handleCreate} onCancel={() => setCreating(false)} />
+        </div>
+      )}
+
+      {selectedIds.size > 0 && !readOnly && archived && (
+        <div style={styles.bulkBar} aria-label="Bulk actions">
+          <strong>{selectedIds.size} selected</strong>
+          {canArchive && (
+            <button type="button" onClick={() => handleRestore([...selectedIds])} style={styles.secondaryButton}>
+              Restore
+            </button>
+          )}
+          <button type="button" onClick={() => setSelectedIds(new Set())} style={styles.secondaryButton}>
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {selectedIds.size > 0 && !readOnly && !archived && (
+        <div style={styles.bulkBar} aria-label="Bulk actions">
+          <strong>{selectedIds.size} selected</strong>
+          <button type="button" onClick={() => handleBulkUpdate({ active: true }, 'Activated')} style={styles.secondaryButton}>
+            Activate
+          </button>
+          <button type="button" onClick={() => handleBulkUpdate({ active: false }, 'Deactivated')} style={styles.secondaryButton}>
+            Deactivate
+          </button>
+          <input
+            value={bulkCategory}
+            onChange={e => setBulkCategory(e.target.value)}
+            placeholder="New category"
+            aria-label="New category"
+            style={styles.input}
+          />
+          <button
+            type="button"
+            disabled={!bulkCategory.trim()}
+            onClick={() => handleBulkUpdate({ category: bulkCategory.trim() }, `Moved to "${bulkCategory.trim()}":`)}
+            style={styles.secondaryButton}
+          >
+            Change category
+          </button>
+          {canArchive && (
+            <button type="button" onClick={() => handleArchive([...selectedIds])} style={styles.dangerButton}>
+              Archive
+            </button>
+          )}
+          <button type="button" onClick={() => setSelectedIds(new Set())} style={styles.secondaryButton}>
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {visibleProducts.length === 0 ? (
+        <div style={styles.message}>
+          {products.length > 0 ? 'No products match the filter.' : archived ? 'No archived products.' : 'No products yet.'}
+        </div>
+      ) : (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.cell}>
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                  disabled={readOnly}
+                  aria-label="Select all shown products"
+                />
+              </th>
+              <th style={styles.cell}>Image</th>
+              <th style={styles.cell}>Title</th>
+              <th style={styles.cell}>SKU</th>
+              <th style={styles.cell}>Category</th>
+              <th style={{ ...styles.cell, textAlign: 'right' }}>Price</th>
+              <th style={{ ...styles.cell, textAlign: 'right' }}>Stock</th>
+              <th style={styles.cell}>{archived ? 'Archived' : 'Active'}</th>
+              <th style={styles.cell}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleProducts.map(product => {
+              const productId = String(product.id);
+              const active = product.active !== false;
+              return (
+                <React.Fragment key={productId}>
+                  <tr style={active || archived ? undefined : styles.inactive}>
+                    <td style={styles.cell}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(productId)}
+                        onChange={() => toggleSelected(productId)}
+                        disabled={readOnly}
+                        aria-label={`Select ${product.title}`}
+                      />
+                    </td>
+                    <td style={styles.cell}>
+                      {product.image && <img src={product.image} alt="" style={styles.thumbnail} />}
+                    </td>
+                    <td style={styles.cell}>{product.title}</td>
+                    <td style={styles.cell}>{product.sku ?? '—'}</td>
+                    <td style={styles.cell}>{product.category}</td>
+                    <td style={{ ...styles.cell, textAlign: 'right' }}>${product.price.toFixed(2)}</td>
+                    <td style={{ ...styles.cell, textAlign: 'right' }}>{getStockLabel(product)}</td>
+                    {archived ? renderArchivedCells(product) : renderCatalogCells(product)}
+                  </tr>
+                  {editingId === productId && (
+                    <tr>
+                      <td style={styles.cell} colSpan={9}>
+                        <ProductEditor
+                          product={product}
+                          onSave={edited => handleEdit(product, edited)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AdminProducts;
@@ -0,0 +1,231 @@
+/**
+ * Product Editor Component
+ *
+ * Edits every staff-managed product field, with previews for the main and
+ * gallery images. Used inline by the admin product table, for new products
+ * and for existing ones.
+ *
+ * @fileoverview Full product form with image previews and per-field errors
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import type { Product, TaxClass } from '../../types/product';
+import {
+  EditableProductField,
+  EMPTY_PRODUCT_DRAFT,
+  fromProductDraft,
+  ProductDraft,
+  toProductDraft
+} from '../../utils/productForm';
+import { getFieldError, FieldError, ValidationError } from '../../utils/validation';
+
+interface ProductEditorProps {
+  product?: Product;                  // Omit to create a new product
+  onSave: (product: Pick<Product, EditableProductField>) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+const styles = {
+  form: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+    gap: '12px',
+    padding: '16px',
+    backgroundColor: '#f8f9fb',
+    borderRadius: '8px'
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '4px',
+    fontSize: '13px',
+    color: '#555'
+  },
+  wide: {
+    gridColumn: '1 / -1'
+  },
+  input: {
+    padding: '8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '14px'
+  },
+  previews: {
+    display: 'flex',
+    gap: '8px',
+    flexWrap: 'wrap' as const
+  },
+  preview: {
+    width: '72px',
+    height: '72px',
+    objectFit: 'contain' as const,
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    backgroundColor: 'white'
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: '12px'
+  },
+  actions: {
+    gridColumn: '1 / -1',
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'flex-end'
+  },
+  primaryButton: {
+    padding: '8px 16px',
+    backgroundColor: '#667eea',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '8px 16px',
+    backgroundColor: 'white',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  }
+};
+
+const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: 'Standard rate',
+  reduced: 'Reduced rate',
+  zero: 'Zero rated'
+};
+
+/**
+ * Shows an image URL, or nothing while the URL is blank or doesn't load
+ */
+const ImagePreview: React.FC<{ url: string; alt: string }> = ({ url, alt }) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  if (!url.trim() || failedUrl === url) {
+    return null;
+  }
+  return <img src={url} alt={alt} style={styles.preview} onError={() => setFailedUrl(url)} />;
+};
+
+const ProductEditor: React.FC<ProductEditorProps> = ({ product, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ProductDraft>(product ? toProductDraft(product) : EMPTY_PRODUCT_DRAFT);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const update = (field: keyof ProductDraft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft({ ...draft, [field]: e.target.value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { product: edited, errors } = fromProductDraft(draft);
+    setFieldErrors(errors);
+    setSaveError(null);
+    if (errors.length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(edited);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.errors);
+      } else {
+        setSaveError(err instanceof Error ? err.message : 'Failed to save product');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (
+    field: keyof ProductDraft,
+    label: string,
+    options: { errorField?: string; type?: string; wide?: boolean; multiline?: boolean; placeholder?: string } = {}
+  ) => {
+    const message = getFieldError(fieldErrors, options.errorField ?? field);
+    const inputProps = {
+      value: draft[field] as string,
+      onChange: update(field),
+      placeholder: options.placeholder,
+      'aria-invalid': !!message,
+      style: options.multiline ? { ...styles.input, minHeight: '80px', fontFamily: 'inherit' } : styles.input
+    };
+    return (
+      <label style={options.wide ? { ...styles.field, ...styles.wide } : styles.field}>
+        {label}
+        {options.multiline ? <textarea {...inputProps} /> : <input type={options.type ?? 'text'} {...inputProps} />}
+        {message && <span style={styles.error} role="alert">{message}</span>}
+      </label>
+    );
+  };
+
+  const galleryUrls = draft.images.split('\n').map(url => url.trim()).filter(Boolean);
+
+  return (
+    <form style={styles.form} onSubmit={handleSubmit} noValidate aria-label={product ? `Edit ${product.title}` : 'New product'}>
+      {renderField('title', 'Title')}
+      {renderField('price', 'Price', { type: 'number' })}
+      {renderField('category', 'Category')}
+      {renderField('stock', 'Stock', { type: 'number', placeholder: 'Not tracked' })}
+      {renderField('sku', 'SKU')}
+      {renderField('brand', 'Brand')}
+      {renderField('tags', 'Tags', { placeholder: 'Comma separated' })}
+      {renderField('weight', 'Weight', { type: 'number' })}
+      <label style={styles.field}>
+        Tax class
+        <select
+          value={draft.taxClass}
+          onChange={e => setDraft({ ...draft, taxClass: e.target.value as ProductDraft['taxClass'] })}
+          style={styles.input}
+        >
+          <option value="">Standard rate (default)</option>
+          {(Object.keys(TAX_CLASS_LABELS) as TaxClass[])
+            .filter(taxClass => taxClass !== 'standard')
+            .map(taxClass => <option key={taxClass} value={taxClass}>{TAX_CLASS_LABELS[taxClass]}</option>)}
+        </select>
+        {getFieldError(fieldErrors, 'taxClass') && (
+          <span style={styles.error} role="alert">{getFieldError(fieldErrors, 'taxClass')}</span>
+        )}
+      </label>
+      {renderField('length', 'Length', { type: 'number', errorField: 'dimensions' })}
+      {renderField('width', 'Width', { type: 'number', errorField: 'dimensions' })}
+      {renderField('height', 'Height', { type: 'number', errorField: 'dimensions' })}
+      <label style={{ ...styles.field, flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+        <input
+          type="checkbox"
+          checked={draft.active}
+          onChange={e => setDraft({ ...draft, active: e.target.checked })}
+        />
+        Active (shown in the store)
+      </label>
+      {renderField('description', 'Description', { wide: true, multiline: true })}
+      {renderField('image', 'Image URL', { wide: true })}
+      <div style={{ ...styles.previews, ...styles.wide }}>
+        <ImagePreview url={draft.image} alt="Main image preview" />
+      </div>
+      {renderField('images', 'Gallery images', { wide: true, multiline: true, placeholder: 'One URL per line' })}
+      {galleryUrls.length > 0 && (
+        <div style={{ ...styles.previews, ...styles.wide }}>
+          {galleryUrls.map((url, index) => <ImagePreview key={`${url}-${index}`} url={url} alt={`Gallery image ${index + 1} preview`} />)}
+        </div>
+      )}
+      {renderField('variants', 'Variants (JSON)', {
+        wide: true,
+        multiline: true,
+        placeholder: '{ "variantOptions": [{ "name": "Size", "values": ["S", "M"] }], "variants": [{ "id": "s", "options": { "Size": "S" }, "stock": 3 }] }'
+      })}
+      {saveError && <div style={{ ...styles.error, ...styles.wide }} role="alert">{saveError}</div>}
+      <div style={styles.actions}>
+        <button type="button" onClick={onCancel} style={styles.secondaryButton}>Cancel</button>
+        <button type="submit" disabled={saving} style={styles.primaryButton}>
+          {saving ? 'Saving...' : product ? 'Save changes' : 'Create product'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProductEditor;
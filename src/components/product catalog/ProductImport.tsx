@@ -0,0 +1,295 @@
+/**
+ * Product Import / Export Component
+ *
+ * Admin panel for bulk catalog changes: pick a CSV or JSON file, review the
+ * dry-run diff (create / update / unchanged / invalid, with row numbers), then
+ * commit it in batches with a progress bar. Also downloads the current catalog
+ * in either format.
+ *
+ * @fileoverview Bulk product import with dry run, and catalog export
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { getAllProducts } from '../../utils/productApi';
+import { getProductCatalog } from '../../utils/productCatalog';
+import {
+  detectImportFormat,
+  importProducts,
+  parseImportFile,
+  planImport,
+  productsToCsv,
+  productsToJson,
+  ImportAction,
+  ImportFormat,
+  ImportPlan,
+  ImportResult
+} from '../../utils/productImport';
+
+const styles = {
+  panel: {
+    background: 'white',
+    borderRadius: '8px',
+    padding: '20px',
+    marginBottom: '20px',
+    color: '#333'
+  },
+  row: {
+    display: 'flex',
+    gap: '10px',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const,
+    marginBottom: '15px'
+  },
+  button: {
+    padding: '10px 16px',
+    background: '#007bff',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '10px 16px',
+    background: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    fontSize: '14px'
+  },
+  cell: {
+    padding: '6px 8px',
+    borderBottom: '1px solid #eee',
+    textAlign: 'left' as const,
+    verticalAlign: 'top' as const
+  },
+  error: {
+    color: '#dc3545',
+    marginBottom: '10px'
+  },
+  success: {
+    color: '#28a745',
+    marginBottom: '10px'
+  }
+};
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: '#28a745',
+  update: '#007bff',
+  unchanged: '#6c757d',
+  invalid: '#dc3545'
+};
+
+/**
+ * Starts a browser download of the given text
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ProductImport: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Parse and diff the chosen file against the whole catalog, inactive products included
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setPlan(null);
+    setResult(null);
+    setError(null);
+    setPlanning(true);
+    try {
+      const text = await file.text();
+      const rows = parseImportFile(text, detectImportFormat(file.name, text));
+      // Imports write to Firestore, so they must be diffed against it and not a fallback catalog
+      const { data: catalog, source } = await getProductCatalog().getProducts({ activeOnly: false });
+      if (source !== 'firestore') {
+        setError(`Import needs the Firestore catalog, but products are currently coming from ${source}. Try again later.`);
+        return;
+      }
+      setPlan(planImport(rows, catalog));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? `Couldn't read ${file.name}: ${err.message}` : `Couldn't read ${file.name}`);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!plan) {
+      return;
+    }
+    setError(null);
+    setProgress({ done: 0, total: plan.counts.create + plan.counts.update });
+    try {
+      const imported = await importProducts(plan, (done, total) => setProgress({ done, total }));
+      setResult(imported);
+      setPlan(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['productCatalog'] }),
+        queryClient.invalidateQueries({ queryKey: ['adminProducts'] })
+      ]);
+    } catch (err) {
+      console.error('Error importing products:', err);
+      setError('Import stopped part-way. Batches already written were kept; re-run the dry run to see what is left.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExport = async (format: ImportFormat) => {
+    setError(null);
+    try {
+      const products = await getAllProducts(false);
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') {
+        downloadFile(productsToCsv(products), `products-${date}.csv`, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(productsToJson(products), `products-${date}.json`, 'application/json');
+      }
+    } catch (err) {
+      console.error('Error exporting products:', err);
+      setError('Failed to export products. Please try again.');
+    }
+  };
+
+  const visibleEntries = plan
+    ? plan.entries.filter(entry => showUnchanged || entry.action !== 'unchanged')
+    : [];
+  const writeCount = plan ? plan.counts.create + plan.counts.update : 0;
+
+  return (
+    <div style={styles.panel}>
+      <h3 style={{ marginTop: 0 }}>Import / Export</h3>
+      <p style={{ fontSize: '14px', color: '#666' }}>
+        Rows are matched to products by <code>sku</code>. Blank cells keep the current value.
+        List columns (<code>images</code>, <code>tags</code>) are separated with <code>|</code>.
+        Variants can only be imported from JSON.
+      </p>
+
+      <div style={styles.row}>
+        <label style={styles.button}>
+          {planning ? 'Reading...' : 'Choose CSV or JSON file'}
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={planning || progress !== null}
+            style={{ display: 'none' }}
+          />
+        </label>
+        <button type="button" style={styles.secondaryButton} onClick={() => handleExport('csv')}>
+          Export CSV
+        </button>
+        <button type="button" style={styles.secondaryButton} onClick={() => handleExport('json')}>
+          Export JSON
+        </button>
+      </div>
+
+      {error && <div style={styles.error} role="alert">{error}</div>}
+      {result && (
+        <div style={styles.success}>
+          Import complete: {result.created} created, {result.updated} updated.
+        </div>
+      )}
+
+      {plan && (
+        <>
+          <div style={styles.row}>
+            <strong>Dry run for {fileName}:</strong>
+            {(Object.keys(ACTION_COLORS) as ImportAction[]).map(action => (
+              <span key={action} style={{ color: ACTION_COLORS[action] }}>
+                {plan.counts[action]} {action}
+              </span>
+            ))}
+            <label style={{ fontSize: '14px' }}>
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              /> Show unchanged
+            </label>
+          </div>
+
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.cell}>Row</th>
+                <th style={styles.cell}>Action</th>
+                <th style={styles.cell}>SKU</th>
+                <th style={styles.cell}>Title</th>
+                <th style={styles.cell}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map(entry => (
+                <tr key={entry.rowNumber}>
+                  <td style={styles.cell}>{entry.rowNumber}</td>
+                  <td style={{ ...styles.cell, color: ACTION_COLORS[entry.action], fontWeight: 'bold' }}>
+                    {entry.action}
+                  </td>
+                  <td style={styles.cell}>{entry.sku ?? '—'}</td>
+                  <td style={styles.cell}>{entry.title ?? '—'}</td>
+                  <td style={styles.cell}>
+                    {entry.action === 'invalid' && entry.errors.join('; ')}
+                    {entry.action === 'update' && `Changes: ${entry.changedFields.join(', ')}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ ...styles.row, marginTop: '15px' }}>
+            <button
+              type="button"
+              style={{ ...styles.button, ...(writeCount === 0 || progress ? { opacity: 0.5, cursor: 'not-allowed' } : {}) }}
+              onClick={handleCommit}
+              disabled={writeCount === 0 || progress !== null}
+            >
+              Import {writeCount} product{writeCount === 1 ? '' : 's'}
+            </button>
+            <button type="button" style={styles.secondaryButton} onClick={() => setPlan(null)} disabled={progress !== null}>
+              Cancel
+            </button>
+            {plan.counts.invalid > 0 && (
+              <span style={{ fontSize: '14px', color: '#666' }}>Invalid rows are skipped.</span>
+            )}
+          </div>
+        </>
+      )}
+
+      {progress && (
+        <div>
+          <progress value={progress.done} max={progress.total || 1} style={{ width: '100%' }} />
+          <div style={{ fontSize: '14px' }}>Imported {progress.done} of {progress.total}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductImport;
@@ -11,7 +11,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
-import { getUserProfile, updateUserProfile, UserProfile } from '../../utils/userApi';
+import { getUserProfile, updateUserProfile, validateUserProfile, UserProfile } from '../../utils/userApi';
+import { getFieldError, FieldError, ValidationError } from '../../utils/validation';
 
 const EditProfile: React.FC = () => {
     const { user } = useAuth();
@@ -20,6 +21,7 @@ const EditProfile: React.FC = () => {
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
 
     // Load user profile on component mount
     useEffect(() => {
@@ -52,24 +54,39 @@ const EditProfile: React.FC = () => {
             return;
         }
 
+        const updates = {
+            firstName: profile.firstName,
+            lastName: profile.lastName,
+            displayName: profile.displayName,
+            phoneNumber: profile.phoneNumber,
+            address: profile.address,
+            preferences: profile.preferences
+        };
+
+        // Same schema updateUserProfile enforces, checked here to show messages per field
+        const errors = validateUserProfile(updates, { partial: true });
+        setFieldErrors(errors);
+        if (errors.length > 0) {
+            setError('Please fix the highlighted fields.');
+            return;
+        }
+
         try {
             setSaving(true);
             setError(null);
             
             // Update user profile in Firestore
-            await updateUserProfile(user.uid, {
-                firstName: profile.firstName,
-                lastName: profile.lastName,
-                displayName: profile.displayName,
-                phoneNumber: profile.phoneNumber,
-                address: profile.address,
-                preferences: profile.preferences
-            });
+            await updateUserProfile(user.uid, updates);
             
             setSuccess(true);
             setTimeout(() => setSuccess(false), 3000);
         } catch (err) {
             console.error('Error updating profile:', err);
+            if (err instanceof ValidationError) {
+                setFieldErrors(err.errors);
+                setError('Please fix the highlighted fields.');
+                return;
+            }
             setError('Failed to save profile. Please try again.');
         } finally {
             setSaving(false);
@@ -213,6 +230,11 @@ const EditProfile: React.FC = () => {
             fontSize: '14px',
             fontFamily: 'monospace',
         },
+        fieldError: {
+            color: '#ff4444',
+            fontSize: '13px',
+            fontFamily: 'monospace',
+        },
         loadingMessage: {
             color: '#ffd700',
             textAlign: 'center' as const,
@@ -222,6 +244,11 @@ const EditProfile: React.FC = () => {
         },
     };
 
+    const renderFieldError = (field: string) => {
+        const message = getFieldError(fieldErrors, field);
+        return message && <span style={styles.fieldError} role="alert">{message}</span>;
+    };
+
     if (loading) {
         return <div style={styles.loadingMessage}>Loading profile...</div>;
     }
@@ -248,6 +275,7 @@ const EditProfile: React.FC = () => {
                             value={profile.firstName || ''}
                             onChange={(e) => setProfile({ ...profile, firstName: e.target.value })}
                         />
+                        {renderFieldError('firstName')}
                     </div>
                     <div style={styles.formGroup}>
                         <label style={styles.label} htmlFor="lastName">Last Name</label>
@@ -258,6 +286,7 @@ const EditProfile: React.FC = () => {
                             value={profile.lastName || ''}
                             onChange={(e) => setProfile({ ...profile, lastName: e.target.value })}
                         />
+                        {renderFieldError('lastName')}
                     </div>
                 </div>
 
@@ -270,6 +299,7 @@ const EditProfile: React.FC = () => {
                         value={profile.displayName || ''}
                         onChange={(e) => setProfile({ ...profile, displayName: e.target.value })}
                     />
+                    {renderFieldError('displayName')}
                 </div>
 
                 <div style={styles.formGroup}>
@@ -281,6 +311,7 @@ const EditProfile: React.FC = () => {
                         value={profile.phoneNumber || ''}
                         onChange={(e) => setProfile({ ...profile, phoneNumber: e.target.value })}
                     />
+                    {renderFieldError('phoneNumber')}
                 </div>
 
                 {/* Address Section */}
@@ -304,6 +335,7 @@ const EditProfile: React.FC = () => {
                                 }
                             })}
                         />
+                        {renderFieldError('address.street')}
                     </div>
                     <div style={styles.formGroup}>
                         <label style={styles.label} htmlFor="city">City</label>
@@ -323,6 +355,7 @@ const EditProfile: React.FC = () => {
                                 }
                             })}
                         />
+                        {renderFieldError('address.city')}
                     </div>
                     <div style={styles.formGroup}>
                         <label style={styles.label} htmlFor="state">State</label>
@@ -342,6 +375,7 @@ const EditProfile: React.FC = () => {
                                 }
                             })}
                         />
+                        {renderFieldError('address.state')}
                     </div>
                     <div style={styles.formGroup}>
                         <label style={styles.label} htmlFor="zipCode">Zip Code</label>
@@ -361,6 +395,7 @@ const EditProfile: React.FC = () => {
                                 }
                             })}
                         />
+                        {renderFieldError('address.zipCode')}
                     </div>
                     <div style={styles.formGroup}>
                         <label style={styles.label} htmlFor="country">Country</label>
@@ -380,6 +415,7 @@ const EditProfile: React.FC = () => {
                                 }
                             })}
                         />
+                        {renderFieldError('address.country')}
                     </div>
                 </div>
 
@@ -38,6 +38,8 @@ const MockAuthProvider = ({ children }: { children: ReactNode }) => (
     value={
       {
         user: mockUser as User,
+        role: 'customer',
+        loading: false,
         login: jest.fn(),
         logout: jest.fn(),
         register: jest.fn(),
@@ -0,0 +1,274 @@
+/**
+ * Product Reviews Component
+ *
+ * Lists a product's reviews with their star ratings and verified-purchase
+ * badges, and lets the signed-in customer post, edit or delete their own review.
+ *
+ * @fileoverview Reviews section of the product detail page
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import {
+    createReview,
+    updateReview,
+    deleteReview,
+    getProductReviews,
+    Review
+} from '../../utils/reviewApi';
+
+/**
+ * Props for the ProductReviews component
+ */
+interface ProductReviewsProps {
+    /** Product whose reviews to show */
+    productId: string;
+}
+
+/**
+ * Styling for the reviews section, matching the product page's dark panels
+ */
+const styles = {
+    review: {
+        padding: '15px 0',
+        borderBottom: '1px solid rgba(255, 215, 0, 0.15)'
+    },
+    reviewHeader: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        flexWrap: 'wrap' as const,
+        marginBottom: '6px'
+    },
+    stars: {
+        color: '#ffd700',
+        letterSpacing: '2px'
+    },
+    meta: {
+        fontSize: '13px',
+        opacity: 0.8
+    },
+    verifiedBadge: {
+        padding: '2px 8px',
+        borderRadius: '12px',
+        fontSize: '11px',
+        fontWeight: 'bold',
+        textTransform: 'uppercase' as const,
+        backgroundColor: 'rgba(76, 175, 80, 0.2)',
+        color: '#81c784'
+    },
+    form: {
+        padding: '15px',
+        marginBottom: '20px',
+        border: '1px solid rgba(255, 215, 0, 0.3)',
+        borderRadius: '8px'
+    },
+    input: {
+        width: '100%',
+        padding: '10px',
+        border: '1px solid rgba(255, 215, 0, 0.4)',
+        borderRadius: '4px',
+        fontSize: '14px',
+        boxSizing: 'border-box' as const,
+        marginBottom: '10px'
+    },
+    starButton: {
+        background: 'none',
+        border: 'none',
+        fontSize: '24px',
+        cursor: 'pointer',
+        color: '#ffd700',
+        padding: '0 2px'
+    },
+    primaryButton: {
+        padding: '10px 20px',
+        background: 'rgba(255, 215, 0, 0.15)',
+        border: '1px solid rgba(255, 215, 0, 0.6)',
+        borderRadius: '4px',
+        color: '#ffd700',
+        cursor: 'pointer',
+        fontSize: '14px',
+        fontWeight: 'bold',
+        marginRight: '10px'
+    },
+    secondaryButton: {
+        padding: '10px 20px',
+        background: 'none',
+        border: '1px solid rgba(255, 215, 0, 0.3)',
+        borderRadius: '4px',
+        color: 'rgba(255, 215, 0, 0.8)',
+        cursor: 'pointer',
+        fontSize: '14px',
+        marginRight: '10px'
+    },
+    error: {
+        color: '#ff6b6b',
+        marginBottom: '10px'
+    }
+};
+
+const renderStars = (rating: number) => '★'.repeat(rating) + '☆'.repeat(5 - rating);
+
+/**
+ * ProductReviews component - customer reviews for a single product
+ */
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId }) => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const [editing, setEditing] = useState(false);
+    const [rating, setRating] = useState(0);
+    const [title, setTitle] = useState('');
+    const [body, setBody] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const { data: reviews = [], isLoading, isError } = useQuery<Review[], Error>({
+        queryKey: ['reviews', productId],
+        queryFn: () => getProductReviews(productId)
+    });
+
+    const ownReview = user ? reviews.find(review => review.userId === user.uid) : undefined;
+
+    const openForm = () => {
+        setRating(ownReview?.rating ?? 0);
+        setTitle(ownReview?.title ?? '');
+        setBody(ownReview?.body ?? '');
+        setFormError(null);
+        setEditing(true);
+    };
+
+    // Reviews change the product's rating, so the product and catalog views need refreshing too
+    const refresh = async () => {
+        await Promise.all([
+            queryClient.invalidateQueries({ queryKey: ['reviews', productId] }),
+            queryClient.invalidateQueries({ queryKey: ['product', productId] }),
+            queryClient.invalidateQueries({ queryKey: ['productCatalog'] })
+        ]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setFormError(null);
+        try {
+            if (ownReview) {
+                await updateReview(productId, { rating, title, body });
+            } else {
+                await createReview(productId, { rating, title, body });
+            }
+            setEditing(false);
+            await refresh();
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'Failed to save review');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm('Delete your review?')) {
+            return;
+        }
+        try {
+            await deleteReview(productId);
+            setEditing(false);
+            await refresh();
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'Failed to delete review');
+        }
+    };
+
+    return (
+        <div>
+            {!user && (
+                <p style={styles.meta}>
+                    <Link to="/login" style={{ color: '#ffd700' }}>Sign in</Link> to write a review.
+                </p>
+            )}
+
+            {user && !editing && (
+                <div style={{ marginBottom: '15px' }}>
+                    <button type="button" style={styles.primaryButton} onClick={openForm}>
+                        {ownReview ? 'Edit your review' : 'Write a review'}
+                    </button>
+                    {ownReview && (
+                        <button type="button" style={styles.secondaryButton} onClick={handleDelete}>
+                            Delete your review
+                        </button>
+                    )}
+                    {formError && <div style={{ ...styles.error, marginTop: '10px' }}>{formError}</div>}
+                </div>
+            )}
+
+            {user && editing && (
+                <form style={styles.form} onSubmit={handleSubmit}>
+                    {formError && <div style={styles.error} role="alert">{formError}</div>}
+                    <div style={{ marginBottom: '10px' }} role="radiogroup" aria-label="Star rating">
+                        {[1, 2, 3, 4, 5].map(star => (
+                            <button
+                                key={star}
+                                type="button"
+                                style={styles.starButton}
+                                onClick={() => setRating(star)}
+                                role="radio"
+                                aria-checked={rating === star}
+                                aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                            >
+                                {star <= rating ? '★' : '☆'}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        style={styles.input}
+                        placeholder="Headline"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        maxLength={120}
+                    />
+                    <textarea
+                        style={{ ...styles.input, minHeight: '90px', resize: 'vertical' }}
+                        placeholder="What did you like or dislike?"
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        maxLength={2000}
+                    />
+                    <button type="submit" style={styles.primaryButton} disabled={submitting}>
+                        {submitting ? 'Saving...' : ownReview ? 'Save changes' : 'Post review'}
+                    </button>
+                    <button type="button" style={styles.secondaryButton} onClick={() => setEditing(false)}>
+                        Cancel
+                    </button>
+                </form>
+            )}
+
+            {isLoading && <p style={styles.meta}>Loading reviews...</p>}
+            {isError && <p style={styles.error}>Couldn't load reviews.</p>}
+            {!isLoading && !isError && reviews.length === 0 && (
+                <p style={styles.meta}>No reviews yet.</p>
+            )}
+
+            {reviews.map(review => (
+                <div key={review.reviewId} style={styles.review}>
+                    <div style={styles.reviewHeader}>
+                        <span style={styles.stars} aria-label={`${review.rating} out of 5 stars`}>
+                            {renderStars(review.rating)}
+                        </span>
+                        <strong>{review.title}</strong>
+                        {review.verifiedPurchase && <span style={styles.verifiedBadge}>Verified purchase</span>}
+                    </div>
+                    <div style={styles.meta}>
+                        {review.authorName} · {review.createdAt?.toLocaleDateString()}
+                        {review.updatedAt ? ' (edited)' : ''}
+                    </div>
+                    <p style={{ lineHeight: '1.6', margin: '8px 0 0' }}>{review.body}</p>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ProductReviews;
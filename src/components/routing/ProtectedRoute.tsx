@@ -0,0 +1,35 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+
+/**
+ * ProtectedRoute - layout route that only renders its children for signed-in users
+ * Visitors are sent to /login with the page they asked for in location state,
+ * so the login page can bring them straight back afterwards
+ */
+const ProtectedRoute: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  // Firebase hasn't restored the session yet; redirecting now would bounce signed-in users to login
+  if (loading) {
+    return (
+      <div style={{
+        textAlign: 'center',
+        padding: '40px',
+        color: 'white',
+        fontSize: '16px'
+      }}>
+        Checking your session...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default ProtectedRoute;
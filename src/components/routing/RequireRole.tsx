@@ -0,0 +1,41 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useRequireRole } from '../../context/AuthContext';
+import type { UserRole } from '../../utils/roles';
+
+const messageStyle: React.CSSProperties = {
+  textAlign: 'center',
+  padding: '40px',
+  color: 'white',
+  fontSize: '16px'
+};
+
+/**
+ * RequireRole - layout route that only renders its children for users with at least `role`
+ * Signed-out visitors go to /login like ProtectedRoute; signed-in users without
+ * the role are told so instead of being redirected
+ */
+const RequireRole: React.FC<{ role: UserRole; children?: React.ReactNode }> = ({ role, children }) => {
+  const { allowed, loading, signedIn } = useRequireRole(role);
+  const location = useLocation();
+
+  if (loading) {
+    return <div style={messageStyle}>Checking your session...</div>;
+  }
+
+  if (!signedIn) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (!allowed) {
+    return (
+      <div style={messageStyle} role="alert">
+        🔒 You don't have access to this page. It requires a {role} account.
+      </div>
+    );
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default RequireRole;
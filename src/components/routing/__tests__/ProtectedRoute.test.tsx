@@ -0,0 +1,62 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Routes, Route, useLocation } from "react-router-dom";
+import ProtectedRoute from "../ProtectedRoute";
+import { AuthContext, AuthContextType } from "../../../context/AuthContext";
+import { User } from "firebase/auth";
+
+/**
+ * Mock the firebase configuration module
+ * This prevents the import.meta error during Jest test runs
+ */
+jest.mock('../../../config/firebase', () => ({
+  auth: {},
+  db: {}
+}));
+
+const LoginProbe: React.FC = () => {
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname: string } } | null)?.from;
+  return <div>Login page, from {from?.pathname}</div>;
+};
+
+const renderAt = (path: string, auth: Partial<AuthContextType>) =>
+  render(
+    <AuthContext.Provider
+      value={{
+        user: null,
+        loading: false,
+        login: jest.fn(),
+        logout: jest.fn(),
+        register: jest.fn(),
+        ...auth,
+      } as AuthContextType}
+    >
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/login" element={<LoginProbe />} />
+          <Route element={<ProtectedRoute />}>
+            <Route path="/orders" element={<div>Order history</div>} />
+          </Route>
+        </Routes>
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+
+describe("ProtectedRoute", () => {
+  it("redirects signed-out visitors to login, remembering where they were going", () => {
+    renderAt("/orders", { user: null });
+    expect(screen.getByText("Login page, from /orders")).toBeInTheDocument();
+  });
+
+  it("renders the protected page for signed-in users", () => {
+    renderAt("/orders", { user: { uid: "u1" } as User });
+    expect(screen.getByText("Order history")).toBeInTheDocument();
+  });
+
+  it("waits for the session to be restored before deciding", () => {
+    renderAt("/orders", { user: null, loading: true });
+    expect(screen.getByText(/checking your session/i)).toBeInTheDocument();
+    expect(screen.queryByText(/login page/i)).not.toBeInTheDocument();
+  });
+});
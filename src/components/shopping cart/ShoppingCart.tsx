@@ -1,13 +1,13 @@
-import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
 import { useSelector, useDispatch } from 'react-redux';
-import { removeItem, clearCart, updateQuantity } from '../../features/cart/cartSlice';
-import Checkout from '../checkout/Checkout';
+import { removeItem, clearCart, updateQuantity, dismissWarning, getAvailableStock, getCartLineKey } from '../../features/cart/cartSlice';
 
 const ShoppingCart = () => {
-    const [showCheckout, setShowCheckout] = useState(false);
+    const navigate = useNavigate();
     
     const cartItems = useSelector((state: RootState) => state.cart.items);
+    const cartWarnings = useSelector((state: RootState) => state.cart.warnings);
     const dispatch = useDispatch();
     
     const totalPrice = cartItems.reduce((sum, item) => {
@@ -27,11 +27,7 @@ const ShoppingCart = () => {
     };
     
     const proceedToCheckout = () => {
-        setShowCheckout(true);
-    };
-    
-    const backToCart = () => {
-        setShowCheckout(false);
+        navigate('/checkout');
     };
 
     const cartStyles = {
@@ -135,33 +131,25 @@ const ShoppingCart = () => {
             transition: 'all 0.3s ease'
         },
         
-        backButton: {
-            background: 'rgba(128, 128, 128, 0.2)',
-            border: '1px solid rgba(128, 128, 128, 0.5)',
-            borderRadius: '6px',
-            color: '#ccc',
-            padding: '10px 20px',
+        warning: {
+            marginTop: '8px',
+            fontSize: '13px',
+            color: '#ff6b6b',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px'
+        },
+        
+        dismissButton: {
+            background: 'none',
+            border: 'none',
+            color: '#ff6b6b',
             cursor: 'pointer',
             fontFamily: 'monospace, "Courier New"',
-            marginBottom: '20px'
+            padding: 0
         }
     };
 
-    // If showing checkout, render the checkout component
-    if (showCheckout) {
-        return (
-            <div style={cartStyles.container}>
-                <button 
-                    style={cartStyles.backButton}
-                    onClick={backToCart}
-                >
-                    ← Back to Cart
-                </button>
-                <Checkout />
-            </div>
-        );
-    }
-
     return (
         <div style={cartStyles.container}>
             <h2 style={cartStyles.title}>🛒 Shopping Cart</h2>
@@ -172,43 +160,72 @@ const ShoppingCart = () => {
                 </div>
             ) : (
                 <>
-                    {cartItems.map(item => (
-                        <div key={item.id} style={cartStyles.cartItem}>
-                            <div style={cartStyles.itemInfo}>
-                                <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>
-                                    {item.title}
+                    {cartItems.map(item => {
+                        // Each variant of a product is its own line
+                        const lineKey = getCartLineKey(item);
+                        const warning = cartWarnings[lineKey];
+                        const available = getAvailableStock(item);
+                        const atStockLimit = available !== undefined && item.quantity >= available;
+
+                        return (
+                            <div key={lineKey} style={cartStyles.cartItem}>
+                                <div style={cartStyles.itemInfo}>
+                                    <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>
+                                        {item.title}
+                                    </div>
+                                    {item.variantLabel && (
+                                        <div style={{ fontSize: '14px', marginBottom: '5px' }}>
+                                            {item.variantLabel}
+                                        </div>
+                                    )}
+                                    <div style={{ fontSize: '14px', opacity: 0.8 }}>
+                                        ${item.price.toFixed(2)} each
+                                    </div>
+                                    {warning && (
+                                        <div style={cartStyles.warning} role="alert">
+                                            ⚠️ {warning.message}
+                                            <button
+                                                style={cartStyles.dismissButton}
+                                                onClick={() => dispatch(dismissWarning(lineKey))}
+                                                aria-label="Dismiss warning"
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
-                                <div style={{ fontSize: '14px', opacity: 0.8 }}>
-                                    ${item.price.toFixed(2)} each
+                            
+                                <div style={cartStyles.quantityControls}>
+                                    <button 
+                                        style={cartStyles.quantityButton}
+                                        onClick={() => handleQuantityChange(lineKey, item.quantity - 1)}
+                                    >
+                                        -
+                                    </button>
+                                    <span style={{ color: '#ffd700', fontWeight: 'bold', minWidth: '30px', textAlign: 'center' }}>
+                                        {item.quantity}
+                                    </span>
+                                    <button 
+                                        style={{
+                                            ...cartStyles.quantityButton,
+                                            ...(atStockLimit ? { opacity: 0.4, cursor: 'not-allowed' } : {})
+                                        }}
+                                        onClick={() => handleQuantityChange(lineKey, item.quantity + 1)}
+                                        disabled={atStockLimit}
+                                    >
+                                        +
+                                    </button>
                                 </div>
-                            </div>
                             
-                            <div style={cartStyles.quantityControls}>
                                 <button 
-                                    style={cartStyles.quantityButton}
-                                    onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                                    style={cartStyles.removeButton}
+                                    onClick={() => dispatch(removeItem(lineKey))}
                                 >
-                                    -
-                                </button>
-                                <span style={{ color: '#ffd700', fontWeight: 'bold', minWidth: '30px', textAlign: 'center' }}>
-                                    {item.quantity}
-                                </span>
-                                <button 
-                                    style={cartStyles.quantityButton}
-                                    onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                                >
-                                    +
+                                    Remove
                                 </button>
                             </div>
-                            
-                            <button 
-                                style={cartStyles.removeButton}
-                                onClick={() => dispatch(removeItem(item.id))}
-                            >
-                                Remove
-                            </button>
-                        </div>
-                    ))}
+                        );
+                    })}
                     
                     <div style={cartStyles.totals}>
                         <div style={{ fontSize: '18px', marginBottom: '10px' }}>
@@ -20,7 +20,7 @@ import { getFirestore, Firestore } from "firebase/firestore";
  * Uses Vite environment variables (prefixed with VITE_) that are loaded from .env.local
  * These values are replaced at build time and are safe to expose to the client
  */
-const firebaseConfig = {
+const envConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY as string,                    // Firebase Web API Key for authentication
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN as string,            // Domain for Firebase Authentication UI
   projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID as string,              // Unique Firebase project identifier
@@ -29,6 +29,15 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID as string,                      // Firebase app identifier
 };
 
+/**
+ * With the in-memory data backend (VITE_DATA_BACKEND=memory) no Firebase project is needed:
+ * unset settings get placeholders, and `firebase/auth` resolves to the in-memory accounts
+ * (src/utils/memoryAuth.ts), so seeded users can sign in.
+ */
+const firebaseConfig = import.meta.env.VITE_DATA_BACKEND === 'memory' && !envConfig.apiKey
+  ? { ...envConfig, apiKey: 'demo-api-key', authDomain: 'demo-project.firebaseapp.com', projectId: 'demo-project' }
+  : envConfig;
+
 /**
  * Initialize Firebase app instance
  * This creates the main Firebase app instance that all other services will use
@@ -23,6 +23,11 @@ import {
   signOut                          // Sign-out function
 } from "firebase/auth";
 import { createUserProfile } from "../utils/userApi"; // User profile creation function
+import { DEFAULT_USER_ROLE, getUserRole, hasRole, UserRole } from "../utils/roles";
+import { useStore } from "react-redux";
+import { startCartSync } from "../features/cart/cartSync"; // Firestore cart persistence
+import { clearCart, setCartOwner } from "../features/cart/cartSlice";
+import type { RootState } from "../store";
 
 /**
  * Authentication Context Type Definition
@@ -32,6 +37,8 @@ import { createUserProfile } from "../utils/userApi"; // User profile creation f
  */
 export interface AuthContextType {
   user: User | null;                                                    // Current authenticated user or null
+  role: UserRole | null;                                                // Signed-in user's role from their profile; null when signed out
+  loading: boolean;                                                     // True until the auth state and the user's role are known
   login: (email: string, password: string) => Promise<UserCredential>;  // Login function
   logout: () => Promise<void>;                                          // Logout function
   register: (email: string, password: string) => Promise<UserCredential>; // Registration function
@@ -58,6 +65,12 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   // State to track the currently authenticated user
   const [user, setUser] = useState<User | null>(null);
+  // Role stored on the signed-in user's profile (see utils/roles.ts)
+  const [role, setRole] = useState<UserRole | null>(null);
+  // Firebase restores a session asynchronously; protected routes wait for it before redirecting
+  const [loading, setLoading] = useState<boolean>(true);
+  // Redux store, so the cart can follow the signed-in user
+  const store = useStore<RootState>();
 
   console.log('🔐 AuthProvider mounted, initializing auth state listener');
 
@@ -69,18 +82,66 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    * the user state when users sign in, sign out, or their auth state changes.
    */
   useEffect(() => {
+    // Stops the Firestore cart sync for the previous user, if one is running
+    let stopCartSync: (() => void) | null = null;
+    // Bumped on every auth change so a slow cart load for an old user is discarded
+    let authVersion = 0;
+    let previousUser: User | null = null;
+
     // Subscribe to auth state changes
     const unsubscribe = onAuthStateChanged(auth, (authUser) => {
       console.log('🔐 Auth state changed:', authUser ? `Logged in as ${authUser.email}` : 'Logged out');
       setUser(authUser); // Update user state when auth state changes
+
+      const version = ++authVersion;
+      if (stopCartSync) {
+        stopCartSync();
+        stopCartSync = null;
+      }
+
+      if (authUser) {
+        // Role guards wait (loading) until the role is known, so staff aren't briefly turned away
+        setLoading(true);
+        getUserRole(authUser.uid)
+          .catch((error) => {
+            console.error('❌ Failed to load user role, treating as customer:', error);
+            return DEFAULT_USER_ROLE;
+          })
+          .then((userRole) => {
+            if (version === authVersion) {
+              setRole(userRole);
+              setLoading(false);
+            }
+          });
+
+        // Merge the guest (sessionStorage) cart into the user's stored cart
+        startCartSync(store, authUser.uid).then((stop) => {
+          if (version === authVersion) {
+            stopCartSync = stop;
+          } else {
+            stop();
+          }
+        });
+      } else {
+        setRole(null);
+        setLoading(false);
+        if (previousUser) {
+          // The cart is saved with the account; don't leave it behind for the next visitor
+          store.dispatch(clearCart());
+        }
+        // Anything added from here on is a guest cart, to be merged at the next sign-in
+        store.dispatch(setCartOwner(null));
+      }
+      previousUser = authUser;
     });
     
     // Cleanup function: unsubscribe from auth state listener when component unmounts
     return () => {
       console.log('🔐 Cleaning up auth state listener');
       unsubscribe();
+      stopCartSync?.();
     };
-  }, []); // Empty dependency array - this effect runs only once
+  }, [store]); // The store never changes, so this effect runs only once
 
   /**
    * User Login Function
@@ -131,7 +192,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Provide authentication context value to all child components
   return (
-    <AuthContext.Provider value={{ user, login, logout, register }}>
+    <AuthContext.Provider value={{ user, role, loading, login, logout, register }}>
       {children}
     </AuthContext.Provider>
   );
@@ -169,5 +230,31 @@ export const useAuth = (): AuthContextType => {
   return ctx;
 };
 
+/**
+ * Role Guard Hook
+ * 
+ * Tells a component whether the signed-in user has at least the `required` role,
+ * for hiding or disabling actions the user can't take. The API functions and
+ * Firestore security rules enforce the same roles; this only shapes the UI.
+ * 
+ * @param required - Minimum role, e.g. 'staff'
+ * @returns allowed (false while loading), loading, signedIn and the user's role
+ * 
+ * @example
+ * ```tsx
+ * const { allowed } = useRequireRole('admin');
+ * return allowed ? <button onClick={purge}>Delete</button> : null;
+ * ```
+ */
+export const useRequireRole = (required: UserRole) => {
+  const { user, role, loading } = useAuth();
+  return {
+    allowed: !loading && !!user && hasRole(role, required),
+    loading,
+    signedIn: !!user,
+    role
+  };
+};
+
 // Export the context for advanced use cases (normally not needed)
 export { AuthContext };
\ No newline at end of file
@@ -0,0 +1,277 @@
+/**
+ * Cart Slice Tests
+ *
+ * Validates that the cart reducers respect Product.stock and Product.active,
+ * clamp quantities to what is available, and record per-item warnings.
+ *
+ * @fileoverview Stock-aware cart reducer tests
+ * @version 1.0.0
+ */
+
+import cartReducer, {
+    addItem,
+    addItemWithQuantity,
+    updateQuantity,
+    removeItem,
+    dismissWarning,
+    clearCart,
+    mergeCart,
+    replaceCart,
+    setCartOwner,
+    getCartLineKey,
+    CartState
+} from '../cartSlice';
+import { resolveVariant } from '../../../utils/productVariants';
+import type { Product } from '../../../types/product';
+
+const baseProduct: Product = {
+    id: 'prod1',
+    title: 'Wireless Headphones',
+    price: 99.99,
+    description: 'Noise cancelling',
+    category: 'electronics',
+    image: 'https://example.com/headphones.jpg',
+    rating: { rate: 4.5, count: 10 }
+};
+
+const emptyState: CartState = { items: [], warnings: {} };
+
+describe('addItem', () => {
+    it('adds products that do not track stock without limits', () => {
+        // Arrange & Act
+        let state = cartReducer(emptyState, addItem(baseProduct));
+        state = cartReducer(state, addItem(baseProduct));
+
+        // Assert
+        expect(state.items).toHaveLength(1);
+        expect(state.items[0].quantity).toBe(2);
+        expect(state.warnings).toEqual({});
+    });
+
+    it('rejects out-of-stock products with a warning', () => {
+        // Act
+        const state = cartReducer(emptyState, addItem({ ...baseProduct, stock: 0 }));
+
+        // Assert
+        expect(state.items).toHaveLength(0);
+        expect(state.warnings.prod1.reason).toBe('out-of-stock');
+    });
+
+    it('rejects inactive products with a warning', () => {
+        // Act
+        const state = cartReducer(emptyState, addItem({ ...baseProduct, stock: 10, active: false }));
+
+        // Assert
+        expect(state.items).toHaveLength(0);
+        expect(state.warnings.prod1.reason).toBe('inactive');
+    });
+
+    it('stops incrementing once the cart holds all available stock', () => {
+        // Arrange
+        const product = { ...baseProduct, stock: 2 };
+
+        // Act
+        let state = cartReducer(emptyState, addItem(product));
+        state = cartReducer(state, addItem(product));
+        state = cartReducer(state, addItem(product));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(2);
+        expect(state.warnings.prod1).toMatchObject({ reason: 'stock-limit', availableStock: 2 });
+    });
+});
+
+describe('variants', () => {
+    const tshirt: Product = {
+        ...baseProduct,
+        id: 'tshirt',
+        variantOptions: [{ name: 'Size', values: ['S', 'M'] }],
+        variants: [
+            { id: 's', options: { Size: 'S' }, stock: 1 },
+            { id: 'm', options: { Size: 'M' }, price: 109.99, stock: 5 }
+        ]
+    };
+    const [small, medium] = tshirt.variants!;
+
+    it('keeps each variant on its own line', () => {
+        // Act
+        let state = cartReducer(emptyState, addItem(resolveVariant(tshirt, small)));
+        state = cartReducer(state, addItem(resolveVariant(tshirt, medium)));
+        state = cartReducer(state, addItem(resolveVariant(tshirt, medium)));
+
+        // Assert
+        expect(state.items.map(item => [getCartLineKey(item), item.quantity, item.price])).toEqual([
+            ['tshirt::s', 1, 99.99],
+            ['tshirt::m', 2, 109.99]
+        ]);
+    });
+
+    it('limits each line to its variant stock and updates lines by line key', () => {
+        // Arrange
+        let state = cartReducer(emptyState, addItem(resolveVariant(tshirt, small)));
+        state = cartReducer(state, addItem(resolveVariant(tshirt, medium)));
+
+        // Act
+        state = cartReducer(state, addItem(resolveVariant(tshirt, small)));
+        state = cartReducer(state, updateQuantity({ id: 'tshirt::m', quantity: 3 }));
+        state = cartReducer(state, removeItem('tshirt::s'));
+
+        // Assert
+        expect(state.items).toHaveLength(1);
+        expect(state.items[0]).toMatchObject({ variantId: 'm', variantLabel: 'M', quantity: 3 });
+        expect(state.warnings['tshirt::s']).toBeUndefined();
+    });
+
+    it('refuses the product itself until a variant is chosen', () => {
+        // Act
+        const state = cartReducer(emptyState, addItem(tshirt));
+
+        // Assert
+        expect(state.items).toHaveLength(0);
+        expect(state.warnings.tshirt.reason).toBe('variant-required');
+    });
+});
+
+describe('addItemWithQuantity', () => {
+    it('adds the selected quantity on top of what is already in the cart', () => {
+        // Arrange
+        const product = { ...baseProduct, stock: 10 };
+        let state = cartReducer(emptyState, addItem(product));
+
+        // Act
+        state = cartReducer(state, addItemWithQuantity({ product, quantity: 3 }));
+
+        // Assert
+        expect(state.items).toHaveLength(1);
+        expect(state.items[0].quantity).toBe(4);
+        expect(state.warnings).toEqual({});
+    });
+
+    it('clamps the line to available stock', () => {
+        // Arrange
+        const product = { ...baseProduct, stock: 4 };
+
+        // Act
+        const state = cartReducer(emptyState, addItemWithQuantity({ product, quantity: 6 }));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(4);
+        expect(state.warnings.prod1).toMatchObject({ reason: 'stock-limit', availableStock: 4 });
+    });
+
+    it.each([0, -1, Number.NaN])('rejects quantity %p', (quantity) => {
+        // Act
+        const state = cartReducer(emptyState, addItemWithQuantity({ product: baseProduct, quantity }));
+
+        // Assert
+        expect(state.items).toHaveLength(0);
+        expect(state.warnings.prod1.reason).toBe('invalid-quantity');
+    });
+});
+
+describe('updateQuantity', () => {
+    const stateWithItem = (stock?: number): CartState =>
+        cartReducer(emptyState, addItem({ ...baseProduct, stock }));
+
+    it('clamps quantities above available stock', () => {
+        // Act
+        const state = cartReducer(stateWithItem(3), updateQuantity({ id: 'prod1', quantity: 10 }));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(3);
+        expect(state.warnings.prod1.reason).toBe('stock-limit');
+    });
+
+    it.each([0, -2, Number.NaN])('rejects quantity %p', (quantity) => {
+        // Act
+        const state = cartReducer(stateWithItem(3), updateQuantity({ id: 'prod1', quantity }));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(1);
+        expect(state.warnings.prod1.reason).toBe('invalid-quantity');
+    });
+
+    it('clears the warning after a valid change', () => {
+        // Arrange
+        let state = cartReducer(stateWithItem(3), updateQuantity({ id: 'prod1', quantity: 10 }));
+
+        // Act
+        state = cartReducer(state, updateQuantity({ id: 'prod1', quantity: 2 }));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(2);
+        expect(state.warnings.prod1).toBeUndefined();
+    });
+});
+
+describe('mergeCart', () => {
+    it('sums quantities for products in both the guest and stored cart', () => {
+        // Arrange
+        const guest = cartReducer(emptyState, addItem(baseProduct));
+        const stored = [{ ...baseProduct, quantity: 2 }, { ...baseProduct, id: 'prod2', quantity: 1 }];
+
+        // Act
+        const state = cartReducer(guest, mergeCart(stored));
+
+        // Assert
+        expect(state.items.map(item => [item.id, item.quantity])).toEqual([['prod1', 3], ['prod2', 1]]);
+    });
+
+    it('clamps merged quantities to available stock', () => {
+        // Arrange
+        const guest = cartReducer(emptyState, addItem({ ...baseProduct, stock: 3 }));
+        const stored = [{ ...baseProduct, stock: 3, quantity: 3 }];
+
+        // Act
+        const state = cartReducer(guest, mergeCart(stored));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(3);
+        expect(state.warnings.prod1.reason).toBe('stock-limit');
+    });
+
+    it('drops stored items that can no longer be bought', () => {
+        // Act
+        const state = cartReducer(emptyState, mergeCart([{ ...baseProduct, active: false, quantity: 1 }]));
+
+        // Assert
+        expect(state.items).toHaveLength(0);
+        expect(state.warnings.prod1.reason).toBe('inactive');
+    });
+});
+
+describe('replaceCart', () => {
+    it('loads the stored cart instead of adding it to the current one', () => {
+        // Arrange
+        const restored = cartReducer(cartReducer(emptyState, setCartOwner('user1')), addItem(baseProduct));
+        const stored = [{ ...baseProduct, quantity: 1 }];
+
+        // Act
+        const state = cartReducer(restored, replaceCart(stored));
+
+        // Assert
+        expect(state.items.map(item => [item.id, item.quantity])).toEqual([['prod1', 1]]);
+        expect(state.ownerUid).toBe('user1');
+    });
+
+    it('clamps stored quantities to available stock', () => {
+        // Act
+        const state = cartReducer(emptyState, replaceCart([{ ...baseProduct, stock: 2, quantity: 5 }]));
+
+        // Assert
+        expect(state.items[0].quantity).toBe(2);
+        expect(state.warnings.prod1.reason).toBe('stock-limit');
+    });
+});
+
+describe('warning housekeeping', () => {
+    it('drops warnings on dismiss, remove and clear', () => {
+        // Arrange
+        const warned = cartReducer(emptyState, addItem({ ...baseProduct, stock: 0 }));
+
+        // Act & Assert
+        expect(cartReducer(warned, dismissWarning('prod1')).warnings).toEqual({});
+        expect(cartReducer(warned, removeItem('prod1')).warnings).toEqual({});
+        expect(cartReducer(warned, clearCart()).warnings).toEqual({});
+    });
+});
@@ -1,69 +1,289 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { Product } from '../../types/product';
+import { getLineKey, hasVariants } from '../../utils/productVariants';
 
-export interface CartItem extends Product { 
+export interface CartItem extends Product {
     // A CartItem has all the properties of a Product via product.ts (id, title, price, etc)
   quantity: number; // it also has a quantity property
+  variantId?: string; // Chosen variant, for products sold in sizes/colours (see resolveVariant)
+  variantLabel?: string; // Display name of the variant, e.g. "M / Red"
+}
+
+// What gets added to the cart: a plain product, or one resolved to a variant
+export type CartProduct = Omit<CartItem, 'quantity'>;
+
+/**
+ * Key identifying a cart line; two variants of one product are separate lines
+ * Warnings, removeItem and updateQuantity all use this key
+ */
+export const getCartLineKey = (item: Pick<CartItem, 'id' | 'variantId'>): string =>
+    getLineKey(item.id, item.variantId);
+
+// Why the cart refused (or trimmed) a change for a given product
+export type CartWarningReason = 'out-of-stock' | 'inactive' | 'stock-limit' | 'invalid-quantity' | 'variant-required';
+
+export interface CartWarning {
+    reason: CartWarningReason;
+    message: string;
+    availableStock?: number; // Set when the warning is about stock levels
 }
 
 interface CartState {
-    items: CartItem[]; 
-    //The main part of our cart's state is a property called items, 
+    items: CartItem[];
+    //The main part of our cart's state is a property called items,
     // and this property will hold an array, where each element in the array is a CartItem
+    warnings: Record<string, CartWarning>;
+    // Per-line warnings keyed by getCartLineKey, so both ShoppingCart
+    // and ProductCard can show why an add or quantity change didn't go through
+    ownerUid?: string | null;
+    // User whose stored cart these items were synced with; unset while the
+    // cart is a guest cart. Survives reloads with the rest of the cart, so a
+    // restored session replaces the cart instead of merging it in again
 }
 
 const initialState: CartState = {
     items: [],
+    warnings: {},
 } // Our cart's initial state is an empty array of items
 
+/**
+ * Returns how many units of a product can be in the cart,
+ * or undefined when the product doesn't track stock (unlimited)
+ */
+export const getAvailableStock = (product: Pick<Product, 'stock'>): number | undefined => {
+    if (typeof product.stock !== 'number' || !Number.isFinite(product.stock)) {
+        return undefined;
+    }
+    return Math.max(0, Math.floor(product.stock));
+};
+
+/**
+ * Checks whether a product can be added to the cart at all
+ * Returns the warning that explains why not, or null when it can be added
+ */
+export const getAddToCartBlocker = (product: Pick<Product, 'stock' | 'active' | 'variants'>): CartWarning | null => {
+    if (product.active === false) {
+        return { reason: 'inactive', message: 'This product is no longer available' };
+    }
+    if (hasVariants(product)) {
+        // Products with variants go in the cart resolved to one of them
+        return { reason: 'variant-required', message: 'Choose an option first' };
+    }
+    const available = getAvailableStock(product);
+    if (available !== undefined && available <= 0) {
+        return { reason: 'out-of-stock', message: 'This product is out of stock', availableStock: 0 };
+    }
+    return null;
+};
+
+const stockLimitWarning = (available: number): CartWarning => ({
+    reason: 'stock-limit',
+    message: `Only ${available} ${available === 1 ? 'unit' : 'units'} available`,
+    availableStock: available,
+});
+
+/**
+ * Adds `quantity` units of a product to the cart, clamping the line to available stock
+ * Shared by addItem (one unit at a time) and addItemWithQuantity
+ */
+const addToCart = (state: CartState, productToAdd: CartProduct, quantity: number) => {
+    const key = getCartLineKey(productToAdd);
+
+    const blocker = getAddToCartBlocker(productToAdd);
+    if (blocker) {
+        // Inactive or out-of-stock products never make it into the cart
+        state.warnings[key] = blocker;
+        return;
+    }
+
+    const available = getAvailableStock(productToAdd);
+
+    const existingItem = state.items.find(item => getCartLineKey(item) === key);
+    // Checking if the product (in this variant) already exists in the cart using
+    // .find() on our state.items array
+    // This will return the item if found, or 'undefined' if not
+
+    const currentQuantity = existingItem ? existingItem.quantity : 0;
+    const requested = currentQuantity + quantity;
+
+    if (existingItem) {
+        // Keep the freshest stock figure we've seen for this product
+        existingItem.stock = productToAdd.stock;
+    }
+
+    if (available !== undefined && requested > available) {
+        // Can't hold more than we have, so clamp instead of adding everything
+        if (existingItem) {
+            existingItem.quantity = available;
+        } else {
+            state.items.push({ ...productToAdd, quantity: available });
+        }
+        state.warnings[key] = stockLimitWarning(available);
+        return;
+    }
+
+    if (existingItem) {
+        // The item is already in the cart, just increase the qty:
+        existingItem.quantity = requested;
+    } else {
+        // The item is not in the cart, add it as a new entry:
+        state.items.push({ ...productToAdd, quantity });
+    }
+    delete state.warnings[key];
+};
+
+/**
+ * Replaces the cart's lines, clamping quantities to stock and dropping
+ * products that can no longer be bought (each with a warning)
+ */
+const setClampedItems = (state: CartState, items: CartItem[]) => {
+    state.items = [];
+    state.warnings = {};
+    items.forEach(item => {
+        const key = getCartLineKey(item);
+        const blocker = getAddToCartBlocker(item);
+        if (blocker) {
+            state.warnings[key] = blocker;
+            return;
+        }
+
+        const available = getAvailableStock(item);
+        const quantity = Math.max(1, Math.floor(item.quantity) || 1);
+        if (available !== undefined && quantity > available) {
+            state.warnings[key] = stockLimitWarning(available);
+            state.items.push({ ...item, quantity: available });
+        } else {
+            state.items.push({ ...item, quantity });
+        }
+    });
+};
+
 const cartSlice = createSlice({
     name: 'cart',
-    initialState: initialState, 
+    initialState: initialState,
     reducers: { // Define the functions that can change our state
-        addItem: (state: CartState, action: PayloadAction<Product>) => {
+        addItem: (state: CartState, action: PayloadAction<CartProduct>) => {
             // We are defining a reducer named 'addItem'
     // Redux Toolkit automatically gives it 'state' and 'action' as arguments
     // 'PayloadAction<Product>' is a special TypeScript type from Redux Toolkit
     // It tells TypeScript that the 'action.payload' for this specific reducer
-    // will be a single 'Product' object
-            
-            const productToAdd = action.payload;
-            // Getting the product that was passed in from the action's payload
-
-            const existingItem = state.items.find(item => item.id === productToAdd.id);
-            // Checking if the product already exists in the cart using
-            // .find() on our state.items array
-            // This will return the item if found, or 'undefined' if not
-
-            if (existingItem) {
-                // The item is already in the cart, just increase the qty by 1:
-                existingItem.quantity++;
-            } else {
-                // The item is not in the cart, add it as a new entry:
-                state.items.push({ ...productToAdd, quantity: 1 });
+    // will be a single 'Product' object (resolved to a variant when it has them)
+
+            addToCart(state, action.payload, 1);
+        },
+
+        addItemWithQuantity: (state: CartState, action: PayloadAction<{product: CartProduct, quantity: number}>) => {
+            // Same as addItem, but for the product page's quantity selector
+            const { product, quantity } = action.payload;
+            if (!Number.isFinite(quantity) || Math.floor(quantity) < 1) {
+                state.warnings[getCartLineKey(product)] = { reason: 'invalid-quantity', message: 'Quantity must be at least 1' };
+                return;
             }
+            addToCart(state, product, Math.floor(quantity));
         },
         removeItem: (state: CartState, action: PayloadAction<string | number>) => {
-            state.items = state.items.filter(item => item.id !== action.payload)
-        }, // "Replace the current items array with a new array 
+            state.items = state.items.filter(item => getCartLineKey(item) !== String(action.payload))
+            delete state.warnings[String(action.payload)];
+        }, // "Replace the current items array with a new array
         // that has filtered out the item we want to remove."
+        // The payload is the line key (just the product ID for products without variants)
 
         updateQuantity: (state: CartState, action: PayloadAction<{id: string | number, quantity: number}>) => {
+            // id is the line key, as for removeItem
             const { id, quantity } = action.payload;
-            const existingItem = state.items.find(item => item.id === id);
-            if (existingItem) {
-                existingItem.quantity = quantity;
+            const key = String(id);
+            const existingItem = state.items.find(item => getCartLineKey(item) === key);
+            if (!existingItem) {
+                return;
             }
+
+            // Zero, negative and non-numeric quantities are rejected outright;
+            // removing an item is what removeItem is for
+            if (!Number.isFinite(quantity) || Math.floor(quantity) < 1) {
+                state.warnings[key] = { reason: 'invalid-quantity', message: 'Quantity must be at least 1' };
+                return;
+            }
+
+            const requested = Math.floor(quantity);
+            const available = getAvailableStock(existingItem);
+
+            if (available === 0) {
+                // Sold out since it was added, leave the line for the customer to remove
+                state.warnings[key] = { reason: 'out-of-stock', message: 'This product is out of stock', availableStock: 0 };
+                return;
+            }
+
+            if (available !== undefined && requested > available) {
+                // Clamp to what we can actually ship
+                existingItem.quantity = available;
+                state.warnings[key] = stockLimitWarning(available);
+                return;
+            }
+
+            existingItem.quantity = requested;
+            delete state.warnings[key];
+        },
+
+        updatePrices: (state: CartState, action: PayloadAction<{productId: string, variantId?: string, price: number}[]>) => {
+            // Used after the customer accepts catalog prices that changed since they shopped
+            action.payload.forEach(({ productId, variantId, price }) => {
+                const key = getLineKey(productId, variantId);
+                const existingItem = state.items.find(item => getCartLineKey(item) === key);
+                if (existingItem) {
+                    existingItem.price = price;
+                }
+            });
+        },
+
+        mergeCart: (state: CartState, action: PayloadAction<CartItem[]>) => {
+            // Folds a stored (signed-in) cart into the current guest cart on login.
+            // Quantities for the same product are summed, then clamped to stock;
+            // products that can no longer be bought are dropped with a warning
+            const merged: CartItem[] = action.payload.map(item => ({ ...item }));
+
+            state.items.forEach(guestItem => {
+                const storedItem = merged.find(item => getCartLineKey(item) === getCartLineKey(guestItem));
+                if (storedItem) {
+                    // The guest copy was added this session, so its product data is fresher
+                    Object.assign(storedItem, guestItem, { quantity: storedItem.quantity + guestItem.quantity });
+                } else {
+                    merged.push({ ...guestItem });
+                }
+            });
+
+            setClampedItems(state, merged);
+        },
+
+        replaceCart: (state: CartState, action: PayloadAction<CartItem[]>) => {
+            // Loads the stored cart in place of the current one, for a session
+            // whose cart was already synced (see ownerUid); clamped like mergeCart
+            setClampedItems(state, action.payload);
+        },
+
+        setCartOwner: (state: CartState, action: PayloadAction<string | null>) => {
+            state.ownerUid = action.payload;
+        },
+
+        dismissWarning: (state: CartState, action: PayloadAction<string | number>) => {
+            delete state.warnings[String(action.payload)];
         },
 
         clearCart: (state) => {
             state.items = [];
+            state.warnings = {};
         },
     },
 });
 
-export const { addItem, removeItem, updateQuantity, clearCart } = cartSlice.actions;
+export const { addItem, addItemWithQuantity, removeItem, updateQuantity, updatePrices, mergeCart, replaceCart, setCartOwner, dismissWarning, clearCart } = cartSlice.actions;
 // to dispatch the action to the store
+
+// Selector for a single line's warning (by getCartLineKey), shared by ShoppingCart and ProductCard
+export const selectCartWarning = (state: { cart: CartState }, key: string | number): CartWarning | undefined =>
+    state.cart.warnings[String(key)];
+
+export type { CartState };
+
 export default cartSlice.reducer;
 // combine all of the slice reducers into the single main app reducer
-// to export the reducer itself
\ No newline at end of file
+// to export the reducer itself
@@ -0,0 +1,67 @@
+import type { Store } from '@reduxjs/toolkit';
+import { getUserCart, saveUserCart } from '../../utils/cartApi';
+import { mergeCart, replaceCart, setCartOwner, CartState } from './cartSlice';
+
+// Wait this long after the last cart change before writing to Firestore,
+// so clicking "+" five times is one write instead of five
+const SAVE_DELAY_MS = 500;
+
+type CartStore = Store<{ cart: CartState }>;
+
+/**
+ * Connects the cart slice to the signed-in user's `carts/{uid}` document.
+ *
+ * Loads the stored cart, merges the current (guest) cart into it, saves the
+ * result, then keeps saving whenever the cart items change. When the cart was
+ * already synced for this user (a session restored on reload), the stored
+ * cart replaces it instead, since the local items are already in it.
+ *
+ * @param store - The Redux store holding the cart slice
+ * @param uid - Firebase Auth user ID that owns the cart
+ * @returns Promise<() => void> - Call to stop syncing (flushes any pending save)
+ */
+export const startCartSync = async (store: CartStore, uid: string): Promise<() => void> => {
+    try {
+        const storedItems = await getUserCart(uid);
+        if (store.getState().cart.ownerUid === uid) {
+            store.dispatch(replaceCart(storedItems ?? store.getState().cart.items));
+            console.log('✅ Reloaded stored cart for user:', uid);
+        } else {
+            store.dispatch(mergeCart(storedItems ?? []));
+            console.log('✅ Merged guest cart into stored cart for user:', uid);
+        }
+        store.dispatch(setCartOwner(uid));
+        await saveUserCart(uid, store.getState().cart.items);
+    } catch (error) {
+        // Keep the local cart usable even if Firestore is unreachable
+        console.warn('⚠️  Could not load stored cart, continuing with local cart', error);
+    }
+
+    let lastSavedItems = store.getState().cart.items;
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+        saveTimer = undefined;
+        lastSavedItems = store.getState().cart.items;
+        saveUserCart(uid, lastSavedItems).catch(error => {
+            console.warn('⚠️  Could not save cart to Firestore', error);
+        });
+    };
+
+    const unsubscribe = store.subscribe(() => {
+        // Only item changes matter; warnings are local UI state
+        if (store.getState().cart.items === lastSavedItems) {
+            return;
+        }
+        clearTimeout(saveTimer);
+        saveTimer = setTimeout(save, SAVE_DELAY_MS);
+    });
+
+    return () => {
+        unsubscribe();
+        if (saveTimer) {
+            clearTimeout(saveTimer);
+            save();
+        }
+    };
+};
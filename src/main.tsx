@@ -2,12 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { BrowserRouter } from 'react-router-dom';
 import { Provider } from 'react-redux';
 import { AuthProvider } from './context/AuthContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { store } from './store';
+import { configureProductCatalog, readProductSourceConfig } from './utils/productCatalog';
 import './index.css'
 
+// Choose where products are read from (see FIREBASE_ENV_DOCS.md)
+configureProductCatalog(readProductSourceConfig(import.meta.env));
+
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -25,16 +30,37 @@ if (!rootElement) {
   throw new Error('Root element not found');
 }
 
-createRoot(rootElement).render(
-  <StrictMode>
-    <ErrorBoundary>
-      <Provider store={store}>
-        <AuthProvider>
-          <QueryClientProvider client={queryClient}>
-            <App />
-          </QueryClientProvider>
-        </AuthProvider>
-      </Provider>
-    </ErrorBoundary>
-  </StrictMode>,
-);
+/**
+ * The in-memory data backend starts empty, so fill it with the seed dataset
+ * before the first render (VITE_SEED picks the seed, "none" skips seeding)
+ */
+const prepareData = async (): Promise<void> => {
+  const seed = import.meta.env.VITE_SEED as string | undefined;
+  if (import.meta.env.VITE_DATA_BACKEND !== 'memory' || seed === 'none') {
+    return;
+  }
+  const { seedDatabase } = await import('./utils/seedDatabase');
+  await seedDatabase(seed ? { seed: Number(seed) } : {});
+};
+
+const renderApp = (): void => {
+  createRoot(rootElement).render(
+    <StrictMode>
+      <ErrorBoundary>
+        <BrowserRouter>
+          <Provider store={store}>
+            <AuthProvider>
+              <QueryClientProvider client={queryClient}>
+                <App />
+              </QueryClientProvider>
+            </AuthProvider>
+          </Provider>
+        </BrowserRouter>
+      </ErrorBoundary>
+    </StrictMode>,
+  );
+};
+
+prepareData()
+  .catch(error => console.error('❌ Failed to seed the in-memory database:', error))
+  .finally(renderApp);
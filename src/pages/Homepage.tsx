@@ -1,39 +1,164 @@
-import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState, useEffect, useRef } from 'react';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 import { 
-  getAllProducts, 
+  getProductsPage,
+  getAllProducts,
   getAllCategories, 
-  getProductsByCategory 
+  getProductsByCategory,
+  searchProducts,
+  SourcedCursor,
+  ProductSortMode,
+  PRODUCT_SORT_MODES,
+  DEFAULT_SORT_MODE
 } from '../utils/productApi';
+import {
+  ProductFilters,
+  applyFilters,
+  computeFacets,
+  filtersToQuery,
+  hasFacetFilters,
+  parseFiltersFromQuery
+} from '../utils/productFacets';
 import ProductCard from '../components/ProductCard'
+import FacetFilters from '../components/FacetFilters';
+import DataSourceBanner from '../components/DataSourceBanner';
 import type { Product } from '../types/product';
 
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+// Shorter queries match too much to be useful
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Reads the sort mode from the query string, ignoring unknown values
+ */
+const parseSortMode = (search: string): ProductSortMode => {
+  const sort = new URLSearchParams(search).get('sort');
+  return sort && sort in PRODUCT_SORT_MODES ? sort as ProductSortMode : DEFAULT_SORT_MODE;
+};
+
 /**
  * Homepage component - displays product catalog from Firebase
  * Implements requirements: fetch products from Firestore with category filtering
+ * Products load a page at a time; the next page is fetched when the
+ * "load more" sentinel at the bottom of the grid scrolls into view.
+ * Typing in the search box swaps the paged listing for ranked search results.
+ * Facet filters (price, brand, rating, tags, stock) are applied to the full
+ * category catalog so their counts are exact, and live in the URL query string.
+ * Sorting is done by Firestore (orderBy), never in memory; search results keep relevance order
  */
 const Homepage = () => {
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<ProductFilters>(() => parseFiltersFromQuery(searchParams.toString()));
+  const [sortMode, setSortMode] = useState<ProductSortMode>(() => parseSortMode(searchParams.toString()));
+  const [searchInput, setSearchInput] = useState<string>(() => searchParams.get('q') ?? '');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Only search once the user pauses typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-  // Query for Firebase products
+  const isSearching = debouncedSearch.length >= MIN_SEARCH_LENGTH;
+  const selectedCategory = filters.category;
+  const isFiltering = hasFacetFilters(filters);
+
+  // Keep the query string in sync so a filtered view can be shared or bookmarked
+  useEffect(() => {
+    const params = new URLSearchParams(filtersToQuery(filters));
+    if (debouncedSearch) {
+      params.set('q', debouncedSearch);
+    } else {
+      params.delete('q');
+    }
+    if (sortMode !== DEFAULT_SORT_MODE) {
+      params.set('sort', sortMode);
+    } else {
+      params.delete('sort');
+    }
+    setSearchParams(params, { replace: true });
+  }, [filters, debouncedSearch, sortMode, setSearchParams]);
+
+  // Query for search results, ranked by relevance
   const {
-    data: productsData,
-    isLoading: isLoadingProducts,
-    isError: isErrorProducts,
-    error: errorProducts,
+    data: searchData,
+    isFetching: isFetchingSearch,
+    isError: isErrorSearch,
+  } = useQuery<Product[], Error>({
+    queryKey: ['productSearch', debouncedSearch],
+    queryFn: async () => {
+      return await searchProducts(debouncedSearch);
+    },
+    enabled: isSearching,
+    retry: 2,
+    retryDelay: 1000
+  });
+
+  // Full catalog for the selected category, used for facet counts and filtered views.
+  // Plain browsing pages through the catalog instead, so it's only loaded once a facet is in use
+  const {
+    data: catalogData,
+    isFetching: isFetchingCatalog,
   } = useQuery<Product[], Error>({
-    queryKey: ['products', selectedCategory || 'all'],
+    queryKey: ['productCatalog', selectedCategory || 'all', sortMode],
     queryFn: async () => {
       if (selectedCategory) {
-        return await getProductsByCategory(selectedCategory);
+        return await getProductsByCategory(selectedCategory, true, sortMode);
       } else {
-        return await getAllProducts();
+        return await getAllProducts(true, sortMode);
       }
     },
+    enabled: isFiltering && !isSearching,
+    staleTime: 5 * 60 * 1000,
+    retry: 2,
+    retryDelay: 1000
+  });
+
+  // Paginated query for Firebase products; changing category or sort starts again from page one
+  const {
+    data: productsData,
+    isLoading: isLoadingProducts,
+    isError: isErrorProducts,
+    error: errorProducts,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['products', selectedCategory || 'all', sortMode],
+    queryFn: async ({ pageParam }) => {
+      return await getProductsPage({
+        category: selectedCategory || undefined,
+        cursor: pageParam,
+        sortBy: PRODUCT_SORT_MODES[sortMode].field,
+        sortDirection: PRODUCT_SORT_MODES[sortMode].direction
+      });
+    },
+    initialPageParam: null as SourcedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     retry: 2,
     retryDelay: 1000
   });
 
+  // Fetch the next page when the sentinel below the grid becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, isSearching, isFiltering]);
+
   // Query for categories
   const {
     data: categoriesData,
@@ -86,10 +211,26 @@ const Homepage = () => {
   }
   
   const handleCategoryChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    setSelectedCategory(event.target.value);
+    setFilters({ ...filters, category: event.target.value });
   };
 
-  const displayProducts = productsData || [];
+  // Facets describe whatever is being browsed: search results, the category catalog
+  // once a facet is in use, or else the pages loaded so far (their counts grow as
+  // more pages load). Search results cover the whole catalog, so category is
+  // applied as a filter too
+  const browsedProducts = productsData?.pages.flatMap(page => page.products) ?? [];
+  const facetBase = isSearching
+    ? searchData ?? []
+    : isFiltering
+      ? catalogData ?? browsedProducts
+      : browsedProducts;
+  const facets = computeFacets(facetBase, filters);
+
+  // Filtering works on the full catalog; plain browsing keeps using cursor pages
+  const isFilteredView = isSearching || isFiltering;
+  // The first page decides the source: later pages never switch to a fallback
+  const firstPage = productsData?.pages[0];
+  const displayProducts = isFilteredView ? applyFilters(facetBase, filters) : browsedProducts;
 
   return (
     <div style={{
@@ -104,6 +245,40 @@ const Homepage = () => {
         Product Catalog
       </h1>
 
+      {firstPage && <DataSourceBanner source={firstPage.source} degraded={firstPage.degraded} />}
+
+      {/* Search Box */}
+      <div style={{ marginBottom: '20px' }}>
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          placeholder="Search products..."
+          aria-label="Search products"
+          style={{
+            width: '100%',
+            padding: '12px 16px',
+            border: '1px solid #ddd',
+            borderRadius: '6px',
+            fontSize: '16px',
+            boxSizing: 'border-box'
+          }}
+        />
+        {isSearching && (
+          <p style={{
+            color: isErrorSearch ? '#dc3545' : '#666',
+            fontSize: '14px',
+            margin: '8px 0 0'
+          }}>
+            {isErrorSearch
+              ? 'Search failed, please try again'
+              : isFetchingSearch
+                ? 'Searching...'
+                : `${displayProducts.length} result${displayProducts.length === 1 ? '' : 's'} for "${debouncedSearch}"`}
+          </p>
+        )}
+      </div>
+
       {/* Category Dropdown */}
       <div style={{
         marginBottom: '30px',
@@ -155,33 +330,113 @@ const Homepage = () => {
             Loading categories...
           </p>
         )}
+
+        <label 
+          htmlFor="sort-select"
+          style={{
+            color: '#333',
+            fontSize: '16px',
+            marginLeft: 'auto'
+          }}
+        >
+          Sort by:
+        </label>
+        <select
+          id="sort-select"
+          value={isSearching ? 'relevance' : sortMode}
+          onChange={(event) => setSortMode(event.target.value as ProductSortMode)}
+          disabled={isSearching}
+          style={{
+            padding: '10px 16px',
+            background: 'white',
+            border: '1px solid #ddd',
+            borderRadius: '6px',
+            color: '#333',
+            fontSize: '14px',
+            cursor: 'pointer',
+            minWidth: '180px'
+          }}
+        >
+          {isSearching && <option value="relevance">Relevance</option>}
+          {(Object.keys(PRODUCT_SORT_MODES) as ProductSortMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {PRODUCT_SORT_MODES[mode].label}
+            </option>
+          ))}
+        </select>
       </div>
 
-      {/* Product Listing Area*/}
-      <div style={{ 
-        marginTop: '20px',
-        display: 'grid',
-        gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
-        gap: '20px'
+      <div style={{
+        display: 'flex',
+        gap: '20px',
+        alignItems: 'flex-start',
+        flexWrap: 'wrap'
       }}>
-        {displayProducts.length === 0 ? (
-          <div style={{
-            gridColumn: '1 / -1',
-            textAlign: 'center',
-            color: '#666',
-            fontSize: '18px',
-            padding: '40px',
-            border: '1px dashed #ddd',
-            borderRadius: '8px'
-          }}>
-            No products available
-          </div>
-        ) : (
-          displayProducts.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))
-        )}
+        {/* Facet Sidebar */}
+        <div style={{ flex: '0 0 250px' }}>
+          <FacetFilters facets={facets} filters={filters} onChange={setFilters} />
+        </div>
+
+        {/* Product Listing Area*/}
+        <div style={{ 
+          flex: '1 1 300px',
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
+          gap: '20px'
+        }}>
+          {displayProducts.length === 0 ? (
+            <div style={{
+              gridColumn: '1 / -1',
+              textAlign: 'center',
+              color: '#666',
+              fontSize: '18px',
+              padding: '40px',
+              border: '1px dashed #ddd',
+              borderRadius: '8px'
+            }}>
+              {isFilteredView && isFetchingCatalog && !isSearching
+                ? 'Loading products...'
+                : isSearching
+                  ? 'No products match your search'
+                  : isFiltering
+                    ? 'No products match these filters'
+                    : 'No products available'}
+            </div>
+          ) : (
+            displayProducts.map((product) => (
+              <ProductCard key={product.id} product={product} />
+            ))
+          )}
+        </div>
       </div>
+
+      {/* Load More Sentinel - observed for infinite scroll, clickable as a fallback */}
+      {!isFilteredView && hasNextPage && (
+        <div
+          ref={loadMoreRef}
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            padding: '30px 0'
+          }}
+        >
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            style={{
+              padding: '10px 24px',
+              background: 'white',
+              border: '1px solid #667eea',
+              borderRadius: '6px',
+              color: '#667eea',
+              fontSize: '14px',
+              cursor: isFetchingNextPage ? 'wait' : 'pointer'
+            }}
+          >
+            {isFetchingNextPage ? 'Loading more products...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,24 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import AuthForm from '../components/auth/AuthForm';
+
+/**
+ * LoginPage component - sign-in / registration screen at /login
+ * Once the user is signed in, returns them to the page that sent them here
+ * (ProtectedRoute passes it as location state), or to the catalog
+ */
+const LoginPage = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  if (user) {
+    const destination = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+    return <Navigate to={destination} replace />;
+  }
+
+  return <AuthForm />;
+};
+
+export default LoginPage;
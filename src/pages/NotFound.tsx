@@ -0,0 +1,48 @@
+import { Link, useLocation } from 'react-router-dom';
+
+/**
+ * NotFound component - shown for any URL that doesn't match a route
+ */
+const NotFound = () => {
+  const location = useLocation();
+
+  return (
+    <div style={{
+      textAlign: 'center',
+      padding: '60px 20px',
+      background: 'white',
+      borderRadius: '12px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+    }}>
+      <h1 style={{
+        color: '#333',
+        fontSize: '48px',
+        margin: '0 0 10px'
+      }}>
+        404
+      </h1>
+      <p style={{
+        color: '#666',
+        fontSize: '18px',
+        marginBottom: '30px'
+      }}>
+        We couldn't find <code>{location.pathname}</code>
+      </p>
+      <Link
+        to="/"
+        style={{
+          padding: '12px 24px',
+          background: '#667eea',
+          color: 'white',
+          borderRadius: '6px',
+          textDecoration: 'none',
+          fontSize: '16px'
+        }}
+      >
+        Back to the catalog
+      </Link>
+    </div>
+  );
+};
+
+export default NotFound;
@@ -0,0 +1,18 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import OrderDetail from '../components/orders/OrderDetail';
+
+/**
+ * OrderDetailPage component - deep-linkable order view at /orders/:orderId
+ */
+const OrderDetailPage = () => {
+  const { orderId = '' } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <div style={{ background: 'white', borderRadius: '12px' }}>
+      <OrderDetail orderId={orderId} onBack={() => navigate('/orders')} />
+    </div>
+  );
+};
+
+export default OrderDetailPage;
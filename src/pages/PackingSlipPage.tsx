@@ -0,0 +1,48 @@
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import PackingSlip from '../components/orders/PackingSlip';
+import { getOrder } from '../utils/orderApi';
+import { getUserProfile } from '../utils/userApi';
+import { buildPackingSlip } from '../utils/packingSlip';
+
+const messageStyle = { textAlign: 'center' as const, padding: '40px', fontFamily: 'Arial, sans-serif' };
+
+/**
+ * PackingSlipPage component - printable slip at /admin/orders/:orderId/packing-slip
+ * Rendered without the app layout so only the slip is printed
+ */
+const PackingSlipPage = () => {
+  const { orderId = '' } = useParams<{ orderId: string }>();
+
+  const { data: slip, isLoading, isError } = useQuery({
+    queryKey: ['packingSlip', orderId],
+    queryFn: async () => {
+      const order = await getOrder(orderId);
+      if (!order) {
+        return null;
+      }
+      const customer = await getUserProfile(order.userId).catch(() => null);
+      return buildPackingSlip({ ...order, orderId }, customer);
+    }
+  });
+
+  if (isLoading) {
+    return <div style={messageStyle}>Loading packing slip...</div>;
+  }
+
+  if (isError || !slip) {
+    return <div style={messageStyle} role="alert">{isError ? 'Failed to load the order.' : `Order ${orderId} not found.`}</div>;
+  }
+
+  return (
+    <>
+      <style>{'@media print { .no-print { display: none; } }'}</style>
+      <div className="no-print" style={{ textAlign: 'center', padding: '15px' }}>
+        <button type="button" onClick={() => window.print()}>🖨️ Print</button>
+      </div>
+      <PackingSlip slip={slip} />
+    </>
+  );
+};
+
+export default PackingSlipPage;
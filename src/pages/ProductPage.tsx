@@ -0,0 +1,335 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { getAllProducts, DEFAULT_SORT_MODE } from '../utils/productApi';
+import { getProductCatalog, Sourced } from '../utils/productCatalog';
+import { getProductImages, getProductSpecs, getRelatedProducts } from '../utils/productDetails';
+import {
+  addItemWithQuantity,
+  getAddToCartBlocker,
+  getAvailableStock,
+  getCartLineKey,
+  selectCartWarning
+} from '../features/cart/cartSlice';
+import {
+  findVariant,
+  getVariantPriceRange,
+  hasPurchasableVariant,
+  hasVariants,
+  resolveVariant
+} from '../utils/productVariants';
+import ProductGallery from '../components/ProductGallery';
+import VariantPicker from '../components/VariantPicker';
+import ProductReviews from '../components/reviews/ProductReviews';
+import DataSourceBanner from '../components/DataSourceBanner';
+import NotFound from './NotFound';
+import type { Product } from '../types/product';
+
+const panelStyle: React.CSSProperties = {
+  background: 'rgba(0, 0, 0, 0.8)',
+  border: '2px solid rgba(255, 215, 0, 0.3)',
+  borderRadius: '12px',
+  padding: '24px',
+  marginTop: '15px',
+  color: 'rgba(255, 215, 0, 0.9)',
+  fontFamily: 'monospace, "Courier New"'
+};
+
+const headingStyle: React.CSSProperties = {
+  color: '#ffd700',
+  fontSize: '18px',
+  margin: '0 0 12px'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '14px 24px',
+  background: 'linear-gradient(135deg, rgba(255, 215, 0, 0.1), rgba(255, 215, 0, 0.05))',
+  border: '2px solid rgba(255, 215, 0, 0.5)',
+  borderRadius: '8px',
+  color: '#ffd700',
+  fontSize: '16px',
+  fontWeight: '700',
+  cursor: 'pointer',
+  textTransform: 'uppercase',
+  letterSpacing: '2px',
+  fontFamily: 'monospace, "Courier New"'
+};
+
+const specCellStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderBottom: '1px solid rgba(255, 215, 0, 0.15)',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+// Shared with Homepage's unfiltered catalog query, so related products usually come from cache
+const RELATED_SOURCE_KEY = ['productCatalog', 'all', DEFAULT_SORT_MODE];
+
+const renderStars = (rating: number) => {
+  const fullStars = Math.min(5, Math.floor(rating));
+  return '★'.repeat(fullStars) + '☆'.repeat(5 - fullStars);
+};
+
+/**
+ * Describes stock for the detail view; undefined stock means it isn't tracked
+ * For products with variants, `purchasable` is the chosen variant (or undefined before one is chosen)
+ */
+const getStockLabel = (product: Product, purchasable?: Pick<Product, 'stock'>): { text: string; color: string } => {
+  if (product.active === false) {
+    return { text: 'No longer available', color: '#ff6b6b' };
+  }
+  if (hasVariants(product) && !purchasable) {
+    return hasPurchasableVariant(product)
+      ? { text: 'Choose options to see availability', color: 'rgba(255, 215, 0, 0.8)' }
+      : { text: 'Out of stock', color: '#ff6b6b' };
+  }
+  const available = getAvailableStock(purchasable ?? product);
+  if (available === undefined) {
+    return { text: 'In stock', color: '#4caf50' };
+  }
+  if (available === 0) {
+    return { text: 'Out of stock', color: '#ff6b6b' };
+  }
+  if (available <= 5) {
+    return { text: `Only ${available} left in stock`, color: '#ffb74d' };
+  }
+  return { text: `In stock (${available} available)`, color: '#4caf50' };
+};
+
+/**
+ * ProductPage component - deep-linkable product detail view at /products/:id
+ * Shows the image gallery, spec table for the optional catalog fields, stock
+ * status, a quantity selector with add-to-cart, and related products
+ */
+const ProductPage = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const dispatch = useDispatch();
+  const [quantity, setQuantity] = useState(1);
+  const [added, setAdded] = useState(false);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [shownId, setShownId] = useState(id);
+
+  // Following a related-product link reuses this component, so start the selector over
+  if (shownId !== id) {
+    setShownId(id);
+    setQuantity(1);
+    setAdded(false);
+    setSelection({});
+  }
+
+  // Read with its source, so a product served by a fallback catalog is flagged
+  const {
+    data: sourced,
+    isLoading,
+    isError,
+    error,
+  } = useQuery<Sourced<Product | null>, Error>({
+    queryKey: ['product', id],
+    queryFn: async () => {
+      return await getProductCatalog().getProduct(id);
+    },
+    enabled: id !== '',
+    retry: 2,
+    retryDelay: 1000
+  });
+
+  const product = sourced?.data;
+
+  // Products with variants are bought as the chosen variant, with its own price, stock and SKU
+  const variant = product && hasVariants(product) ? findVariant(product, selection) : undefined;
+  const cartProduct = product && variant ? resolveVariant(product, variant) : product;
+  const lineKey = cartProduct ? getCartLineKey(cartProduct) : id;
+
+  const warning = useSelector((state: RootState) => selectCartWarning(state, lineKey));
+  const inCart = useSelector((state: RootState) =>
+    state.cart.items.find(item => getCartLineKey(item) === lineKey)?.quantity ?? 0
+  );
+
+  const { data: catalog = [] } = useQuery<Product[], Error>({
+    queryKey: RELATED_SOURCE_KEY,
+    queryFn: async () => {
+      return await getAllProducts(true, DEFAULT_SORT_MODE);
+    },
+    enabled: !!product,
+    staleTime: 5 * 60 * 1000
+  });
+
+  if (isLoading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: 'white', fontSize: '18px' }}>
+        Loading product...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#dc3545', fontSize: '16px' }}>
+        {error?.message || 'Error loading product'}
+      </div>
+    );
+  }
+
+  if (!sourced || !product || !cartProduct) {
+    return <NotFound />;
+  }
+
+  const blocker = getAddToCartBlocker(cartProduct);
+  const available = getAvailableStock(cartProduct);
+  const stockLabel = getStockLabel(product, variant ? cartProduct : undefined);
+  const specs = getProductSpecs(cartProduct);
+  const related = getRelatedProducts(product, catalog);
+  const priceRange = getVariantPriceRange(product);
+
+  // The selector only offers what can still go into the cart on top of what's there
+  const maxQuantity = available === undefined ? 99 : Math.max(1, available - inCart);
+  const canAddMore = !blocker && (available === undefined || inCart < available);
+
+  const handleQuantityChange = (value: number) => {
+    setAdded(false);
+    setQuantity(Math.min(maxQuantity, Math.max(1, Math.floor(value) || 1)));
+  };
+
+  const handleSelectionChange = (next: Record<string, string>) => {
+    setSelection(next);
+    setQuantity(1);
+    setAdded(false);
+  };
+
+  const handleAddToCart = () => {
+    dispatch(addItemWithQuantity({ product: cartProduct, quantity }));
+    setAdded(true);
+    setQuantity(1);
+  };
+
+  return (
+    <div style={{ maxWidth: '1000px', margin: '0 auto' }}>
+      <Link to="/" style={{ color: 'white', textDecoration: 'none', fontSize: '14px' }}>
+        ← Back to catalog
+      </Link>
+
+      <div style={{ marginTop: '15px' }}>
+        <DataSourceBanner source={sourced.source} degraded={sourced.degraded} />
+      </div>
+
+      <div style={{ ...panelStyle, display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '30px' }}>
+        <ProductGallery
+          key={product.id}
+          images={getProductImages(product)}
+          title={product.title}
+          activeImage={variant?.image}
+        />
+
+        <div>
+          {product.brand && (
+            <div style={{ fontSize: '14px', letterSpacing: '1px', textTransform: 'uppercase' }}>{product.brand}</div>
+          )}
+          <h1 style={{ color: '#ffd700', fontSize: 'clamp(22px, 4vw, 30px)', margin: '6px 0 10px' }}>
+            {product.title}
+          </h1>
+          {product.rating && product.rating.count > 0 && (
+            <div style={{ marginBottom: '10px' }}>
+              <span style={{ color: '#ffd700' }}>{renderStars(product.rating.rate)}</span>
+              <span> {product.rating.rate.toFixed(1)} ({product.rating.count} reviews)</span>
+            </div>
+          )}
+          <div style={{ color: '#ffd700', fontSize: '28px', fontWeight: '700', marginBottom: '10px' }}>
+            {!variant && priceRange.min !== priceRange.max
+              ? `$${priceRange.min.toFixed(2)} – $${priceRange.max.toFixed(2)}`
+              : `$${cartProduct.price.toFixed(2)}`}
+          </div>
+          <div style={{ color: stockLabel.color, marginBottom: '20px' }}>{stockLabel.text}</div>
+
+          {hasVariants(product) && (
+            <VariantPicker product={product} selection={selection} onChange={handleSelectionChange} />
+          )}
+
+          {(!blocker || blocker.reason === 'variant-required') && (
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                Qty
+                <input
+                  type="number"
+                  min={1}
+                  max={maxQuantity}
+                  value={quantity}
+                  onChange={(e) => handleQuantityChange(Number(e.target.value))}
+                  disabled={!canAddMore}
+                  style={{ width: '70px', padding: '10px', borderRadius: '6px', border: '1px solid rgba(255, 215, 0, 0.5)' }}
+                />
+              </label>
+              <button
+                onClick={handleAddToCart}
+                disabled={!canAddMore}
+                style={{ ...buttonStyle, ...(canAddMore ? {} : { opacity: 0.4, cursor: 'not-allowed' }) }}
+              >
+                {blocker?.reason === 'variant-required' ? 'Choose Options' : 'Add to Cart'}
+              </button>
+            </div>
+          )}
+
+          {inCart > 0 && (
+            <div style={{ marginTop: '12px', fontSize: '14px' }}>
+              {added ? '✓ Added. ' : ''}{inCart} in your cart · <Link to="/cart" style={{ color: '#ffd700' }}>View cart</Link>
+            </div>
+          )}
+          {warning && (
+            <div style={{ marginTop: '10px', color: '#ff6b6b', fontSize: '14px' }} role="alert">
+              ⚠️ {warning.message}
+            </div>
+          )}
+
+          <p style={{ lineHeight: '1.6', marginTop: '20px' }}>{product.description}</p>
+        </div>
+      </div>
+
+      <section style={panelStyle}>
+        <h2 style={headingStyle}>Specifications</h2>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {specs.map(spec => (
+              <tr key={spec.label}>
+                <th style={{ ...specCellStyle, width: '30%', color: '#ffd700' }}>{spec.label}</th>
+                <td style={specCellStyle}>{spec.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section style={panelStyle}>
+        <h2 style={headingStyle}>
+          Customer reviews{product.rating?.count ? ` (${product.rating.count})` : ''}
+        </h2>
+        <ProductReviews productId={String(product.id)} />
+      </section>
+
+      {related.length > 0 && (
+        <section style={panelStyle}>
+          <h2 style={headingStyle}>Related products</h2>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '15px' }}>
+            {related.map(item => (
+              <Link
+                key={item.id}
+                to={`/products/${item.id}`}
+                style={{ color: 'inherit', textDecoration: 'none', border: '1px solid rgba(255, 215, 0, 0.2)', borderRadius: '8px', padding: '10px' }}
+              >
+                <img
+                  src={item.image}
+                  alt={item.title}
+                  style={{ width: '100%', height: '120px', objectFit: 'contain', background: 'white', borderRadius: '6px' }}
+                />
+                <div style={{ fontSize: '14px', margin: '8px 0 4px' }}>{item.title}</div>
+                <div style={{ color: '#ffd700', fontWeight: '700' }}>${item.price.toFixed(2)}</div>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ProductPage;
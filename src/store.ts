@@ -12,7 +12,8 @@ const loadState = () => {
         // rest of state will be initialized by reducers
         const parsed = JSON.parse(serializedState);
         console.log('✅ Loaded cart state from sessionStorage:', parsed);
-        return { cart: parsed };
+        // Older saved carts have no warnings map or owner, so default them
+        return { cart: { items: parsed.items ?? [], warnings: parsed.warnings ?? {}, ownerUid: parsed.ownerUid ?? null } };
     } catch (err) {
         console.warn('⚠️  Failed to load cart state from sessionStorage:', err);
         return undefined; // Errors treated as if no state is saved
@@ -4,6 +4,25 @@ interface Rating {
     count: number;
 }
 
+// An option axis a product varies along, e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+interface VariantOption {
+    name: string;
+    values: string[];
+}
+
+// One purchasable combination of option values, e.g. a medium red T-shirt
+interface ProductVariant {
+    id: string;                     // Stable within the product; carried on cart and order lines
+    options: Record<string, string>; // Option name → chosen value, one entry per VariantOption
+    sku?: string;                   // Variant SKU (falls back to the product's)
+    price?: number;                 // Price override (falls back to the product's)
+    stock?: number;                 // Variant stock; untracked when absent, like Product.stock
+    image?: string;                 // Variant image (falls back to the product's)
+}
+
+// Tax rate group a product is sold under; products without one are 'standard'
+type TaxClass = 'standard' | 'reduced' | 'zero';
+
 // Product interface for e-commerce application
 interface Product {
     id: string | number;            // Compatible with Firebase string IDs
@@ -12,12 +31,16 @@ interface Product {
     description: string;
     category: string;
     image: string;
+    images?: string[];              // Additional gallery images; `image` stays the primary (optional)
     rating: Rating;
+    ratingTotal?: number;           // Sum of review stars behind `rating`, kept in step by reviewApi (optional)
     stock?: number;                 // Available quantity (optional for backward compatibility)
+    stockOrderId?: string;          // Order whose placing or cancelling last moved the stock; checked by the security rules (optional)
     tags?: string[];                // Product tags for search (optional)
     brand?: string;                 // Product brand (optional)
     sku?: string;                   // Stock Keeping Unit (optional)
     weight?: number;                // Product weight (optional)
+    taxClass?: TaxClass;            // Tax rate group (optional, 'standard' when absent)
     dimensions?: {                  // Product dimensions (optional)
         length: number;
         width: number;
@@ -26,9 +49,14 @@ interface Product {
     createdAt?: Date;              // Creation timestamp (optional)
     updatedAt?: Date;              // Last update timestamp (optional)
     active?: boolean;              // Product availability status (optional)
+    archivedAt?: Date;             // When the product was archived; archived products are inactive (optional)
+    archivedBy?: string;           // User who archived the product (optional)
+    activeBeforeArchive?: boolean; // Whether the product was active when archived; restoring puts it back (optional)
+    variantOptions?: VariantOption[]; // Option axes; set together with variants (optional)
+    variants?: ProductVariant[];    // Purchasable combinations; stock lives here instead of `stock` (optional)
 }
 
 // This interface supports Firebase Firestore implementation
 // Enhanced to meet assignment requirements while maintaining backward compatibility
 
-export type { Product, Rating };
\ No newline at end of file
+export type { Product, Rating, VariantOption, ProductVariant, TaxClass };
\ No newline at end of file
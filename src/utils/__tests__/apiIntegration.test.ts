@@ -0,0 +1,403 @@
+/**
+ * API Integration Tests (in-memory Firestore)
+ *
+ * Runs the product, user and order APIs against the in-memory Firestore
+ * backend instead of call-by-call mocks, so these tests check what ends up
+ * stored and read back: stock reservations, restocking on cancellation,
+ * concurrent orders for the last unit, product and order paging, archiving
+ * and purging products, and role checks.
+ *
+ * @fileoverview Product, user and order API behavior over the in-memory backend
+ * @version 1.0.0
+ */
+
+import {
+    createProductWithId,
+    getProduct,
+    getProductsPage,
+    updateProduct,
+    updateProducts,
+    archiveProducts,
+    restoreProducts,
+    purgeProduct,
+    searchProducts,
+    ProductInUseError
+} from '../productApi';
+import { clearSearchIndex } from '../searchIndex';
+import { createUserProfile, getUserProfile, updateUserProfile } from '../userApi';
+import {
+    createOrder,
+    cancelOrder,
+    getUserOrders,
+    getOrdersPage,
+    updateOrderStatuses,
+    addOrderNote,
+    getOrderNotes,
+    InsufficientStockError,
+    InvalidStatusTransitionError
+} from '../orderApi';
+import { configureProductCatalog } from '../productCatalog';
+import { RoleRequiredError } from '../roles';
+import { doc, exportMemoryFirestore, getFirestore, resetMemoryFirestore, Timestamp, updateDoc } from '../memoryFirestore';
+
+/**
+ * Mock the firebase configuration module
+ * This prevents the import.meta error during Jest test runs
+ */
+jest.mock('../../config/firebase', () => ({
+    db: {},
+    auth: { currentUser: { uid: 'user123' } }
+}));
+
+/**
+ * Point every API module at the in-memory backend
+ */
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const lamp = {
+    title: 'Desk Lamp',
+    price: 25,
+    description: 'Adjustable arm',
+    category: 'home',
+    image: 'https://example.com/lamp.jpg',
+    rating: { rate: 4.2, count: 10 },
+    stock: 3
+};
+
+const orderFor = (quantity: number, price = 25) => ({
+    userId: 'user123',
+    products: [{ productId: 'lamp', name: 'Desk Lamp', price, quantity }],
+    shippingAddress: '1 Main Street, Springfield'
+});
+
+describe('API modules over the in-memory backend', () => {
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        // The signed-in user manages the catalog
+        resetMemoryFirestore({ 'users/user123': { role: 'staff' } });
+        // Read products from Firestore only, so nothing reaches the network
+        configureProductCatalog({ source: 'firestore', fallback: null, restBaseUrl: '' });
+        await createProductWithId('lamp', lamp);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores products with Timestamps and reads them back as Dates', async () => {
+        // Act
+        await updateProduct('lamp', { price: 30 });
+        const product = await getProduct('lamp');
+
+        // Assert
+        expect(exportMemoryFirestore()['products/lamp'].updatedAt).toBeInstanceOf(Timestamp);
+        expect(product).toMatchObject({ id: 'lamp', price: 30, active: true });
+        expect(product?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('removes product fields updated to undefined', async () => {
+        // Act
+        await updateProduct('lamp', { stock: undefined, brand: 'Lumo' });
+
+        // Assert
+        expect(exportMemoryFirestore()['products/lamp']).not.toHaveProperty('stock');
+        expect(await getProduct('lamp')).toMatchObject({ brand: 'Lumo' });
+    });
+
+    it('pages through active products in order', async () => {
+        // Arrange
+        await createProductWithId('bulb', { ...lamp, title: 'Bulb' });
+        await createProductWithId('chair', { ...lamp, title: 'Chair' });
+
+        // Act
+        const first = await getProductsPage({ pageSize: 2 });
+        const second = await getProductsPage({ pageSize: 2, cursor: first.nextCursor });
+
+        // Assert
+        expect(first.products.map(product => product.id)).toEqual(['bulb', 'chair']);
+        expect(second.products.map(product => product.id)).toEqual(['lamp']);
+        expect(second.nextCursor).toBeNull();
+        expect(first.source).toBe('firestore');
+    });
+
+    it('only lets staff write products, going by the role stored on the profile', async () => {
+        // Arrange
+        resetMemoryFirestore({ 'users/user123': { role: 'customer' } });
+
+        // Act & Assert
+        await expect(createProductWithId('bulb', { ...lamp, title: 'Bulb' })).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(exportMemoryFirestore()['products/bulb']).toBeUndefined();
+    });
+
+    it('updates products in bulk', async () => {
+        // Arrange
+        await createProductWithId('bulb', { ...lamp, title: 'Bulb' });
+
+        // Act
+        await updateProducts(['lamp', 'bulb'], { category: 'lighting', active: false });
+
+        // Assert
+        expect(await Promise.all([getProduct('lamp'), getProduct('bulb')])).toEqual([
+            expect.objectContaining({ title: 'Desk Lamp', category: 'lighting', active: false }),
+            expect.objectContaining({ title: 'Bulb', category: 'lighting', active: false })
+        ]);
+    });
+
+    describe('archiving', () => {
+        beforeEach(async () => {
+            await updateDoc(doc(getFirestore(), 'users', 'user123'), { role: 'admin' });
+        });
+
+        it('archives products, keeping them for past orders, and restores them', async () => {
+            // Act
+            await archiveProducts(['lamp']);
+            const archived = await getProduct('lamp');
+            const activePage = await getProductsPage();
+            await restoreProducts(['lamp']);
+
+            // Assert
+            expect(archived).toMatchObject({ title: 'Desk Lamp', active: false, archivedBy: 'user123' });
+            expect(archived?.archivedAt).toBeInstanceOf(Date);
+            expect(activePage.products).toEqual([]);
+            expect(exportMemoryFirestore()['products/lamp']).not.toHaveProperty('archivedAt');
+            expect(await getProduct('lamp')).toMatchObject({ active: true, stock: 3 });
+        });
+
+        it('restores products that were inactive when archived as inactive', async () => {
+            // Arrange
+            await updateProduct('lamp', { active: false });
+
+            // Act
+            await archiveProducts(['lamp']);
+            await archiveProducts(['lamp']);
+            await restoreProducts(['lamp']);
+
+            // Assert
+            expect(await getProduct('lamp')).toMatchObject({ active: false });
+            expect(exportMemoryFirestore()['products/lamp']).not.toHaveProperty('activeBeforeArchive');
+        });
+
+        it('refuses orders for archived products', async () => {
+            // Arrange
+            await archiveProducts(['lamp']);
+
+            // Act & Assert
+            await expect(createOrder(orderFor(1))).rejects.toBeInstanceOf(InsufficientStockError);
+            expect((await getProduct('lamp'))?.stock).toBe(3);
+        });
+
+        it('only purges archived products that no order refers to', async () => {
+            // Arrange
+            await createProductWithId('bulb', { ...lamp, title: 'Bulb' });
+            const order = await createOrder(orderFor(1));
+            await archiveProducts(['lamp', 'bulb']);
+
+            // Act
+            const inUse = await purgeProduct('lamp').catch(error => error);
+            await purgeProduct('bulb');
+
+            // Assert
+            expect(inUse).toBeInstanceOf(ProductInUseError);
+            expect(inUse.orderIds).toEqual([order.orderId]);
+            expect(await getProduct('lamp')).not.toBeNull();
+            expect(await getProduct('bulb')).toBeNull();
+        });
+
+        it('keeps the search index in step with archiving, restoring and purging', async () => {
+            // Arrange
+            clearSearchIndex();
+            await createProductWithId('bulb', { ...lamp, title: 'Desk Bulb' });
+            const titles = async (activeOnly: boolean) => (await searchProducts('desk', activeOnly)).map(product => product.title);
+            await titles(true);  // Builds the index before anything changes
+
+            // Act & Assert
+            await archiveProducts(['lamp', 'bulb']);
+            expect(await titles(true)).toEqual([]);
+            expect(await titles(false)).toHaveLength(2);
+
+            await restoreProducts(['lamp']);
+            expect(await titles(true)).toEqual(['Desk Lamp']);
+
+            await purgeProduct('bulb');
+            expect(await titles(false)).toEqual(['Desk Lamp']);
+        });
+
+        it('refuses to purge a product that is not archived', async () => {
+            // Act & Assert
+            await expect(purgeProduct('lamp')).rejects.toThrow('Archive product lamp before purging it');
+            expect(await getProduct('lamp')).not.toBeNull();
+        });
+    });
+
+    it('lets staff archive and restore products, but only admins purge them', async () => {
+        // Act
+        await archiveProducts(['lamp']);
+        const archived = await getProduct('lamp');
+        const purge = purgeProduct('lamp');
+
+        // Assert
+        expect(archived).toMatchObject({ active: false, archivedBy: 'user123' });
+        await expect(purge).rejects.toBeInstanceOf(RoleRequiredError);
+        await restoreProducts(['lamp']);
+        expect(await getProduct('lamp')).toMatchObject({ active: true });
+    });
+
+    it('does not let customers archive products', async () => {
+        // Arrange
+        await updateDoc(doc(getFirestore(), 'users', 'user123'), { role: 'customer' });
+
+        // Act & Assert
+        await expect(archiveProducts(['lamp'])).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(await getProduct('lamp')).toMatchObject({ active: true });
+    });
+
+    it('creates and updates user profiles', async () => {
+        // Act
+        await createUserProfile('user123', 'ada@example.com', 'Ada');
+        await updateUserProfile('user123', { firstName: 'Ada', lastName: 'Lovelace' });
+        const profile = await getUserProfile('user123');
+
+        // Assert
+        expect(profile).toMatchObject({ email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' });
+        expect(profile?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('reserves stock when ordering and returns it on cancellation', async () => {
+        // Act
+        const order = await createOrder(orderFor(2));
+        const stockAfterOrder = (await getProduct('lamp'))?.stock;
+        await cancelOrder(order.orderId, 'Changed my mind');
+
+        // Assert
+        expect(stockAfterOrder).toBe(1);
+        expect((await getProduct('lamp'))?.stock).toBe(3);
+        expect(await getUserOrders('user123')).toEqual([
+            expect.objectContaining({ orderId: order.orderId, status: 'cancelled', totalPrice: 50 })
+        ]);
+    });
+
+    it('keeps the product as it was bought on each order line', async () => {
+        // Arrange
+        await updateProduct('lamp', { sku: 'LAMP-01', brand: 'Lumo', taxClass: 'reduced' });
+
+        // Act
+        const order = await createOrder(orderFor(1));
+        await updateProduct('lamp', { title: 'Desk Lamp v2', price: 30, sku: 'LAMP-02' });
+        const [stored] = await getUserOrders('user123');
+
+        // Assert
+        expect(stored.orderId).toBe(order.orderId);
+        expect(stored.products[0].snapshot).toEqual({
+            title: 'Desk Lamp',
+            image: 'https://example.com/lamp.jpg',
+            sku: 'LAMP-01',
+            category: 'home',
+            brand: 'Lumo',
+            unitPrice: 25,
+            taxClass: 'reduced'
+        });
+    });
+
+    it('rejects an order larger than the stock without writing anything', async () => {
+        // Act & Assert
+        await expect(createOrder(orderFor(4))).rejects.toBeInstanceOf(InsufficientStockError);
+        expect((await getProduct('lamp'))?.stock).toBe(3);
+        expect(Object.keys(exportMemoryFirestore()).filter(path => path.startsWith('orders/'))).toEqual([]);
+    });
+
+    it('sells the last units to only one of two concurrent orders', async () => {
+        // Act
+        const results = await Promise.allSettled([createOrder(orderFor(2)), createOrder(orderFor(2))]);
+
+        // Assert
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect((await getProduct('lamp'))?.stock).toBe(1);
+    });
+
+    describe('staff order tools', () => {
+        // Orders and notes sort by creation time, so give each its own millisecond
+        const nextMillisecond = () => new Promise(resolve => setTimeout(resolve, 2));
+
+        const placeOrders = async (quantities: number[]) => {
+            const orderIds: string[] = [];
+            for (const quantity of quantities) {
+                orderIds.push((await createOrder(orderFor(quantity))).orderId);
+                await nextMillisecond();
+            }
+            return orderIds;
+        };
+
+        beforeEach(async () => {
+            await updateProduct('lamp', { stock: 20 });
+            // createUserProfile starts everyone as a customer
+            await createUserProfile('user123', 'ada@example.com', 'Ada');
+            await updateDoc(doc(getFirestore(), 'users', 'user123'), { role: 'staff' });
+        });
+
+        it('filters orders by status, customer email and total, newest first', async () => {
+            // Arrange
+            const [small, large, cancelled] = await placeOrders([1, 3, 2]);
+            await cancelOrder(cancelled, 'Duplicate');
+
+            // Act
+            const pending = await getOrdersPage({ status: 'pending', customerEmail: 'ada@example.com' });
+            const big = await getOrdersPage({ minTotal: 50 });
+            const stranger = await getOrdersPage({ customerEmail: 'nobody@example.com' });
+
+            // Assert
+            expect(pending.orders.map(order => order.orderId)).toEqual([large, small]);
+            expect(big.orders.map(order => order.orderId)).toEqual([cancelled, large]);
+            expect(stranger.orders).toEqual([]);
+        });
+
+        it('filters by date range and pages with a cursor', async () => {
+            // Arrange
+            const orderIds = await placeOrders([1, 1, 1, 2, 1]);
+            const from = new Date(Date.now() - 60_000);
+
+            // Act
+            const first = await getOrdersPage({ from, maxTotal: 25 }, { pageSize: 2 });
+            const second = await getOrdersPage({ from, maxTotal: 25 }, { pageSize: 2, cursor: first.nextCursor });
+            const future = await getOrdersPage({ from: new Date(Date.now() + 60_000) });
+
+            // Assert
+            expect([...first.orders, ...second.orders].map(order => order.orderId))
+                .toEqual([orderIds[4], orderIds[2], orderIds[1], orderIds[0]]);
+            expect(second.nextCursor).toBeNull();
+            expect(future.orders).toEqual([]);
+        });
+
+        it('updates statuses in bulk and reports the orders that could not move', async () => {
+            // Arrange
+            const [first, second] = await placeOrders([1, 1]);
+            await cancelOrder(second, 'Duplicate');
+
+            // Act
+            const result = await updateOrderStatuses([first, second], 'confirmed', { actorUid: 'user123' });
+
+            // Assert
+            expect(result.updated).toEqual([first]);
+            expect(result.failed).toEqual([{ orderId: second, error: expect.any(InvalidStatusTransitionError) }]);
+            expect((await getOrdersPage({ status: 'confirmed' })).orders.map(order => order.orderId)).toEqual([first]);
+        });
+
+        it('keeps internal notes on an order, oldest first', async () => {
+            // Arrange
+            const [orderId] = await placeOrders([1]);
+
+            // Act
+            await addOrderNote(orderId, '  Gift wrap requested ');
+            await nextMillisecond();
+            await addOrderNote(orderId, 'Called customer');
+
+            // Assert
+            expect(await getOrderNotes(orderId)).toEqual([
+                expect.objectContaining({ text: 'Gift wrap requested', authorUid: 'user123', createdAt: expect.any(Date) }),
+                expect.objectContaining({ text: 'Called customer' })
+            ]);
+            await expect(addOrderNote(orderId, ' ')).rejects.toMatchObject({ name: 'ValidationError' });
+            await expect(addOrderNote('missing', 'Hello')).rejects.toThrow(/not found/);
+        });
+    });
+});
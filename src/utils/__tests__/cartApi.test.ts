@@ -0,0 +1,106 @@
+/**
+ * Cart API Tests
+ * 
+ * Validates per-user cart persistence in the Firestore `carts` collection
+ * using mocked Firestore operations.
+ * 
+ * @fileoverview Unit tests for cartApi.ts functions
+ * @version 1.0.0
+ */
+
+import { getUserCart, saveUserCart } from '../cartApi';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import type { CartItem } from '../../features/cart/cartSlice';
+
+/**
+ * Mock Firebase configuration
+ */
+jest.mock('../../config/firebase', () => ({
+    db: {}
+}));
+
+/**
+ * Mock all Firestore functions used by cartApi
+ */
+jest.mock('firebase/firestore', () => ({
+    doc: jest.fn(),
+    getDoc: jest.fn(),
+    setDoc: jest.fn()
+}));
+
+// Create typed mock functions
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+const mockSetDoc = setDoc as jest.MockedFunction<typeof setDoc>;
+
+const sampleItem: CartItem = {
+    id: 'prod1',
+    title: 'Wireless Headphones',
+    price: 99.99,
+    description: 'Noise cancelling',
+    category: 'electronics',
+    image: 'https://example.com/headphones.jpg',
+    rating: { rate: 4.5, count: 10 },
+    quantity: 2
+};
+
+describe('getUserCart', () => {
+    beforeEach(() => {
+        mockGetDoc.mockReset();
+        mockDoc.mockReset();
+        mockDoc.mockReturnValue({} as never);
+    });
+
+    it('returns the stored items for a user', async () => {
+        // Arrange
+        mockGetDoc.mockResolvedValue({
+            exists: () => true,
+            data: () => ({ items: [sampleItem] })
+        } as never);
+
+        // Act
+        const result = await getUserCart('user123');
+
+        // Assert
+        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'carts', 'user123');
+        expect(result).toEqual([sampleItem]);
+    });
+
+    it('returns null when the user has no stored cart', async () => {
+        // Arrange
+        mockGetDoc.mockResolvedValue({ exists: () => false } as never);
+
+        // Act & Assert
+        expect(await getUserCart('user123')).toBeNull();
+    });
+});
+
+describe('saveUserCart', () => {
+    beforeEach(() => {
+        mockSetDoc.mockReset();
+        mockDoc.mockReset();
+        mockDoc.mockReturnValue({} as never);
+    });
+
+    it('writes items without timestamps or undefined fields', async () => {
+        // Arrange
+        mockSetDoc.mockResolvedValue(undefined);
+
+        // Act
+        await saveUserCart('user123', [{ ...sampleItem, stock: undefined, createdAt: new Date() }]);
+
+        // Assert
+        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'carts', 'user123');
+        const saved = mockSetDoc.mock.calls[0][1] as { items: CartItem[]; updatedAt: Date };
+        expect(saved.items).toEqual([sampleItem]);
+        expect(saved.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('throws error when saving fails', async () => {
+        // Arrange
+        mockSetDoc.mockRejectedValue(new Error('Save failed'));
+
+        // Act & Assert
+        await expect(saveUserCart('user123', [sampleItem])).rejects.toThrow('Save failed');
+    });
+});
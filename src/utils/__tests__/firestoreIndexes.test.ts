@@ -0,0 +1,45 @@
+/**
+ * Firestore Index Tests
+ *
+ * Keeps the committed firestore.indexes.json in step with the queries the app runs.
+ *
+ * @fileoverview Composite index definition tests
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { buildFirestoreIndexes } from '../firestoreIndexes';
+import { PRODUCT_SORT_MODES } from '../productApi';
+
+jest.mock('../../config/firebase', () => ({
+    db: {}
+}));
+
+jest.mock('firebase/firestore', () => ({}));
+
+describe('buildFirestoreIndexes', () => {
+    it('matches the committed firestore.indexes.json', () => {
+        // Arrange
+        const committed = JSON.parse(readFileSync(join(process.cwd(), 'firestore.indexes.json'), 'utf8'));
+
+        // Act & Assert - on failure, replace the file with JSON.stringify(buildFirestoreIndexes(), null, 2)
+        expect(committed).toEqual(buildFirestoreIndexes());
+    });
+
+    it('covers every sort mode with and without a category filter', () => {
+        // Act
+        const productIndexes = buildFirestoreIndexes().indexes.filter(index => index.collectionGroup === 'products');
+
+        // Assert
+        Object.values(PRODUCT_SORT_MODES).forEach(({ field, direction }) => {
+            const order = direction === 'asc' ? 'ASCENDING' : 'DESCENDING';
+            const matching = productIndexes.filter(index => index.fields[index.fields.length - 1].fieldPath === field &&
+                index.fields[index.fields.length - 1].order === order);
+            expect(matching.map(index => index.fields.map(f => f.fieldPath))).toEqual([
+                ['active', field],
+                ['active', 'category', field]
+            ]);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * In-Memory Auth Tests
+ *
+ * Validates the in-memory stand-in for Firebase Auth: seeded users signing in
+ * with the shared password, registering and signing out, auth state listeners
+ * and restoring the session after a reload.
+ *
+ * @fileoverview In-memory authentication tests
+ * @version 1.0.0
+ */
+
+import {
+    createUserWithEmailAndPassword,
+    deleteUser,
+    getAuth,
+    MEMORY_AUTH_PASSWORD,
+    onAuthStateChanged,
+    resetMemoryAuth,
+    signInWithEmailAndPassword,
+    signOut,
+    User
+} from '../memoryAuth';
+import { resetMemoryFirestore } from '../memoryFirestore';
+
+const auth = getAuth();
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('memoryAuth', () => {
+    beforeEach(() => {
+        resetMemoryAuth();
+        resetMemoryFirestore({
+            'users/seed-user-001': { uid: 'seed-user-001', email: 'admin@example.com', displayName: 'Ada Admin', role: 'admin' }
+        });
+    });
+
+    it('signs seeded users in with the shared password', async () => {
+        // Act
+        const { user } = await signInWithEmailAndPassword(auth, 'Admin@Example.com ', MEMORY_AUTH_PASSWORD);
+
+        // Assert
+        expect(user).toMatchObject({ uid: 'seed-user-001', email: 'admin@example.com', displayName: 'Ada Admin' });
+        expect(auth.currentUser?.uid).toBe('seed-user-001');
+    });
+
+    it('rejects a wrong password or unknown email', async () => {
+        // Act & Assert
+        await expect(signInWithEmailAndPassword(auth, 'admin@example.com', 'nope'))
+            .rejects.toMatchObject({ code: 'auth/invalid-credential' });
+        await expect(signInWithEmailAndPassword(auth, 'nobody@example.com', MEMORY_AUTH_PASSWORD))
+            .rejects.toMatchObject({ code: 'auth/invalid-credential' });
+        expect(auth.currentUser).toBeNull();
+    });
+
+    it('registers new accounts with their own password', async () => {
+        // Act
+        const { user } = await createUserWithEmailAndPassword(auth, 'new@example.com', 'secret1');
+        await signOut(auth);
+
+        // Assert
+        await expect(signInWithEmailAndPassword(auth, 'new@example.com', MEMORY_AUTH_PASSWORD))
+            .rejects.toMatchObject({ code: 'auth/invalid-credential' });
+        await expect(signInWithEmailAndPassword(auth, 'new@example.com', 'secret1'))
+            .resolves.toMatchObject({ user: { uid: user.uid } });
+        await expect(createUserWithEmailAndPassword(auth, 'admin@example.com', 'secret1'))
+            .rejects.toMatchObject({ code: 'auth/email-already-in-use' });
+        await expect(createUserWithEmailAndPassword(auth, 'other@example.com', '123'))
+            .rejects.toMatchObject({ code: 'auth/weak-password' });
+    });
+
+    it('forgets deleted accounts', async () => {
+        // Arrange
+        const { user } = await createUserWithEmailAndPassword(auth, 'new@example.com', 'secret1');
+
+        // Act
+        await deleteUser(user);
+
+        // Assert
+        expect(auth.currentUser).toBeNull();
+        await expect(signInWithEmailAndPassword(auth, 'new@example.com', 'secret1'))
+            .rejects.toMatchObject({ code: 'auth/invalid-credential' });
+    });
+
+    it('tells listeners about the current user and later changes', async () => {
+        // Arrange
+        const seen: (string | null)[] = [];
+        const unsubscribe = onAuthStateChanged(auth, (user: User | null) => seen.push(user?.uid ?? null));
+        await flush();
+
+        // Act
+        await signInWithEmailAndPassword(auth, 'admin@example.com', MEMORY_AUTH_PASSWORD);
+        await signOut(auth);
+        unsubscribe();
+        await signInWithEmailAndPassword(auth, 'admin@example.com', MEMORY_AUTH_PASSWORD);
+
+        // Assert
+        expect(seen).toEqual([null, 'seed-user-001', null]);
+    });
+
+    it('restores a seeded user signed in before a reload', async () => {
+        // Arrange
+        await signInWithEmailAndPassword(auth, 'admin@example.com', MEMORY_AUTH_PASSWORD);
+        auth.currentUser = null;
+        auth.restoring = null;
+        const listener = jest.fn();
+
+        // Act
+        onAuthStateChanged(auth, listener);
+        await flush();
+
+        // Assert
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ uid: 'seed-user-001' }));
+    });
+});
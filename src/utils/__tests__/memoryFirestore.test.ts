@@ -0,0 +1,279 @@
+/**
+ * In-Memory Firestore Tests
+ *
+ * Validates that the in-memory backend behaves like Firestore where the API
+ * modules rely on it: document reads and writes, query filtering, ordering and
+ * paging, transactions and batched writes.
+ *
+ * @fileoverview In-memory Firestore backend tests
+ * @version 1.0.0
+ */
+
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    deleteField,
+    doc,
+    exportMemoryFirestore,
+    FirestoreError,
+    getDoc,
+    getDocs,
+    getFirestore,
+    limit,
+    orderBy,
+    query,
+    resetMemoryFirestore,
+    runTransaction,
+    setDoc,
+    startAfter,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from '../memoryFirestore';
+
+const db = getFirestore();
+
+const ids = (snapshot: { docs: { id: string }[] }) => snapshot.docs.map(docSnap => docSnap.id);
+
+describe('memoryFirestore', () => {
+    beforeEach(() => {
+        resetMemoryFirestore({
+            'products/a': { title: 'Apple', price: 3, category: 'fruit', active: true, tags: ['red'] },
+            'products/b': { title: 'Banana', price: 1, category: 'fruit', active: true, tags: ['yellow'] },
+            'products/c': { title: 'Cable', price: 12, category: 'electronics', active: false },
+            'products/d': { title: 'Dock', category: 'electronics', active: true },
+            'products/a/reviews/u1': { rating: 5 }
+        });
+    });
+
+    describe('documents', () => {
+        it('stores Dates as Timestamps and returns copies', async () => {
+            // Arrange
+            const createdAt = new Date('2024-05-01T10:00:00Z');
+            const ref = doc(db, 'users', 'u1');
+
+            // Act
+            await setDoc(ref, { name: 'Ada', createdAt, address: { city: 'London' } });
+            const snapshot = await getDoc(ref);
+            (snapshot.data() as { address: { city: string } }).address.city = 'Paris';
+
+            // Assert
+            expect(snapshot.exists()).toBe(true);
+            expect(snapshot.data()?.createdAt).toBeInstanceOf(Timestamp);
+            expect((snapshot.data()?.createdAt as Timestamp).toDate()).toEqual(createdAt);
+            expect(snapshot.get('address.city')).toBe('London');
+        });
+
+        it('rejects undefined field values like Firestore', async () => {
+            await expect(setDoc(doc(db, 'users', 'u1'), { name: undefined }))
+                .rejects.toMatchObject({ code: 'invalid-argument' });
+        });
+
+        it('merges when asked to and replaces otherwise', async () => {
+            // Arrange
+            const ref = doc(db, 'carts', 'u1');
+            await setDoc(ref, { items: [1], owner: { uid: 'u1', name: 'Ada' } });
+
+            // Act
+            await setDoc(ref, { owner: { name: 'Grace' } }, { merge: true });
+            const merged = (await getDoc(ref)).data();
+            await setDoc(ref, { items: [] });
+            const replaced = (await getDoc(ref)).data();
+
+            // Assert
+            expect(merged).toEqual({ items: [1], owner: { uid: 'u1', name: 'Grace' } });
+            expect(replaced).toEqual({ items: [] });
+        });
+
+        it('updates dotted fields and fails for missing documents', async () => {
+            // Act
+            await updateDoc(doc(db, 'products', 'a'), { 'rating.rate': 4.5, price: 4 });
+
+            // Assert
+            expect((await getDoc(doc(db, 'products', 'a'))).data()).toMatchObject({ price: 4, rating: { rate: 4.5 } });
+            await expect(updateDoc(doc(db, 'products', 'missing'), { price: 1 }))
+                .rejects.toMatchObject({ code: 'not-found' });
+        });
+
+        it('removes fields with deleteField in updates and merges only', async () => {
+            // Arrange
+            const ref = doc(db, 'products', 'a');
+
+            // Act
+            await updateDoc(ref, { tags: deleteField(), 'rating.rate': 4 });
+            await updateDoc(ref, { 'rating.rate': deleteField() });
+            await setDoc(ref, { category: deleteField() }, { merge: true });
+
+            // Assert
+            expect((await getDoc(ref)).data()).toEqual({ title: 'Apple', price: 3, active: true, rating: {} });
+            await expect(setDoc(ref, { price: deleteField() })).rejects.toMatchObject({ code: 'invalid-argument' });
+        });
+
+        it('adds with generated IDs, deletes, and keeps subcollections separate', async () => {
+            // Act
+            const ref = await addDoc(collection(db, 'products'), { title: 'Eraser' });
+            await deleteDoc(doc(db, 'products', 'b'));
+            const reviews = await getDocs(collection(db, 'products', 'a', 'reviews'));
+
+            // Assert
+            expect(ref.id).toHaveLength(20);
+            expect((await getDoc(ref)).data()).toEqual({ title: 'Eraser' });
+            expect((await getDoc(doc(db, 'products', 'b'))).exists()).toBe(false);
+            expect(ids(reviews)).toEqual(['u1']);
+        });
+
+        it('rejects references with the wrong number of path segments', () => {
+            expect(() => doc(db, 'products')).toThrow(FirestoreError);
+            expect(() => collection(db, 'products', 'a')).toThrow(FirestoreError);
+        });
+    });
+
+    describe('queries', () => {
+        it('filters with where and ignores subcollection documents', async () => {
+            // Act
+            const snapshot = await getDocs(query(
+                collection(db, 'products'),
+                where('category', '==', 'fruit'),
+                where('tags', 'array-contains', 'red')
+            ));
+
+            // Assert
+            expect(ids(snapshot)).toEqual(['a']);
+        });
+
+        it('orders, excluding documents that lack the ordered field', async () => {
+            // Act
+            const snapshot = await getDocs(query(collection(db, 'products'), orderBy('price', 'desc')));
+
+            // Assert
+            expect(ids(snapshot)).toEqual(['c', 'a', 'b']);
+        });
+
+        it('only compares range filters against values of the same type', async () => {
+            // Arrange
+            await setDoc(doc(db, 'products', 'e'), { price: 'free' });
+
+            // Act
+            const snapshot = await getDocs(query(collection(db, 'products'), where('price', '>=', 2)));
+
+            // Assert
+            expect(ids(snapshot)).toEqual(['a', 'c']);
+        });
+
+        it('pages with limit and startAfter a snapshot', async () => {
+            // Arrange
+            const byTitle = [where('active', '==', true), orderBy('title')];
+
+            // Act
+            const first = await getDocs(query(collection(db, 'products'), ...byTitle, limit(2)));
+            const second = await getDocs(query(collection(db, 'products'), ...byTitle, startAfter(first.docs[1]), limit(2)));
+
+            // Assert
+            expect(ids(first)).toEqual(['a', 'b']);
+            expect(ids(second)).toEqual(['d']);
+        });
+
+        it('reports empty results', async () => {
+            // Act
+            const snapshot = await getDocs(query(collection(db, 'orders'), where('userId', '==', 'nobody')));
+
+            // Assert
+            expect(snapshot.empty).toBe(true);
+            expect(snapshot.size).toBe(0);
+        });
+    });
+
+    describe('runTransaction', () => {
+        it('commits its writes when the function resolves', async () => {
+            // Act
+            const result = await runTransaction(db, async (transaction) => {
+                const snapshot = await transaction.get(doc(db, 'products', 'a'));
+                transaction.update(doc(db, 'products', 'a'), { price: (snapshot.data()?.price as number) + 1 });
+                transaction.set(doc(db, 'orders', 'o1'), { total: 4 });
+                return 'done';
+            });
+
+            // Assert
+            expect(result).toBe('done');
+            expect(exportMemoryFirestore()).toMatchObject({ 'products/a': { price: 4 }, 'orders/o1': { total: 4 } });
+        });
+
+        it('writes nothing when the function throws or a write fails', async () => {
+            // Act
+            const thrown = runTransaction(db, async (transaction) => {
+                transaction.set(doc(db, 'orders', 'o1'), { total: 4 });
+                throw new Error('out of stock');
+            });
+            const failedWrite = runTransaction(db, async (transaction) => {
+                transaction.set(doc(db, 'orders', 'o2'), { total: 4 });
+                transaction.update(doc(db, 'products', 'missing'), { stock: 0 });
+            });
+
+            // Assert
+            await expect(thrown).rejects.toThrow('out of stock');
+            await expect(failedWrite).rejects.toMatchObject({ code: 'not-found' });
+            expect(Object.keys(exportMemoryFirestore()).filter(path => path.startsWith('orders/'))).toEqual([]);
+        });
+
+        it('requires every read to come before any write', async () => {
+            await expect(runTransaction(db, async (transaction) => {
+                transaction.set(doc(db, 'orders', 'o1'), { total: 4 });
+                await transaction.get(doc(db, 'products', 'a'));
+            })).rejects.toThrow('require all reads to be executed before all writes');
+        });
+
+        it('retries when a document it read changes before commit', async () => {
+            // Arrange
+            const ref = doc(db, 'products', 'a');
+            let attempts = 0;
+
+            // Act
+            await runTransaction(db, async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(ref);
+                if (attempts === 1) {
+                    await updateDoc(ref, { price: 10 });
+                }
+                transaction.update(ref, { price: (snapshot.data()?.price as number) * 2 });
+            });
+
+            // Assert
+            expect(attempts).toBe(2);
+            expect((await getDoc(ref)).data()?.price).toBe(20);
+        });
+    });
+
+    describe('writeBatch', () => {
+        it('applies every write or none', async () => {
+            // Arrange
+            const good = writeBatch(db);
+            good.set(doc(db, 'products', 'f'), { title: 'Fig' });
+            good.delete(doc(db, 'products', 'c'));
+            const bad = writeBatch(db);
+            bad.set(doc(db, 'products', 'g'), { title: 'Grape' });
+            bad.update(doc(db, 'products', 'missing'), { title: 'Nope' });
+
+            // Act
+            await good.commit();
+            await expect(bad.commit()).rejects.toMatchObject({ code: 'not-found' });
+
+            // Assert
+            const paths = Object.keys(exportMemoryFirestore());
+            expect(paths).toEqual(expect.arrayContaining(['products/f']));
+            expect(paths).not.toEqual(expect.arrayContaining(['products/c']));
+            expect(paths).not.toEqual(expect.arrayContaining(['products/g']));
+        });
+
+        it('cannot be committed twice', async () => {
+            // Arrange
+            const batch = writeBatch(db);
+            batch.set(doc(db, 'products', 'f'), { title: 'Fig' });
+            await batch.commit();
+
+            // Act & Assert
+            await expect(batch.commit()).rejects.toMatchObject({ code: 'failed-precondition' });
+        });
+    });
+});
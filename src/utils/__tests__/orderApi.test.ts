@@ -1,59 +1,72 @@
 /**
  * Order API Tests - Test Driven Development
- * 
+ *
  * This test suite implements TDD for order management functionality.
  * Orders represent completed purchases with cart items, user info, and timestamps.
- * 
+ * The API runs against the in-memory Firestore backend, so the tests check
+ * the orders, stock and reservations that end up stored.
+ *
  * @fileoverview TDD implementation for order CRUD operations
  * @author Your Team
  * @version 1.0.0
  */
 
 // Import the functions we're going to implement (Red phase - will fail initially)
-import { 
-    createOrder, 
-    getOrder, 
-    getUserOrders, 
+import {
+    createOrder,
+    getOrder,
+    getUserOrders,
     updateOrderStatus,
+    InsufficientStockError,
+    PriceChangedError,
+    InvalidStatusTransitionError,
+    OrderAccessDeniedError,
+    canTransitionOrderStatus,
+    cancelOrder,
     Order,
-    OrderItem 
+    OrderItem
 } from '../orderApi';
+import { ValidationError } from '../validation';
+import { RoleRequiredError } from '../roles';
+import { DocumentData, exportMemoryFirestore, resetMemoryFirestore, Timestamp } from '../memoryFirestore';
 
-// Import Firestore functions that we need to mock
-import { setDoc, getDoc, getDocs, updateDoc, doc, collection, query, where, orderBy } from 'firebase/firestore';
+import { auth } from '../../config/firebase';
 
 /**
  * Mock Firebase configuration
  */
 jest.mock('../../config/firebase', () => ({
-    db: {}
+    db: {},
+    auth: { currentUser: { uid: 'user123' } }
 }));
 
 /**
- * Mock all Firestore functions used by orderApi
+ * Run orderApi against the in-memory backend
  */
-jest.mock('firebase/firestore', () => ({
-    collection: jest.fn(),
-    doc: jest.fn(), 
-    setDoc: jest.fn(),
-    getDoc: jest.fn(),
-    getDocs: jest.fn(),
-    updateDoc: jest.fn(),
-    query: jest.fn(),
-    where: jest.fn(),
-    orderBy: jest.fn()
-}));
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const mockAuth = auth as unknown as { currentUser: { uid: string } | null };
+
+const sampleCatalog: Record<string, DocumentData> = {
+    'products/prod1': { price: 99.99 },
+    'products/prod2': { price: 24.99 }
+};
+
+/**
+ * Replaces the database with the signed-in customer and staff profiles plus
+ * `documents`, keyed by document path
+ */
+const seed = (documents: Record<string, DocumentData> = sampleCatalog) => {
+    resetMemoryFirestore({
+        'users/user123': { uid: 'user123', role: 'customer' },
+        'users/staff1': { uid: 'staff1', role: 'staff' },
+        ...documents
+    });
+};
+
+const stored = (path: string): DocumentData | undefined => exportMemoryFirestore()[path];
 
-// Create typed mock functions
-const mockSetDoc = setDoc as jest.MockedFunction<typeof setDoc>;
-const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
-const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
-const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
-const mockDoc = doc as jest.MockedFunction<typeof doc>;
-const mockCollection = collection as jest.MockedFunction<typeof collection>;
-const mockQuery = query as jest.MockedFunction<typeof query>;
-const mockWhere = where as jest.MockedFunction<typeof where>;
-const mockOrderBy = orderBy as jest.MockedFunction<typeof orderBy>;
+const storedOrderPaths = () => Object.keys(exportMemoryFirestore()).filter(path => path.startsWith('orders/'));
 
 /**
  * Sample test data for orders
@@ -66,7 +79,7 @@ const sampleOrderItems: OrderItem[] = [
         quantity: 1
     },
     {
-        productId: 'prod2', 
+        productId: 'prod2',
         name: 'Phone Case',
         price: 24.99,
         quantity: 2
@@ -83,34 +96,35 @@ const sampleOrder: Order = {
     shippingAddress: '123 Main St, City, State 12345'
 };
 
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAuth.currentUser = { uid: 'user123' };
+    seed();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
 /**
  * TDD Test Suite: Order Creation
- * 
+ *
  * Red Phase: These tests will fail until we implement createOrder
  */
 describe('createOrder - TDD Implementation', () => {
-    beforeEach(() => {
-        mockSetDoc.mockReset();
-        mockDoc.mockReset();
-    });
-
     it('creates a new order successfully', async () => {
         // Arrange
-        mockSetDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
         const orderData = {
             userId: 'user123',
             products: sampleOrderItems,
             shippingAddress: '123 Main St, City, State 12345'
         };
-        
+
         // Act
         const result = await createOrder(orderData);
-        
+
         // Assert
-        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'orders', expect.any(String));
-        expect(mockSetDoc).toHaveBeenCalled();
         expect(result).toMatchObject({
             userId: orderData.userId,
             products: orderData.products,
@@ -120,13 +134,55 @@ describe('createOrder - TDD Implementation', () => {
         expect(result.orderId).toBeDefined();
         expect(result.createdAt).toBeInstanceOf(Date);
         expect(result.totalPrice).toBe(149.97); // Calculated total
+        expect(stored(`orders/${result.orderId}`)).toMatchObject({
+            orderId: result.orderId,
+            userId: 'user123',
+            status: 'pending',
+            totalPrice: 149.97,
+            createdAt: expect.any(Timestamp)
+        });
+    });
+
+    it('snapshots each line from the product and variant read in the transaction', async () => {
+        // Arrange
+        seed({
+            'products/shirt': {
+                title: 'Shirt',
+                price: 20,
+                image: 'https://example.com/shirt.jpg',
+                category: "men's clothing",
+                sku: 'SHIRT',
+                variantOptions: [{ name: 'Size', values: ['M'] }],
+                variants: [{ id: 'm', options: { Size: 'M' }, sku: 'SHIRT-M', price: 22 }]
+            }
+        });
+
+        // Act
+        const result = await createOrder({
+            userId: 'user123',
+            products: [{ productId: 'shirt', name: 'Old name', price: 22, quantity: 1, variantId: 'm' }],
+            shippingAddress: '123 Main St, City, State 12345'
+        });
+
+        // Assert
+        const snapshot = {
+            title: 'Shirt',
+            image: 'https://example.com/shirt.jpg',
+            sku: 'SHIRT-M',
+            category: "men's clothing",
+            variantId: 'm',
+            variantLabel: 'M',
+            unitPrice: 22,
+            taxClass: 'standard'
+        };
+        expect(result.products[0].snapshot).toEqual(snapshot);
+        expect(stored(`orders/${result.orderId}`)?.products).toEqual([expect.objectContaining({ snapshot })]);
     });
 
     it('calculates total price correctly', async () => {
         // Arrange
-        mockSetDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
+        seed({ 'products/prod1': { price: 10.50 }, 'products/prod2': { price: 25.00 } });
+
         const orderData = {
             userId: 'user123',
             products: [
@@ -135,27 +191,228 @@ describe('createOrder - TDD Implementation', () => {
             ],
             shippingAddress: '123 Test St'
         };
-        
+
         // Act
         const result = await createOrder(orderData);
-        
+
         // Assert
         expect(result.totalPrice).toBe(81.50); // (10.50 * 3) + (25.00 * 2)
     });
 
+    it('decrements stock for every tracked product', async () => {
+        // Arrange
+        seed({ 'products/prod1': { price: 99.99, stock: 5 }, 'products/prod2': { price: 24.99, stock: 2 } });
+
+        // Act
+        await createOrder({
+            userId: 'user123',
+            products: sampleOrderItems,
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        expect(stored('products/prod1')).toMatchObject({ stock: 4 });
+        expect(stored('products/prod2')).toMatchObject({ stock: 0 });
+    });
+
+    it('keeps variants of one product on separate lines with their own price and stock', async () => {
+        // Arrange
+        seed({
+            'products/tshirt': {
+                price: 20,
+                variants: [
+                    { id: 's', options: { Size: 'S' }, stock: 3 },
+                    { id: 'xl', options: { Size: 'XL' }, price: 24, stock: 1 },
+                    { id: 'm', options: { Size: 'M' } }
+                ]
+            }
+        });
+
+        // Act
+        const order = await createOrder({
+            userId: 'user123',
+            products: [
+                { productId: 'tshirt', name: 'T-Shirt', price: 20, quantity: 2, variantId: 's', variantLabel: 'S' },
+                { productId: 'tshirt', name: 'T-Shirt', price: 24, quantity: 1, variantId: 'xl', variantLabel: 'XL' },
+                { productId: 'tshirt', name: 'T-Shirt', price: 20, quantity: 5, variantId: 'm', variantLabel: 'M' }
+            ],
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        expect(order.totalPrice).toBe(164);
+        expect(stored('products/tshirt')?.variants).toEqual([
+            { id: 's', options: { Size: 'S' }, stock: 1 },
+            { id: 'xl', options: { Size: 'XL' }, price: 24, stock: 0 },
+            { id: 'm', options: { Size: 'M' } }
+        ]);
+    });
+
+    it('records what it took from each product against the order', async () => {
+        // Arrange
+        seed({
+            'products/prod1': { price: 99.99, stock: 5 },
+            'products/prod2': { price: 24.99 }
+        });
+
+        // Act
+        const order = await createOrder({
+            userId: 'user123',
+            products: sampleOrderItems,
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        expect(stored('products/prod1')).toMatchObject({ stockOrderId: order.orderId });
+        expect(stored('products/prod2')).not.toHaveProperty('stockOrderId');
+        expect(stored(`orders/${order.orderId}/reservations/prod1`)).toEqual({ quantities: { prod1: 1 } });
+        expect(stored(`orders/${order.orderId}/reservations/prod2`)).toBeUndefined();
+    });
+
+    it('reports shortages per variant', async () => {
+        // Arrange
+        const tshirt = { price: 20, variants: [{ id: 's', options: { Size: 'S' }, stock: 1 }] };
+        seed({ 'products/tshirt': tshirt });
+
+        // Act
+        const attempt = createOrder({
+            userId: 'user123',
+            products: [
+                { productId: 'tshirt', name: 'T-Shirt', price: 20, quantity: 2, variantId: 's' },
+                { productId: 'tshirt', name: 'T-Shirt', price: 20, quantity: 1, variantId: 'gone' }
+            ],
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        await expect(attempt).rejects.toMatchObject({
+            shortages: [
+                { productId: 'tshirt', variantId: 's', requested: 2, available: 1 },
+                { productId: 'tshirt', variantId: 'gone', requested: 1, available: 0 }
+            ]
+        });
+        expect(stored('products/tshirt')).toEqual(tshirt);
+    });
+
+    it('rejects the whole order when any product is short on stock', async () => {
+        // Arrange
+        seed({ 'products/prod1': { price: 99.99, stock: 5 }, 'products/prod2': { price: 24.99, stock: 1 } });
+
+        // Act
+        const attempt = createOrder({
+            userId: 'user123',
+            products: sampleOrderItems,
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        await expect(attempt).rejects.toBeInstanceOf(InsufficientStockError);
+        await expect(attempt).rejects.toMatchObject({
+            productIds: ['prod2'],
+            shortages: [{ productId: 'prod2', requested: 2, available: 1 }]
+        });
+        expect(stored('products/prod1')).toEqual({ price: 99.99, stock: 5 });
+        expect(storedOrderPaths()).toEqual([]);
+    });
+
+    it('treats products that no longer exist as out of stock', async () => {
+        // Arrange
+        seed({});
+
+        // Act & Assert
+        await expect(createOrder({
+            userId: 'user123',
+            products: [sampleOrderItems[0]],
+            shippingAddress: '123 Main St'
+        })).rejects.toMatchObject({ productIds: ['prod1'] });
+    });
+
+    it('rejects archived and deactivated products as unavailable', async () => {
+        // Arrange
+        seed({
+            'products/prod1': { price: 99.99, active: false },
+            'products/prod2': { price: 24.99, archivedAt: new Date() }
+        });
+
+        // Act & Assert
+        await expect(createOrder({
+            userId: 'user123',
+            products: sampleOrderItems,
+            shippingAddress: '123 Main St'
+        })).rejects.toMatchObject({
+            shortages: [
+                { productId: 'prod1', requested: 1, available: 0, unavailable: true },
+                { productId: 'prod2', requested: 2, available: 0, unavailable: true }
+            ]
+        });
+        expect(storedOrderPaths()).toEqual([]);
+    });
+
+    it('prices the order from the catalog, not the cart', async () => {
+        // Act
+        const result = await createOrder({
+            userId: 'user123',
+            products: [{ productId: 'prod1', name: 'Wireless Headphones', price: 99.994, quantity: 1 }],
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        expect(result.products[0].price).toBe(99.99);
+        expect(stored(`orders/${result.orderId}`)?.products).toEqual([expect.objectContaining({ price: 99.99 })]);
+    });
+
+    it('rejects with the price changes when the cart is stale', async () => {
+        // Arrange
+        seed({ 'products/prod1': { price: 109.99, stock: 5 }, 'products/prod2': { price: 24.99 } });
+
+        // Act
+        const attempt = createOrder({
+            userId: 'user123',
+            products: sampleOrderItems,
+            shippingAddress: '123 Main St'
+        });
+
+        // Assert
+        await expect(attempt).rejects.toBeInstanceOf(PriceChangedError);
+        await expect(attempt).rejects.toMatchObject({
+            changes: [{ productId: 'prod1', name: 'Wireless Headphones', cartPrice: 99.99, currentPrice: 109.99 }]
+        });
+        expect(stored('products/prod1')).toEqual({ price: 109.99, stock: 5 });
+        expect(storedOrderPaths()).toEqual([]);
+    });
+
     it('throws error when order creation fails', async () => {
         // Arrange
-        mockSetDoc.mockRejectedValue(new Error('Creation failed'));
-        mockDoc.mockReturnValue({} as any);
-        
+        seed({ 'products/prod1': { title: 'No price yet' }, 'products/prod2': { price: 24.99 } });
+
         const orderData = {
             userId: 'user123',
             products: sampleOrderItems,
             shippingAddress: '123 Main St'
         };
-        
+
         // Act & Assert
-        await expect(createOrder(orderData)).rejects.toThrow('Creation failed');
+        await expect(createOrder(orderData)).rejects.toThrow('Product prod1 has no valid price');
+        expect(storedOrderPaths()).toEqual([]);
+    });
+
+    it('rejects invalid order data without writing', async () => {
+        // Act
+        const attempt = createOrder({
+            userId: 'user123',
+            products: [{ productId: 'prod1', name: 'Wireless Headphones', price: 99.99, quantity: 0 }],
+            shippingAddress: '  '
+        });
+
+        // Assert
+        await expect(attempt).rejects.toBeInstanceOf(ValidationError);
+        await expect(attempt).rejects.toMatchObject({
+            errors: [
+                { field: 'products.0.quantity', message: 'Quantity must be at least 1' },
+                { field: 'shippingAddress', message: 'Shipping address is required' }
+            ]
+        });
+        expect(storedOrderPaths()).toEqual([]);
     });
 });
 
@@ -163,46 +420,21 @@ describe('createOrder - TDD Implementation', () => {
  * TDD Test Suite: Order Retrieval by ID
  */
 describe('getOrder - TDD Implementation', () => {
-    beforeEach(() => {
-        mockGetDoc.mockReset();
-        mockDoc.mockReset();
-    });
-
     it('retrieves an order by ID successfully', async () => {
         // Arrange
-        const mockDocSnap = {
-            exists: () => true,
-            data: () => ({
-                ...sampleOrder,
-                createdAt: { toDate: () => sampleOrder.createdAt }
-            })
-        };
+        seed({ 'orders/order123': { ...sampleOrder } });
 
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
         const result = await getOrder('order123');
-        
+
         // Assert
-        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'orders', 'order123');
-        expect(mockGetDoc).toHaveBeenCalled();
         expect(result).toEqual(sampleOrder);
     });
 
     it('returns null when order does not exist', async () => {
-        // Arrange
-        const mockDocSnap = {
-            exists: () => false,
-            data: () => undefined
-        };
-
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
         const result = await getOrder('nonexistent');
-        
+
         // Assert
         expect(result).toBeNull();
     });
@@ -212,63 +444,26 @@ describe('getOrder - TDD Implementation', () => {
  * TDD Test Suite: User Orders Retrieval
  */
 describe('getUserOrders - TDD Implementation', () => {
-    beforeEach(() => {
-        mockGetDocs.mockReset();
-        mockQuery.mockReset();
-        mockWhere.mockReset();
-        mockOrderBy.mockReset();
-        mockCollection.mockReset();
-    });
-
     it('retrieves all orders for a user successfully', async () => {
         // Arrange
-        const orders = [
-            { ...sampleOrder, orderId: 'order1' },
-            { ...sampleOrder, orderId: 'order2', totalPrice: 75.50 }
-        ];
-
-        const mockQuerySnapshot = {
-            docs: orders.map((order) => ({
-                id: order.orderId,
-                data: () => ({
-                    ...order,
-                    createdAt: { toDate: () => order.createdAt }
-                })
-            }))
-        };
+        seed({
+            'orders/order1': { ...sampleOrder, orderId: 'order1', createdAt: new Date('2025-11-06T10:30:00Z') },
+            'orders/order2': { ...sampleOrder, orderId: 'order2', totalPrice: 75.50 },
+            'orders/order3': { ...sampleOrder, orderId: 'order3', userId: 'someoneElse' }
+        });
 
-        mockGetDocs.mockResolvedValue(mockQuerySnapshot as any);
-        mockQuery.mockReturnValue({} as any);
-        mockWhere.mockReturnValue({} as any);
-        mockOrderBy.mockReturnValue({} as any);
-        mockCollection.mockReturnValue({} as any);
-        
         // Act
         const result = await getUserOrders('user123');
-        
-        // Assert
-        expect(mockCollection).toHaveBeenCalledWith(expect.anything(), 'orders');
-        expect(mockWhere).toHaveBeenCalledWith('userId', '==', 'user123');
-        expect(mockOrderBy).toHaveBeenCalledWith('createdAt', 'desc');
-        expect(mockGetDocs).toHaveBeenCalled();
-        expect(result).toHaveLength(2);
-        expect(result[0].orderId).toBe('order1');
-        expect(result[1].orderId).toBe('order2');
+
+        // Assert - newest first
+        expect(result.map(order => order.orderId)).toEqual(['order1', 'order2']);
+        expect(result[1]).toMatchObject({ totalPrice: 75.50, createdAt: sampleOrder.createdAt });
     });
 
     it('returns empty array when user has no orders', async () => {
-        // Arrange
-        const mockQuerySnapshot = { docs: [] };
-
-        mockGetDocs.mockResolvedValue(mockQuerySnapshot as any);
-        mockQuery.mockReturnValue({} as any);
-        mockWhere.mockReturnValue({} as any);
-        mockOrderBy.mockReturnValue({} as any);
-        mockCollection.mockReturnValue({} as any);
-        
         // Act
         const result = await getUserOrders('userWithNoOrders');
-        
+
         // Assert
         expect(result).toEqual([]);
     });
@@ -279,32 +474,239 @@ describe('getUserOrders - TDD Implementation', () => {
  */
 describe('updateOrderStatus - TDD Implementation', () => {
     beforeEach(() => {
-        mockUpdateDoc.mockReset();
-        mockDoc.mockReset();
+        mockAuth.currentUser = { uid: 'staff1' };
+    });
+
+    it('rejects users below staff without touching the order', async () => {
+        // Arrange
+        mockAuth.currentUser = { uid: 'user123' };
+        seed({ 'orders/order123': { status: 'confirmed' } });
+
+        // Act & Assert
+        await expect(updateOrderStatus('order123', 'shipped')).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(stored('orders/order123')).toEqual({ status: 'confirmed' });
     });
 
     it('updates order status successfully', async () => {
         // Arrange
-        mockUpdateDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
+        seed({ 'orders/order123': { status: 'confirmed', statusHistory: [] } });
+
         // Act
-        const result = await updateOrderStatus('order123', 'shipped');
-        
+        const result = await updateOrderStatus('order123', 'shipped', { actorUid: 'staff1', note: 'Tracking 1Z999' });
+
         // Assert
-        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'orders', 'order123');
-        expect(mockUpdateDoc).toHaveBeenCalledWith({}, { status: 'shipped' });
         expect(result).toBe(true);
+        expect(stored('orders/order123')).toEqual({
+            status: 'shipped',
+            statusHistory: [{
+                from: 'confirmed',
+                to: 'shipped',
+                at: expect.any(Timestamp),
+                actorUid: 'staff1',
+                note: 'Tracking 1Z999'
+            }]
+        });
     });
 
-    it('throws error when status update fails', async () => {
+    it('appends to existing history on orders', async () => {
         // Arrange
-        mockUpdateDoc.mockRejectedValue(new Error('Update failed'));
-        mockDoc.mockReturnValue({} as any);
-        
+        const earlier = { from: 'pending', to: 'confirmed', at: new Date(), actorUid: null, note: null };
+        seed({ 'orders/order123': { status: 'confirmed', statusHistory: [earlier] } });
+
+        // Act
+        await updateOrderStatus('order123', 'cancelled');
+
+        // Assert
+        const statusHistory = stored('orders/order123')?.statusHistory as DocumentData[];
+        expect(statusHistory).toHaveLength(2);
+        expect(statusHistory[1]).toMatchObject({ from: 'confirmed', to: 'cancelled', actorUid: null, note: null });
+    });
+
+    it('restores stock when staff cancel an order', async () => {
+        // Arrange
+        seed({
+            'orders/order123': { status: 'confirmed', products: sampleOrderItems, statusHistory: [] },
+            'products/prod1': { price: 99.99, stock: 4 },
+            'products/prod2': { price: 24.99, stock: 0 }
+        });
+
+        // Act
+        await updateOrderStatus('order123', 'cancelled', { actorUid: 'staff1', note: 'Payment failed' });
+
+        // Assert
+        expect(stored('products/prod1')).toMatchObject({ stock: 5 });
+        expect(stored('products/prod2')).toMatchObject({ stock: 2 });
+        expect(stored('orders/order123')).toMatchObject({
+            status: 'cancelled',
+            cancellationReason: 'Payment failed',
+            cancelledAt: expect.any(Timestamp)
+        });
+    });
+
+    it.each([
+        ['delivered', 'pending'],
+        ['shipped', 'cancelled'],
+        ['pending', 'shipped'],
+        ['cancelled', 'confirmed']
+    ] as const)('rejects moving from %s to %s', async (from, to) => {
+        // Arrange
+        seed({ 'orders/order123': { status: from } });
+
+        // Act
+        const attempt = updateOrderStatus('order123', to);
+
+        // Assert
+        await expect(attempt).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+        await expect(attempt).rejects.toMatchObject({ orderId: 'order123', from, to });
+        expect(stored('orders/order123')).toEqual({ status: from });
+    });
+
+    it('throws error when the order does not exist', async () => {
         // Act & Assert
+        await expect(updateOrderStatus('order123', 'confirmed')).rejects.toThrow('Order order123 not found');
+        expect(stored('orders/order123')).toBeUndefined();
+    });
+
+    it('throws error when status update fails', async () => {
+        // Act & Assert - an empty ID names no document
         await expect(
-            updateOrderStatus('order123', 'cancelled')
-        ).rejects.toThrow('Update failed');
+            updateOrderStatus('', 'cancelled')
+        ).rejects.toMatchObject({ code: 'invalid-argument' });
+    });
+});
+
+/**
+ * Transition graph helpers
+ */
+describe('canTransitionOrderStatus', () => {
+    it('follows pending → confirmed → shipped → delivered', () => {
+        expect(canTransitionOrderStatus('pending', 'confirmed')).toBe(true);
+        expect(canTransitionOrderStatus('confirmed', 'shipped')).toBe(true);
+        expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true);
+    });
+
+    it('only allows cancelling before shipping', () => {
+        expect(canTransitionOrderStatus('pending', 'cancelled')).toBe(true);
+        expect(canTransitionOrderStatus('confirmed', 'cancelled')).toBe(true);
+        expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false);
+        expect(canTransitionOrderStatus('delivered', 'cancelled')).toBe(false);
+    });
+});
+
+/**
+ * TDD Test Suite: Customer Order Cancellation
+ */
+describe('cancelOrder - TDD Implementation', () => {
+    it('cancels a pending order and restores stock', async () => {
+        // Arrange
+        seed({
+            'orders/order123': { userId: 'user123', status: 'pending', products: sampleOrderItems, statusHistory: [] },
+            'products/prod1': { price: 99.99, stock: 4 },
+            'products/prod2': { price: 24.99 }
+        });
+
+        // Act
+        const result = await cancelOrder('order123', '  Ordered the wrong size ');
+
+        // Assert
+        expect(result).toBe(true);
+        expect(stored('products/prod1')).toMatchObject({ stock: 5 });
+        expect(stored('products/prod2')).toEqual({ price: 24.99 });
+        expect(stored('orders/order123')).toMatchObject({
+            status: 'cancelled',
+            cancellationReason: 'Ordered the wrong size',
+            cancelledAt: expect.any(Timestamp),
+            statusHistory: [expect.objectContaining({
+                from: 'pending',
+                to: 'cancelled',
+                actorUid: 'user123',
+                note: 'Ordered the wrong size'
+            })]
+        });
     });
-});
\ No newline at end of file
+
+    it('restores stock to the variants that were ordered', async () => {
+        // Arrange
+        seed({
+            'orders/order123': {
+                userId: 'user123',
+                status: 'pending',
+                products: [{ productId: 'tshirt', name: 'T-Shirt', price: 20, quantity: 2, variantId: 's' }]
+            },
+            'products/tshirt': {
+                price: 20,
+                variants: [
+                    { id: 's', options: { Size: 'S' }, stock: 1 },
+                    { id: 'm', options: { Size: 'M' }, stock: 4 }
+                ]
+            }
+        });
+
+        // Act
+        await cancelOrder('order123', 'Changed my mind');
+
+        // Assert
+        expect(stored('products/tshirt')?.variants).toEqual([
+            { id: 's', options: { Size: 'S' }, stock: 3 },
+            { id: 'm', options: { Size: 'M' }, stock: 4 }
+        ]);
+    });
+
+    it('gives back what the order reserved rather than the ordered quantities', async () => {
+        // Arrange
+        seed({
+            'orders/order123': { userId: 'user123', status: 'pending', products: sampleOrderItems },
+            'orders/order123/reservations/prod1': { quantities: { prod1: 1 } },
+            'products/prod1': { price: 99.99, stock: 4 },
+            'products/prod2': { price: 24.99, stock: 6 }  // Stock was only tracked after the order was placed
+        });
+
+        // Act
+        await cancelOrder('order123', 'Changed my mind');
+
+        // Assert
+        expect(stored('products/prod1')).toMatchObject({ stock: 5, stockOrderId: 'order123' });
+        expect(stored('products/prod2')).toEqual({ price: 24.99, stock: 6 });
+    });
+
+    it('refuses to cancel another user\'s order', async () => {
+        // Arrange
+        const order = { userId: 'someoneElse', status: 'pending', products: sampleOrderItems };
+        seed({ 'orders/order123': order });
+
+        // Act & Assert
+        await expect(cancelOrder('order123', 'Changed my mind')).rejects.toBeInstanceOf(OrderAccessDeniedError);
+        expect(stored('orders/order123')).toEqual(order);
+    });
+
+    it('refuses when nobody is signed in', async () => {
+        // Arrange
+        mockAuth.currentUser = null;
+        const order = { userId: 'user123', status: 'pending', products: sampleOrderItems };
+        seed({ 'orders/order123': order });
+
+        // Act & Assert
+        await expect(cancelOrder('order123', 'Changed my mind')).rejects.toBeInstanceOf(OrderAccessDeniedError);
+        expect(stored('orders/order123')).toEqual(order);
+    });
+
+    it('refuses to cancel an order that has shipped', async () => {
+        // Arrange
+        const order = { userId: 'user123', status: 'shipped', products: sampleOrderItems };
+        seed({ 'orders/order123': order });
+
+        // Act & Assert
+        await expect(cancelOrder('order123', 'Changed my mind')).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+        expect(stored('orders/order123')).toEqual(order);
+    });
+
+    it('requires a reason', async () => {
+        // Arrange
+        const order = { userId: 'user123', status: 'pending', products: sampleOrderItems };
+        seed({ 'orders/order123': order });
+
+        // Act & Assert
+        await expect(cancelOrder('order123', '   ')).rejects.toThrow('A cancellation reason is required');
+        expect(stored('orders/order123')).toEqual(order);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Packing Slip Tests
+ *
+ * Validates that packing slips merge repeated lines, keep variants apart,
+ * name products as they were sold, split the shipping address into lines
+ * and name the customer.
+ *
+ * @fileoverview Unit tests for packingSlip.ts
+ * @version 1.0.0
+ */
+
+import { buildPackingSlip } from '../packingSlip';
+import type { Order } from '../orderApi';
+
+jest.mock('../../config/firebase', () => ({ db: {} }));
+
+const order: Order = {
+    orderId: 'order1',
+    userId: 'user123',
+    products: [
+        { productId: 'shirt', name: 'Shirt', price: 20, quantity: 1, variantId: 'm-red', variantLabel: 'M / Red' },
+        { productId: 'lamp', name: 'Desk Lamp', price: 25, quantity: 2 },
+        { productId: 'shirt', name: 'Shirt', price: 20, quantity: 1, variantId: 'l-red', variantLabel: 'L / Red' },
+        { productId: 'shirt', name: 'Shirt', price: 20, quantity: 2, variantId: 'm-red', variantLabel: 'M / Red' }
+    ],
+    totalPrice: 150,
+    status: 'confirmed',
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    shippingAddress: '1 Main Street, Springfield\nIL 62701'
+};
+
+describe('buildPackingSlip', () => {
+    it('lists each product and variant once with its total quantity', () => {
+        // Act
+        const slip = buildPackingSlip(order);
+
+        // Assert
+        expect(slip.lines).toEqual([
+            { productId: 'shirt', variantId: 'm-red', variantLabel: 'M / Red', name: 'Shirt', quantity: 3 },
+            { productId: 'lamp', name: 'Desk Lamp', quantity: 2 },
+            { productId: 'shirt', variantId: 'l-red', variantLabel: 'L / Red', name: 'Shirt', quantity: 1 }
+        ]);
+        expect(slip.totalUnits).toBe(6);
+        expect(slip.shipTo).toEqual(['1 Main Street', 'Springfield', 'IL 62701']);
+        expect(slip.customerName).toBeNull();
+    });
+
+    it('names products and SKUs from the snapshot taken at purchase', () => {
+        // Arrange
+        const snapshotted: Order = {
+            ...order,
+            products: [{
+                productId: 'lamp',
+                name: 'Desk Lamp',
+                price: 25,
+                quantity: 1,
+                snapshot: { title: 'Desk Lamp (Brass)', sku: 'LAMP-01', unitPrice: 25, taxClass: 'standard' }
+            }]
+        };
+
+        // Act
+        const slip = buildPackingSlip(snapshotted);
+
+        // Assert
+        expect(slip.lines).toEqual([{ productId: 'lamp', name: 'Desk Lamp (Brass)', sku: 'LAMP-01', quantity: 1 }]);
+    });
+
+    it('names the customer from their profile', () => {
+        // Act
+        const named = buildPackingSlip(order, { email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', displayName: 'ada' });
+        const displayOnly = buildPackingSlip(order, { email: 'ada@example.com', displayName: 'Ada L.' });
+
+        // Assert
+        expect(named).toMatchObject({ customerName: 'Ada Lovelace', customerEmail: 'ada@example.com' });
+        expect(displayOnly.customerName).toBe('Ada L.');
+    });
+});
@@ -1,201 +1,202 @@
 /**
  * Product API Tests - Test Driven Development
- * 
+ *
  * This test suite validates product management functionality
- * using mocked Firestore operations.
- * 
+ * against the in-memory Firestore backend, checking what is stored.
+ *
  * @fileoverview TDD implementation for product CRUD operations
  * @version 1.0.0
  */
 
 // Import the functions we're testing
-import { 
-    createProduct, 
-    getProduct, 
-    getAllProducts
+import {
+    createProduct,
+    getProduct,
+    getAllProducts,
+    getProductsPage
 } from '../productApi';
-
-// Import Firestore functions that we need to mock
-import { setDoc, getDoc, getDocs, updateDoc, deleteDoc, doc, collection, addDoc, query, where, Timestamp } from 'firebase/firestore';
+import { configureProductCatalog } from '../productCatalog';
+import { RoleRequiredError } from '../roles';
+import { exportMemoryFirestore, resetMemoryFirestore, Timestamp } from '../memoryFirestore';
 
 /**
- * Mock Firebase configuration
+ * Mock Firebase configuration, signed in as staff1
  */
 jest.mock('../../config/firebase', () => ({
-    db: {}
+    db: {},
+    auth: { currentUser: { uid: 'staff1' } }
 }));
 
 /**
- * Mock all Firestore functions used by productApi
+ * Run productApi against the in-memory backend
  */
-jest.mock('firebase/firestore', () => {
-  class MockTimestamp {
-    toDate() {
-      return new Date();
-    }
-  }
-  
-  return {
-    collection: jest.fn(),
-    doc: jest.fn(), 
-    setDoc: jest.fn(),
-    addDoc: jest.fn(),
-    getDoc: jest.fn(),
-    getDocs: jest.fn(),
-    updateDoc: jest.fn(),
-    deleteDoc: jest.fn(),
-    query: jest.fn(),
-    where: jest.fn(),
-    orderBy: jest.fn(),
-    limit: jest.fn(),
-    Timestamp: MockTimestamp
-  };
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const productData = {
+    title: 'Test Product',
+    price: 29.99,
+    description: 'A test product',
+    image: 'https://example.com/image.jpg',
+    category: 'Electronics',
+    rating: { rate: 4.5, count: 100 }
+};
+
+// Stored products, keyed by document path
+const storedProducts = () =>
+    Object.entries(exportMemoryFirestore()).filter(([path]) => path.startsWith('products/'));
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    resetMemoryFirestore({ 'users/staff1': { uid: 'staff1', role: 'staff' } });
+    // Read products from Firestore only, so nothing reaches the network
+    configureProductCatalog({ source: 'firestore', fallback: null, restBaseUrl: '' });
 });
 
-// Create typed mock functions
-const mockAddDoc = addDoc as jest.MockedFunction<typeof addDoc>;
-const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
-const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
-const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
-const mockDeleteDoc = deleteDoc as jest.MockedFunction<typeof deleteDoc>;
-const mockDoc = doc as jest.MockedFunction<typeof doc>;
-const mockCollection = collection as jest.MockedFunction<typeof collection>;
-const mockQuery = query as jest.MockedFunction<typeof query>;
-const mockWhere = where as jest.MockedFunction<typeof where>;
+afterEach(() => {
+    jest.restoreAllMocks();
+});
 
 describe('createProduct - TDD Implementation', () => {
-    beforeEach(() => {
-        mockAddDoc.mockReset();
-        mockCollection.mockReset();
-    });
-
     it('creates a new product successfully', async () => {
-        // Arrange
-        mockAddDoc.mockResolvedValue({ id: 'newProdId' } as any);
-        mockCollection.mockReturnValue({} as any);
-        
-        const productData = {
-            title: 'Test Product',
-            price: 29.99,
-            description: 'A test product',
-            image: 'https://example.com/image.jpg',
-            category: 'Electronics',
-            rating: { rate: 4.5, count: 100 }
-        };
-        
         // Act
         const result = await createProduct(productData);
-        
+
         // Assert
-        expect(result).toBe('newProdId');
-        expect(mockAddDoc).toHaveBeenCalled();
+        const stored = exportMemoryFirestore()[`products/${result}`];
+        expect(stored).toMatchObject({ ...productData, active: true, tags: [] });
+        expect(stored.createdAt).toBeInstanceOf(Timestamp);
     });
 
     it('throws error when product creation fails', async () => {
+        // Arrange - Firestore rejects undefined field values
+        const invalidData = { ...productData, brand: undefined };
+
+        // Act & Assert
+        await expect(createProduct(invalidData)).rejects.toMatchObject({ code: 'invalid-argument' });
+        expect(storedProducts()).toHaveLength(0);
+    });
+
+    it('rejects products that fail the schema without writing', async () => {
         // Arrange
-        mockAddDoc.mockRejectedValue(new Error('Creation failed'));
-        mockCollection.mockReturnValue({} as any);
-        
-        const productData = {
-            title: 'Test Product',
-            price: 29.99,
-            description: 'A test product',
-            image: 'https://example.com/image.jpg',
-            category: 'Electronics',
-            rating: { rate: 4.5, count: 100 }
-        };
-        
+        const invalidData = { ...productData, price: -5, category: '' };
+
         // Act & Assert
-        await expect(createProduct(productData)).rejects.toThrow('Creation failed');
+        await expect(createProduct(invalidData)).rejects.toMatchObject({
+            name: 'ValidationError',
+            errors: [
+                { field: 'price', message: 'Price must be greater than 0' },
+                { field: 'category', message: 'Category is required' }
+            ]
+        });
+        expect(storedProducts()).toHaveLength(0);
     });
-});
 
-describe('getProduct - TDD Implementation', () => {
-    beforeEach(() => {
-        mockGetDoc.mockReset();
-        mockDoc.mockReset();
+    it('rejects users below staff without writing', async () => {
+        // Arrange
+        resetMemoryFirestore({ 'users/staff1': { uid: 'staff1', role: 'customer' } });
+
+        // Act & Assert
+        await expect(createProduct(productData)).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(storedProducts()).toHaveLength(0);
     });
+});
 
+describe('getProduct - TDD Implementation', () => {
     it('retrieves a product by ID successfully', async () => {
         // Arrange
-        const productData = {
-            title: 'Test Product',
-            price: 29.99,
-            description: 'A test product',
-            image: 'https://example.com/image.jpg',
-            category: 'Electronics',
-            rating: { rate: 4.5, count: 100 }
-        };
-
-        const mockDocSnap = {
-            exists: () => true,
-            id: 'prod123',
-            data: () => productData
-        };
-
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
+        resetMemoryFirestore({ 'products/prod123': productData });
+
         // Act
         const result = await getProduct('prod123');
-        
+
         // Assert
-        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'products', 'prod123');
-        expect(mockGetDoc).toHaveBeenCalled();
+        expect(result).toMatchObject({ id: 'prod123', ...productData });
     });
 
     it('returns null when product does not exist', async () => {
-        // Arrange
-        const mockDocSnap = {
-            exists: () => false,
-            data: () => undefined
-        };
-
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
         const result = await getProduct('nonexistent');
-        
+
         // Assert
         expect(result).toBeNull();
     });
 });
 
 describe('getAllProducts - TDD Implementation', () => {
+    it('retrieves all products successfully', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { title: 'Product 1', price: 10.99, active: true },
+            'products/prod2': { title: 'Product 2', price: 20.99, active: true },
+            'products/prod3': { title: 'Product 3', price: 30.99, active: false }
+        });
+
+        // Act
+        const result = await getAllProducts();
+
+        // Assert
+        expect(result.map(product => product.id)).toEqual(['prod1', 'prod2']);
+        expect(result[0]).toMatchObject({ title: 'Product 1', price: 10.99 });
+    });
+});
+
+describe('getProductsPage - Cursor Pagination', () => {
     beforeEach(() => {
-        mockGetDocs.mockReset();
-        mockCollection.mockReset();
+        resetMemoryFirestore({
+            'products/prod1': { title: 'Product 1', price: 10, category: 'electronics', active: true },
+            'products/prod2': { title: 'Product 2', price: 11, category: 'electronics', active: true },
+            'products/prod3': { title: 'Product 3', price: 12, category: 'electronics', active: true },
+            'products/prod4': { title: 'Product 4', price: 13, category: 'books', active: true },
+            'products/prod5': { title: 'Product 5', price: 14, category: 'electronics', active: false }
+        });
     });
 
-    it('retrieves all products successfully', async () => {
+    it('returns one page and a cursor when more products exist', async () => {
+        // Act
+        const result = await getProductsPage({ pageSize: 2, sortBy: 'price', sortDirection: 'desc' });
+
+        // Assert
+        expect(result.products.map(product => product.id)).toEqual(['prod4', 'prod3']);
+        expect(result.nextCursor).toMatchObject({ source: 'firestore', value: { id: 'prod3' } });
+    });
+
+    it('returns no cursor on the last page', async () => {
+        // Act
+        const result = await getProductsPage({ pageSize: 4 });
+
+        // Assert
+        expect(result.products).toHaveLength(4);
+        expect(result.nextCursor).toBeNull();
+    });
+
+    it('starts after the cursor and keeps the category filter', async () => {
         // Arrange
-        const products = [
-            { id: 'prod1', title: 'Product 1', price: 10.99 },
-            { id: 'prod2', title: 'Product 2', price: 20.99 }
-        ];
-
-        const mockDocs = products.map((product) => ({
-            id: product.id,
-            data: () => ({ title: product.title, price: product.price })
-        }));
-
-        const mockQuerySnapshot = {
-            docs: mockDocs,
-            forEach: function(callback: any) {
-                mockDocs.forEach(callback);
-            }
-        };
-
-        mockGetDocs.mockResolvedValue(mockQuerySnapshot as any);
-        mockCollection.mockReturnValue({} as any);
-        
+        const first = await getProductsPage({ category: 'electronics', pageSize: 2, sortBy: 'price' });
+
         // Act
-        const result = await getAllProducts();
-        
+        const second = await getProductsPage({ category: 'electronics', pageSize: 2, sortBy: 'price', cursor: first.nextCursor });
+
+        // Assert
+        expect(first.products.map(product => product.id)).toEqual(['prod1', 'prod2']);
+        expect(second.products.map(product => product.id)).toEqual(['prod3']);
+        expect(second.nextCursor).toBeNull();
+    });
+});
+
+describe('getAllProducts - Sort Modes', () => {
+    it('orders on the server by the sort mode field and direction', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { title: 'Product 1', price: 10, rating: { rate: 3.1, count: 4 }, active: true },
+            'products/prod2': { title: 'Product 2', price: 10, rating: { rate: 4.8, count: 9 }, active: true },
+            'products/prod3': { title: 'Product 3', price: 10, rating: { rate: 4.2, count: 2 }, active: true }
+        });
+
+        // Act
+        const result = await getAllProducts(true, 'top-rated');
+
         // Assert
-        expect(mockCollection).toHaveBeenCalledWith(expect.anything(), 'products');
-        expect(mockGetDocs).toHaveBeenCalled();
-        expect(Array.isArray(result)).toBe(true);
+        expect(result.map(product => product.id)).toEqual(['prod2', 'prod3', 'prod1']);
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,182 @@
+/**
+ * Product Catalog Source Tests
+ *
+ * Validates source selection from configuration, fallback with degraded-mode
+ * reporting, and the in-memory repository's filtering, sorting and paging.
+ *
+ * @fileoverview Product source selection and fallback tests
+ * @version 1.0.0
+ */
+
+import { createProductCatalog, readProductSourceConfig, DEFAULT_PRODUCT_SOURCE_CONFIG } from '../productCatalog';
+import { createMemoryProductRepository } from '../memoryProductRepository';
+import type { ProductRepository } from '../productRepository';
+import type { Product } from '../../types/product';
+
+/**
+ * Mock the firebase configuration module
+ * This prevents the import.meta error during Jest test runs
+ */
+jest.mock('../../config/firebase', () => ({
+    db: {}
+}));
+
+const createProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category: 'electronics',
+    image: `https://example.com/${id}.jpg`,
+    rating: { rate: 4, count: 10 },
+    active: true,
+    ...overrides
+});
+
+// A repository whose every read fails, standing in for an unreachable Firestore
+const failingRepository: ProductRepository = {
+    source: 'firestore',
+    getProduct: jest.fn().mockRejectedValue(new Error('offline')),
+    getProducts: jest.fn().mockRejectedValue(new Error('offline')),
+    getProductsPage: jest.fn().mockRejectedValue(new Error('offline')),
+    getCategories: jest.fn().mockRejectedValue(new Error('offline'))
+};
+
+describe('readProductSourceConfig', () => {
+    it('defaults to Firestore with the REST API as fallback', () => {
+        expect(readProductSourceConfig({})).toEqual(DEFAULT_PRODUCT_SOURCE_CONFIG);
+    });
+
+    it('reads the source, fallback and REST base URL', () => {
+        expect(readProductSourceConfig({
+            VITE_PRODUCT_SOURCE: 'rest',
+            VITE_PRODUCT_FALLBACK: 'memory',
+            VITE_PRODUCT_API_URL: 'https://api.example.com'
+        })).toEqual({ source: 'rest', fallback: 'memory', restBaseUrl: 'https://api.example.com' });
+    });
+
+    it('disables the fallback with "none" or when it matches the source', () => {
+        expect(readProductSourceConfig({ VITE_PRODUCT_FALLBACK: 'none' }).fallback).toBeNull();
+        expect(readProductSourceConfig({ VITE_PRODUCT_SOURCE: 'rest', VITE_PRODUCT_FALLBACK: 'rest' }).fallback).toBeNull();
+    });
+
+    it('ignores unknown sources', () => {
+        // Arrange
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        // Act
+        const config = readProductSourceConfig({ VITE_PRODUCT_SOURCE: 'mongo' });
+
+        // Assert
+        expect(config.source).toBe('firestore');
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+});
+
+describe('createProductCatalog', () => {
+    const config = { ...DEFAULT_PRODUCT_SOURCE_CONFIG, fallback: 'memory' as const };
+    const fallback = createMemoryProductRepository([createProduct('a'), createProduct('b')]);
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('reports the configured source when it answers', async () => {
+        // Arrange
+        const primary = createMemoryProductRepository([createProduct('p1')]);
+        const catalog = createProductCatalog(config, primary, null);
+
+        // Act
+        const result = await catalog.getProducts();
+
+        // Assert
+        expect(result).toEqual({ data: [expect.objectContaining({ id: 'p1' })], source: 'memory', degraded: false });
+    });
+
+    it('marks results from the fallback as degraded', async () => {
+        // Arrange
+        const catalog = createProductCatalog(config, failingRepository, fallback);
+
+        // Act
+        const result = await catalog.getProductsPage({ pageSize: 1 });
+
+        // Assert
+        expect(result.source).toBe('memory');
+        expect(result.degraded).toBe(true);
+        expect(result.data).toEqual({ products: [expect.objectContaining({ id: 'a' })], nextCursor: { source: 'memory', value: 1 } });
+    });
+
+    it('continues a listing from the source that served its first page', async () => {
+        // Arrange
+        const catalog = createProductCatalog(config, failingRepository, fallback);
+        const first = await catalog.getProductsPage({ pageSize: 1 });
+        (failingRepository.getProductsPage as jest.Mock).mockClear();
+
+        // Act
+        const second = await catalog.getProductsPage({ pageSize: 1, cursor: first.data.nextCursor });
+
+        // Assert
+        expect(failingRepository.getProductsPage).not.toHaveBeenCalled();
+        expect(second).toEqual({
+            data: { products: [expect.objectContaining({ id: 'b' })], nextCursor: null },
+            source: 'memory',
+            degraded: true
+        });
+    });
+
+    it('does not continue a listing on another source when its own fails', async () => {
+        // Arrange
+        const catalog = createProductCatalog(config, failingRepository, fallback);
+
+        // Act & Assert
+        await expect(catalog.getProductsPage({ cursor: { source: 'firestore', value: 12 } })).rejects.toThrow('offline');
+        await expect(catalog.getProductsPage({ cursor: { source: 'rest', value: 12 } })).rejects.toThrow('not configured');
+    });
+
+    it('fails when there is no fallback', async () => {
+        // Arrange
+        const catalog = createProductCatalog(config, failingRepository, null);
+
+        // Act & Assert
+        await expect(catalog.getCategories()).rejects.toThrow('offline');
+    });
+});
+
+describe('createMemoryProductRepository', () => {
+    const repository = createMemoryProductRepository([
+        createProduct('cheap', { price: 5, category: 'books' }),
+        createProduct('pricey', { price: 50 }),
+        createProduct('hidden', { price: 20, active: false }),
+        createProduct('mid', { price: 15 })
+    ]);
+
+    it('filters and sorts like the Firestore queries', async () => {
+        // Act
+        const products = await repository.getProducts({ category: 'electronics', sortMode: 'price-desc' });
+
+        // Assert
+        expect(products.map(product => product.id)).toEqual(['pricey', 'mid']);
+    });
+
+    it('pages by offset', async () => {
+        // Act
+        const first = await repository.getProductsPage({ pageSize: 2, sortBy: 'price' });
+        const second = await repository.getProductsPage({ pageSize: 2, sortBy: 'price', cursor: first.nextCursor });
+
+        // Assert
+        expect(first.products.map(product => product.id)).toEqual(['cheap', 'mid']);
+        expect(second.products.map(product => product.id)).toEqual(['pricey']);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    it('finds products by ID and lists active categories', async () => {
+        expect(await repository.getProduct('mid')).toMatchObject({ price: 15 });
+        expect(await repository.getProduct('missing')).toBeNull();
+        expect(await repository.getCategories()).toEqual(['books', 'electronics']);
+    });
+});
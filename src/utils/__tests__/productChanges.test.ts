@@ -0,0 +1,87 @@
+/**
+ * Product Changes Tests
+ *
+ * Validates how admin product changes are applied optimistically and
+ * reversed for undo.
+ *
+ * @fileoverview Unit tests for productChanges.ts
+ * @version 1.0.0
+ */
+
+import { applyProductChange, invertProductChange, ProductChange } from '../productChanges';
+import type { Product } from '../../types/product';
+
+jest.mock('../../config/firebase', () => ({ db: {} }));
+
+const makeProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category: 'gadgets',
+    image: `https://example.com/${id}.jpg`,
+    rating: { rate: 0, count: 0 },
+    active: true,
+    ...overrides
+});
+
+const catalog = [makeProduct('a', { stock: 3 }), makeProduct('b', { category: 'toys' }), makeProduct('c')];
+
+describe('productChanges', () => {
+    it('reverses a bulk edit field by field, keeping other fields as they are', () => {
+        // Arrange
+        const change: ProductChange = { kind: 'update', productIds: ['a', 'b'], updates: { category: 'sale', brand: 'Acme' } };
+
+        // Act
+        const updated = applyProductChange(catalog, change);
+        const undo = invertProductChange(change, catalog);
+        const afterStockChange = updated.map(product => (product.id === 'a' ? { ...product, stock: 1 } : product));
+        const undone = applyProductChange(afterStockChange, undo);
+
+        // Assert
+        expect(updated.map(product => product.category)).toEqual(['sale', 'sale', 'gadgets']);
+        expect(undo).toEqual({
+            kind: 'updateEach',
+            updates: [
+                { productId: 'a', updates: { category: 'gadgets', brand: undefined } },
+                { productId: 'b', updates: { category: 'toys', brand: undefined } }
+            ]
+        });
+        expect(undone[0]).toMatchObject({ category: 'gadgets', brand: undefined, stock: 1 });
+        expect(undone[1].category).toBe('toys');
+    });
+
+    it('reverses an archive by putting back whether each product was active', () => {
+        // Arrange
+        const products = [catalog[0], { ...catalog[1], active: false }];
+        const change: ProductChange = { kind: 'archive', productIds: ['a', 'b'] };
+
+        // Act
+        const archived = applyProductChange(products, change);
+        const undo = invertProductChange(change, products);
+
+        // Assert
+        expect(archived.map(product => product.active)).toEqual([false, false]);
+        expect(archived[0].archivedAt).toBeInstanceOf(Date);
+        expect(undo).toEqual({
+            kind: 'updateEach',
+            updates: [
+                { productId: 'a', updates: { active: true, activeBeforeArchive: undefined, archivedAt: undefined, archivedBy: undefined } },
+                { productId: 'b', updates: { active: false, activeBeforeArchive: undefined, archivedAt: undefined, archivedBy: undefined } }
+            ]
+        });
+        expect(invertProductChange({ kind: 'restore', productIds: ['a'] }, archived)).toEqual({ kind: 'archive', productIds: ['a'] });
+    });
+
+    it('restores each product as active as it was when archived', () => {
+        // Arrange
+        const archived = applyProductChange([catalog[0], { ...catalog[1], active: false }], { kind: 'archive', productIds: ['a', 'b'] });
+
+        // Act
+        const restored = applyProductChange(archived, { kind: 'restore', productIds: ['a', 'b'] });
+
+        // Assert
+        expect(restored.map(product => product.active)).toEqual([true, false]);
+        expect(restored[1]).toMatchObject({ activeBeforeArchive: undefined, archivedAt: undefined });
+    });
+});
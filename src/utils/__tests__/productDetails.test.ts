@@ -0,0 +1,103 @@
+/**
+ * Product Detail Helper Tests
+ *
+ * Validates the gallery image list, spec rows for optional fields, and
+ * related-product ranking by shared category and tags.
+ *
+ * @fileoverview Product detail page helper tests
+ * @version 1.0.0
+ */
+
+import { getProductImages, getProductSpecs, getRelatedProducts } from '../productDetails';
+import type { Product } from '../../types/product';
+
+const makeProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+    id,
+    title: id,
+    price: 10,
+    description: '',
+    category: 'electronics',
+    image: `https://example.com/${id}.jpg`,
+    rating: { rate: 3, count: 1 },
+    ...overrides
+});
+
+const ids = (products: Product[]) => products.map(product => product.id);
+
+describe('getProductImages', () => {
+    it('puts the primary image first and drops blanks and duplicates', () => {
+        // Arrange
+        const product = makeProduct('p1', {
+            images: ['https://example.com/side.jpg', '', 'https://example.com/p1.jpg', 'https://example.com/back.jpg']
+        });
+
+        // Act & Assert
+        expect(getProductImages(product)).toEqual([
+            'https://example.com/p1.jpg',
+            'https://example.com/side.jpg',
+            'https://example.com/back.jpg'
+        ]);
+    });
+});
+
+describe('getProductSpecs', () => {
+    it('only lists optional fields that are set', () => {
+        // Act
+        const specs = getProductSpecs(makeProduct('p1', { brand: 'Acme' }));
+
+        // Assert
+        expect(specs).toEqual([
+            { label: 'Brand', value: 'Acme' },
+            { label: 'Category', value: 'electronics' }
+        ]);
+    });
+
+    it('formats weight, dimensions and tags', () => {
+        // Act
+        const specs = getProductSpecs(makeProduct('p1', {
+            sku: 'AC-1',
+            weight: 1.5,
+            dimensions: { length: 10, width: 5, height: 2 },
+            tags: ['wireless', 'sale']
+        }));
+
+        // Assert
+        expect(specs).toEqual(expect.arrayContaining([
+            { label: 'SKU', value: 'AC-1' },
+            { label: 'Weight', value: '1.5 kg' },
+            { label: 'Dimensions', value: '10 × 5 × 2 cm' },
+            { label: 'Tags', value: 'wireless, sale' }
+        ]));
+    });
+});
+
+describe('getRelatedProducts', () => {
+    const product = makeProduct('p1', { tags: ['wireless', 'Audio'] });
+
+    it('ranks by shared category and tags, skipping itself, inactive and unrelated products', () => {
+        // Arrange
+        const candidates = [
+            product,
+            makeProduct('same-category', {}),
+            makeProduct('category-and-tag', { tags: ['audio'] }),
+            makeProduct('tags-only', { category: 'jewelery', tags: ['wireless', 'audio', 'sale'] }),
+            makeProduct('unrelated', { category: 'jewelery', tags: ['gold'] }),
+            makeProduct('inactive', { tags: ['wireless', 'audio'], active: false })
+        ];
+
+        // Act & Assert
+        expect(ids(getRelatedProducts(product, candidates))).toEqual(['category-and-tag', 'same-category', 'tags-only']);
+    });
+
+    it('breaks ties by rating and respects the limit', () => {
+        // Arrange
+        const candidates = [
+            makeProduct('low', { rating: { rate: 2, count: 1 } }),
+            makeProduct('high', { rating: { rate: 4.8, count: 1 } }),
+            makeProduct('mid', { rating: { rate: 3.5, count: 1 } })
+        ];
+
+        // Act & Assert
+        expect(ids(getRelatedProducts(product, candidates, 2))).toEqual(['high', 'mid']);
+    });
+});
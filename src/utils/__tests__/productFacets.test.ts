@@ -0,0 +1,116 @@
+/**
+ * Product Facet Tests
+ *
+ * Validates combined facet filtering, per-value counts that ignore their own
+ * facet, and round-tripping filter state through the URL query string.
+ *
+ * @fileoverview Faceted filtering tests
+ * @version 1.0.0
+ */
+
+import {
+    applyFilters,
+    computeFacets,
+    filtersToQuery,
+    parseFiltersFromQuery,
+    EMPTY_FILTERS,
+    ProductFilters
+} from '../productFacets';
+import type { Product } from '../../types/product';
+
+const makeProduct = (id: string, overrides: Partial<Product>): Product => ({
+    id,
+    title: id,
+    price: 10,
+    description: '',
+    category: 'electronics',
+    image: '',
+    rating: { rate: 3, count: 1 },
+    ...overrides
+});
+
+const catalog: Product[] = [
+    makeProduct('p1', { price: 20, brand: 'Acme', rating: { rate: 4.5, count: 10 }, tags: ['wireless'], stock: 5 }),
+    makeProduct('p2', { price: 80, brand: 'Acme', rating: { rate: 3.2, count: 4 }, tags: ['wired'], stock: 0 }),
+    makeProduct('p3', { price: 50, brand: 'Globex', rating: { rate: 4.1, count: 7 }, tags: ['wireless', 'sale'] }),
+    makeProduct('p4', { price: 15, category: 'jewelery', rating: { rate: 2.0, count: 2 } })
+];
+
+const ids = (products: Product[]) => products.map(product => product.id);
+
+describe('applyFilters', () => {
+    it('combines every active filter', () => {
+        // Arrange
+        const filters: ProductFilters = {
+            ...EMPTY_FILTERS,
+            category: 'electronics',
+            maxPrice: 60,
+            minRating: 4,
+            tags: ['wireless'],
+            inStockOnly: true
+        };
+
+        // Act & Assert
+        expect(ids(applyFilters(catalog, filters))).toEqual(['p1', 'p3']);
+    });
+
+    it('treats products without tracked stock as in stock', () => {
+        // Act & Assert
+        expect(ids(applyFilters(catalog, { ...EMPTY_FILTERS, inStockOnly: true }))).toEqual(['p1', 'p3', 'p4']);
+    });
+});
+
+describe('computeFacets', () => {
+    it('counts each facet without applying its own selection', () => {
+        // Arrange - picking Acme should still show how many Globex products exist
+        const filters: ProductFilters = { ...EMPTY_FILTERS, brands: ['Acme'], inStockOnly: true };
+
+        // Act
+        const facets = computeFacets(catalog, filters);
+
+        // Assert
+        expect(facets.brands).toEqual([{ value: 'Acme', count: 1 }, { value: 'Globex', count: 1 }]);
+        expect(facets.inStock).toBe(1);
+        expect(facets.tags).toEqual([{ value: 'wireless', count: 1 }]);
+        expect(facets.ratings.find(rating => rating.minRating === 4)?.count).toBe(1);
+    });
+
+    it('bounds the price range by the selected category only', () => {
+        // Act
+        const facets = computeFacets(catalog, { ...EMPTY_FILTERS, category: 'electronics', maxPrice: 30 });
+
+        // Assert
+        expect(facets.priceRange).toEqual({ min: 20, max: 80 });
+    });
+});
+
+describe('query string state', () => {
+    it('round-trips filters and keeps unrelated parameters', () => {
+        // Arrange
+        const filters: ProductFilters = {
+            category: 'electronics',
+            minPrice: 10,
+            maxPrice: 60,
+            brands: ['Acme', 'Globex'],
+            minRating: 4,
+            tags: ['sale'],
+            inStockOnly: true
+        };
+
+        // Act
+        const query = filtersToQuery(filters, '?q=head&brand=Old');
+
+        // Assert
+        expect(new URLSearchParams(query).get('q')).toBe('head');
+        expect(parseFiltersFromQuery(query)).toEqual(filters);
+    });
+
+    it('ignores malformed numbers', () => {
+        // Act
+        const filters = parseFiltersFromQuery('?minPrice=abc&rating=');
+
+        // Assert
+        expect(filters.minPrice).toBeUndefined();
+        expect(filters.minRating).toBeUndefined();
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Product Form Tests
+ *
+ * Validates the conversions behind the admin product editor: products to
+ * text fields and back, per-field errors, and saving only changed fields.
+ *
+ * @fileoverview Unit tests for productForm.ts
+ * @version 1.0.0
+ */
+
+import { EMPTY_PRODUCT_DRAFT, fromProductDraft, getChangedFields, toProductDraft } from '../productForm';
+import type { Product } from '../../types/product';
+
+const shirt: Product = {
+    id: 'shirt',
+    title: 'Shirt',
+    price: 20,
+    description: 'Cotton',
+    category: "men's clothing",
+    image: 'https://example.com/shirt.jpg',
+    images: ['https://example.com/shirt-back.jpg'],
+    rating: { rate: 4, count: 2 },
+    stock: 5,
+    tags: ['cotton', 'summer'],
+    dimensions: { length: 30, width: 20, height: 2 },
+    active: true,
+    variantOptions: [{ name: 'Size', values: ['M'] }],
+    variants: [{ id: 'm', options: { Size: 'M' }, stock: 5 }]
+};
+
+describe('productForm', () => {
+    it('round-trips a product through the editor fields', () => {
+        // Act
+        const draft = toProductDraft(shirt);
+        const { product, errors } = fromProductDraft(draft);
+
+        // Assert
+        expect(draft).toMatchObject({ price: '20', tags: 'cotton, summer', length: '30', brand: '' });
+        expect(errors).toEqual([]);
+        expect(getChangedFields(shirt, product)).toEqual({});
+    });
+
+    it('reports text and schema problems against their fields', () => {
+        // Act
+        const { errors } = fromProductDraft({
+            ...EMPTY_PRODUCT_DRAFT,
+            title: 'Lamp',
+            price: 'ten',
+            image: 'https://example.com/lamp.jpg',
+            stock: '1.5',
+            length: '10',
+            variants: '{ nope'
+        });
+
+        // Assert
+        expect(errors.map(error => error.field)).toEqual(['dimensions', 'variants', 'price', 'category', 'stock']);
+        expect(errors[2]).toEqual({ field: 'price', message: 'Enter a number' });
+    });
+
+    it('returns only changed fields, with cleared fields as undefined', () => {
+        // Arrange
+        const draft = { ...toProductDraft(shirt), price: '25', stock: '', tags: '', brand: 'Acme', variants: '' };
+
+        // Act
+        const { product } = fromProductDraft(draft);
+
+        // Assert
+        expect(getChangedFields(shirt, product)).toEqual({
+            price: 25,
+            stock: undefined,
+            tags: [],
+            brand: 'Acme',
+            variantOptions: undefined,
+            variants: undefined
+        });
+    });
+});
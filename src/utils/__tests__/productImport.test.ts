@@ -0,0 +1,202 @@
+/**
+ * Product Import / Export Tests
+ *
+ * Validates CSV parsing, row validation with row numbers, the dry-run diff by
+ * sku, committing in batches with progress, and exporting back to CSV and JSON.
+ *
+ * @fileoverview Bulk catalog import/export tests
+ * @version 1.0.0
+ */
+
+import {
+    parseCsv,
+    parseImportFile,
+    planImport,
+    importProducts,
+    productsToCsv,
+    productsToJson,
+    detectImportFormat
+} from '../productImport';
+import { clearSearchIndex } from '../searchIndex';
+import { requireRole, RoleRequiredError } from '../roles';
+import type { Product } from '../../types/product';
+
+import { doc, collection, writeBatch } from 'firebase/firestore';
+
+jest.mock('../../config/firebase', () => ({
+    db: {}
+}));
+
+jest.mock('../searchIndex', () => ({
+    clearSearchIndex: jest.fn()
+}));
+
+/**
+ * Sign in as staff for the admin functions; tests of the role check override this
+ */
+jest.mock('../roles', () => ({
+    ...jest.requireActual('../roles'),
+    requireRole: jest.fn().mockResolvedValue({ uid: 'staff1', role: 'staff' })
+}));
+
+jest.mock('firebase/firestore', () => ({
+    collection: jest.fn(),
+    doc: jest.fn(),
+    writeBatch: jest.fn()
+}));
+
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockCollection = collection as jest.MockedFunction<typeof collection>;
+const mockWriteBatch = writeBatch as jest.MockedFunction<typeof writeBatch>;
+const mockRequireRole = requireRole as jest.MockedFunction<typeof requireRole>;
+
+const catalog: Product[] = [
+    {
+        id: 'p1',
+        sku: 'TEE-1',
+        title: 'Plain Tee',
+        price: 20,
+        description: 'Cotton tee',
+        category: "men's clothing",
+        image: 'https://example.com/tee.jpg',
+        rating: { rate: 4, count: 2 },
+        stock: 10,
+        tags: ['cotton'],
+        dimensions: { width: 2, length: 30, height: 1 }
+    },
+    {
+        id: 'p2',
+        sku: 'MUG-1',
+        title: 'Mug',
+        price: 8.5,
+        description: 'Ceramic',
+        category: 'kitchen',
+        image: '',
+        rating: { rate: 0, count: 0 }
+    }
+];
+
+const csv = [
+    'sku,title,price,category,stock,tags,length,width,height',
+    'TEE-1,Plain Tee,22,,10,cotton,30,2,1',
+    'MUG-1,Mug,8.50,,,,,,',
+    'NEW-1,"Hoodie, zip",45,men\'s clothing,5,cotton|winter,,,',
+    ',No sku,10,kitchen,,,,,',
+    'NEW-2,Bad stock,10,kitchen,-1,,,,',
+    'NEW-1,Duplicate,10,kitchen,,,,,',
+    'NEW-3,Missing price,,kitchen,,,,,',
+    ''
+].join('\r\n');
+
+describe('parseCsv', () => {
+    it('handles quoted commas, doubled quotes and line breaks', () => {
+        expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"\n')).toEqual([
+            ['a', 'b'],
+            ['x, y', 'say "hi"\nthere']
+        ]);
+    });
+});
+
+describe('planImport', () => {
+    const plan = planImport(parseImportFile(csv, 'csv'), catalog);
+    const byRow = (rowNumber: number) => plan.entries.find(entry => entry.rowNumber === rowNumber);
+
+    it('classifies every row with its spreadsheet row number', () => {
+        expect(plan.counts).toEqual({ create: 1, update: 1, unchanged: 1, invalid: 4 });
+        expect(byRow(2)).toMatchObject({ action: 'update', existingId: 'p1', changedFields: ['price'] });
+        expect(byRow(3)).toMatchObject({ action: 'unchanged', existingId: 'p2' });
+        expect(byRow(4)).toMatchObject({
+            action: 'create',
+            product: { sku: 'NEW-1', title: 'Hoodie, zip', price: 45, stock: 5, tags: ['cotton', 'winter'] }
+        });
+    });
+
+    it('explains invalid rows', () => {
+        expect(byRow(5)?.errors).toEqual(['sku is required']);
+        expect(byRow(6)?.errors[0]).toMatch(/stock must be a whole number/);
+        expect(byRow(7)?.errors).toEqual(['sku NEW-1 already appears on row 4']);
+        expect(byRow(8)?.errors).toEqual(['price is required for new products']);
+    });
+});
+
+describe('importProducts', () => {
+    const batches: { set: jest.Mock; update: jest.Mock; commit: jest.Mock }[] = [];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        batches.length = 0;
+        mockCollection.mockReturnValue({} as never);
+        mockDoc.mockImplementation(((_parent: unknown, _collection?: string, id?: string) => ({ id: id ?? 'new-id' })) as never);
+        mockWriteBatch.mockImplementation((() => {
+            const batch = { set: jest.fn(), update: jest.fn(), commit: jest.fn().mockResolvedValue(undefined) };
+            batches.push(batch);
+            return batch;
+        }) as never);
+    });
+
+    it('rejects users below staff without writing', async () => {
+        // Arrange
+        mockRequireRole.mockRejectedValueOnce(new RoleRequiredError('staff', 'customer'));
+        const plan = planImport(parseImportFile(csv, 'csv'), catalog);
+
+        // Act & Assert
+        await expect(importProducts(plan)).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(mockWriteBatch).not.toHaveBeenCalled();
+    });
+
+    it('writes creates and only the changed fields of updates, in batches with progress', async () => {
+        // Arrange
+        const plan = planImport(parseImportFile(csv, 'csv'), catalog);
+        const onProgress = jest.fn();
+
+        // Act
+        const result = await importProducts(plan, onProgress, 1);
+
+        // Assert
+        expect(result).toEqual({ created: 1, updated: 1 });
+        expect(batches).toHaveLength(2);
+        expect(batches[0].update).toHaveBeenCalledWith({ id: 'p1' }, { price: 22, updatedAt: expect.any(Date) });
+        expect(batches[1].set).toHaveBeenCalledWith({ id: 'new-id' }, expect.objectContaining({
+            sku: 'NEW-1',
+            rating: { rate: 0, count: 0 },
+            active: true
+        }));
+        expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+        expect(clearSearchIndex).toHaveBeenCalled();
+    });
+
+    it('stops at the first failed batch, keeping earlier batches', async () => {
+        // Arrange
+        const plan = planImport(parseImportFile(csv, 'csv'), catalog);
+        mockWriteBatch.mockImplementationOnce((() => ({
+            set: jest.fn(),
+            update: jest.fn(),
+            commit: jest.fn().mockRejectedValue(new Error('quota exceeded'))
+        })) as never);
+
+        // Act & Assert
+        await expect(importProducts(plan, undefined, 1)).rejects.toThrow('quota exceeded');
+        expect(clearSearchIndex).not.toHaveBeenCalled();
+    });
+});
+
+describe('export', () => {
+    it('round-trips through CSV without changes', () => {
+        // Act
+        const exported = productsToCsv(catalog);
+        const plan = planImport(parseImportFile(exported, detectImportFormat('catalog.csv', exported)), catalog);
+
+        // Assert
+        expect(exported.split('\r\n')[0]).toMatch(/^id,sku,title,price/);
+        expect(plan.counts).toEqual({ create: 0, update: 0, unchanged: 2, invalid: 0 });
+    });
+
+    it('round-trips through JSON without changes', () => {
+        // Act
+        const exported = productsToJson(catalog);
+        const plan = planImport(parseImportFile(exported, detectImportFormat('export', exported)), catalog);
+
+        // Assert
+        expect(plan.counts).toEqual({ create: 0, update: 0, unchanged: 2, invalid: 0 });
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Product Variant Tests
+ *
+ * Validates variant lookup from an option selection, availability of option
+ * values, price ranges and resolving a product to a variant for the cart.
+ *
+ * @fileoverview Product variant helper tests
+ * @version 1.0.0
+ */
+
+import {
+    findVariant,
+    getLineKey,
+    getVariantLabel,
+    getVariantPriceRange,
+    hasPurchasableVariant,
+    isOptionValueAvailable,
+    resolveVariant
+} from '../productVariants';
+import type { Product } from '../../types/product';
+
+const tshirt: Product = {
+    id: 'tshirt',
+    title: 'T-Shirt',
+    price: 20,
+    description: '',
+    category: "men's clothing",
+    image: 'https://example.com/tshirt.jpg',
+    rating: { rate: 4, count: 3 },
+    sku: 'TS',
+    variantOptions: [
+        { name: 'Size', values: ['S', 'M'] },
+        { name: 'Color', values: ['Red', 'Blue'] }
+    ],
+    variants: [
+        { id: 's-red', options: { Size: 'S', Color: 'Red' }, sku: 'TS-S-R', stock: 2 },
+        { id: 's-blue', options: { Size: 'S', Color: 'Blue' }, sku: 'TS-S-B', stock: 0 },
+        { id: 'm-blue', options: { Color: 'Blue', Size: 'M' }, price: 24, image: 'https://example.com/blue.jpg' }
+    ]
+};
+
+describe('findVariant', () => {
+    it('needs a value for every option', () => {
+        expect(findVariant(tshirt, { Size: 'S' })).toBeUndefined();
+        expect(findVariant(tshirt, { Size: 'M', Color: 'Blue' })?.id).toBe('m-blue');
+        expect(findVariant(tshirt, { Size: 'M', Color: 'Red' })).toBeUndefined();
+    });
+});
+
+describe('isOptionValueAvailable', () => {
+    it('considers the other chosen values and stock', () => {
+        // S/Blue is sold out and there is no M/Red
+        expect(isOptionValueAvailable(tshirt, { Size: 'S' }, 'Color', 'Blue')).toBe(false);
+        expect(isOptionValueAvailable(tshirt, { Size: 'S' }, 'Color', 'Red')).toBe(true);
+        expect(isOptionValueAvailable(tshirt, { Color: 'Red' }, 'Size', 'M')).toBe(false);
+        // Untracked stock is always available
+        expect(isOptionValueAvailable(tshirt, {}, 'Size', 'M')).toBe(true);
+    });
+});
+
+describe('hasPurchasableVariant', () => {
+    it('is false only when every variant is sold out', () => {
+        expect(hasPurchasableVariant(tshirt)).toBe(true);
+        expect(hasPurchasableVariant({ variants: [{ id: 'a', options: {}, stock: 0 }] })).toBe(false);
+    });
+});
+
+describe('getVariantPriceRange', () => {
+    it('falls back to the product price for variants without an override', () => {
+        expect(getVariantPriceRange(tshirt)).toEqual({ min: 20, max: 24 });
+    });
+});
+
+describe('resolveVariant', () => {
+    it('takes price, stock, image and SKU from the variant and labels it in option order', () => {
+        // Act
+        const resolved = resolveVariant(tshirt, tshirt.variants![2]);
+
+        // Assert
+        expect(resolved).toMatchObject({
+            id: 'tshirt',
+            price: 24,
+            stock: undefined,
+            image: 'https://example.com/blue.jpg',
+            sku: 'TS',
+            variantId: 'm-blue',
+            variantLabel: 'M / Blue'
+        });
+        expect(resolved).not.toHaveProperty('variants');
+        expect(getVariantLabel(tshirt.variants![0], tshirt)).toBe('S / Red');
+    });
+});
+
+describe('getLineKey', () => {
+    it('is just the product ID without a variant', () => {
+        expect(getLineKey(5)).toBe('5');
+        expect(getLineKey('tshirt', 's-red')).toBe('tshirt::s-red');
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * REST Product Repository Tests
+ *
+ * Validates reading a FakeStore-compatible API: configurable base URL, mapping
+ * that keeps ratings, missing products, and errors.
+ *
+ * @fileoverview REST product repository tests
+ * @version 1.0.0
+ */
+
+import { createRestProductRepository } from '../restProductRepository';
+
+const apiProduct = {
+    id: 1,
+    title: 'Backpack',
+    price: 109.95,
+    description: 'Fits a 15 inch laptop',
+    category: "men's clothing",
+    image: 'https://example.com/backpack.jpg',
+    rating: { rate: 3.9, count: 120 }
+};
+
+// Minimal fetch Response stand-in
+const respond = (status: number, body?: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => (body === undefined ? '' : JSON.stringify(body))
+}) as Response;
+
+describe('createRestProductRepository', () => {
+    it('reads from the configured base URL and keeps ratings', async () => {
+        // Arrange
+        const fetchFn = jest.fn().mockResolvedValue(respond(200, [apiProduct]));
+        const repository = createRestProductRepository('https://api.example.com/', fetchFn);
+
+        // Act
+        const products = await repository.getProducts();
+
+        // Assert
+        expect(fetchFn).toHaveBeenCalledWith('https://api.example.com/products');
+        expect(products).toEqual([expect.objectContaining({
+            id: '1',
+            title: 'Backpack',
+            rating: { rate: 3.9, count: 120 },
+            active: true
+        })]);
+    });
+
+    it('requests categories through the category endpoint', async () => {
+        // Arrange
+        const fetchFn = jest.fn().mockResolvedValue(respond(200, [apiProduct]));
+        const repository = createRestProductRepository('https://api.example.com', fetchFn);
+
+        // Act
+        await repository.getProducts({ category: "men's clothing" });
+
+        // Assert
+        expect(fetchFn).toHaveBeenCalledWith("https://api.example.com/products/category/men's%20clothing");
+    });
+
+    it('returns null for unknown products, including empty 200 responses', async () => {
+        // Arrange
+        const fetchFn = jest.fn()
+            .mockResolvedValueOnce(respond(404))
+            .mockResolvedValueOnce(respond(200));
+        const repository = createRestProductRepository('https://api.example.com', fetchFn);
+
+        // Act & Assert
+        expect(await repository.getProduct('99')).toBeNull();
+        expect(await repository.getProduct('100')).toBeNull();
+    });
+
+    it('throws on server errors so a fallback can take over', async () => {
+        // Arrange
+        const repository = createRestProductRepository('https://api.example.com', jest.fn().mockResolvedValue(respond(503)));
+
+        // Act & Assert
+        await expect(repository.getCategories()).rejects.toThrow('Product API error: 503');
+    });
+});
@@ -0,0 +1,360 @@
+/**
+ * Return API Tests
+ *
+ * Covers requesting returns on delivered orders and moving them through the
+ * requested → approved → received → refunded lifecycle, including restocking
+ * and the order's refundedTotal. Runs against the in-memory Firestore backend
+ * and checks the stored returns, orders and stock.
+ *
+ * @fileoverview Return (RMA) workflow tests
+ * @version 1.0.0
+ */
+
+import {
+    createReturnRequest,
+    updateReturnStatus,
+    getOrderReturns,
+    getOpenReturns,
+    getReturnableQuantities,
+    InvalidReturnError
+} from '../returnApi';
+import { OrderAccessDeniedError, OrderItem } from '../orderApi';
+import { auth } from '../../config/firebase';
+import { RoleRequiredError } from '../roles';
+import { DocumentData, exportMemoryFirestore, resetMemoryFirestore } from '../memoryFirestore';
+
+jest.mock('../../config/firebase', () => ({
+    db: {},
+    auth: { currentUser: { uid: 'user123' } }
+}));
+
+/**
+ * Run returnApi against the in-memory backend
+ */
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const mockAuth = auth as unknown as { currentUser: { uid: string } | null };
+
+const orderItems: OrderItem[] = [
+    { productId: 'prod1', name: 'Wireless Headphones', price: 99.99, quantity: 1 },
+    { productId: 'prod2', name: 'Phone Case', price: 24.99, quantity: 2 }
+];
+
+const deliveredOrder = {
+    userId: 'user123',
+    status: 'delivered',
+    products: orderItems,
+    totalPrice: 149.97
+};
+
+/**
+ * Replaces the database with the customer and staff profiles plus `documents`,
+ * keyed by document path
+ */
+const seed = (documents: Record<string, DocumentData> = {}) => {
+    resetMemoryFirestore({
+        'users/user123': { uid: 'user123', role: 'customer' },
+        'users/staff1': { uid: 'staff1', role: 'staff' },
+        ...documents
+    });
+};
+
+const stored = (path: string): DocumentData | undefined => exportMemoryFirestore()[path];
+
+const storedReturnPaths = () => Object.keys(exportMemoryFirestore()).filter(path => path.startsWith('returns/'));
+
+beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAuth.currentUser = { uid: 'user123' };
+    seed({ 'orders/order123': deliveredOrder });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('getReturnableQuantities', () => {
+    it('subtracts quantities already claimed by returns', () => {
+        // Act
+        const returnable = getReturnableQuantities({ products: orderItems, returnedQuantities: { prod2: 1 } });
+
+        // Assert
+        expect(returnable).toEqual({ prod1: 1, prod2: 1 });
+    });
+
+    it('also holds back what requests awaiting staff ask for', () => {
+        // Arrange
+        const items = [{ productId: 'prod2', name: 'Phone Case', price: 24.99, quantity: 1 }];
+
+        // Act
+        const returnable = getReturnableQuantities({ products: orderItems }, [
+            { status: 'requested', items },
+            { status: 'rejected', items }
+        ]);
+
+        // Assert
+        expect(returnable).toEqual({ prod1: 1, prod2: 1 });
+    });
+});
+
+describe('createReturnRequest', () => {
+    it('stores the return priced at what was paid without touching the order', async () => {
+        // Act
+        const result = await createReturnRequest('order123', [
+            { productId: 'prod2', quantity: 2 },
+            { productId: 'prod1', quantity: 0 }
+        ], ' Wrong colour ');
+
+        // Assert
+        expect(result).toMatchObject({
+            orderId: 'order123',
+            userId: 'user123',
+            status: 'requested',
+            reason: 'Wrong colour',
+            refundAmount: 49.98,
+            items: [{ productId: 'prod2', name: 'Phone Case', price: 24.99, quantity: 2 }]
+        });
+        expect(stored(`returns/${result.returnId}`)).toMatchObject({
+            orderId: 'order123',
+            status: 'requested',
+            refundAmount: 49.98
+        });
+        expect(stored('orders/order123')).toEqual(deliveredOrder);
+    });
+
+    it('refuses orders that have not been delivered', async () => {
+        // Arrange
+        seed({ 'orders/order123': { ...deliveredOrder, status: 'shipped' } });
+
+        // Act & Assert
+        await expect(createReturnRequest('order123', [{ productId: 'prod1', quantity: 1 }], 'Damaged'))
+            .rejects.toThrow('Only delivered orders can be returned');
+        expect(storedReturnPaths()).toEqual([]);
+    });
+
+    it('refuses more units than are still returnable', async () => {
+        // Arrange
+        seed({ 'orders/order123': { ...deliveredOrder, returnedQuantities: { prod2: 1 } } });
+
+        // Act & Assert
+        await expect(createReturnRequest('order123', [{ productId: 'prod2', quantity: 2 }], 'Damaged'))
+            .rejects.toBeInstanceOf(InvalidReturnError);
+        expect(storedReturnPaths()).toEqual([]);
+    });
+
+    it('counts the user\'s requests still awaiting staff', async () => {
+        // Arrange
+        await createReturnRequest('order123', [{ productId: 'prod2', quantity: 2 }], 'Wrong colour');
+
+        // Act & Assert
+        await expect(createReturnRequest('order123', [{ productId: 'prod2', quantity: 1 }], 'Damaged'))
+            .rejects.toBeInstanceOf(InvalidReturnError);
+        expect(storedReturnPaths()).toHaveLength(1);
+    });
+
+    it('refuses another user\'s order', async () => {
+        // Arrange
+        seed({ 'orders/order123': { ...deliveredOrder, userId: 'someoneElse' } });
+
+        // Act & Assert
+        await expect(createReturnRequest('order123', [{ productId: 'prod1', quantity: 1 }], 'Damaged'))
+            .rejects.toBeInstanceOf(OrderAccessDeniedError);
+        expect(storedReturnPaths()).toEqual([]);
+    });
+
+    it('requires a reason and at least one item', async () => {
+        // Act & Assert
+        await expect(createReturnRequest('order123', [{ productId: 'prod1', quantity: 1 }], '  '))
+            .rejects.toThrow('A return reason is required');
+        await expect(createReturnRequest('order123', [{ productId: 'prod1', quantity: 0 }], 'Damaged'))
+            .rejects.toThrow('Select at least one item to return');
+        expect(storedReturnPaths()).toEqual([]);
+    });
+});
+
+describe('updateReturnStatus', () => {
+    const returnDocument = (status: string) => ({
+        orderId: 'order123',
+        userId: 'user123',
+        status,
+        refundAmount: 49.98,
+        items: [{ productId: 'prod2', name: 'Phone Case', price: 24.99, quantity: 2 }],
+        statusHistory: []
+    });
+
+    beforeEach(() => {
+        mockAuth.currentUser = { uid: 'staff1' };
+    });
+
+    it('rejects users below staff without touching the return', async () => {
+        // Arrange
+        mockAuth.currentUser = { uid: 'user123' };
+        seed({ 'returns/return1': returnDocument('requested'), 'orders/order123': deliveredOrder });
+
+        // Act & Assert
+        await expect(updateReturnStatus('return1', 'approved')).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(stored('returns/return1')).toEqual(returnDocument('requested'));
+    });
+
+    it('restocks items and adds to refundedTotal when refunded', async () => {
+        // Arrange
+        seed({
+            'returns/return1': returnDocument('received'),
+            'orders/order123': { ...deliveredOrder, refundedTotal: 10, returnedQuantities: { prod2: 2 } },
+            'products/prod2': { price: 24.99, stock: 3 }
+        });
+
+        // Act
+        const result = await updateReturnStatus('return1', 'refunded', { actorUid: 'staff1' });
+
+        // Assert
+        expect(result).toBe(true);
+        expect(stored('products/prod2')).toMatchObject({ stock: 5 });
+        expect(stored('orders/order123')).toMatchObject({ refundedTotal: 59.98 });
+        expect(stored('returns/return1')).toMatchObject({
+            status: 'refunded',
+            statusHistory: [expect.objectContaining({ from: 'received', to: 'refunded', actorUid: 'staff1' })]
+        });
+    });
+
+    it('prices the refund from the order rather than the stored request', async () => {
+        // Arrange
+        seed({
+            'returns/return1': {
+                ...returnDocument('received'),
+                refundAmount: 999,
+                items: [{ productId: 'prod2', name: 'Phone Case', price: 499.5, quantity: 2 }]
+            },
+            'orders/order123': { ...deliveredOrder, returnedQuantities: { prod2: 2 } },
+            'products/prod2': { price: 24.99, stock: 3 }
+        });
+
+        // Act
+        await updateReturnStatus('return1', 'refunded');
+
+        // Assert
+        expect(stored('orders/order123')).toMatchObject({ refundedTotal: 49.98 });
+        expect(stored('returns/return1')).toMatchObject({ status: 'refunded', refundAmount: 49.98 });
+    });
+
+    it("refuses to approve a return filed by someone other than the order's customer", async () => {
+        // Arrange
+        const returnRequest = { ...returnDocument('requested'), userId: 'someoneElse' };
+        seed({ 'returns/return1': returnRequest, 'orders/order123': deliveredOrder });
+
+        // Act & Assert
+        await expect(updateReturnStatus('return1', 'approved')).rejects.toBeInstanceOf(InvalidReturnError);
+        expect(stored('orders/order123')).toEqual(deliveredOrder);
+        expect(stored('returns/return1')).toEqual(returnRequest);
+
+        await updateReturnStatus('return1', 'rejected');
+        expect(stored('returns/return1')).toMatchObject({ status: 'rejected' });
+    });
+
+    it('claims the quantities on the order when approved', async () => {
+        // Arrange
+        seed({ 'returns/return1': returnDocument('requested'), 'orders/order123': deliveredOrder });
+
+        // Act
+        await updateReturnStatus('return1', 'approved');
+
+        // Assert
+        expect(stored('orders/order123')).toMatchObject({ returnedQuantities: { prod2: 2 } });
+        expect(stored('returns/return1')).toMatchObject({ status: 'approved' });
+    });
+
+    it('refuses to approve more than is still returnable', async () => {
+        // Arrange
+        const order = { ...deliveredOrder, returnedQuantities: { prod2: 1 } };
+        seed({ 'returns/return1': returnDocument('requested'), 'orders/order123': order });
+
+        // Act & Assert
+        await expect(updateReturnStatus('return1', 'approved')).rejects.toBeInstanceOf(InvalidReturnError);
+        expect(stored('orders/order123')).toEqual(order);
+        expect(stored('returns/return1')).toEqual(returnDocument('requested'));
+    });
+
+    it('releases the claimed quantities when an approved return is rejected', async () => {
+        // Arrange
+        seed({
+            'returns/return1': returnDocument('approved'),
+            'orders/order123': { ...deliveredOrder, returnedQuantities: { prod2: 2 } }
+        });
+
+        // Act
+        await updateReturnStatus('return1', 'rejected', { note: 'Outside the return window' });
+
+        // Assert
+        expect(stored('orders/order123')).toMatchObject({ returnedQuantities: { prod2: 0 } });
+    });
+
+    it('leaves the order alone when rejecting a request that was never approved', async () => {
+        // Arrange
+        const order = { ...deliveredOrder, returnedQuantities: { prod2: 2 } };
+        seed({ 'returns/return1': returnDocument('requested'), 'orders/order123': order });
+
+        // Act
+        await updateReturnStatus('return1', 'rejected');
+
+        // Assert
+        expect(stored('orders/order123')).toEqual(order);
+        expect(stored('returns/return1')).toMatchObject({ status: 'rejected' });
+    });
+
+    it.each([
+        ['requested', 'refunded'],
+        ['received', 'rejected'],
+        ['refunded', 'approved']
+    ])('rejects moving from %s to %s', async (from, to) => {
+        // Arrange
+        seed({ 'returns/return1': returnDocument(from), 'orders/order123': deliveredOrder });
+
+        // Act & Assert
+        await expect(updateReturnStatus('return1', to as never)).rejects.toBeInstanceOf(InvalidReturnError);
+        expect(stored('returns/return1')).toEqual(returnDocument(from));
+        expect(stored('orders/order123')).toEqual(deliveredOrder);
+    });
+});
+
+describe('getOrderReturns', () => {
+    it('converts Firestore timestamps to Dates', async () => {
+        // Arrange
+        const createdAt = new Date('2025-11-10T09:00:00Z');
+        seed({ 'returns/return1': { orderId: 'order123', status: 'requested', items: [], createdAt } });
+
+        // Act
+        const result = await getOrderReturns('order123');
+
+        // Assert
+        expect(result).toEqual([expect.objectContaining({ returnId: 'return1', createdAt })]);
+    });
+});
+
+describe('getOpenReturns', () => {
+    beforeEach(() => {
+        mockAuth.currentUser = { uid: 'staff1' };
+    });
+
+    it('rejects users below staff', async () => {
+        // Arrange
+        mockAuth.currentUser = { uid: 'user123' };
+
+        // Act & Assert
+        await expect(getOpenReturns()).rejects.toBeInstanceOf(RoleRequiredError);
+    });
+
+    it('lists returns waiting on staff, oldest first', async () => {
+        // Arrange
+        seed({
+            'returns/return2': { status: 'approved', items: [], createdAt: new Date('2025-11-10T09:00:00Z') },
+            'returns/return1': { status: 'requested', items: [], createdAt: new Date('2025-11-08T09:00:00Z') },
+            'returns/return3': { status: 'refunded', items: [], createdAt: new Date('2025-11-01T09:00:00Z') }
+        });
+
+        // Act
+        const result = await getOpenReturns();
+
+        // Assert
+        expect(result.map(returnRequest => returnRequest.returnId)).toEqual(['return1', 'return2']);
+    });
+});
@@ -0,0 +1,281 @@
+/**
+ * Review API Tests
+ *
+ * Covers posting, editing and deleting reviews, the one-review-per-user rule,
+ * the verified-purchase flag and keeping Product.rating in step with reviews.
+ * Runs against the in-memory Firestore backend and checks the stored reviews
+ * and product ratings.
+ *
+ * @fileoverview Product review tests
+ * @version 1.0.0
+ */
+
+import {
+    createReview,
+    updateReview,
+    deleteReview,
+    computeRating,
+    hasPurchasedProduct,
+    findVerifiedPurchase,
+    InvalidReviewError
+} from '../reviewApi';
+import { auth } from '../../config/firebase';
+import { DocumentData, exportMemoryFirestore, resetMemoryFirestore } from '../memoryFirestore';
+
+jest.mock('../../config/firebase', () => ({
+    db: {},
+    auth: { currentUser: { uid: 'user123', displayName: 'Jane Doe', email: 'jane@example.com' } }
+}));
+
+/**
+ * Run reviewApi, and the order queries behind verified purchases, against the in-memory backend
+ */
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const mockAuth = auth as unknown as { currentUser: { uid: string; displayName?: string; email?: string } | null };
+
+const deliveredOrder = {
+    orderId: 'order1',
+    userId: 'user123',
+    status: 'delivered',
+    products: [{ productId: 'prod1', name: 'Wireless Headphones', price: 99.99, quantity: 1 }],
+    createdAt: new Date('2025-11-05T10:30:00Z')
+};
+
+const input = { rating: 4, title: ' Great sound ', body: 'Battery lasts all week.' };
+
+const stored = (path: string): DocumentData | undefined => exportMemoryFirestore()[path];
+
+beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAuth.currentUser = { uid: 'user123', displayName: 'Jane Doe', email: 'jane@example.com' };
+    resetMemoryFirestore();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('computeRating', () => {
+    it('averages to one decimal place', () => {
+        expect(computeRating(14, 3)).toEqual({ rate: 4.7, count: 3 });
+        expect(computeRating(0, 0)).toEqual({ rate: 0, count: 0 });
+    });
+});
+
+describe('hasPurchasedProduct', () => {
+    it('only counts delivered orders containing the product', async () => {
+        // Arrange
+        resetMemoryFirestore({ 'orders/order1': { ...deliveredOrder, status: 'shipped' } });
+
+        // Act & Assert
+        await expect(hasPurchasedProduct('user123', 'prod1')).resolves.toBe(false);
+
+        resetMemoryFirestore({ 'orders/order1': deliveredOrder });
+        await expect(hasPurchasedProduct('user123', 'prod1')).resolves.toBe(true);
+        await expect(hasPurchasedProduct('user123', 'prod2')).resolves.toBe(false);
+        await expect(hasPurchasedProduct('someoneElse', 'prod1')).resolves.toBe(false);
+    });
+});
+
+describe('findVerifiedPurchase', () => {
+    it('points at the line of the delivered order the product was on', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'orders/order0': { ...deliveredOrder, orderId: 'order0', status: 'cancelled', createdAt: new Date('2025-11-06T10:30:00Z') },
+            'orders/order1': {
+                ...deliveredOrder,
+                products: [{ productId: 'prod2', name: 'Phone Case', price: 24.99, quantity: 1 }, ...deliveredOrder.products]
+            }
+        });
+
+        // Act & Assert
+        await expect(findVerifiedPurchase('user123', 'prod1')).resolves.toEqual({ orderId: 'order1', line: 1 });
+        await expect(findVerifiedPurchase('user123', 'prod3')).resolves.toBeNull();
+    });
+});
+
+describe('createReview', () => {
+    it('stores a verified review and replaces the imported rating on the first review', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'orders/order1': deliveredOrder,
+            'products/prod1': { title: 'Wireless Headphones', rating: { rate: 3.9, count: 120 } }
+        });
+
+        // Act
+        const review = await createReview('prod1', input);
+
+        // Assert
+        expect(review).toMatchObject({
+            reviewId: 'user123',
+            productId: 'prod1',
+            authorName: 'Jane Doe',
+            rating: 4,
+            title: 'Great sound',
+            verifiedPurchase: true,
+            verifiedOrderId: 'order1',
+            verifiedLine: 0
+        });
+        expect(stored('products/prod1/reviews/user123')).toMatchObject({
+            userId: 'user123',
+            rating: 4,
+            verifiedPurchase: true,
+            verifiedOrderId: 'order1',
+            verifiedLine: 0
+        });
+        expect(stored('products/prod1')).toMatchObject({
+            rating: { rate: 4, count: 1 },
+            ratingTotal: 4
+        });
+    });
+
+    it('adds to the running total of an already reviewed product', async () => {
+        // Arrange
+        resetMemoryFirestore({ 'products/prod1': { rating: { rate: 5, count: 2 }, ratingTotal: 10 } });
+
+        // Act
+        const review = await createReview('prod1', { ...input, rating: 2 });
+
+        // Assert
+        expect(review.verifiedPurchase).toBe(false);
+        expect(stored('products/prod1/reviews/user123')).not.toHaveProperty('verifiedOrderId');
+        expect(stored('products/prod1')).toMatchObject({
+            rating: { rate: 4, count: 3 },
+            ratingTotal: 12
+        });
+    });
+
+    it('allows only one review per user per product', async () => {
+        // Arrange
+        const product = { rating: { rate: 4, count: 1 }, ratingTotal: 4 };
+        const existing = { userId: 'user123', rating: 4 };
+        resetMemoryFirestore({ 'products/prod1': product, 'products/prod1/reviews/user123': existing });
+
+        // Act & Assert
+        await expect(createReview('prod1', input)).rejects.toThrow('already reviewed');
+        expect(stored('products/prod1/reviews/user123')).toEqual(existing);
+        expect(stored('products/prod1')).toEqual(product);
+    });
+
+    it.each([
+        [{ ...input, rating: 0 }, 'between 1 and 5'],
+        [{ ...input, rating: 3.5 }, 'between 1 and 5'],
+        [{ ...input, title: '  ' }, 'title is required'],
+        [{ ...input, body: '' }, 'text is required']
+    ])('rejects invalid input %#', async (badInput, message) => {
+        // Arrange
+        const product = { rating: { rate: 0, count: 0 } };
+        resetMemoryFirestore({ 'products/prod1': product });
+
+        // Act & Assert
+        await expect(createReview('prod1', badInput)).rejects.toThrow(message);
+        expect(stored('products/prod1/reviews/user123')).toBeUndefined();
+        expect(stored('products/prod1')).toEqual(product);
+    });
+
+    it('requires a signed-in user', async () => {
+        // Arrange
+        mockAuth.currentUser = null;
+
+        // Act & Assert
+        await expect(createReview('prod1', input)).rejects.toBeInstanceOf(InvalidReviewError);
+    });
+});
+
+describe('updateReview', () => {
+    it('applies the change in stars to the rating without changing the count', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { rating: { rate: 3, count: 2 }, ratingTotal: 6 },
+            'products/prod1/reviews/user123': { userId: 'user123', productId: 'prod1', rating: 2, title: 'Meh', body: 'Okay', createdAt: new Date() }
+        });
+
+        // Act
+        const review = await updateReview('prod1', { ...input, rating: 5 });
+
+        // Assert
+        expect(review).toMatchObject({ rating: 5, title: 'Great sound' });
+        expect(stored('products/prod1/reviews/user123')).toMatchObject({ rating: 5, title: 'Great sound' });
+        expect(stored('products/prod1')).toMatchObject({
+            rating: { rate: 4.5, count: 2 },
+            ratingTotal: 9
+        });
+    });
+
+    it('drops the order line of a purchase that no longer verifies', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { rating: { rate: 4, count: 1 }, ratingTotal: 4 },
+            'products/prod1/reviews/user123': {
+                userId: 'user123',
+                productId: 'prod1',
+                rating: 4,
+                title: 'Great',
+                body: 'Loud',
+                verifiedPurchase: true,
+                verifiedOrderId: 'order1',
+                verifiedLine: 0,
+                createdAt: new Date()
+            }
+        });
+
+        // Act
+        const review = await updateReview('prod1', input);
+
+        // Assert
+        expect(review.verifiedPurchase).toBe(false);
+        expect(review.verifiedOrderId).toBeUndefined();
+        expect(stored('products/prod1/reviews/user123')).toMatchObject({ verifiedPurchase: false });
+        expect(stored('products/prod1/reviews/user123')).not.toHaveProperty('verifiedOrderId');
+        expect(stored('products/prod1/reviews/user123')).not.toHaveProperty('verifiedLine');
+    });
+
+    it("refuses to edit a review that doesn't exist", async () => {
+        // Arrange
+        resetMemoryFirestore({ 'products/prod1': { rating: { rate: 0, count: 0 } } });
+
+        // Act & Assert
+        await expect(updateReview('prod1', input)).rejects.toBeInstanceOf(InvalidReviewError);
+        expect(stored('products/prod1/reviews/user123')).toBeUndefined();
+    });
+});
+
+describe('deleteReview', () => {
+    it("removes the author's review and takes it out of the rating", async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { rating: { rate: 3.5, count: 2 }, ratingTotal: 7 },
+            'products/prod1/reviews/user123': { userId: 'user123', rating: 2 },
+            'products/prod1/reviews/user456': { userId: 'user456', rating: 5 }
+        });
+
+        // Act
+        await deleteReview('prod1');
+
+        // Assert
+        expect(stored('products/prod1/reviews/user123')).toBeUndefined();
+        expect(stored('products/prod1/reviews/user456')).toBeDefined();
+        expect(stored('products/prod1')).toMatchObject({
+            rating: { rate: 5, count: 1 },
+            ratingTotal: 5
+        });
+    });
+
+    it('resets the rating when the last review goes', async () => {
+        // Arrange
+        resetMemoryFirestore({
+            'products/prod1': { rating: { rate: 4, count: 1 }, ratingTotal: 4 },
+            'products/prod1/reviews/user123': { userId: 'user123', rating: 4 }
+        });
+
+        // Act
+        await deleteReview('prod1');
+
+        // Assert
+        expect(stored('products/prod1')).toMatchObject({
+            rating: { rate: 0, count: 0 },
+            ratingTotal: 0
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Search Index Tests
+ *
+ * Validates term normalization, prefix and typo-tolerant matching, field-weighted
+ * ranking, and that index updates are reflected in search results.
+ *
+ * @fileoverview Product search index tests
+ * @version 1.0.0
+ */
+
+import {
+    normalizeText,
+    tokenize,
+    buildSearchIndex,
+    indexProduct,
+    updateIndexedProduct,
+    removeFromSearchIndex,
+    clearSearchIndex,
+    searchIndex
+} from '../searchIndex';
+import type { Product } from '../../types/product';
+
+const makeProduct = (id: string, overrides: Partial<Product>): Product => ({
+    id,
+    title: 'Untitled',
+    price: 10,
+    description: '',
+    category: 'misc',
+    image: '',
+    rating: { rate: 0, count: 0 },
+    ...overrides
+});
+
+const catalog: Product[] = [
+    makeProduct('p1', { title: 'Wireless Headphones', description: 'Over-ear, noise cancelling', category: 'electronics' }),
+    makeProduct('p2', { title: 'Phone Case', description: 'Works great with wireless chargers', category: 'accessories' }),
+    makeProduct('p3', { title: 'Crème Brûlée Torch', description: 'Kitchen torch', category: 'kitchen', brand: 'Flambé' })
+];
+
+beforeEach(() => {
+    clearSearchIndex();
+    buildSearchIndex(catalog);
+});
+
+describe('normalizeText and tokenize', () => {
+    it('lowercases, strips accents and punctuation, and drops stop words', () => {
+        // Act & Assert
+        expect(normalizeText('Crème-Brûlée!')).toBe('creme brulee');
+        expect(tokenize('The Over-Ear headphones, for travel')).toEqual(['over', 'ear', 'headphones', 'travel']);
+    });
+});
+
+describe('searchIndex', () => {
+    const ids = (term: string, activeOnly?: boolean) => searchIndex(term, activeOnly).map(result => result.product.id);
+
+    it('matches prefixes of indexed terms', () => {
+        // Act & Assert
+        expect(ids('head')).toEqual(['p1']);
+    });
+
+    it('tolerates small typos', () => {
+        // Act & Assert
+        expect(ids('hedphones')).toEqual(['p1']);
+        expect(ids('wireles')).toContain('p1');
+    });
+
+    it('matches accented text with plain input', () => {
+        // Act & Assert
+        expect(ids('creme brulee')).toEqual(['p3']);
+    });
+
+    it('ranks title matches above description matches', () => {
+        // Act & Assert
+        expect(ids('wireless')).toEqual(['p1', 'p2']);
+    });
+
+    it('requires every query term to match', () => {
+        // Act & Assert
+        expect(ids('wireless case')).toEqual(['p2']);
+        expect(ids('wireless torch')).toEqual([]);
+    });
+
+    it('returns nothing for empty or stop-word-only queries', () => {
+        // Act & Assert
+        expect(ids('   ')).toEqual([]);
+        expect(ids('the')).toEqual([]);
+    });
+
+    it('skips inactive products unless asked for them', () => {
+        // Arrange
+        updateIndexedProduct('p1', { active: false });
+
+        // Act & Assert
+        expect(ids('headphones')).toEqual([]);
+        expect(ids('headphones', false)).toEqual(['p1']);
+    });
+});
+
+describe('index maintenance', () => {
+    it('reflects added, updated and removed products', () => {
+        // Act
+        indexProduct(makeProduct('p4', { title: 'Bluetooth Speaker' }));
+        updateIndexedProduct('p2', { title: 'Laptop Sleeve' });
+        removeFromSearchIndex('p3');
+
+        // Assert
+        expect(searchIndex('speaker').map(result => result.product.id)).toEqual(['p4']);
+        expect(searchIndex('sleeve').map(result => result.product.id)).toEqual(['p2']);
+        expect(searchIndex('phone case')).toEqual([]);
+        expect(searchIndex('torch')).toEqual([]);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Seed Data Tests
+ *
+ * Validates that generated datasets are deterministic, cover every order
+ * status, and can be written through the APIs (against the in-memory
+ * Firestore backend) with the stock the orders need.
+ *
+ * @fileoverview Seed generation and seeding tests
+ * @version 1.0.0
+ */
+
+import { generateSeedData } from '../seedData';
+import { seedDatabase } from '../seedDatabase';
+import { getLineKey } from '../productVariants';
+import { exportMemoryFirestore, resetMemoryFirestore, Timestamp } from '../memoryFirestore';
+import { validate } from '../validation';
+import { productSchema, userProfileSchema } from '../schemas';
+
+/**
+ * Mock the firebase configuration module
+ * This prevents the import.meta error during Jest test runs
+ */
+jest.mock('../../config/firebase', () => ({
+    db: {},
+    auth: { currentUser: null }
+}));
+
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+describe('generateSeedData', () => {
+    it('gives the same dataset for the same seed and a different one otherwise', () => {
+        // Act
+        const first = generateSeedData({ seed: 7 });
+        const again = generateSeedData({ seed: 7 });
+        const other = generateSeedData({ seed: 8 });
+
+        // Assert
+        expect(again).toEqual(first);
+        expect(other.products.map(product => product.data.title))
+            .not.toEqual(first.products.map(product => product.data.title));
+    });
+
+    it('generates valid products and profiles, with variants for clothing', () => {
+        // Act
+        const { products, users, categories } = generateSeedData({ products: 10, users: 5 });
+
+        // Assert
+        expect(categories).toEqual(['electronics', 'home', 'jewelery', "men's clothing", "women's clothing"]);
+        products.forEach(({ data }) => expect(validate(productSchema, data)).toEqual([]));
+        users.forEach(({ uid, email, profile }) => expect(validate(userProfileSchema, { uid, email, ...profile })).toEqual([]));
+        expect(products.filter(({ data }) => data.variants).map(({ data }) => data.category))
+            .toEqual(["men's clothing", "women's clothing", "men's clothing", "women's clothing"]);
+    });
+
+    it('covers every order status and leaves enough stock for every order', () => {
+        // Act
+        const { products, orders } = generateSeedData({ orders: 30 });
+
+        // Assert
+        const statuses = orders.map(order => order.history.length ? order.history[order.history.length - 1].status : 'pending');
+        expect(new Set(statuses)).toEqual(new Set(['pending', 'confirmed', 'shipped', 'delivered', 'cancelled']));
+
+        const ordered = new Map<string, number>();
+        orders.flatMap(order => order.products).forEach(line => {
+            const key = getLineKey(line.productId, line.variantId);
+            ordered.set(key, (ordered.get(key) ?? 0) + line.quantity);
+        });
+        ordered.forEach((quantity, key) => {
+            const [productId, variantId] = key.split('::');
+            const { data } = products.find(product => product.id === productId)!;
+            const stock = variantId ? data.variants!.find(variant => variant.id === variantId)!.stock : data.stock;
+            expect(stock).toBeGreaterThanOrEqual(quantity);
+        });
+    });
+});
+
+describe('seedDatabase', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        resetMemoryFirestore();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('writes the dataset through the APIs with back-dated orders', async () => {
+        // Arrange
+        const options = { seed: 3, products: 6, users: 3, orders: 8 };
+        const { orders } = generateSeedData(options);
+
+        // Act
+        const summary = await seedDatabase(options);
+
+        // Assert
+        const stored = exportMemoryFirestore();
+        expect(summary).toMatchObject({ products: 6, users: 3, orders: 8 });
+        expect(stored['products/seed-product-001']).toMatchObject({ active: true });
+        expect(stored['users/seed-user-001']).toMatchObject({ address: expect.objectContaining({ country: 'US' }) });
+
+        const createdDates = summary.orderIds.map(id => (stored[`orders/${id}`].createdAt as Timestamp).toMillis());
+        expect(createdDates).toEqual(orders.map(order => order.createdAt.getTime()).sort((a, b) => a - b));
+    });
+});
@@ -1,116 +1,79 @@
 /**
  * Unit Tests for User API Functions
- * 
+ *
  * This test suite validates the functionality of user profile management functions
- * that interact with Firestore database.
- * 
+ * against the in-memory Firestore backend, checking the stored profiles.
+ *
  * @fileoverview Unit tests for userApi.ts functions
  * @version 1.0.0
  */
 
 // Import the functions we want to test
-import { createUserProfile, getUserProfile, updateUserProfile, deleteUserProfile } from '../userApi';
-// Import Firestore functions that we need to mock
-import { setDoc, getDoc, doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { createUserProfile, getUserProfile, updateUserProfile, deleteUserProfile, setUserRole } from '../userApi';
+import { RoleRequiredError } from '../roles';
+import { exportMemoryFirestore, resetMemoryFirestore, Timestamp } from '../memoryFirestore';
 
 /**
- * Mock the Firebase configuration module
+ * Mock the Firebase configuration module, signed in as admin1
  */
 jest.mock('../../config/firebase', () => ({
-    db: {}
+    db: {},
+    auth: { currentUser: { uid: 'admin1' } }
 }));
 
 /**
- * Mock all Firestore functions used by our userApi functions
+ * Run userApi against the in-memory backend
  */
-jest.mock('firebase/firestore', () => {
-  class MockTimestamp {
-    toDate() {
-      return new Date();
-    }
-  }
-  
-  return {
-    collection: jest.fn(),
-    doc: jest.fn(),
-    setDoc: jest.fn(),
-    getDoc: jest.fn(),
-    updateDoc: jest.fn(),
-    deleteDoc: jest.fn(),
-    Timestamp: MockTimestamp
-  };
+jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'));
+
+const profile = { uid: 'user123', email: 'test@example.com', displayName: 'Test User', role: 'customer' };
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    resetMemoryFirestore({
+        'users/admin1': { uid: 'admin1', email: 'admin@example.com', role: 'admin' },
+        'users/user123': profile
+    });
 });
 
-// Create typed mock functions
-const mockSetDoc = setDoc as jest.MockedFunction<typeof setDoc>;
-const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
-const mockDoc = doc as jest.MockedFunction<typeof doc>;
-const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
-const mockDeleteDoc = deleteDoc as jest.MockedFunction<typeof deleteDoc>;
+afterEach(() => {
+    jest.restoreAllMocks();
+});
 
 describe('createUserProfile', () => {
     it('adds user document to Firestore', async () => {
-        // Arrange
-        mockSetDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
         await createUserProfile('uid123', 'test@example.com', 'Test User');
-        
+
         // Assert
-        expect(mockSetDoc).toHaveBeenCalled();
+        const stored = exportMemoryFirestore()['users/uid123'];
+        expect(stored).toMatchObject({ uid: 'uid123', email: 'test@example.com', displayName: 'Test User', role: 'customer' });
+        expect(stored.createdAt).toBeInstanceOf(Timestamp);
     });
 });
 
 describe('getUserProfile', () => {
     it('reads a user profile by id', async () => {
-        // Arrange
-        const mockDocSnap = {
-            exists: () => true,
-            data: () => ({ uid: 'uid123', email: 'test@example.com' })
-        };
-        
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
-        const profile = await getUserProfile('uid123');
-        
+        const result = await getUserProfile('user123');
+
         // Assert
-        expect(profile).toBeDefined();
-        expect(mockGetDoc).toHaveBeenCalled();
+        expect(result).toMatchObject(profile);
     });
-    
+
     it('returns null when user profile does not exist', async () => {
-        // Arrange
-        const mockDocSnap = {
-            exists: () => false,
-            data: () => undefined
-        };
-        
-        mockGetDoc.mockResolvedValue(mockDocSnap as any);
-        mockDoc.mockReturnValue({} as any);
-        
         // Act
-        const profile = await getUserProfile('nonexistent');
-        
+        const result = await getUserProfile('nonexistent');
+
         // Assert
-        expect(profile).toBeNull();
+        expect(result).toBeNull();
     });
 });
 
 describe('updateUserProfile', () => {
-    beforeEach(() => {
-        mockUpdateDoc.mockReset();
-        mockDoc.mockReset();
-    });
-
     it('updates user profile with partial data', async () => {
         // Arrange
-        mockUpdateDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
-        const userId = 'user123';
         const updateData = {
             displayName: 'Jane Doe',
             address: {
@@ -121,53 +84,95 @@ describe('updateUserProfile', () => {
                 country: 'US'
             }
         };
-        
+
         // Act
-        await updateUserProfile(userId, updateData);
-        
+        await updateUserProfile('user123', updateData);
+
         // Assert
-        expect(mockUpdateDoc).toHaveBeenCalled();
+        const stored = exportMemoryFirestore()['users/user123'];
+        expect(stored).toMatchObject({ ...profile, ...updateData });
+        expect(stored.updatedAt).toBeInstanceOf(Timestamp);
     });
 
     it('throws error when update fails', async () => {
-        // Arrange
-        mockUpdateDoc.mockRejectedValue(new Error('Firestore update failed'));
-        mockDoc.mockReturnValue({} as any);
-        
+        // Act & Assert - there is no profile to update
+        await expect(
+            updateUserProfile('nonexistent', { displayName: 'Test' })
+        ).rejects.toMatchObject({ code: 'not-found' });
+        expect(exportMemoryFirestore()['users/nonexistent']).toBeUndefined();
+    });
+
+    it('rejects invalid fields without writing', async () => {
         // Act & Assert
         await expect(
-            updateUserProfile('user123', { displayName: 'Test' })
-        ).rejects.toThrow();
+            updateUserProfile('user123', { phoneNumber: 'call me', address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '!', country: 'US' } })
+        ).rejects.toMatchObject({
+            name: 'ValidationError',
+            errors: [
+                { field: 'phoneNumber', message: expect.stringMatching(/phone number/i) },
+                { field: 'address.zipCode', message: 'Enter a valid zip or postal code' }
+            ]
+        });
+        expect(exportMemoryFirestore()['users/user123']).toEqual(profile);
+    });
+
+    it('rejects role changes', async () => {
+        // Act & Assert
+        await expect(
+            updateUserProfile('user123', { role: 'admin' })
+        ).rejects.toThrow(/setUserRole/);
+        expect(exportMemoryFirestore()['users/user123']).toEqual(profile);
     });
 });
 
-describe('deleteUserProfile', () => {
-    beforeEach(() => {
-        mockDeleteDoc.mockReset();
-        mockDoc.mockReset();
+describe('setUserRole', () => {
+    it('saves the new role', async () => {
+        // Act
+        await setUserRole('user123', 'staff');
+
+        // Assert
+        expect(exportMemoryFirestore()['users/user123']).toMatchObject({ role: 'staff' });
     });
 
-    it('deletes user profile successfully', async () => {
+    it('rejects users below admin', async () => {
         // Arrange
-        mockDeleteDoc.mockResolvedValue(undefined);
-        mockDoc.mockReturnValue({} as any);
-        
+        resetMemoryFirestore({
+            'users/admin1': { uid: 'admin1', role: 'staff' },
+            'users/user123': profile
+        });
+
+        // Act & Assert
+        await expect(setUserRole('user123', 'staff')).rejects.toBeInstanceOf(RoleRequiredError);
+        expect(exportMemoryFirestore()['users/user123']).toEqual(profile);
+    });
+
+    it('does not let admins change their own role', async () => {
+        // Act & Assert
+        await expect(setUserRole('admin1', 'customer')).rejects.toThrow(/own role/);
+        expect(exportMemoryFirestore()['users/admin1']).toMatchObject({ role: 'admin' });
+    });
+
+    it('rejects unknown roles', async () => {
+        // Act & Assert
+        await expect(setUserRole('user123', 'owner' as never)).rejects.toMatchObject({ name: 'ValidationError' });
+        expect(exportMemoryFirestore()['users/user123']).toEqual(profile);
+    });
+});
+
+describe('deleteUserProfile', () => {
+    it('deletes user profile successfully', async () => {
         // Act
-        const result = await deleteUserProfile('user123');
-        
+        await deleteUserProfile('user123');
+
         // Assert
-        expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'users', 'user123');
-        expect(mockDeleteDoc).toHaveBeenCalled();
+        expect(exportMemoryFirestore()['users/user123']).toBeUndefined();
+        expect(exportMemoryFirestore()['users/admin1']).toBeDefined();
     });
 
     it('throws error when delete fails', async () => {
-        // Arrange
-        mockDeleteDoc.mockRejectedValue(new Error('Delete operation failed'));
-        mockDoc.mockReturnValue({} as any);
-        
-        // Act & Assert
+        // Act & Assert - an empty ID names no document
         await expect(
-            deleteUserProfile('user123')
-        ).rejects.toThrow();
+            deleteUserProfile('')
+        ).rejects.toMatchObject({ code: 'invalid-argument' });
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,130 @@
+/**
+ * Schema Validation Tests
+ *
+ * Validates the declarative validator and the product, user profile and order
+ * schemas: field-level error lists with dotted paths, partial validation for
+ * updates, and ValidationError.
+ *
+ * @fileoverview Schema validation tests
+ * @version 1.0.0
+ */
+
+import { assertValid, getFieldError, validate, ValidationError } from '../validation';
+import { createOrderSchema, productSchema, userProfileSchema } from '../schemas';
+
+const validProduct = {
+    title: 'Backpack',
+    price: 109.95,
+    description: 'Fits a 15 inch laptop',
+    category: "men's clothing",
+    image: 'https://example.com/backpack.jpg',
+    rating: { rate: 3.9, count: 120 }
+};
+
+describe('validate', () => {
+    it('returns no errors for valid data', () => {
+        expect(validate(productSchema, validProduct)).toEqual([]);
+    });
+
+    it('lists every problem, not just the first', () => {
+        // Arrange
+        const product = { ...validProduct, title: '   ', price: 0, category: undefined };
+
+        // Act
+        const errors = validate(productSchema, product);
+
+        // Assert
+        expect(errors).toEqual([
+            { field: 'title', message: 'Title is required' },
+            { field: 'price', message: 'Price must be greater than 0' },
+            { field: 'category', message: 'Category is required' }
+        ]);
+    });
+
+    it('reports nested fields and array elements by dotted path', () => {
+        // Arrange
+        const product = {
+            ...validProduct,
+            dimensions: { length: 10, width: -1, height: 5 },
+            variants: [{ id: 'm', options: { Size: 'M' }, stock: 1.5 }]
+        };
+
+        // Act
+        const errors = validate(productSchema, product);
+
+        // Assert
+        expect(errors).toEqual([
+            { field: 'dimensions.width', message: 'Width must be at least 0' },
+            { field: 'variants.0.stock', message: 'Variant stock must be a whole number' }
+        ]);
+    });
+
+    it('only checks the fields given when partial', () => {
+        expect(validate(productSchema, { price: 12 }, { partial: true })).toEqual([]);
+        expect(validate(productSchema, { price: NaN }, { partial: true })).toEqual([
+            { field: 'price', message: 'Price must be a number' }
+        ]);
+    });
+
+    it('treats empty optional strings as not set', () => {
+        // Arrange: the shape createUserProfile writes for a new account
+        const profile = {
+            uid: 'user1',
+            email: 'jane@example.com',
+            phoneNumber: '',
+            address: { street: '', city: '', state: '', zipCode: '', country: 'US' },
+            preferences: { notifications: true, newsletter: false, theme: 'auto' as const },
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+
+        // Act & Assert
+        expect(validate(userProfileSchema, profile)).toEqual([]);
+    });
+
+    it('uses the schema message for pattern mismatches', () => {
+        // Act
+        const errors = validate(userProfileSchema, { email: 'not-an-email', phoneNumber: 'call me' }, { partial: true });
+
+        // Assert
+        expect(getFieldError(errors, 'email')).toBe('Enter a valid email address');
+        expect(getFieldError(errors, 'phoneNumber')).toMatch(/phone number/i);
+    });
+});
+
+describe('assertValid', () => {
+    it('throws a ValidationError carrying the field errors', () => {
+        // Act
+        let thrown: unknown;
+        try {
+            assertValid('order', createOrderSchema, { userId: 'user1', products: [], shippingAddress: '' });
+        } catch (error) {
+            thrown = error;
+        }
+
+        // Assert
+        expect(thrown).toBeInstanceOf(ValidationError);
+        expect((thrown as ValidationError).errors.map(error => error.field)).toEqual(['products', 'shippingAddress']);
+        expect((thrown as ValidationError).message).toBe(
+            'Invalid order: Order items must not be empty; Shipping address is required'
+        );
+    });
+
+    it('passes valid data through silently', () => {
+        expect(() => assertValid('order', createOrderSchema, {
+            userId: 'user1',
+            products: [{ productId: 'p1', name: 'Backpack', price: 109.95, quantity: 1 }],
+            shippingAddress: '1 Main St, Springfield'
+        })).not.toThrow();
+    });
+});
+
+describe('getFieldError', () => {
+    it('finds errors for a field or anything nested under it', () => {
+        const errors = [{ field: 'address.zipCode', message: 'Enter a valid zip or postal code' }];
+
+        expect(getFieldError(errors, 'address.zipCode')).toBe('Enter a valid zip or postal code');
+        expect(getFieldError(errors, 'address')).toBe('Enter a valid zip or postal code');
+        expect(getFieldError(errors, 'addressLine')).toBeUndefined();
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Cart API Functions
+ *
+ * Persists signed-in users' shopping carts in Firestore so a cart follows the
+ * user across tabs, devices and browser restarts. Each user has a single
+ * document at `carts/{uid}` holding the cart items.
+ *
+ * @fileoverview Per-user cart persistence for Firebase Firestore
+ * @version 1.0.0
+ */
+
+import { db } from '../config/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import type { CartItem } from '../features/cart/cartSlice';
+
+/**
+ * Shape of a `carts/{uid}` document
+ */
+export interface StoredCart {
+  items: CartItem[];
+  updatedAt: Date;
+}
+
+/**
+ * Prepares a cart item for Firestore: drops product timestamps (they come back
+ * as Timestamps, which don't belong in Redux) and undefined fields (which Firestore rejects)
+ */
+const toStoredCartItem = (item: CartItem): CartItem => {
+  const storedItem = { ...item };
+  delete storedItem.createdAt;
+  delete storedItem.updatedAt;
+
+  return Object.fromEntries(
+    Object.entries(storedItem).filter(([, value]) => value !== undefined)
+  ) as unknown as CartItem;
+};
+
+/**
+ * Retrieves the stored cart for a user
+ *
+ * @param uid - Firebase Auth user ID
+ * @returns Promise<CartItem[] | null> - Stored cart items or null if the user has no cart yet
+ * @throws Error if retrieval fails
+ */
+export const getUserCart = async (uid: string): Promise<CartItem[] | null> => {
+  try {
+    const cartDocRef = doc(db, 'carts', uid);
+    const docSnap = await getDoc(cartDocRef);
+
+    if (docSnap.exists()) {
+      const data = docSnap.data() as Partial<StoredCart>;
+      return Array.isArray(data.items) ? data.items : [];
+    }
+
+    return null;
+  } catch (error) {
+    console.error('❌ Error fetching user cart:', error);
+    throw error;
+  }
+};
+
+/**
+ * Overwrites the stored cart for a user with the given items
+ *
+ * @param uid - Firebase Auth user ID
+ * @param items - Current cart items
+ * @returns Promise that resolves when the cart is saved
+ * @throws Error if saving fails
+ */
+export const saveUserCart = async (uid: string, items: CartItem[]): Promise<void> => {
+  try {
+    const cart: StoredCart = {
+      items: items.map(toStoredCartItem),
+      updatedAt: new Date()
+    };
+
+    const cartDocRef = doc(db, 'carts', uid);
+    await setDoc(cartDocRef, cart);
+
+    console.log('✅ Cart saved to Firestore for user:', uid);
+  } catch (error) {
+    console.error('❌ Error saving user cart:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Firestore Composite Index Definitions
+ *
+ * Builds the contents of firestore.indexes.json from the queries the app runs,
+ * so adding a sort mode or filtered query can't silently ship without its index.
+ * Deploy with `firebase deploy --only firestore:indexes`.
+ *
+ * A test compares the committed firestore.indexes.json against
+ * buildFirestoreIndexes(); when it fails, copy the expected output into the file.
+ *
+ * @fileoverview Composite index definitions for product, order and return queries
+ * @version 1.0.0
+ */
+
+import { PRODUCT_SORT_MODES } from './productRepository';
+
+type IndexOrder = 'ASCENDING' | 'DESCENDING';
+
+export interface FirestoreIndex {
+  collectionGroup: string;
+  queryScope: 'COLLECTION';
+  fields: { fieldPath: string; order: IndexOrder }[];
+}
+
+export interface FirestoreIndexFile {
+  indexes: FirestoreIndex[];
+  fieldOverrides: never[];
+}
+
+const toOrder = (direction: 'asc' | 'desc'): IndexOrder => (direction === 'asc' ? 'ASCENDING' : 'DESCENDING');
+
+const compositeIndex = (collectionGroup: string, fields: [string, IndexOrder][]): FirestoreIndex => ({
+  collectionGroup,
+  queryScope: 'COLLECTION',
+  fields: fields.map(([fieldPath, order]) => ({ fieldPath, order }))
+});
+
+/**
+ * Returns every composite index the app's queries need
+ *
+ * - products: each sort mode with the active filter, alone and combined with category
+ *   (getProductsPage, getAllProducts, getProductsByCategory)
+ * - orders: a user's orders newest first (getUserOrders), and the staff order list
+ *   filtered by status and/or customer (getOrdersPage)
+ * - returns: an order's returns newest first (getOrderReturns)
+ *
+ * @returns FirestoreIndexFile - Contents for firestore.indexes.json
+ */
+export const buildFirestoreIndexes = (): FirestoreIndexFile => {
+  const productIndexes: FirestoreIndex[] = [];
+  const seen = new Set<string>();
+
+  Object.values(PRODUCT_SORT_MODES).forEach(({ field, direction }) => {
+    const key = `${field}:${direction}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    productIndexes.push(compositeIndex('products', [['active', 'ASCENDING'], [field, toOrder(direction)]]));
+    productIndexes.push(compositeIndex('products', [
+      ['active', 'ASCENDING'],
+      ['category', 'ASCENDING'],
+      [field, toOrder(direction)]
+    ]));
+  });
+
+  return {
+    indexes: [
+      ...productIndexes,
+      compositeIndex('orders', [['userId', 'ASCENDING'], ['createdAt', 'DESCENDING']]),
+      compositeIndex('orders', [['status', 'ASCENDING'], ['createdAt', 'DESCENDING']]),
+      compositeIndex('orders', [['userId', 'ASCENDING'], ['status', 'ASCENDING'], ['createdAt', 'DESCENDING']]),
+      compositeIndex('returns', [['orderId', 'ASCENDING'], ['createdAt', 'DESCENDING']])
+    ],
+    fieldOverrides: []
+  };
+};
@@ -0,0 +1,132 @@
+/**
+ * Firestore Product Repository
+ *
+ * Reads the `products` collection. Filtering, ordering and paging all happen
+ * in Firestore queries; filtering by active and/or category together with a
+ * sort field needs the composite indexes in firestore.indexes.json.
+ *
+ * @fileoverview ProductRepository over Firestore
+ * @version 1.0.0
+ */
+
+import { db } from '../config/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  Timestamp,
+  QueryConstraint,
+  DocumentData
+} from 'firebase/firestore';
+import type { Product } from '../types/product';
+import {
+  DEFAULT_PRODUCT_PAGE_SIZE,
+  PRODUCT_SORT_MODES,
+  ProductPageOptions,
+  ProductQuery,
+  ProductRepository
+} from './productRepository';
+
+/**
+ * Builds a Product from a document, converting Firestore Timestamps to Dates
+ */
+const fromDocument = (id: string, data: DocumentData): Product => {
+  const product = { ...data } as Omit<Product, 'id'>;
+  if (product.createdAt instanceof Timestamp) {
+    product.createdAt = product.createdAt.toDate();
+  }
+  if (product.updatedAt instanceof Timestamp) {
+    product.updatedAt = product.updatedAt.toDate();
+  }
+  if (product.archivedAt instanceof Timestamp) {
+    product.archivedAt = product.archivedAt.toDate();
+  }
+  return { id, ...product } as Product;
+};
+
+/**
+ * Queries the whole collection with optional filters and server-side ordering
+ */
+const getProducts = async ({ activeOnly = true, category, sortMode }: ProductQuery = {}): Promise<Product[]> => {
+  const productsCollection = collection(db, 'products');
+  const constraints: QueryConstraint[] = [];
+
+  if (category) {
+    constraints.push(where('category', '==', category));
+  }
+  if (activeOnly) {
+    constraints.push(where('active', '==', true));
+  }
+  if (sortMode) {
+    constraints.push(orderBy(PRODUCT_SORT_MODES[sortMode].field, PRODUCT_SORT_MODES[sortMode].direction));
+  }
+
+  const querySnapshot = constraints.length > 0
+    ? await getDocs(query(productsCollection, ...constraints))
+    : await getDocs(productsCollection);
+
+  const products: Product[] = [];
+  querySnapshot.forEach((docSnap) => {
+    products.push(fromDocument(docSnap.id, docSnap.data()));
+  });
+  return products;
+};
+
+/**
+ * Creates a repository reading the Firestore `products` collection
+ */
+export const createFirestoreProductRepository = (): ProductRepository => ({
+  source: 'firestore',
+
+  getProduct: async (productId) => {
+    const docSnap = await getDoc(doc(db, 'products', productId));
+    return docSnap.exists() ? fromDocument(docSnap.id, docSnap.data()) : null;
+  },
+
+  getProducts,
+
+  // Orders by the sort key and starts after the cursor, so each page costs a
+  // single bounded query. One extra document tells whether another page exists.
+  getProductsPage: async ({
+    pageSize = DEFAULT_PRODUCT_PAGE_SIZE,
+    cursor = null,
+    sortBy = 'title',
+    sortDirection = 'asc',
+    category,
+    activeOnly = true
+  }: ProductPageOptions = {}) => {
+    const constraints: QueryConstraint[] = [];
+    if (activeOnly) {
+      constraints.push(where('active', '==', true));
+    }
+    if (category) {
+      constraints.push(where('category', '==', category));
+    }
+    constraints.push(orderBy(sortBy, sortDirection));
+    // Offset cursors come from other sources and can't be continued here
+    if (cursor && typeof cursor !== 'number') {
+      constraints.push(startAfter(cursor));
+    }
+    constraints.push(limit(pageSize + 1));
+
+    const querySnapshot = await getDocs(query(collection(db, 'products'), ...constraints));
+    const pageDocs = querySnapshot.docs.slice(0, pageSize);
+    const hasMore = querySnapshot.docs.length > pageSize;
+
+    return {
+      products: pageDocs.map(docSnap => fromDocument(docSnap.id, docSnap.data())),
+      nextCursor: hasMore ? pageDocs[pageDocs.length - 1] : null
+    };
+  },
+
+  getCategories: async () => {
+    const products = await getProducts({ activeOnly: true });
+    return [...new Set(products.map(product => product.category))].sort();
+  }
+});
@@ -0,0 +1,247 @@
+/**
+ * In-Memory Auth
+ *
+ * A drop-in stand-in for the parts of `firebase/auth` the app uses: getAuth,
+ * onAuthStateChanged, email/password sign-in and registration, signOut and
+ * deleteUser. It goes with the in-memory Firestore, so the offline demo can
+ * sign in, check out, see order history and use the admin area.
+ *
+ * Accounts are the user profiles in the in-memory Firestore: every seeded user
+ * (see seedData.ts, including admin@example.com and staff@example.com) signs in
+ * with MEMORY_AUTH_PASSWORD, and accounts registered in the demo keep the
+ * password they were created with. Like the data, accounts are lost on reload;
+ * only which seeded user was signed in is kept (in sessionStorage).
+ *
+ * Point code at it with the Vite alias (VITE_DATA_BACKEND=memory).
+ *
+ * @fileoverview Firebase Auth-compatible in-memory authentication
+ * @version 1.0.0
+ */
+
+import { collection, DocumentData, getDocs, getFirestore, query, where } from './memoryFirestore';
+
+/**
+ * Password of every seeded account
+ */
+export const MEMORY_AUTH_PASSWORD = 'password123';
+
+const SESSION_KEY = 'memoryAuthUid';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Error with a Firebase Auth error code ('auth/invalid-credential', ...)
+ */
+export class AuthError extends Error {
+  code: string;
+
+  constructor(code: string) {
+    super(`Firebase: Error (${code}).`);
+    this.name = 'FirebaseError';
+    this.code = code;
+  }
+}
+
+/**
+ * The fields of a Firebase User the app reads
+ */
+export interface User {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  emailVerified: boolean;
+  isAnonymous: boolean;
+  providerData: unknown[];
+  getIdToken: () => Promise<string>;
+}
+
+export interface UserCredential {
+  user: User;
+  providerId: string | null;
+  operationType: 'signIn';
+}
+
+type AuthListener = (user: User | null) => void;
+
+/**
+ * In-memory auth state; every instance is independent
+ */
+export class MemoryAuth {
+  currentUser: User | null = null;
+  readonly listeners = new Set<AuthListener>();
+  readonly registered = new Map<string, { user: User; password: string }>();  // Keyed by lower-case email
+  restoring: Promise<void> | null = null;
+}
+
+export type Auth = MemoryAuth;
+
+const defaultAuth = new MemoryAuth();
+
+const resolveAuth = (auth: unknown): MemoryAuth =>
+  auth instanceof MemoryAuth ? auth : defaultAuth;
+
+/**
+ * Returns the shared auth state (the app argument is ignored)
+ */
+export const getAuth = (app?: unknown): MemoryAuth => {
+  void app;
+  return defaultAuth;
+};
+
+const toUser = (uid: string, email: string | null, displayName: string | null): User => ({
+  uid,
+  email,
+  displayName,
+  emailVerified: true,
+  isAnonymous: false,
+  providerData: [],
+  getIdToken: async () => `memory-token-${uid}`
+});
+
+const findProfile = async (field: 'uid' | 'email', value: string): Promise<DocumentData | undefined> => {
+  const snapshot = await getDocs(query(collection(getFirestore(), 'users'), where(field, '==', value)));
+  return snapshot.docs[0]?.data();
+};
+
+const profileToUser = (profile: DocumentData): User =>
+  toUser(String(profile.uid), (profile.email as string | undefined) ?? null, (profile.displayName as string | undefined) || null);
+
+// sessionStorage is missing outside the browser (the seed command); auth then just isn't kept
+const readSession = (): string | null => {
+  try {
+    return sessionStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (uid: string | null): void => {
+  try {
+    if (uid) {
+      sessionStorage.setItem(SESSION_KEY, uid);
+    } else {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  } catch {
+    // Nothing to keep the session in
+  }
+};
+
+const setCurrentUser = (auth: MemoryAuth, user: User | null): void => {
+  auth.currentUser = user;
+  writeSession(user?.uid ?? null);
+  auth.listeners.forEach(listener => listener(user));
+};
+
+/**
+ * Signs the seeded user from before a reload back in, once, when the app first
+ * listens (by then the in-memory database has been seeded)
+ */
+const restoreSession = (auth: MemoryAuth): Promise<void> => {
+  auth.restoring ??= (async () => {
+    const uid = readSession();
+    const profile = uid && !auth.currentUser ? await findProfile('uid', uid) : undefined;
+    if (profile) {
+      auth.currentUser = profileToUser(profile);
+    }
+  })();
+  return auth.restoring;
+};
+
+/**
+ * Calls `listener` with the signed-in user now (asynchronously, like Firebase)
+ * and after every sign-in and sign-out
+ *
+ * @returns Call to stop listening
+ */
+export const onAuthStateChanged = (auth: unknown, listener: AuthListener): (() => void) => {
+  const memoryAuth = resolveAuth(auth);
+  memoryAuth.listeners.add(listener);
+  restoreSession(memoryAuth).then(() => {
+    if (memoryAuth.listeners.has(listener)) {
+      listener(memoryAuth.currentUser);
+    }
+  });
+  return () => {
+    memoryAuth.listeners.delete(listener);
+  };
+};
+
+/**
+ * Signs in a registered account, or a seeded one with MEMORY_AUTH_PASSWORD
+ *
+ * @throws {AuthError} 'auth/invalid-credential' when the email or password is wrong
+ */
+export const signInWithEmailAndPassword = async (auth: unknown, email: string, password: string): Promise<UserCredential> => {
+  const memoryAuth = resolveAuth(auth);
+  const normalized = email.trim().toLowerCase();
+
+  const registered = memoryAuth.registered.get(normalized);
+  let user: User | null = null;
+  if (registered) {
+    user = registered.password === password ? registered.user : null;
+  } else if (password === MEMORY_AUTH_PASSWORD) {
+    const profile = await findProfile('email', normalized);
+    user = profile ? profileToUser(profile) : null;
+  }
+
+  if (!user) {
+    throw new AuthError('auth/invalid-credential');
+  }
+  setCurrentUser(memoryAuth, user);
+  return { user, providerId: null, operationType: 'signIn' };
+};
+
+/**
+ * Registers an account and signs it in; the caller creates its profile
+ *
+ * @throws {AuthError} 'auth/invalid-email', 'auth/weak-password' or 'auth/email-already-in-use'
+ */
+export const createUserWithEmailAndPassword = async (auth: unknown, email: string, password: string): Promise<UserCredential> => {
+  const memoryAuth = resolveAuth(auth);
+  const normalized = email.trim().toLowerCase();
+
+  if (!EMAIL_PATTERN.test(normalized)) {
+    throw new AuthError('auth/invalid-email');
+  }
+  if (password.length < 6) {
+    throw new AuthError('auth/weak-password');
+  }
+  if (memoryAuth.registered.has(normalized) || await findProfile('email', normalized)) {
+    throw new AuthError('auth/email-already-in-use');
+  }
+
+  const user = toUser(`memory-user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, normalized, null);
+  memoryAuth.registered.set(normalized, { user, password });
+  setCurrentUser(memoryAuth, user);
+  return { user, providerId: null, operationType: 'signIn' };
+};
+
+export const signOut = async (auth: unknown): Promise<void> => {
+  setCurrentUser(resolveAuth(auth), null);
+};
+
+/**
+ * Deletes a registered account (seeded accounts stay while their profile exists)
+ * and signs it out
+ */
+export const deleteUser = async (user: User): Promise<void> => {
+  if (user.email) {
+    defaultAuth.registered.delete(user.email.toLowerCase());
+  }
+  if (defaultAuth.currentUser?.uid === user.uid) {
+    setCurrentUser(defaultAuth, null);
+  }
+};
+
+// Test helpers ---------------------------------------------------------------
+
+/**
+ * Signs out and forgets every registered account and the kept session
+ */
+export const resetMemoryAuth = (): void => {
+  defaultAuth.currentUser = null;
+  defaultAuth.listeners.clear();
+  defaultAuth.registered.clear();
+  defaultAuth.restoring = null;
+  writeSession(null);
+};
@@ -0,0 +1,773 @@
+/**
+ * In-Memory Firestore
+ *
+ * A drop-in stand-in for the parts of `firebase/firestore` the API modules
+ * use: document and collection references, get/set/update/delete, queries
+ * with where/orderBy/limit/startAfter, transactions and batched writes. Data
+ * lives in a plain Map, so the app and its tests can run without Firebase or
+ * a network connection.
+ *
+ * It follows Firestore's semantics where the API modules depend on them:
+ * Dates are stored as Timestamps, `undefined` field values are rejected,
+ * deleteField() removes fields in updates and merges, updates to missing documents fail with `not-found`, queries drop documents
+ * missing an orderBy field, transactions must read before they write and are
+ * retried when a document they read changes before commit, and transactions
+ * and batches apply all of their writes or none.
+ *
+ * Point code at it with the Vite alias (VITE_DATA_BACKEND=memory) or, in
+ * tests, with `jest.mock('firebase/firestore', () => jest.requireActual('../memoryFirestore'))`.
+ * The `db` each function receives is ignored unless it is a MemoryFirestore,
+ * so the usual `{ db: {} }` mock of config/firebase keeps working.
+ *
+ * @fileoverview Firestore-compatible in-memory data backend
+ * @version 1.0.0
+ */
+
+export type DocumentData = Record<string, unknown>;
+
+export type WhereFilterOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not-in' | 'array-contains' | 'array-contains-any';
+
+export type OrderByDirection = 'asc' | 'desc';
+
+export interface SetOptions {
+  merge?: boolean;
+}
+
+export interface TransactionOptions {
+  maxAttempts?: number;
+}
+
+/**
+ * Error with a Firestore error code ('not-found', 'invalid-argument', 'aborted', ...)
+ */
+export class FirestoreError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'FirebaseError';
+    this.code = code;
+  }
+}
+
+/**
+ * Point in time with Firestore's Timestamp API
+ */
+export class Timestamp {
+  readonly seconds: number;
+  readonly nanoseconds: number;
+
+  constructor(seconds: number, nanoseconds: number) {
+    this.seconds = seconds;
+    this.nanoseconds = nanoseconds;
+  }
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds: number): Timestamp {
+    const seconds = Math.floor(milliseconds / 1000);
+    return new Timestamp(seconds, Math.round((milliseconds - seconds * 1000) * 1e6));
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + this.nanoseconds / 1e6;
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return other instanceof Timestamp && other.seconds === this.seconds && other.nanoseconds === this.nanoseconds;
+  }
+
+  valueOf(): string {
+    return this.toDate().toISOString();
+  }
+}
+
+interface StoredDocument {
+  data: DocumentData;
+  version: number;                    // Bumped on every write; transactions use it to detect conflicts
+}
+
+/**
+ * An in-memory database; every instance is independent
+ */
+export class MemoryFirestore {
+  readonly type = 'firestore';
+  readonly documents = new Map<string, StoredDocument>();
+  private clock = 0;
+
+  nextVersion(): number {
+    this.clock += 1;
+    return this.clock;
+  }
+}
+
+const defaultFirestore = new MemoryFirestore();
+
+const resolveFirestore = (firestore: unknown): MemoryFirestore =>
+  firestore instanceof MemoryFirestore ? firestore : defaultFirestore;
+
+/**
+ * Returns the shared in-memory database (the app argument is ignored)
+ */
+export const getFirestore = (app?: unknown): MemoryFirestore => {
+  void app;
+  return defaultFirestore;
+};
+
+export class CollectionReference {
+  readonly type = 'collection';
+  readonly firestore: MemoryFirestore;
+  readonly path: string;
+
+  constructor(firestore: MemoryFirestore, path: string) {
+    this.firestore = firestore;
+    this.path = path;
+  }
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+}
+
+export class DocumentReference {
+  readonly type = 'document';
+  readonly firestore: MemoryFirestore;
+  readonly path: string;
+
+  constructor(firestore: MemoryFirestore, path: string) {
+    this.firestore = firestore;
+    this.path = path;
+  }
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  get parent(): CollectionReference {
+    return new CollectionReference(this.firestore, this.path.split('/').slice(0, -1).join('/'));
+  }
+}
+
+type QueryConstraintType = 'where' | 'orderBy' | 'limit' | 'startAfter';
+
+export interface QueryConstraint {
+  readonly type: QueryConstraintType;
+}
+
+interface WhereConstraint extends QueryConstraint {
+  type: 'where';
+  field: string;
+  op: WhereFilterOp;
+  value: unknown;
+}
+
+interface OrderByConstraint extends QueryConstraint {
+  type: 'orderBy';
+  field: string;
+  direction: OrderByDirection;
+}
+
+interface LimitConstraint extends QueryConstraint {
+  type: 'limit';
+  limit: number;
+}
+
+interface StartAfterConstraint extends QueryConstraint {
+  type: 'startAfter';
+  values: unknown[];
+}
+
+export class Query {
+  readonly type = 'query';
+  readonly firestore: MemoryFirestore;
+  readonly path: string;              // Path of the queried collection
+  readonly constraints: QueryConstraint[];
+
+  constructor(firestore: MemoryFirestore, path: string, constraints: QueryConstraint[]) {
+    this.firestore = firestore;
+    this.path = path;
+    this.constraints = constraints;
+  }
+}
+
+export class DocumentSnapshot {
+  readonly id: string;
+  readonly ref: DocumentReference;
+  protected readonly stored: DocumentData | undefined;
+
+  constructor(ref: DocumentReference, stored: DocumentData | undefined) {
+    this.id = ref.id;
+    this.ref = ref;
+    this.stored = stored;
+  }
+
+  exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored === undefined ? undefined : clone(this.stored);
+  }
+
+  get(field: string): unknown {
+    return this.stored === undefined ? undefined : clone(getField(this.stored, field));
+  }
+}
+
+export class QueryDocumentSnapshot extends DocumentSnapshot {
+  data(): DocumentData {
+    return clone(this.stored as DocumentData);
+  }
+}
+
+export class QuerySnapshot {
+  readonly docs: QueryDocumentSnapshot[];
+
+  constructor(docs: QueryDocumentSnapshot[]) {
+    this.docs = docs;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (result: QueryDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+// Path helpers ---------------------------------------------------------------
+
+const joinPath = (path: string, segments: string[]): string => {
+  const parts = [path, ...segments].join('/').split('/').filter(Boolean);
+  return parts.join('/');
+};
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const autoId = (): string => {
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += AUTO_ID_CHARS.charAt(Math.floor(Math.random() * AUTO_ID_CHARS.length));
+  }
+  return id;
+};
+
+/**
+ * Reference to a collection, e.g. collection(db, 'products') or collection(db, 'products', id, 'reviews')
+ */
+export const collection = (
+  parent: unknown,
+  path: string,
+  ...pathSegments: string[]
+): CollectionReference => {
+  const base = parent instanceof DocumentReference ? parent.path : '';
+  const fullPath = joinPath(base, [path, ...pathSegments]);
+  if (fullPath.split('/').length % 2 !== 1) {
+    throw new FirestoreError('invalid-argument', `Invalid collection reference. Collection references must have an odd number of segments, but ${fullPath} has ${fullPath.split('/').length}.`);
+  }
+  return new CollectionReference(parent instanceof DocumentReference ? parent.firestore : resolveFirestore(parent), fullPath);
+};
+
+/**
+ * Reference to a document, e.g. doc(db, 'products', id), doc(collectionRef, id)
+ * or doc(collectionRef) for a new auto-generated ID
+ */
+export const doc = (
+  parent: unknown,
+  path?: string,
+  ...pathSegments: string[]
+): DocumentReference => {
+  let firestore: MemoryFirestore;
+  let fullPath: string;
+
+  if (parent instanceof CollectionReference) {
+    firestore = parent.firestore;
+    fullPath = joinPath(parent.path, [path ?? autoId(), ...pathSegments]);
+  } else {
+    firestore = resolveFirestore(parent);
+    fullPath = joinPath('', [path ?? '', ...pathSegments]);
+  }
+
+  if (!fullPath || fullPath.split('/').length % 2 !== 0) {
+    throw new FirestoreError('invalid-argument', `Invalid document reference. Document references must have an even number of segments, but ${fullPath} has ${fullPath.split('/').length}.`);
+  }
+  return new DocumentReference(firestore, fullPath);
+};
+
+// Values ---------------------------------------------------------------------
+
+/**
+ * Sentinel written in place of a value; only deleteField() is supported
+ */
+export class FieldValue {
+  static readonly DELETE = new FieldValue();
+
+  private constructor() {}
+}
+
+export const deleteField = (): FieldValue => FieldValue.DELETE;
+
+const isPlainObject = (value: unknown): value is DocumentData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  !(value instanceof Timestamp) && !(value instanceof Date) && !(value instanceof DocumentReference) &&
+  !(value instanceof FieldValue);
+
+const containsFieldValue = (value: unknown): boolean =>
+  value instanceof FieldValue || (isPlainObject(value) && Object.values(value).some(containsFieldValue));
+
+/**
+ * Copies a value for storage the way Firestore would: Dates become
+ * Timestamps, and undefined values are rejected
+ */
+const encode = (value: unknown, operation: string, field: string): unknown => {
+  if (value === undefined) {
+    throw new FirestoreError('invalid-argument', `Function ${operation}() called with invalid data. Unsupported field value: undefined (found in field ${field})`);
+  }
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => encode(item, operation, `${field}.${index}`));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encode(item, operation, field ? `${field}.${key}` : key)])
+    );
+  }
+  return value;
+};
+
+const encodeDocument = (data: DocumentData, operation: string): DocumentData =>
+  encode(data, operation, '') as DocumentData;
+
+// Stored values are never handed out directly, so callers can't mutate them
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+};
+
+const getField = (data: DocumentData, field: string): unknown =>
+  field.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+
+const setField = (data: DocumentData, field: string, value: unknown): void => {
+  const keys = field.split('.');
+  const last = keys.pop() as string;
+  let target = data;
+  keys.forEach(key => {
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    target = target[key] as DocumentData;
+  });
+  target[last] = value;
+};
+
+const deleteFieldAt = (data: DocumentData, field: string): void => {
+  const keys = field.split('.');
+  const last = keys.pop() as string;
+  const parent = keys.length ? getField(data, keys.join('.')) : data;
+  if (isPlainObject(parent)) {
+    delete parent[last];
+  }
+};
+
+const deepMerge = (target: DocumentData, source: DocumentData): DocumentData => {
+  const merged = { ...target };
+  Object.entries(source).forEach(([key, value]) => {
+    if (value instanceof FieldValue) {
+      delete merged[key];
+      return;
+    }
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? deepMerge(merged[key] as DocumentData, value)
+      : value;
+  });
+  return merged;
+};
+
+// Firestore orders values of different types by type first
+const typeOrder = (value: unknown): number => {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === 'string') return 4;
+  if (value instanceof DocumentReference) return 5;
+  if (Array.isArray(value)) return 6;
+  return 7;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const typeDifference = typeOrder(a) - typeOrder(b);
+  if (typeDifference !== 0) {
+    return typeDifference;
+  }
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return a.toMillis() - b.toMillis();
+  }
+  if (a instanceof DocumentReference && b instanceof DocumentReference) {
+    return compareValues(a.path, b.path);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const difference = compareValues(a[i], b[i]);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return a.length - b.length;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return compareValues(JSON.stringify(Object.entries(a).sort()), JSON.stringify(Object.entries(b).sort()));
+  }
+  if (typeof a === 'number' || typeof a === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return a === b ? 0 : (a as string) < (b as string) ? -1 : 1;
+};
+
+const normalizeQueryValue = (value: unknown): unknown =>
+  value instanceof Date ? Timestamp.fromDate(value) : value;
+
+// Queries --------------------------------------------------------------------
+
+export const where = (field: string, op: WhereFilterOp, value: unknown): QueryConstraint =>
+  ({ type: 'where', field, op, value: normalizeQueryValue(value) } as WhereConstraint);
+
+export const orderBy = (field: string, direction: OrderByDirection = 'asc'): QueryConstraint =>
+  ({ type: 'orderBy', field, direction } as OrderByConstraint);
+
+export const limit = (count: number): QueryConstraint =>
+  ({ type: 'limit', limit: count } as LimitConstraint);
+
+/**
+ * Starts after a document snapshot, or after the given orderBy field values
+ */
+export const startAfter = (...fieldValues: unknown[]): QueryConstraint =>
+  ({ type: 'startAfter', values: fieldValues } as StartAfterConstraint);
+
+export const query = (
+  source: CollectionReference | Query,
+  ...constraints: QueryConstraint[]
+): Query => {
+  const existing = source instanceof Query ? source.constraints : [];
+  return new Query(source.firestore, source.path, [...existing, ...constraints]);
+};
+
+const matchesFilter = (data: DocumentData, { field, op, value }: WhereConstraint): boolean => {
+  const actual = getField(data, field);
+  if (actual === undefined) {
+    return false;
+  }
+
+  const sameType = typeOrder(actual) === typeOrder(value);
+  switch (op) {
+    case '==':
+      return compareValues(actual, value) === 0;
+    case '!=':
+      return actual !== null && compareValues(actual, value) !== 0;
+    case '<':
+      return sameType && compareValues(actual, value) < 0;
+    case '<=':
+      return sameType && compareValues(actual, value) <= 0;
+    case '>':
+      return sameType && compareValues(actual, value) > 0;
+    case '>=':
+      return sameType && compareValues(actual, value) >= 0;
+    case 'in':
+      return (value as unknown[]).some(candidate => compareValues(actual, normalizeQueryValue(candidate)) === 0);
+    case 'not-in':
+      return actual !== null && !(value as unknown[]).some(candidate => compareValues(actual, normalizeQueryValue(candidate)) === 0);
+    case 'array-contains':
+      return Array.isArray(actual) && actual.some(item => compareValues(item, value) === 0);
+    case 'array-contains-any':
+      return Array.isArray(actual) && actual.some(item =>
+        (value as unknown[]).some(candidate => compareValues(item, normalizeQueryValue(candidate)) === 0)
+      );
+    default:
+      throw new FirestoreError('invalid-argument', `Unsupported where() operator: ${op as string}`);
+  }
+};
+
+const runQuery = (target: CollectionReference | Query): QueryDocumentSnapshot[] => {
+  const { firestore, path } = target;
+  const constraints = target instanceof Query ? target.constraints : [];
+  const filters = constraints.filter((constraint): constraint is WhereConstraint => constraint.type === 'where');
+  const orderings = constraints.filter((constraint): constraint is OrderByConstraint => constraint.type === 'orderBy');
+  const cursor = constraints.filter((constraint): constraint is StartAfterConstraint => constraint.type === 'startAfter').pop();
+  const limits = constraints.filter((constraint): constraint is LimitConstraint => constraint.type === 'limit');
+  const depth = path.split('/').length + 1;
+
+  let rows = [...firestore.documents.entries()]
+    .filter(([docPath]) => docPath.startsWith(`${path}/`) && docPath.split('/').length === depth)
+    .map(([docPath, stored]) => ({ ref: new DocumentReference(firestore, docPath), data: stored.data }))
+    .filter(({ data }) => filters.every(filter => matchesFilter(data, filter)))
+    // Like Firestore, ordering by a field excludes documents without it
+    .filter(({ data }) => orderings.every(({ field }) => getField(data, field) !== undefined));
+
+  // Ties are broken by document ID, in the direction of the last ordering
+  const idDirection = orderings.length > 0 ? orderings[orderings.length - 1].direction : 'asc';
+  const sortValues = (data: DocumentData, id: string): unknown[] => [...orderings.map(({ field }) => getField(data, field)), id];
+  const compareRows = (a: unknown[], b: unknown[]): number => {
+    for (let i = 0; i < a.length; i++) {
+      const direction = i < orderings.length ? orderings[i].direction : idDirection;
+      const difference = compareValues(a[i], b[i]);
+      if (difference !== 0) {
+        return direction === 'desc' ? -difference : difference;
+      }
+    }
+    return 0;
+  };
+
+  rows.sort((a, b) => compareRows(sortValues(a.data, a.ref.id), sortValues(b.data, b.ref.id)));
+
+  if (cursor) {
+    const [first] = cursor.values;
+    const position = first instanceof DocumentSnapshot
+      ? sortValues(first.data() ?? {}, first.id)
+      : cursor.values.map(normalizeQueryValue);
+    rows = rows.filter(({ ref, data }) => compareRows(sortValues(data, ref.id).slice(0, position.length), position) > 0);
+  }
+
+  if (limits.length > 0) {
+    rows = rows.slice(0, limits[limits.length - 1].limit);
+  }
+
+  return rows.map(({ ref, data }) => new QueryDocumentSnapshot(ref, data));
+};
+
+// Reads and writes -----------------------------------------------------------
+
+export const getDoc = async (reference: DocumentReference): Promise<DocumentSnapshot> =>
+  new DocumentSnapshot(reference, reference.firestore.documents.get(reference.path)?.data);
+
+export const getDocs = async (target: CollectionReference | Query): Promise<QuerySnapshot> =>
+  new QuerySnapshot(runQuery(target));
+
+type Write =
+  | { type: 'set'; ref: DocumentReference; data: DocumentData; merge: boolean }
+  | { type: 'update'; ref: DocumentReference; data: DocumentData }
+  | { type: 'delete'; ref: DocumentReference };
+
+const prepareSet = (ref: DocumentReference, data: DocumentData, options: SetOptions = {}, operation = 'setDoc'): Write => {
+  if (!options.merge && containsFieldValue(data)) {
+    throw new FirestoreError('invalid-argument', `Function ${operation}() called with invalid data. deleteField() can only be used with update() and set() with {merge:true}`);
+  }
+  return { type: 'set', ref, data: encodeDocument(data, operation), merge: Boolean(options.merge) };
+};
+
+const prepareUpdate = (ref: DocumentReference, data: DocumentData, operation = 'updateDoc'): Write =>
+  ({ type: 'update', ref, data: encodeDocument(data, operation) });
+
+/**
+ * Applies writes all-or-nothing: every write is worked out against a staged
+ * copy first, so an update to a missing document leaves nothing changed
+ */
+const commitWrites = (firestore: MemoryFirestore, writes: Write[]): void => {
+  const staged = new Map<string, DocumentData | undefined>();
+  const current = (path: string): DocumentData | undefined =>
+    staged.has(path) ? staged.get(path) : firestore.documents.get(path)?.data;
+
+  writes.forEach(write => {
+    const { path } = write.ref;
+    const existing = current(path);
+
+    if (write.type === 'delete') {
+      staged.set(path, undefined);
+    } else if (write.type === 'set') {
+      staged.set(path, write.merge ? deepMerge(existing ?? {}, write.data) : clone(write.data));
+    } else {
+      if (!existing) {
+        throw new FirestoreError('not-found', `No document to update: ${path}`);
+      }
+      const updated = clone(existing);
+      Object.entries(write.data).forEach(([field, value]) => {
+        if (value instanceof FieldValue) {
+          deleteFieldAt(updated, field);
+        } else {
+          setField(updated, field, clone(value));
+        }
+      });
+      staged.set(path, updated);
+    }
+  });
+
+  staged.forEach((data, path) => {
+    if (data === undefined) {
+      firestore.documents.delete(path);
+    } else {
+      firestore.documents.set(path, { data, version: firestore.nextVersion() });
+    }
+  });
+};
+
+export const setDoc = async (reference: DocumentReference, data: DocumentData, options?: SetOptions): Promise<void> => {
+  commitWrites(reference.firestore, [prepareSet(reference, data, options)]);
+};
+
+/**
+ * Updates fields of an existing document; dotted keys ('rating.rate') update nested fields
+ */
+export const updateDoc = async (reference: DocumentReference, data: DocumentData): Promise<void> => {
+  commitWrites(reference.firestore, [prepareUpdate(reference, data)]);
+};
+
+export const deleteDoc = async (reference: DocumentReference): Promise<void> => {
+  commitWrites(reference.firestore, [{ type: 'delete', ref: reference }]);
+};
+
+export const addDoc = async (reference: CollectionReference, data: DocumentData): Promise<DocumentReference> => {
+  const docRef = doc(reference);
+  commitWrites(reference.firestore, [prepareSet(docRef, data, {}, 'addDoc')]);
+  return docRef;
+};
+
+// Transactions and batches ---------------------------------------------------
+
+export class Transaction {
+  private readonly firestore: MemoryFirestore;
+  private readonly reads = new Map<string, number | null>();
+  private readonly writes: Write[] = [];
+
+  constructor(firestore: MemoryFirestore) {
+    this.firestore = firestore;
+  }
+
+  async get(reference: DocumentReference): Promise<DocumentSnapshot> {
+    if (this.writes.length > 0) {
+      throw new FirestoreError('invalid-argument', 'Firestore transactions require all reads to be executed before all writes.');
+    }
+    const stored = this.firestore.documents.get(reference.path);
+    this.reads.set(reference.path, stored ? stored.version : null);
+    return new DocumentSnapshot(reference, stored?.data);
+  }
+
+  set(reference: DocumentReference, data: DocumentData, options?: SetOptions): this {
+    this.writes.push(prepareSet(reference, data, options, 'Transaction.set'));
+    return this;
+  }
+
+  update(reference: DocumentReference, data: DocumentData): this {
+    this.writes.push(prepareUpdate(reference, data, 'Transaction.update'));
+    return this;
+  }
+
+  delete(reference: DocumentReference): this {
+    this.writes.push({ type: 'delete', ref: reference });
+    return this;
+  }
+
+  /**
+   * Whether every document read is unchanged since it was read
+   */
+  isCurrent(): boolean {
+    return [...this.reads.entries()].every(([path, version]) =>
+      (this.firestore.documents.get(path)?.version ?? null) === version
+    );
+  }
+
+  commit(): void {
+    commitWrites(this.firestore, this.writes);
+  }
+}
+
+/**
+ * Runs updateFunction and commits its writes, retrying from scratch when a
+ * document it read was changed by someone else in the meantime
+ */
+export const runTransaction = async <T>(
+  firestore: unknown,
+  updateFunction: (transaction: Transaction) => Promise<T>,
+  { maxAttempts = 5 }: TransactionOptions = {}
+): Promise<T> => {
+  const database = resolveFirestore(firestore);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const transaction = new Transaction(database);
+    const result = await updateFunction(transaction);
+    if (transaction.isCurrent()) {
+      transaction.commit();
+      return result;
+    }
+  }
+
+  throw new FirestoreError('aborted', `Transaction failed after ${maxAttempts} attempts because its documents kept changing.`);
+};
+
+// Firestore's per-request write limit
+const MAX_BATCH_WRITES = 500;
+
+export class WriteBatch {
+  private readonly firestore: MemoryFirestore;
+  private readonly writes: Write[] = [];
+  private committed = false;
+
+  constructor(firestore: MemoryFirestore) {
+    this.firestore = firestore;
+  }
+
+  set(reference: DocumentReference, data: DocumentData, options?: SetOptions): this {
+    this.writes.push(prepareSet(reference, data, options, 'WriteBatch.set'));
+    return this;
+  }
+
+  update(reference: DocumentReference, data: DocumentData): this {
+    this.writes.push(prepareUpdate(reference, data, 'WriteBatch.update'));
+    return this;
+  }
+
+  delete(reference: DocumentReference): this {
+    this.writes.push({ type: 'delete', ref: reference });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new FirestoreError('failed-precondition', 'A write batch can no longer be used after commit() has been called.');
+    }
+    if (this.writes.length > MAX_BATCH_WRITES) {
+      throw new FirestoreError('invalid-argument', `Maximum ${MAX_BATCH_WRITES} writes allowed per request`);
+    }
+    this.committed = true;
+    commitWrites(this.firestore, this.writes);
+  }
+}
+
+export const writeBatch = (firestore: unknown): WriteBatch => new WriteBatch(resolveFirestore(firestore));
+
+// Test and demo helpers ------------------------------------------------------
+
+/**
+ * Empties the shared database, then writes `documents` (keyed by document path,
+ * e.g. 'products/p1') as if each had been passed to setDoc
+ */
+export const resetMemoryFirestore = (documents: Record<string, DocumentData> = {}): void => {
+  defaultFirestore.documents.clear();
+  commitWrites(defaultFirestore, Object.entries(documents).map(([path, data]) => prepareSet(doc(defaultFirestore, path), data)));
+};
+
+/**
+ * Copies every document in the shared database, keyed by document path
+ */
+export const exportMemoryFirestore = (): Record<string, DocumentData> =>
+  Object.fromEntries([...defaultFirestore.documents.entries()].map(([path, stored]) => [path, clone(stored.data)]));
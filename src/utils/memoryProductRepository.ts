@@ -0,0 +1,84 @@
+/**
+ * In-Memory Product Repository
+ *
+ * Serves a fixed product list with the same filtering, ordering and paging
+ * rules as the Firestore repository. Used for local development and tests,
+ * and by the REST repository once it has fetched the remote catalog.
+ *
+ * @fileoverview ProductRepository over an array of products
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+import {
+  DEFAULT_PRODUCT_PAGE_SIZE,
+  PRODUCT_SORT_MODES,
+  ProductPage,
+  ProductPageOptions,
+  ProductQuery,
+  ProductRepository,
+  ProductSortKey,
+  ProductSource
+} from './productRepository';
+
+/**
+ * Sorts products in memory by a (possibly dotted) field; missing values sort as 0
+ */
+export const sortProducts = (products: Product[], field: ProductSortKey, direction: 'asc' | 'desc'): Product[] => {
+  const valueOf = (product: Product) =>
+    field.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], product) as
+      string | number | Date | undefined;
+  const multiplier = direction === 'asc' ? 1 : -1;
+  return [...products].sort((a, b) => {
+    const left = valueOf(a) ?? 0;
+    const right = valueOf(b) ?? 0;
+    return (left < right ? -1 : left > right ? 1 : 0) * multiplier;
+  });
+};
+
+const matches = (product: Product, activeOnly: boolean, category?: string): boolean =>
+  (!activeOnly || product.active !== false) && (!category || product.category === category);
+
+/**
+ * Creates a repository over the given products
+ *
+ * @param products - Catalog to serve; read on every call, so later pushes are seen
+ * @param source - Source to report (the REST repository reports itself as 'rest')
+ */
+export const createMemoryProductRepository = (
+  products: Product[],
+  source: ProductSource = 'memory'
+): ProductRepository => ({
+  source,
+
+  getProduct: async (productId) =>
+    products.find(product => String(product.id) === productId) ?? null,
+
+  getProducts: async ({ activeOnly = true, category, sortMode }: ProductQuery = {}) => {
+    const filtered = products.filter(product => matches(product, activeOnly, category));
+    return sortMode
+      ? sortProducts(filtered, PRODUCT_SORT_MODES[sortMode].field, PRODUCT_SORT_MODES[sortMode].direction)
+      : filtered;
+  },
+
+  getProductsPage: async ({
+    pageSize = DEFAULT_PRODUCT_PAGE_SIZE,
+    cursor = null,
+    sortBy = 'title',
+    sortDirection = 'asc',
+    category,
+    activeOnly = true
+  }: ProductPageOptions = {}): Promise<ProductPage> => {
+    const sorted = sortProducts(products.filter(product => matches(product, activeOnly, category)), sortBy, sortDirection);
+    // Offsets are this source's cursors; anything else starts from the top
+    const start = typeof cursor === 'number' ? cursor : 0;
+    const end = start + pageSize;
+    return {
+      products: sorted.slice(start, end),
+      nextCursor: end < sorted.length ? end : null
+    };
+  },
+
+  getCategories: async () =>
+    [...new Set(products.filter(product => product.active !== false).map(product => product.category))].sort()
+});
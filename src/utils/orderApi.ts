@@ -11,17 +11,58 @@
  */
 
 import { 
+    addDoc,
     collection, 
     doc, 
-    setDoc, 
     getDoc, 
     getDocs, 
-    updateDoc, 
     query, 
     where, 
-    orderBy 
+    orderBy,
+    limit,
+    startAfter,
+    runTransaction,
+    DocumentData,
+    DocumentReference,
+    QueryConstraint,
+    QueryDocumentSnapshot,
+    QuerySnapshot,
+    Transaction
 } from 'firebase/firestore';
-import { db } from '../config/firebase';
+import { db, auth } from '../config/firebase';
+import { getLineKey, getVariantLabel } from './productVariants';
+import { createOrderSchema, orderNoteSchema, orderSchema } from './schemas';
+import { assertValid } from './validation';
+import { requireRole } from './roles';
+import { getUserByEmail } from './userApi';
+import type { ProductVariant, TaxClass } from '../types/product';
+
+/**
+ * The product as it was when the order was placed, so the order still reads
+ * correctly after the product is edited, archived or purged
+ * 
+ * @interface OrderItemSnapshot
+ * @property {string} title - Product title
+ * @property {string} [image] - Image shown for the line (the variant's, else the product's)
+ * @property {string} [sku] - SKU of the variant, else of the product
+ * @property {string} [category] - Product category
+ * @property {string} [brand] - Product brand
+ * @property {string} [variantId] - Variant bought, for products sold in sizes/colours
+ * @property {string} [variantLabel] - Display name of the variant, e.g. "M / Red"
+ * @property {number} unitPrice - Price charged per unit
+ * @property {TaxClass} taxClass - Tax rate group the line was sold under
+ */
+export interface OrderItemSnapshot {
+    title: string;
+    image?: string;
+    sku?: string;
+    category?: string;
+    brand?: string;
+    variantId?: string;
+    variantLabel?: string;
+    unitPrice: number;
+    taxClass: TaxClass;
+}
 
 /**
  * Represents an individual item within an order
@@ -31,12 +72,18 @@ import { db } from '../config/firebase';
  * @property {string} name - Display name of the product
  * @property {number} price - Unit price of the product
  * @property {number} quantity - Number of units ordered
+ * @property {string} [variantId] - Variant ordered, for products sold in sizes/colours
+ * @property {string} [variantLabel] - Display name of the variant, e.g. "M / Red"
+ * @property {OrderItemSnapshot} [snapshot] - Product details captured by createOrder (absent on older orders)
  */
 export interface OrderItem {
     productId: string;
     name: string;
     price: number;
     quantity: number;
+    variantId?: string;
+    variantLabel?: string;
+    snapshot?: OrderItemSnapshot;
 }
 
 /**
@@ -50,6 +97,11 @@ export interface OrderItem {
  * @property {'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled'} status - Current order status
  * @property {Date} createdAt - Timestamp when the order was created
  * @property {string} shippingAddress - Delivery address for the order
+ * @property {OrderStatusChange[]} [statusHistory] - Every status change, oldest first (absent on older orders)
+ * @property {string} [cancellationReason] - Reason given when the customer cancelled the order
+ * @property {Date} [cancelledAt] - When the customer cancelled the order
+ * @property {number} [refundedTotal] - Sum of all completed refunds on the order
+ * @property {Record<string, number>} [returnedQuantities] - Units per line (productId, or product/variant line key) claimed by approved returns
  */
 export interface Order {
     orderId: string;
@@ -59,8 +111,54 @@ export interface Order {
     status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
     createdAt: Date;
     shippingAddress: string;
+    statusHistory?: OrderStatusChange[];
+    cancellationReason?: string;
+    cancelledAt?: Date;
+    refundedTotal?: number;
+    returnedQuantities?: Record<string, number>;
+}
+
+/**
+ * A single entry in an order's status history
+ * 
+ * @interface OrderStatusChange
+ * @property {Order['status']} from - Status before the change
+ * @property {Order['status']} to - Status after the change
+ * @property {Date} at - When the change happened
+ * @property {string | null} actorUid - User who made the change, or null for system changes
+ * @property {string | null} note - Optional free-text explanation
+ */
+export interface OrderStatusChange {
+    from: Order['status'];
+    to: Order['status'];
+    at: Date;
+    actorUid: string | null;
+    note: string | null;
 }
 
+/**
+ * Allowed status transitions. Orders move pending → confirmed → shipped → delivered
+ * and can only be cancelled before they ship. Delivered and cancelled are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<Order['status'], Order['status'][]> = {
+    pending: ['confirmed', 'cancelled'],
+    confirmed: ['shipped', 'cancelled'],
+    shipped: ['delivered'],
+    delivered: [],
+    cancelled: []
+};
+
+/**
+ * Checks whether an order may move from one status to another
+ * 
+ * @param {Order['status']} from - Current status
+ * @param {Order['status']} to - Requested status
+ * @returns {boolean} True if the transition is in ORDER_STATUS_TRANSITIONS
+ */
+export const canTransitionOrderStatus = (from: Order['status'], to: Order['status']): boolean => {
+    return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
 /**
  * Input data required to create a new order
  * 
@@ -75,6 +173,296 @@ export interface CreateOrderData {
     shippingAddress: string;
 }
 
+/**
+ * Describes a single product that could not cover the requested quantity
+ * 
+ * @interface StockShortage
+ * @property {string} productId - Product that is short on stock
+ * @property {string} [variantId] - Variant that is short, when the line is for a variant
+ * @property {number} requested - Total quantity requested across the order
+ * @property {number} available - Quantity currently in stock (0 if the product or variant no longer exists)
+ * @property {boolean} [unavailable] - Set when the product is gone, archived or deactivated, so it can't be bought at all
+ */
+export interface StockShortage {
+    productId: string;
+    variantId?: string;
+    requested: number;
+    available: number;
+    unavailable?: boolean;
+}
+
+/**
+ * Thrown by createOrder when one or more products lack the stock to fill the order.
+ * The whole order is rejected; nothing is written and no stock is reserved.
+ * 
+ * @class InsufficientStockError
+ * @property {string[]} productIds - IDs of every product that is short
+ * @property {StockShortage[]} shortages - Requested vs. available quantity per product
+ */
+export class InsufficientStockError extends Error {
+    readonly productIds: string[];
+    readonly shortages: StockShortage[];
+
+    constructor(shortages: StockShortage[]) {
+        super(`Insufficient stock for product(s): ${shortages.map(s => s.productId).join(', ')}`);
+        this.name = 'InsufficientStockError';
+        this.shortages = shortages;
+        this.productIds = shortages.map(s => s.productId);
+    }
+}
+
+/**
+ * Describes a line whose cart price no longer matches the catalog
+ * 
+ * @interface PriceChange
+ * @property {string} productId - Product whose price changed
+ * @property {string} [variantId] - Variant whose price changed, when the line is for a variant
+ * @property {string} name - Display name of the product
+ * @property {number} cartPrice - Unit price the customer saw in their cart
+ * @property {number} currentPrice - Unit price currently stored on the product
+ */
+export interface PriceChange {
+    productId: string;
+    variantId?: string;
+    name: string;
+    cartPrice: number;
+    currentPrice: number;
+}
+
+/**
+ * Thrown by createOrder when a cart price differs from the product's current price.
+ * Nothing is written; resubmitting with the current prices confirms them.
+ * 
+ * @class PriceChangedError
+ * @property {PriceChange[]} changes - Cart vs. current unit price per product
+ */
+export class PriceChangedError extends Error {
+    readonly changes: PriceChange[];
+
+    constructor(changes: PriceChange[]) {
+        super(`Prices changed for product(s): ${changes.map(c => c.productId).join(', ')}`);
+        this.name = 'PriceChangedError';
+        this.changes = changes;
+    }
+}
+
+/**
+ * Thrown by updateOrderStatus when the requested change isn't in ORDER_STATUS_TRANSITIONS
+ * 
+ * @class InvalidStatusTransitionError
+ * @property {string} orderId - Order that was being updated
+ * @property {Order['status']} from - Status the order is currently in
+ * @property {Order['status']} to - Status that was requested
+ */
+export class InvalidStatusTransitionError extends Error {
+    readonly orderId: string;
+    readonly from: Order['status'];
+    readonly to: Order['status'];
+
+    constructor(orderId: string, from: Order['status'], to: Order['status']) {
+        super(`Order ${orderId} cannot move from '${from}' to '${to}'`);
+        this.name = 'InvalidStatusTransitionError';
+        this.orderId = orderId;
+        this.from = from;
+        this.to = to;
+    }
+}
+
+/**
+ * Thrown when the signed-in user isn't allowed to act on an order
+ * (not signed in, or the order belongs to someone else)
+ * 
+ * @class OrderAccessDeniedError
+ * @property {string} orderId - Order the user tried to act on
+ */
+export class OrderAccessDeniedError extends Error {
+    readonly orderId: string;
+
+    constructor(orderId: string) {
+        super(`You don't have permission to change order ${orderId}`);
+        this.name = 'OrderAccessDeniedError';
+        this.orderId = orderId;
+    }
+}
+
+/**
+ * Converts a Firestore Timestamp (or anything with toDate) to a Date, passing Dates through
+ */
+const toDate = (value: unknown): Date => {
+    const timestamp = value as { toDate?: () => Date } | undefined;
+    return (timestamp?.toDate ? timestamp.toDate() : value) as Date;
+};
+
+/**
+ * Builds an Order from a Firestore document, converting timestamp fields to Dates
+ */
+const toOrder = (data: Record<string, unknown>, orderId?: string): Order => {
+    const order = {
+        ...data,
+        ...(orderId ? { orderId } : {}),
+        createdAt: toDate(data.createdAt)
+    } as Order;
+    
+    if (data.cancelledAt) {
+        order.cancelledAt = toDate(data.cancelledAt);
+    }
+    
+    if (Array.isArray(data.statusHistory)) {
+        order.statusHistory = (data.statusHistory as OrderStatusChange[]).map(change => ({
+            ...change,
+            at: toDate(change.at)
+        }));
+    }
+    
+    return order;
+};
+
+// Tax class for products that don't set one
+const DEFAULT_TAX_CLASS: TaxClass = 'standard';
+
+/**
+ * Captures a line's product details from the product document read when ordering;
+ * optional details the product doesn't have are left out, as Firestore rejects undefined
+ */
+const buildItemSnapshot = (
+    item: OrderItem,
+    data: DocumentData,
+    variant: ProductVariant | undefined,
+    unitPrice: number
+): OrderItemSnapshot => {
+    const optional: Partial<OrderItemSnapshot> = {
+        image: variant?.image ?? data.image,
+        sku: variant?.sku ?? data.sku,
+        category: data.category,
+        brand: data.brand,
+        variantId: variant?.id,
+        variantLabel: variant ? getVariantLabel(variant, data) : undefined
+    };
+    return {
+        title: typeof data.title === 'string' ? data.title : item.name,
+        ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined && value !== '')),
+        unitPrice,
+        taxClass: (data.taxClass as TaxClass | undefined) ?? DEFAULT_TAX_CLASS
+    };
+};
+
+/**
+ * Product details to show for an order line: its snapshot, or for orders
+ * placed before snapshots were stored, what the line itself recorded
+ * 
+ * @param {OrderItem} item - Line of a stored order
+ * @returns {OrderItemSnapshot} Details as they were at purchase time, as far as known
+ */
+export const getItemSnapshot = (item: OrderItem): OrderItemSnapshot => item.snapshot ?? {
+    title: item.name,
+    ...(item.variantId ? { variantId: item.variantId, variantLabel: item.variantLabel } : {}),
+    unitPrice: item.price,
+    taxClass: DEFAULT_TAX_CLASS
+};
+
+/**
+ * Sums requested quantities per line (product, or product variant), so an order
+ * that lists the same line twice is checked against its stock once
+ */
+const getRequestedQuantities = (items: OrderItem[]): Map<string, { productId: string; variantId?: string; quantity: number }> => {
+    const requested = new Map<string, { productId: string; variantId?: string; quantity: number }>();
+    items.forEach(item => {
+        const key = getLineKey(item.productId, item.variantId);
+        const existing = requested.get(key);
+        requested.set(key, {
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: (existing?.quantity || 0) + item.quantity
+        });
+    });
+    return requested;
+};
+
+/**
+ * What placing an order took from one product's stock, per line key (productId,
+ * or getLineKey(productId, variantId)). Stored in the order's `reservations`
+ * subcollection under the product's ID; the security rules only let customers
+ * move a product's stock by these amounts, when placing or cancelling the order.
+ * 
+ * @interface StockReservation
+ * @property {Record<string, number>} quantities - Units taken per line key
+ */
+export interface StockReservation {
+    quantities: Record<string, number>;
+}
+
+/**
+ * Reads the products behind some order lines and works out the writes that put
+ * their quantities back in stock, for variants and plain products alike
+ * 
+ * Must run before the transaction writes anything (Firestore requires reads first);
+ * apply the result with transaction.update. Products and variants that no longer
+ * exist or don't track stock are skipped. Pass the order's ID when cancelling it
+ * to give back what the order reserved (see StockReservation) instead of the line
+ * quantities; orders placed before reservations were kept fall back to the lines.
+ */
+export const getRestockUpdates = async (
+    transaction: Transaction,
+    items: Pick<OrderItem, 'productId' | 'variantId' | 'quantity'>[],
+    orderId?: string
+): Promise<{ ref: DocumentReference; data: DocumentData }[]> => {
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const productRefs = productIds.map(productId => doc(db, 'products', productId));
+    const productSnaps = await Promise.all(productRefs.map(ref => transaction.get(ref)));
+    const reservationSnaps = orderId
+        ? await Promise.all(productIds.map(productId => transaction.get(doc(db, 'orders', orderId, 'reservations', productId))))
+        : [];
+    const hasReservations = reservationSnaps.some(snap => snap.exists());
+    
+    const updates: { ref: DocumentReference; data: DocumentData }[] = [];
+    productSnaps.forEach((snap, index) => {
+        if (!snap.exists()) {
+            return; // Product was removed from the catalog
+        }
+        const productId = productIds[index];
+        const productData = snap.data();
+        const lines = items.filter(item => item.productId === productId);
+        const reservation = hasReservations
+            ? (reservationSnaps[index].data() as StockReservation | undefined) ?? { quantities: {} }
+            : null;
+        const quantityFor = (variantId?: string): number => reservation
+            ? reservation.quantities[getLineKey(productId, variantId)] ?? 0
+            : lines
+                .filter(item => (variantId ? item.variantId === variantId : !item.variantId))
+                .reduce((total, item) => total + item.quantity, 0);
+        const data: DocumentData = {};
+        
+        const plainQuantity = quantityFor();
+        if (plainQuantity > 0 && typeof productData.stock === 'number') {
+            data.stock = productData.stock + plainQuantity;
+        }
+        
+        if (Array.isArray(productData.variants)) {
+            let restocked = false;
+            const variants = (productData.variants as ProductVariant[]).map(variant => {
+                const quantity = quantityFor(variant.id);
+                if (quantity === 0 || typeof variant.stock !== 'number') {
+                    return variant;
+                }
+                restocked = true;
+                return { ...variant, stock: variant.stock + quantity };
+            });
+            if (restocked) {
+                data.variants = variants;
+            }
+        }
+        
+        if (Object.keys(data).length > 0) {
+            updates.push({
+                ref: productRefs[index],
+                data: { ...data, ...(orderId ? { stockOrderId: orderId } : {}), updatedAt: new Date() }
+            });
+        }
+    });
+    
+    return updates;
+};
+
 /**
  * Creates a new order in Firestore with auto-generated ID and calculated total
  * 
@@ -82,13 +470,25 @@ export interface CreateOrderData {
  * - Generates a unique order ID
  * - Calculates total price from product items
  * - Sets initial status to 'pending'
- * - Stores order data in Firestore 'orders' collection
+ * - Re-reads every product and reserves its stock in the same transaction
+ *   that stores the order in the Firestore 'orders' collection, recording
+ *   what it took from each product (see StockReservation)
+ * - Prices every line from the product document rather than the cart
+ * 
+ * Products without a numeric `stock` field are treated as untracked and are
+ * not decremented. Products that no longer exist, are archived or are
+ * deactivated are reported as unavailable shortages.
+ * Lines for a variant check, price and decrement that variant instead of the
+ * product; a variant that no longer exists counts as having no stock.
  * 
  * @async
  * @function createOrder
  * @param {CreateOrderData} orderData - Order information including user, products, and shipping
  * @returns {Promise<Order>} Promise that resolves to the created order object
- * @throws {Error} When Firestore operation fails or validation errors occur
+ * @throws {InsufficientStockError} When any product cannot cover the requested quantity
+ * @throws {PriceChangedError} When any cart price differs from the current product price
+ * @throws {ValidationError} When the order data fails the order schema (nothing is written)
+ * @throws {Error} When Firestore operation fails
  * 
  * @example
  * ```typescript
@@ -110,30 +510,139 @@ export interface CreateOrderData {
  */
 export const createOrder = async (orderData: CreateOrderData): Promise<Order> => {
     try {
+        assertValid('order', createOrderSchema, orderData);
+        
         // Generate unique order ID using timestamp and random string
         const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         
-        // Calculate total price from all products
-        const totalPrice = orderData.products.reduce((total, product) => {
-            return total + (product.price * product.quantity);
-        }, 0);
-        
-        // Create complete order object
-        const order: Order = {
-            orderId,
-            userId: orderData.userId,
-            products: orderData.products,
-            totalPrice: Math.round(totalPrice * 100) / 100, // Round to 2 decimal places
-            status: 'pending',
-            createdAt: new Date(),
-            shippingAddress: orderData.shippingAddress
-        };
-        
-        // Store order in Firestore
-        const orderDoc = doc(db, 'orders', orderId);
-        await setDoc(orderDoc, order);
+        const requested = getRequestedQuantities(orderData.products);
         
-        return order;
+        return await runTransaction(db, async (transaction) => {
+            // Firestore transactions need every read to happen before any write
+            const productIds = [...new Set(orderData.products.map(item => item.productId))];
+            const productRefs = productIds.map(productId => doc(db, 'products', productId));
+            const productSnaps = await Promise.all(productRefs.map(ref => transaction.get(ref)));
+            
+            const shortages: StockShortage[] = [];
+            const stockUpdates = new Map<number, number>();
+            const variantUpdates = new Map<number, ProductVariant[]>();
+            const reservations = new Map<number, Record<string, number>>();
+            const currentPrices = new Map<string, number>();
+            const lineProducts = new Map<string, { data: DocumentData; variant?: ProductVariant }>();
+            
+            requested.forEach(({ productId, variantId, quantity }, key) => {
+                const index = productIds.indexOf(productId);
+                const snap = productSnaps[index];
+                // Archived and deactivated products stay in the catalog but can't be bought
+                if (!snap.exists() || snap.data().archivedAt || snap.data().active === false) {
+                    shortages.push({ productId, variantId, requested: quantity, available: 0, unavailable: true });
+                    return;
+                }
+                
+                const data = snap.data();
+                let variants: ProductVariant[] | undefined;
+                let variant: ProductVariant | undefined;
+                if (variantId) {
+                    // Copy once per product so several variants of it end up in one update
+                    variants = variantUpdates.get(index) ??
+                        ((data.variants || []) as ProductVariant[]).map(existing => ({ ...existing }));
+                    variant = variants.find(existing => existing.id === variantId);
+                    if (!variant) {
+                        shortages.push({ productId, variantId, requested: quantity, available: 0 });
+                        return;
+                    }
+                }
+                
+                const price = variant?.price ?? data.price;
+                if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+                    throw new Error(`Product ${productId} has no valid price`);
+                }
+                currentPrices.set(key, price);
+                lineProducts.set(key, { data, variant });
+                
+                const stock = variant ? variant.stock : data.stock;
+                if (typeof stock !== 'number') {
+                    return; // Stock isn't tracked for this product or variant
+                }
+                
+                if (stock < quantity) {
+                    shortages.push({ productId, variantId, requested: quantity, available: Math.max(0, stock) });
+                    return;
+                }
+                if (variant && variants) {
+                    variant.stock = stock - quantity;
+                    variantUpdates.set(index, variants);
+                } else {
+                    stockUpdates.set(index, stock - quantity);
+                }
+                reservations.set(index, { ...reservations.get(index), [key]: quantity });
+            });
+            
+            if (shortages.length > 0) {
+                throw new InsufficientStockError(shortages);
+            }
+            
+            // Re-price every line from the catalog; the cart's price is only
+            // used to detect that the customer saw something different
+            const priceChanges: PriceChange[] = [];
+            const pricedProducts = orderData.products.map(item => {
+                const key = getLineKey(item.productId, item.variantId);
+                const currentPrice = currentPrices.get(key) as number;
+                if (Math.abs(currentPrice - item.price) >= 0.005 &&
+                    !priceChanges.some(change => change.productId === item.productId && change.variantId === item.variantId)) {
+                    priceChanges.push({
+                        productId: item.productId,
+                        ...(item.variantId ? { variantId: item.variantId } : {}),
+                        name: item.name,
+                        cartPrice: item.price,
+                        currentPrice
+                    });
+                }
+                const { data, variant } = lineProducts.get(key) as { data: DocumentData; variant?: ProductVariant };
+                return { ...item, price: currentPrice, snapshot: buildItemSnapshot(item, data, variant, currentPrice) };
+            });
+            
+            if (priceChanges.length > 0) {
+                throw new PriceChangedError(priceChanges);
+            }
+            
+            // Calculate total price from all products
+            const totalPrice = pricedProducts.reduce((total, product) => {
+                return total + (product.price * product.quantity);
+            }, 0);
+            
+            // Create complete order object
+            const order: Order = {
+                orderId,
+                userId: orderData.userId,
+                products: pricedProducts,
+                totalPrice: Math.round(totalPrice * 100) / 100, // Round to 2 decimal places
+                status: 'pending',
+                createdAt: new Date(),
+                shippingAddress: orderData.shippingAddress,
+                statusHistory: []
+            };
+            
+            assertValid('order', orderSchema, order);
+            
+            new Set([...stockUpdates.keys(), ...variantUpdates.keys()]).forEach(index => {
+                transaction.update(productRefs[index], {
+                    ...(stockUpdates.has(index) ? { stock: stockUpdates.get(index) } : {}),
+                    ...(variantUpdates.has(index) ? { variants: variantUpdates.get(index) } : {}),
+                    stockOrderId: orderId,
+                    updatedAt: new Date()
+                });
+            });
+            reservations.forEach((quantities, index) => {
+                const reservation: StockReservation = { quantities };
+                transaction.set(doc(db, 'orders', orderId, 'reservations', productIds[index]), reservation);
+            });
+            
+            // Store order in Firestore
+            transaction.set(doc(db, 'orders', orderId), order);
+            
+            return order;
+        });
     } catch (error) {
         console.error('Error creating order:', error);
         throw error;
@@ -173,13 +682,8 @@ export const getOrder = async (orderId: string): Promise<Order | null> => {
         const orderSnap = await getDoc(orderDoc);
         
         if (orderSnap.exists()) {
-            const data = orderSnap.data();
-            
-            // Convert Firestore timestamp to Date object
-            return {
-                ...data,
-                createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt
-            } as Order;
+            // Convert Firestore timestamps to Date objects
+            return toOrder(orderSnap.data());
         }
         
         return null;
@@ -226,58 +730,527 @@ export const getUserOrders = async (userId: string): Promise<Order[]> => {
         
         const querySnapshot = await getDocs(userOrdersQuery);
         
-        return querySnapshot.docs.map(doc => {
-            const data = doc.data();
-            
-            // Convert Firestore timestamp to Date object
-            return {
-                ...data,
-                orderId: doc.id,
-                createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt
-            } as Order;
-        });
+        // Convert Firestore timestamps to Date objects
+        return querySnapshot.docs.map(doc => toOrder(doc.data(), doc.id));
     } catch (error) {
         console.error('Error retrieving user orders:', error);
         throw error;
     }
 };
 
+/**
+ * Filters for the staff order list; every filter is optional and they combine
+ * 
+ * @interface OrderFilters
+ * @property {Order['status']} [status] - Only orders in this status
+ * @property {Date} [from] - Only orders placed at or after this time
+ * @property {Date} [to] - Only orders placed at or before this time
+ * @property {string} [customerEmail] - Only orders by the customer with this profile email
+ * @property {number} [minTotal] - Only orders totalling at least this much
+ * @property {number} [maxTotal] - Only orders totalling at most this much
+ */
+export interface OrderFilters {
+    status?: Order['status'];
+    from?: Date;
+    to?: Date;
+    customerEmail?: string;
+    minTotal?: number;
+    maxTotal?: number;
+}
+
+/**
+ * Paging options for getOrdersPage
+ * 
+ * @interface OrderPageOptions
+ * @property {number} [pageSize] - Orders per page (default DEFAULT_ORDER_PAGE_SIZE)
+ * @property {QueryDocumentSnapshot} [cursor] - nextCursor of the previous page; omit for the first page
+ */
+export interface OrderPageOptions {
+    pageSize?: number;
+    cursor?: QueryDocumentSnapshot<DocumentData> | null;
+}
+
+/**
+ * One page of orders, newest first
+ * 
+ * @interface OrderPage
+ * @property {Order[]} orders - Orders on this page
+ * @property {QueryDocumentSnapshot | null} nextCursor - Pass back to get the next page; null on the last page
+ */
+export interface OrderPage {
+    orders: Order[];
+    nextCursor: QueryDocumentSnapshot<DocumentData> | null;
+}
+
+export const DEFAULT_ORDER_PAGE_SIZE = 25;
+
+/**
+ * Retrieves one page of all customers' orders, newest first (staff only)
+ * 
+ * Status, customer and date range are filtered by the Firestore query. Totals
+ * are filtered as the results come in, since Firestore can't order by
+ * createdAt while also filtering a range on totalPrice, so a page with a total
+ * filter may read several batches to fill up. A customer email that matches
+ * no profile gives an empty page.
+ * 
+ * @async
+ * @function getOrdersPage
+ * @param {OrderFilters} [filters] - Which orders to include
+ * @param {OrderPageOptions} [options] - Page size and cursor
+ * @returns {Promise<OrderPage>} Promise that resolves to the page and the cursor for the next one
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {Error} When the Firestore query fails
+ * 
+ * @example
+ * ```typescript
+ * const { orders, nextCursor } = await getOrdersPage({ status: 'confirmed', minTotal: 100 });
+ * const more = nextCursor ? await getOrdersPage({ status: 'confirmed', minTotal: 100 }, { cursor: nextCursor }) : null;
+ * ```
+ */
+export const getOrdersPage = async (
+    filters: OrderFilters = {},
+    { pageSize = DEFAULT_ORDER_PAGE_SIZE, cursor = null }: OrderPageOptions = {}
+): Promise<OrderPage> => {
+    try {
+        await requireRole('staff');
+        
+        const constraints: QueryConstraint[] = [];
+        if (filters.customerEmail?.trim()) {
+            const customer = await getUserByEmail(filters.customerEmail.trim());
+            if (!customer) {
+                return { orders: [], nextCursor: null };
+            }
+            constraints.push(where('userId', '==', customer.uid));
+        }
+        if (filters.status) {
+            constraints.push(where('status', '==', filters.status));
+        }
+        if (filters.from) {
+            constraints.push(where('createdAt', '>=', filters.from));
+        }
+        if (filters.to) {
+            constraints.push(where('createdAt', '<=', filters.to));
+        }
+        constraints.push(orderBy('createdAt', 'desc'));
+        
+        const matchesTotal = (data: DocumentData): boolean =>
+            (filters.minTotal === undefined || data.totalPrice >= filters.minTotal) &&
+            (filters.maxTotal === undefined || data.totalPrice <= filters.maxTotal);
+        
+        // Collect one match past the page to tell whether another page exists
+        const matches: QueryDocumentSnapshot<DocumentData>[] = [];
+        let after = cursor;
+        let exhausted = false;
+        while (matches.length <= pageSize && !exhausted) {
+            const batch = await getDocs(query(
+                collection(db, 'orders'),
+                ...constraints,
+                ...(after ? [startAfter(after)] : []),
+                limit(pageSize + 1)
+            ));
+            batch.docs.forEach(docSnap => {
+                if (matchesTotal(docSnap.data())) {
+                    matches.push(docSnap);
+                }
+            });
+            exhausted = batch.docs.length <= pageSize;
+            after = batch.docs[batch.docs.length - 1] ?? after;
+        }
+        
+        const pageDocs = matches.slice(0, pageSize);
+        return {
+            orders: pageDocs.map(docSnap => toOrder(docSnap.data(), docSnap.id)),
+            nextCursor: matches.length > pageSize ? pageDocs[pageDocs.length - 1] : null
+        };
+    } catch (error) {
+        console.error('Error retrieving orders:', error);
+        throw error;
+    }
+};
+
+// Orders read per query while scanning every order
+const ORDER_SCAN_BATCH_SIZE = 500;
+
+/**
+ * Finds every order that contains a product (staff only)
+ * 
+ * Order lines are stored as an array of objects, which Firestore can't query
+ * by productId, so this reads all orders in batches. Use it for rare checks
+ * such as purging a product, not on customer-facing pages.
+ * 
+ * @async
+ * @function getOrderIdsForProduct
+ * @param {string} productId - Product to look for
+ * @returns {Promise<string[]>} Promise that resolves to the IDs of orders with the product, oldest first
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {Error} When the Firestore query fails
+ */
+export const getOrderIdsForProduct = async (productId: string): Promise<string[]> => {
+    try {
+        await requireRole('staff');
+        
+        const orderIds: string[] = [];
+        let after: QueryDocumentSnapshot<DocumentData> | null = null;
+        let exhausted = false;
+        while (!exhausted) {
+            const batch: QuerySnapshot<DocumentData> = await getDocs(query(
+                collection(db, 'orders'),
+                orderBy('createdAt'),
+                ...(after ? [startAfter(after)] : []),
+                limit(ORDER_SCAN_BATCH_SIZE)
+            ));
+            batch.docs.forEach(docSnap => {
+                const items = (docSnap.data().products || []) as OrderItem[];
+                if (items.some(item => item.productId === productId)) {
+                    orderIds.push(docSnap.id);
+                }
+            });
+            exhausted = batch.docs.length < ORDER_SCAN_BATCH_SIZE;
+            after = batch.docs[batch.docs.length - 1] ?? after;
+        }
+        
+        return orderIds;
+    } catch (error) {
+        console.error('Error finding orders for product:', error);
+        throw error;
+    }
+};
+
+/**
+ * Options recorded alongside a status change
+ * 
+ * @interface UpdateOrderStatusOptions
+ * @property {string} [actorUid] - User making the change (omit for system changes)
+ * @property {string} [note] - Free-text explanation shown in the order timeline
+ */
+export interface UpdateOrderStatusOptions {
+    actorUid?: string;
+    note?: string;
+}
+
 /**
  * Updates the status of an existing order
  * 
- * Modifies only the status field of an order in Firestore.
- * Useful for tracking order progression through fulfillment stages.
+ * Reads the order in a transaction, checks the change against
+ * ORDER_STATUS_TRANSITIONS, then writes the new status and appends
+ * an entry to the order's statusHistory. Cancelling also returns the
+ * order's quantities to stock in the same transaction.
  * 
  * @async
  * @function updateOrderStatus
  * @param {string} orderId - Unique identifier of the order to update
  * @param {Order['status']} status - New status to set for the order
+ * @param {UpdateOrderStatusOptions} [options] - Who made the change and why
  * @returns {Promise<boolean>} Promise that resolves to true if update successful
- * @throws {Error} When Firestore update operation fails
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {InvalidStatusTransitionError} When the order can't move to the requested status
+ * @throws {Error} When the order doesn't exist or the Firestore update fails
  * 
  * @example
  * ```typescript
  * try {
- *   const success = await updateOrderStatus('order123', 'shipped');
+ *   const success = await updateOrderStatus('order123', 'shipped', {
+ *     actorUid: staffUser.uid,
+ *     note: 'Tracking number 1Z999'
+ *   });
  *   if (success) {
  *     console.log('Order status updated successfully');
  *   }
  * } catch (error) {
- *   console.error('Failed to update order status:', error);
+ *   if (error instanceof InvalidStatusTransitionError) {
+ *     console.error(`Cannot go from ${error.from} to ${error.to}`);
+ *   }
  * }
  * ```
  */
 export const updateOrderStatus = async (
     orderId: string, 
-    status: Order['status']
+    status: Order['status'],
+    options: UpdateOrderStatusOptions = {}
 ): Promise<boolean> => {
     try {
+        await requireRole('staff');
         const orderDoc = doc(db, 'orders', orderId);
-        await updateDoc(orderDoc, { status });
+        
+        await runTransaction(db, async (transaction) => {
+            const orderSnap = await transaction.get(orderDoc);
+            if (!orderSnap.exists()) {
+                throw new Error(`Order ${orderId} not found`);
+            }
+            
+            const data = orderSnap.data();
+            const currentStatus = data.status as Order['status'];
+            if (!canTransitionOrderStatus(currentStatus, status)) {
+                throw new InvalidStatusTransitionError(orderId, currentStatus, status);
+            }
+            
+            // Cancelling gives the order's stock back, as cancelOrder does;
+            // every product is read before anything is written
+            if (status === 'cancelled') {
+                const restockUpdates = await getRestockUpdates(transaction, (data.products || []) as OrderItem[], orderId);
+                restockUpdates.forEach(({ ref, data: update }) => {
+                    transaction.update(ref, update);
+                });
+            }
+            
+            const change: OrderStatusChange = {
+                from: currentStatus,
+                to: status,
+                at: new Date(),
+                actorUid: options.actorUid ?? null,
+                note: options.note?.trim() || null
+            };
+            
+            transaction.update(orderDoc, {
+                status,
+                statusHistory: [...(Array.isArray(data.statusHistory) ? data.statusHistory : []), change],
+                ...(status === 'cancelled' ? { cancelledAt: change.at } : {}),
+                ...(status === 'cancelled' && change.note ? { cancellationReason: change.note } : {})
+            });
+        });
         
         return true;
     } catch (error) {
         console.error('Error updating order status:', error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Outcome of updateOrderStatuses
+ * 
+ * @interface BulkStatusUpdateResult
+ * @property {string[]} updated - Orders that moved to the new status
+ * @property {{ orderId: string; error: Error }[]} failed - Orders that didn't, with the reason
+ */
+export interface BulkStatusUpdateResult {
+    updated: string[];
+    failed: { orderId: string; error: Error }[];
+}
+
+/**
+ * Moves several orders to the same status (staff only)
+ * 
+ * Each order is updated with updateOrderStatus in its own transaction, so an
+ * order that can't make the transition (say, shipping a cancelled order) is
+ * reported in `failed` without stopping the others.
+ * 
+ * @async
+ * @function updateOrderStatuses
+ * @param {string[]} orderIds - Orders to update
+ * @param {Order['status']} status - New status for every order
+ * @param {UpdateOrderStatusOptions} [options] - Who made the change and why, recorded on each order
+ * @returns {Promise<BulkStatusUpdateResult>} Promise that resolves to which orders were updated
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * 
+ * @example
+ * ```typescript
+ * const { updated, failed } = await updateOrderStatuses(['a1', 'b2'], 'shipped', { actorUid: staffUser.uid });
+ * failed.forEach(({ orderId, error }) => console.warn(orderId, error.message));
+ * ```
+ */
+export const updateOrderStatuses = async (
+    orderIds: string[],
+    status: Order['status'],
+    options: UpdateOrderStatusOptions = {}
+): Promise<BulkStatusUpdateResult> => {
+    await requireRole('staff');
+    
+    const result: BulkStatusUpdateResult = { updated: [], failed: [] };
+    for (const orderId of new Set(orderIds)) {
+        try {
+            await updateOrderStatus(orderId, status, options);
+            result.updated.push(orderId);
+        } catch (error) {
+            result.failed.push({ orderId, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+    }
+    
+    console.log(`✅ Moved ${result.updated.length} of ${orderIds.length} order(s) to ${status}`);
+    return result;
+};
+
+/**
+ * Checks whether a customer may still cancel an order in the given status
+ * 
+ * @param {Order['status']} status - Current order status
+ * @returns {boolean} True while the order hasn't shipped
+ */
+export const isOrderCancellable = (status: Order['status']): boolean => {
+    return canTransitionOrderStatus(status, 'cancelled');
+};
+
+/**
+ * Cancels an order on behalf of the signed-in customer
+ * 
+ * In a single transaction this function:
+ * - Verifies the signed-in user owns the order
+ * - Verifies the order can still be cancelled (it hasn't shipped)
+ * - Returns each product's reserved quantity to its stock
+ * - Sets status to 'cancelled', records the reason and appends to statusHistory
+ * 
+ * Products that no longer exist or don't track stock are skipped.
+ * 
+ * @async
+ * @function cancelOrder
+ * @param {string} orderId - Unique identifier of the order to cancel
+ * @param {string} reason - Customer's reason for cancelling (required)
+ * @returns {Promise<boolean>} Promise that resolves to true once the order is cancelled
+ * @throws {OrderAccessDeniedError} When no user is signed in or the order belongs to someone else
+ * @throws {InvalidStatusTransitionError} When the order has already shipped, been delivered or been cancelled
+ * @throws {Error} When the reason is empty, the order doesn't exist or the Firestore operation fails
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await cancelOrder('order123', 'Ordered the wrong size');
+ * } catch (error) {
+ *   if (error instanceof InvalidStatusTransitionError) {
+ *     console.error('Too late to cancel, the order has shipped');
+ *   }
+ * }
+ * ```
+ */
+export const cancelOrder = async (orderId: string, reason: string): Promise<boolean> => {
+    try {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+            throw new Error('A cancellation reason is required');
+        }
+        
+        const currentUser = auth.currentUser;
+        if (!currentUser) {
+            throw new OrderAccessDeniedError(orderId);
+        }
+        
+        const orderDoc = doc(db, 'orders', orderId);
+        
+        await runTransaction(db, async (transaction) => {
+            const orderSnap = await transaction.get(orderDoc);
+            if (!orderSnap.exists()) {
+                throw new Error(`Order ${orderId} not found`);
+            }
+            
+            const data = orderSnap.data();
+            if (data.userId !== currentUser.uid) {
+                throw new OrderAccessDeniedError(orderId);
+            }
+            
+            const currentStatus = data.status as Order['status'];
+            if (!isOrderCancellable(currentStatus)) {
+                throw new InvalidStatusTransitionError(orderId, currentStatus, 'cancelled');
+            }
+            
+            // Read every product before writing anything
+            const restockUpdates = await getRestockUpdates(transaction, (data.products || []) as OrderItem[], orderId);
+            restockUpdates.forEach(({ ref, data: update }) => {
+                transaction.update(ref, update);
+            });
+            
+            const now = new Date();
+            const change: OrderStatusChange = {
+                from: currentStatus,
+                to: 'cancelled',
+                at: now,
+                actorUid: currentUser.uid,
+                note: trimmedReason
+            };
+            
+            transaction.update(orderDoc, {
+                status: 'cancelled',
+                cancellationReason: trimmedReason,
+                cancelledAt: now,
+                statusHistory: [...(Array.isArray(data.statusHistory) ? data.statusHistory : []), change]
+            });
+        });
+        
+        return true;
+    } catch (error) {
+        console.error('Error cancelling order:', error);
+        throw error;
+    }
+};
+
+/**
+ * An internal note staff leave on an order. Notes are stored in the order's
+ * `notes` subcollection, which customers can't read.
+ * 
+ * @interface OrderNote
+ * @property {string} noteId - Unique identifier of the note
+ * @property {string} text - Note text
+ * @property {string} authorUid - Staff member who wrote it
+ * @property {Date} createdAt - When it was written
+ */
+export interface OrderNote {
+    noteId: string;
+    text: string;
+    authorUid: string;
+    createdAt: Date;
+}
+
+/**
+ * Retrieves an order's internal notes, oldest first (staff only)
+ * 
+ * @async
+ * @function getOrderNotes
+ * @param {string} orderId - Order whose notes to read
+ * @returns {Promise<OrderNote[]>} Promise that resolves to the notes
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {Error} When the Firestore query fails
+ */
+export const getOrderNotes = async (orderId: string): Promise<OrderNote[]> => {
+    try {
+        await requireRole('staff');
+        const notesQuery = query(collection(db, 'orders', orderId, 'notes'), orderBy('createdAt', 'asc'));
+        const querySnapshot = await getDocs(notesQuery);
+        
+        return querySnapshot.docs.map(docSnap => ({
+            ...(docSnap.data() as Omit<OrderNote, 'noteId' | 'createdAt'>),
+            noteId: docSnap.id,
+            createdAt: toDate(docSnap.data().createdAt)
+        }));
+    } catch (error) {
+        console.error('Error retrieving order notes:', error);
+        throw error;
+    }
+};
+
+/**
+ * Adds an internal note to an order as the signed-in staff member
+ * 
+ * @async
+ * @function addOrderNote
+ * @param {string} orderId - Order to annotate
+ * @param {string} text - Note text (required, up to 2000 characters)
+ * @returns {Promise<OrderNote>} Promise that resolves to the saved note
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {ValidationError} When the text is empty or too long
+ * @throws {Error} When the order doesn't exist or the Firestore write fails
+ * 
+ * @example
+ * ```typescript
+ * await addOrderNote('order123', 'Customer asked for gift wrapping');
+ * ```
+ */
+export const addOrderNote = async (orderId: string, text: string): Promise<OrderNote> => {
+    try {
+        const { uid } = await requireRole('staff');
+        const note = {
+            text: text.trim(),
+            authorUid: uid ?? 'system',
+            createdAt: new Date()
+        };
+        assertValid('order note', orderNoteSchema, note);
+        
+        const orderSnap = await getDoc(doc(db, 'orders', orderId));
+        if (!orderSnap.exists()) {
+            throw new Error(`Order ${orderId} not found`);
+        }
+        
+        const noteRef = await addDoc(collection(db, 'orders', orderId, 'notes'), note);
+        return { ...note, noteId: noteRef.id };
+    } catch (error) {
+        console.error('Error adding order note:', error);
+        throw error;
+    }
+};
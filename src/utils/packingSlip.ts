@@ -0,0 +1,80 @@
+/**
+ * Packing Slips
+ *
+ * Turns an Order and its OrderItems into what goes in the box: who it ships
+ * to and how many of each item to pick. Prices are left off, since the slip
+ * travels with the parcel. Rendered by components/orders/PackingSlip.tsx.
+ *
+ * @fileoverview Packing slip content built from an order
+ * @version 1.0.0
+ */
+
+import { getItemSnapshot, Order } from './orderApi';
+import type { UserProfile } from './userApi';
+import { getLineKey } from './productVariants';
+
+/**
+ * One line to pick: every unit of a product (or product variant) in the order
+ */
+export interface PackingSlipLine {
+  productId: string;
+  variantId?: string;
+  name: string;
+  variantLabel?: string;
+  sku?: string;
+  quantity: number;
+}
+
+export interface PackingSlip {
+  orderId: string;
+  orderDate: Date;
+  status: Order['status'];
+  customerName: string | null;
+  customerEmail: string | null;
+  shipTo: string[];                   // Shipping address, one line per comma or line break
+  lines: PackingSlipLine[];
+  totalUnits: number;
+}
+
+/**
+ * Builds the packing slip for an order
+ *
+ * Lines for the same product and variant are merged, keeping the order's
+ * line order. The customer's profile, when given, supplies their name and email.
+ */
+export const buildPackingSlip = (
+  order: Order,
+  customer?: Pick<UserProfile, 'email' | 'displayName' | 'firstName' | 'lastName'> | null
+): PackingSlip => {
+  const lines = new Map<string, PackingSlipLine>();
+  order.products.forEach(item => {
+    const key = getLineKey(item.productId, item.variantId);
+    const existing = lines.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+      return;
+    }
+    // Named as the product was sold, even if it has been renamed since
+    const snapshot = getItemSnapshot(item);
+    lines.set(key, {
+      productId: item.productId,
+      ...(item.variantId ? { variantId: item.variantId, variantLabel: snapshot.variantLabel } : {}),
+      name: snapshot.title,
+      ...(snapshot.sku ? { sku: snapshot.sku } : {}),
+      quantity: item.quantity
+    });
+  });
+
+  const fullName = [customer?.firstName, customer?.lastName].filter(Boolean).join(' ');
+
+  return {
+    orderId: order.orderId,
+    orderDate: order.createdAt,
+    status: order.status,
+    customerName: fullName || customer?.displayName || null,
+    customerEmail: customer?.email ?? null,
+    shipTo: order.shippingAddress.split(/[,\n]/).map(line => line.trim()).filter(Boolean),
+    lines: [...lines.values()],
+    totalUnits: order.products.reduce((sum, item) => sum + item.quantity, 0)
+  };
+};
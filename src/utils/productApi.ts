@@ -2,7 +2,8 @@
  * Product API Functions
  * 
  * Complete CRUD operations for product management in Firestore as required by assignment.
- * Replaces FakeStore API with full Firestore integration for product catalog.
+ * Writes always go to Firestore; reads go through the configured product source
+ * (see productCatalog.ts), which may be Firestore, a REST API or an in-memory list.
  * 
  * @fileoverview Product management API functions for Firebase Firestore  
  * @version 1.0.0
@@ -13,28 +14,67 @@ import {
   collection, 
   doc, 
   setDoc, 
-  getDoc, 
   updateDoc, 
   deleteDoc, 
-  getDocs,
-  query,
-  where,
-  orderBy,
-  limit,
-  Timestamp,
-  addDoc 
+  getDoc,
+  addDoc,
+  deleteField,
+  writeBatch,
+  DocumentData
 } from 'firebase/firestore';
 import type { Product } from '../types/product';
+import type { ProductSortMode, ProductSource } from './productRepository';
+import type { CatalogPage, CatalogPageOptions } from './productCatalog';
+import { getProductCatalog } from './productCatalog';
+import { productSchema } from './schemas';
+import { assertValid, validate, FieldError, ValidateOptions } from './validation';
+import { requireRole } from './roles';
+import { getOrderIdsForProduct } from './orderApi';
+import {
+  buildSearchIndex,
+  indexProduct,
+  isSearchIndexBuilt,
+  removeFromSearchIndex,
+  searchIndex,
+  updateIndexedProduct
+} from './searchIndex';
+
+export {
+  PRODUCT_SORT_MODES,
+  DEFAULT_SORT_MODE,
+  DEFAULT_PRODUCT_PAGE_SIZE
+} from './productRepository';
+export type {
+  ProductSortKey,
+  ProductSortMode,
+  ProductCursor,
+  ProductPageOptions,
+  ProductPage,
+  ProductSource
+} from './productRepository';
+export type { SourcedCursor, CatalogPageOptions, CatalogPage } from './productCatalog';
+
+/**
+ * A page of products plus the source that served it
+ */
+export interface SourcedProductPage extends CatalogPage {
+  source: ProductSource;             // Source that served this page
+  degraded: boolean;                 // True when the configured source failed and its fallback was used
+}
 
 /**
  * Creates a new product in Firestore
  * 
  * @param productData - Product data to create
  * @returns Promise<string> - Returns the created product ID
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws ValidationError if the data fails the product schema
  * @throws Error if product creation fails
  */
 export const createProduct = async (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
   try {
+    await requireRole('staff');
+    assertValid('product', productSchema, productData);
     const now = new Date();
     
     const product: Omit<Product, 'id'> = {
@@ -47,6 +87,7 @@ export const createProduct = async (productData: Omit<Product, 'id' | 'createdAt
     
     // Add product to collection (auto-generate ID)
     const docRef = await addDoc(collection(db, 'products'), product);
+    indexProduct({ id: docRef.id, ...product });
     
     console.log('✅ Product created successfully with ID:', docRef.id);
     return docRef.id;
@@ -62,12 +103,16 @@ export const createProduct = async (productData: Omit<Product, 'id' | 'createdAt
  * @param productId - Custom product ID
  * @param productData - Product data
  * @returns Promise that resolves when product is created
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws ValidationError if the data fails the product schema
  */
 export const createProductWithId = async (
   productId: string,
   productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<void> => {
   try {
+    await requireRole('staff');
+    assertValid('product', productSchema, productData);
     const now = new Date();
     
     const product: Omit<Product, 'id'> = {
@@ -80,6 +125,7 @@ export const createProductWithId = async (
     
     const productDocRef = doc(db, 'products', productId);
     await setDoc(productDocRef, product);
+    indexProduct({ id: productId, ...product });
     
     console.log('✅ Product created with custom ID:', productId);
   } catch (error) {
@@ -89,7 +135,7 @@ export const createProductWithId = async (
 };
 
 /**
- * Retrieves a single product by ID
+ * Retrieves a single product by ID from the configured product source
  * 
  * @param productId - Product ID to fetch
  * @returns Promise<Product | null> - Product data or null if not found
@@ -97,28 +143,11 @@ export const createProductWithId = async (
  */
 export const getProduct = async (productId: string): Promise<Product | null> => {
   try {
-    const productDocRef = doc(db, 'products', productId);
-    const docSnap = await getDoc(productDocRef);
-    
-    if (docSnap.exists()) {
-      const data = docSnap.data() as Omit<Product, 'id'>;
-      
-      // Convert Firestore Timestamps to Dates
-      if (data.createdAt instanceof Timestamp) {
-        data.createdAt = data.createdAt.toDate();
-      }
-      if (data.updatedAt instanceof Timestamp) {
-        data.updatedAt = data.updatedAt.toDate();
-      }
-      
-      return {
-        id: docSnap.id,
-        ...data
-      } as Product;
+    const { data: product } = await getProductCatalog().getProduct(productId);
+    if (!product) {
+      console.log('Product not found with ID:', productId);
     }
-    
-    console.log('Product not found with ID:', productId);
-    return null;
+    return product;
   } catch (error) {
     console.error('❌ Error fetching product:', error);
     throw error;
@@ -126,85 +155,54 @@ export const getProduct = async (productId: string): Promise<Product | null> =>
 };
 
 /**
- * Retrieves all products from Firestore with FakeStore API fallback
- * If Firestore fails due to permissions, automatically falls back to FakeStore API
+ * Retrieves all products from the configured product source
+ * If that source fails and a fallback is configured, the fallback serves them
+ * (use getProductCatalog() directly to learn which source answered)
  * 
- * @param activeOnly - If true, only return active products (Firestore only)
+ * @param activeOnly - If true, only return active products
+ * @param sortMode - Optional server-side ordering (see PRODUCT_SORT_MODES)
  * @returns Promise<Product[]> - Array of all products
+ * @throws Error if the source and its fallback both fail
  */
-export const getAllProducts = async (activeOnly: boolean = true): Promise<Product[]> => {
-  try {
-    const productsCollection = collection(db, 'products');
-    let querySnapshot;
-    
-    if (activeOnly) {
-      const q = query(productsCollection, where('active', '==', true));
-      querySnapshot = await getDocs(q);
-    } else {
-      querySnapshot = await getDocs(productsCollection);
-    }
-    
-    const products: Product[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as Omit<Product, 'id'>;
-      
-      // Convert Timestamps to Dates
-      if (data.createdAt instanceof Timestamp) {
-        data.createdAt = data.createdAt.toDate();
-      }
-      if (data.updatedAt instanceof Timestamp) {
-        data.updatedAt = data.updatedAt.toDate();
-      }
-      
-      products.push({
-        id: doc.id,
-        ...data
-      } as Product);
-    });
-    
-    console.log(`✅ Retrieved ${products.length} products from Firestore`);
-    return products;
-  } catch (error) {
-    console.error('⚠️  Firestore error, falling back to FakeStore API:', error);
-    
-    // Fallback to FakeStore API
-    try {
-      const response = await fetch('https://fakestoreapi.com/products');
-      if (!response.ok) {
-        throw new Error(`FakeStore API error: ${response.status}`);
-      }
-      
-      const fakeStoreProducts = await response.json();
-      
-      // Transform FakeStore products to match our Product type
-      const products: Product[] = fakeStoreProducts.map((item: any) => ({
-        id: String(item.id),
-        title: item.title,
-        description: item.description,
-        price: item.price,
-        category: item.category,
-        image: item.image,
-        tags: [item.category],
-        active: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }));
-      
-      console.log(`✅ Retrieved ${products.length} products from FakeStore API (fallback)`);
-      return products;
-    } catch (fallbackError) {
-      console.error('❌ Both Firestore and FakeStore API failed:', fallbackError);
-      throw new Error('Failed to load products from both Firestore and FakeStore API');
-    }
-  }
+export const getAllProducts = async (activeOnly: boolean = true, sortMode?: ProductSortMode): Promise<Product[]> => {
+  const { data: products, source } = await getProductCatalog().getProducts({ activeOnly, sortMode });
+  console.log(`✅ Retrieved ${products.length} products from ${source}`);
+  return products;
+};
+
+/**
+ * Retrieves one page of products using cursor-based pagination
+ * 
+ * Firestore orders by the sort key and starts after the given cursor, so each
+ * page costs a single bounded query no matter how large the catalog gets. The
+ * REST and in-memory sources page by offset. The page reports its source, and
+ * whether the configured source failed and only its fallback could serve it;
+ * its cursor names that source, so the next page is read from it too.
+ * 
+ * @param options - Page size, cursor, sort key/direction and filters
+ * @returns Promise<SourcedProductPage> - Products for this page, the cursor for the next one, and the source
+ * @throws Error if the source and its fallback both fail, or a later page fails
+ */
+export const getProductsPage = async (options: CatalogPageOptions = {}): Promise<SourcedProductPage> => {
+  const { data: page, source, degraded } = await getProductCatalog().getProductsPage(options);
+  console.log(`✅ Retrieved page of ${page.products.length} products from ${source}${page.nextCursor ? ' (more available)' : ''}`);
+  return { ...page, source, degraded };
 };
 
+/**
+ * Turns fields set to undefined into deletes, since Firestore rejects undefined values
+ */
+const toFirestoreUpdate = (updates: Partial<Product>): DocumentData =>
+  Object.fromEntries(Object.entries(updates).map(([field, value]) => [field, value === undefined ? deleteField() : value]));
+
 /**
  * Updates an existing product in Firestore
  * 
  * @param productId - Product ID to update
- * @param updates - Partial product data to update
+ * @param updates - Partial product data to update; fields set to undefined are removed
  * @returns Promise that resolves when update is complete
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws ValidationError if a given field fails the product schema
  * @throws Error if update fails
  */
 export const updateProduct = async (
@@ -212,6 +210,8 @@ export const updateProduct = async (
   updates: Partial<Product>
 ): Promise<void> => {
   try {
+    await requireRole('staff');
+    assertValid('product', productSchema, updates, { partial: true });
     const productDocRef = doc(db, 'products', productId);
     
     const updateData = {
@@ -224,7 +224,8 @@ export const updateProduct = async (
       delete updateData.id;
     }
     
-    await updateDoc(productDocRef, updateData);
+    await updateDoc(productDocRef, toFirestoreUpdate(updateData));
+    updateIndexedProduct(productId, updateData);
     
     console.log('✅ Product updated successfully:', productId);
   } catch (error) {
@@ -234,129 +235,247 @@ export const updateProduct = async (
 };
 
 /**
- * Retrieves products by category with FakeStore API fallback
+ * Retrieves products by category from the configured product source
  * 
  * @param category - Product category to filter by
  * @param activeOnly - If true, only return active products
+ * @param sortMode - Optional server-side ordering (see PRODUCT_SORT_MODES)
  * @returns Promise<Product[]> - Array of products in category
+ * @throws Error if the source and its fallback both fail
  */
 export const getProductsByCategory = async (
   category: string,
-  activeOnly: boolean = true
+  activeOnly: boolean = true,
+  sortMode?: ProductSortMode
 ): Promise<Product[]> => {
+  const { data: products, source } = await getProductCatalog().getProducts({ category, activeOnly, sortMode });
+  console.log(`✅ Retrieved ${products.length} products in category: ${category} from ${source}`);
+  return products;
+};
+
+// Firestore allows 500 writes per batch; stay clear of it
+const BULK_BATCH_SIZE = 400;
+
+/**
+ * Runs one write per product ID in batches, each batch all-or-nothing
+ */
+const writeInBatches = async (
+  productIds: string[],
+  write: (batch: ReturnType<typeof writeBatch>, productId: string) => void
+): Promise<void> => {
+  for (let start = 0; start < productIds.length; start += BULK_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    productIds.slice(start, start + BULK_BATCH_SIZE).forEach(productId => write(batch, productId));
+    await batch.commit();
+  }
+};
+
+/**
+ * Applies the same updates to several products, e.g. moving them to a category
+ * 
+ * @param productIds - Products to update
+ * @param updates - Partial product data applied to each; fields set to undefined are removed
+ * @returns Promise that resolves when every product is updated
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws ValidationError if a given field fails the product schema
+ * @throws Error if a batch fails (earlier batches stay written)
+ */
+export const updateProducts = async (productIds: string[], updates: Partial<Product>): Promise<void> => {
   try {
-    const productsCollection = collection(db, 'products');
-    let q;
-    
-    if (activeOnly) {
-      q = query(
-        productsCollection,
-        where('category', '==', category),
-        where('active', '==', true)
-      );
-    } else {
-      q = query(productsCollection, where('category', '==', category));
-    }
-    
-    const querySnapshot = await getDocs(q);
-    
-    const products: Product[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as Omit<Product, 'id'>;
-      
-      // Convert Timestamps to Dates
-      if (data.createdAt instanceof Timestamp) {
-        data.createdAt = data.createdAt.toDate();
-      }
-      if (data.updatedAt instanceof Timestamp) {
-        data.updatedAt = data.updatedAt.toDate();
-      }
-      
-      products.push({
-        id: doc.id,
-        ...data
-      } as Product);
+    await requireRole('staff');
+    assertValid('product', productSchema, updates, { partial: true });
+    const updateData = { ...updates, updatedAt: new Date() };
+    delete updateData.id;
+
+    await writeInBatches(productIds, (batch, productId) => batch.update(doc(db, 'products', productId), toFirestoreUpdate(updateData)));
+    productIds.forEach(productId => updateIndexedProduct(productId, updateData));
+
+    console.log(`✅ Updated ${productIds.length} products`);
+  } catch (error) {
+    console.error('❌ Error updating products:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reads the stored data of each product, undefined for products that don't exist
+ */
+const readProducts = async (productIds: string[]): Promise<Map<string, DocumentData | undefined>> => {
+  const snapshots = await Promise.all(productIds.map(productId => getDoc(doc(db, 'products', productId))));
+  return new Map(snapshots.map((snapshot, index) => [productIds[index], snapshot.data()]));
+};
+
+/**
+ * Archives products: hides them from the store and marks who archived them
+ * when, while keeping the documents that orders, reorders and reports point to.
+ * Whether each product was active is kept for restoreProducts.
+ * 
+ * @param productIds - Products to archive
+ * @returns Promise that resolves when every product is archived
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws Error if a batch fails (earlier batches stay archived)
+ */
+export const archiveProducts = async (productIds: string[]): Promise<void> => {
+  try {
+    const { uid } = await requireRole('staff');
+    const now = new Date();
+    const products = await readProducts(productIds);
+    const archiveData = (product: DocumentData | undefined): Partial<Product> => ({
+      active: false,
+      // Archiving an archived product again keeps what the first archive recorded
+      activeBeforeArchive: product?.archivedAt ? product.activeBeforeArchive : product?.active !== false,
+      archivedAt: now,
+      archivedBy: uid ?? undefined,
+      updatedAt: now
     });
-    
-    console.log(`✅ Retrieved ${products.length} products in category: ${category}`);
-    return products;
+
+    await writeInBatches(productIds, (batch, productId) =>
+      batch.update(doc(db, 'products', productId), toFirestoreUpdate(archiveData(products.get(productId)))));
+    productIds.forEach(productId => updateIndexedProduct(productId, archiveData(products.get(productId))));
+
+    console.log(`✅ Archived ${productIds.length} products`);
   } catch (error) {
-    console.error('⚠️  Firestore category query failed, falling back to FakeStore API:', error);
-    
-    // Fallback to FakeStore API with category filter
-    try {
-      const response = await fetch(`https://fakestoreapi.com/products/category/${category}`);
-      if (!response.ok) {
-        throw new Error(`FakeStore API error: ${response.status}`);
-      }
-      
-      const fakeStoreProducts = await response.json();
-      
-      // Transform FakeStore products to match our Product type
-      const products: Product[] = fakeStoreProducts.map((item: any) => ({
-        id: String(item.id),
-        title: item.title,
-        description: item.description,
-        price: item.price,
-        category: item.category,
-        image: item.image,
-        tags: [item.category],
-        active: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }));
-      
-      console.log(`✅ Retrieved ${products.length} products in category: ${category} (from FakeStore fallback)`);
-      return products;
-    } catch (fallbackError) {
-      console.error('❌ Both Firestore and FakeStore API failed for category:', fallbackError);
-      throw new Error(`Failed to load products for category "${category}"`);
-    }
+    console.error('❌ Error archiving products:', error);
+    throw error;
+  }
+};
+
+/**
+ * Archives a single product (see archiveProducts)
+ * 
+ * @param productId - Product ID to archive
+ * @returns Promise that resolves when the product is archived
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws Error if the update fails
+ */
+export const archiveProduct = (productId: string): Promise<void> => archiveProducts([productId]);
+
+/**
+ * Brings archived products back into the store, active or not as they were
+ * when archived (active for products archived before that was recorded)
+ * 
+ * @param productIds - Archived products to restore
+ * @returns Promise that resolves when every product is restored
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws Error if a batch fails (earlier batches stay restored)
+ */
+export const restoreProducts = async (productIds: string[]): Promise<void> => {
+  try {
+    await requireRole('staff');
+    const now = new Date();
+    const products = await readProducts(productIds);
+    const restoreData = (product: DocumentData | undefined): Partial<Product> => ({
+      active: product?.activeBeforeArchive ?? true,
+      activeBeforeArchive: undefined,
+      archivedAt: undefined,
+      archivedBy: undefined,
+      updatedAt: now
+    });
+
+    await writeInBatches(productIds, (batch, productId) =>
+      batch.update(doc(db, 'products', productId), toFirestoreUpdate(restoreData(products.get(productId)))));
+    productIds.forEach(productId => updateIndexedProduct(productId, restoreData(products.get(productId))));
+
+    console.log(`✅ Restored ${productIds.length} products`);
+  } catch (error) {
+    console.error('❌ Error restoring products:', error);
+    throw error;
   }
 };
 
 /**
- * Deletes a product from Firestore
+ * Thrown when purging a product that orders still refer to
+ */
+export class ProductInUseError extends Error {
+  readonly productId: string;
+  readonly orderIds: string[];
+
+  constructor(productId: string, orderIds: string[]) {
+    super(`Product ${productId} is in ${orderIds.length} order(s) and can't be purged`);
+    this.name = 'ProductInUseError';
+    this.productId = productId;
+    this.orderIds = orderIds;
+  }
+}
+
+/**
+ * Permanently deletes an archived product that no order refers to
+ * 
+ * Checking for orders reads every order, so this is meant for cleaning up
+ * mistakes (duplicates, test products), not for routine removal; archive
+ * products instead.
  * 
- * @param productId - Product ID to delete
- * @returns Promise that resolves when deletion is complete
- * @throws Error if deletion fails
+ * @param productId - Archived product to delete
+ * @returns Promise that resolves when the product is deleted
+ * @throws RoleRequiredError unless the signed-in user is an admin
+ * @throws ProductInUseError if any order contains the product
+ * @throws Error if the product doesn't exist or isn't archived, or deletion fails
  */
-export const deleteProduct = async (productId: string): Promise<void> => {
+export const purgeProduct = async (productId: string): Promise<void> => {
   try {
+    await requireRole('admin');
     const productDocRef = doc(db, 'products', productId);
+    const snapshot = await getDoc(productDocRef);
+    if (!snapshot.exists()) {
+      throw new Error(`Product ${productId} not found`);
+    }
+    if (!snapshot.data().archivedAt) {
+      throw new Error(`Archive product ${productId} before purging it`);
+    }
+
+    const orderIds = await getOrderIdsForProduct(productId);
+    if (orderIds.length > 0) {
+      throw new ProductInUseError(productId, orderIds);
+    }
+
     await deleteDoc(productDocRef);
-    
-    console.log('✅ Product deleted permanently:', productId);
+    removeFromSearchIndex(productId);
+
+    console.log('✅ Product purged permanently:', productId);
   } catch (error) {
-    console.error('❌ Error deleting product:', error);
+    console.error('❌ Error purging product:', error);
     throw error;
   }
 };
 
 /**
- * Search products by title or description
+ * Finds which of the given products still exist, archived ones included,
+ * e.g. so order history links only to products that can still be opened
+ * 
+ * @param productIds - Products to look up (duplicates are fine)
+ * @returns Promise<Set<string>> - IDs of the products that exist; lookups that fail count as missing
+ */
+export const getExistingProductIds = async (productIds: string[]): Promise<Set<string>> => {
+  const uniqueIds = [...new Set(productIds)];
+  const products = await Promise.all(uniqueIds.map(productId =>
+    getProductCatalog().getProduct(productId).then(({ data }) => data, () => null)));
+  return new Set(uniqueIds.filter((_, index) => products[index] !== null));
+};
+
+/**
+ * Searches products through the tokenized search index
+ * 
+ * Matches normalized terms by exact word, prefix and small typos, and ranks
+ * title matches above brand/tag, category and description matches. The index
+ * is built from the full catalog on the first search and kept current by
+ * createProduct(WithId), updateProduct(s), archiveProducts, restoreProducts and
+ * purgeProduct.
  * 
  * @param searchTerm - Term to search for
  * @param activeOnly - If true, only return active products
- * @returns Promise<Product[]> - Array of matching products
+ * @returns Promise<Product[]> - Matching products, most relevant first
  */
 export const searchProducts = async (
   searchTerm: string,
   activeOnly: boolean = true
 ): Promise<Product[]> => {
   try {
-    // Note: Firestore doesn't support full-text search natively
-    // This is a basic implementation - for production, consider using Algolia or similar
-    const allProducts = await getAllProducts(activeOnly);
+    if (!isSearchIndexBuilt()) {
+      // Index inactive products too, so activeOnly can be decided per search
+      buildSearchIndex(await getAllProducts(false));
+    }
     
-    const searchLower = searchTerm.toLowerCase();
-    const matchingProducts = allProducts.filter(product =>
-      product.title.toLowerCase().includes(searchLower) ||
-      product.description.toLowerCase().includes(searchLower) ||
-      (product.tags && product.tags.some(tag => tag.toLowerCase().includes(searchLower))) ||
-      (product.brand && product.brand.toLowerCase().includes(searchLower))
-    );
+    const matchingProducts = searchIndex(searchTerm, activeOnly).map(result => result.product);
     
     console.log(`✅ Found ${matchingProducts.length} products matching: ${searchTerm}`);
     return matchingProducts;
@@ -367,59 +486,28 @@ export const searchProducts = async (
 };
 
 /**
- * Get all unique categories with FakeStore API fallback
+ * Get all unique categories from the configured product source
  * 
- * @returns Promise<string[]> - Array of category names
+ * @returns Promise<string[]> - Array of category names (empty if no source can answer)
  */
 export const getAllCategories = async (): Promise<string[]> => {
   try {
-    const products = await getAllProducts(true);
-    const categories = [...new Set(products.map(product => product.category))];
-    
-    console.log(`✅ Retrieved ${categories.length} categories`);
-    return categories.sort();
+    const { data: categories, source } = await getProductCatalog().getCategories();
+    console.log(`✅ Retrieved ${categories.length} categories from ${source}`);
+    return categories;
   } catch (error) {
-    console.error('⚠️  Error fetching categories from products, trying FakeStore categories endpoint:', error);
-    
-    try {
-      // Try FakeStore API categories endpoint
-      const response = await fetch('https://fakestoreapi.com/products/categories');
-      if (!response.ok) {
-        throw new Error(`FakeStore API error: ${response.status}`);
-      }
-      
-      const categories = await response.json();
-      console.log(`✅ Retrieved ${categories.length} categories from FakeStore API (fallback)`);
-      return categories.sort();
-    } catch (fallbackError) {
-      console.error('❌ Failed to get categories from both sources:', fallbackError);
-      // Return empty array as last resort
-      return [];
-    }
+    console.error('❌ Failed to load categories:', error);
+    return [];
   }
 };
 
 /**
- * Validates product data before operations
+ * Validates product data against the product schema
  * 
  * @param product - Product data to validate
- * @returns boolean - True if valid, false otherwise
+ * @param options - Pass `{ partial: true }` to check only the fields given (for updates)
+ * @returns FieldError[] - Every problem found, empty if valid
  */
-export const validateProduct = (product: Partial<Product>): boolean => {
-  if (!product.title || product.title.trim().length === 0) {
-    console.error('Validation failed: Product title is required');
-    return false;
-  }
-  
-  if (!product.price || product.price <= 0) {
-    console.error('Validation failed: Valid price is required');
-    return false;
-  }
-  
-  if (!product.category || product.category.trim().length === 0) {
-    console.error('Validation failed: Product category is required');
-    return false;
-  }
-  
-  return true;
+export const validateProduct = (product: Partial<Product>, options: ValidateOptions = {}): FieldError[] => {
+  return validate(productSchema, product, options);
 };
\ No newline at end of file
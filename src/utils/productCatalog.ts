@@ -0,0 +1,225 @@
+/**
+ * Product Catalog Source Selection
+ *
+ * Chooses the ProductRepository the app reads products from, based on
+ * configuration (see readProductSourceConfig), and optionally a fallback used
+ * when that source fails. Every result says which source served it and
+ * whether that was the fallback, so the UI can warn that it is running
+ * degraded instead of quietly showing products whose IDs, prices and stock
+ * don't match the store.
+ *
+ * Only first pages fall back. A cursor from one source means nothing to
+ * another, so page cursors carry the source that issued them and later pages
+ * are read from that source; a failure part-way through a listing is reported
+ * as an error rather than restarting it from a different catalog.
+ *
+ * @fileoverview Configured product source with reported fallback
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+import type {
+  ProductCursor,
+  ProductPage,
+  ProductPageOptions,
+  ProductQuery,
+  ProductRepository,
+  ProductSource
+} from './productRepository';
+import { createFirestoreProductRepository } from './firestoreProductRepository';
+import { createRestProductRepository, DEFAULT_REST_BASE_URL } from './restProductRepository';
+import { createMemoryProductRepository } from './memoryProductRepository';
+
+const PRODUCT_SOURCES: ProductSource[] = ['firestore', 'rest', 'memory'];
+
+/**
+ * Which sources to read products from
+ */
+export interface ProductSourceConfig {
+  source: ProductSource;              // Where products normally come from
+  fallback: ProductSource | null;     // Used, and reported as degraded, when `source` fails
+  restBaseUrl: string;                // Root of the FakeStore-compatible API for the 'rest' source
+  memoryProducts?: Product[];         // Catalog for the 'memory' source (empty by default)
+}
+
+/**
+ * Firestore, falling back to FakeStore, as the app has always behaved
+ */
+export const DEFAULT_PRODUCT_SOURCE_CONFIG: ProductSourceConfig = {
+  source: 'firestore',
+  fallback: 'rest',
+  restBaseUrl: DEFAULT_REST_BASE_URL
+};
+
+/**
+ * A result plus where it came from
+ */
+export interface Sourced<T> {
+  data: T;
+  source: ProductSource;              // Source that actually served the data
+  degraded: boolean;                  // True when the configured source failed and the fallback served it
+}
+
+/**
+ * A page cursor plus the source that issued it
+ */
+export interface SourcedCursor {
+  source: ProductSource;              // Source the listing continues from
+  value: ProductCursor;               // That source's own cursor
+}
+
+/**
+ * Options for a paged listing, continuing from a SourcedCursor
+ */
+export interface CatalogPageOptions extends Omit<ProductPageOptions, 'cursor'> {
+  cursor?: SourcedCursor | null;      // Start after this product; omit for the first page
+}
+
+/**
+ * One page of products plus the cursor for the next page
+ */
+export interface CatalogPage {
+  products: Product[];
+  nextCursor: SourcedCursor | null;   // null when there are no more pages
+}
+
+/**
+ * ProductRepository reads, each reporting its source
+ */
+export interface ProductCatalog {
+  readonly config: ProductSourceConfig;
+  getProduct(productId: string): Promise<Sourced<Product | null>>;
+  getProducts(query?: ProductQuery): Promise<Sourced<Product[]>>;
+  getProductsPage(options?: CatalogPageOptions): Promise<Sourced<CatalogPage>>;
+  getCategories(): Promise<Sourced<string[]>>;
+}
+
+const isProductSource = (value: string | undefined): value is ProductSource =>
+  PRODUCT_SOURCES.includes(value as ProductSource);
+
+/**
+ * Reads the product source settings from Vite environment variables
+ *
+ * - VITE_PRODUCT_SOURCE: firestore | rest | memory (default firestore)
+ * - VITE_PRODUCT_FALLBACK: firestore | rest | memory | none (default rest; ignored if equal to the source)
+ * - VITE_PRODUCT_API_URL: REST API root (default https://fakestoreapi.com)
+ *
+ * Unknown values fall back to the defaults with a console warning.
+ */
+export const readProductSourceConfig = (env: Record<string, string | undefined>): ProductSourceConfig => {
+  const { VITE_PRODUCT_SOURCE: source, VITE_PRODUCT_FALLBACK: fallback, VITE_PRODUCT_API_URL: restBaseUrl } = env;
+
+  if (source && !isProductSource(source)) {
+    console.warn(`⚠️  Unknown VITE_PRODUCT_SOURCE "${source}", using ${DEFAULT_PRODUCT_SOURCE_CONFIG.source}`);
+  }
+  if (fallback && fallback !== 'none' && !isProductSource(fallback)) {
+    console.warn(`⚠️  Unknown VITE_PRODUCT_FALLBACK "${fallback}", using ${DEFAULT_PRODUCT_SOURCE_CONFIG.fallback}`);
+  }
+
+  const primary = isProductSource(source) ? source : DEFAULT_PRODUCT_SOURCE_CONFIG.source;
+  const secondary = fallback === 'none'
+    ? null
+    : isProductSource(fallback) ? fallback : DEFAULT_PRODUCT_SOURCE_CONFIG.fallback;
+
+  return {
+    source: primary,
+    fallback: secondary === primary ? null : secondary,
+    restBaseUrl: restBaseUrl || DEFAULT_REST_BASE_URL
+  };
+};
+
+/**
+ * Builds the repository for one source
+ */
+export const createProductRepository = (source: ProductSource, config: ProductSourceConfig): ProductRepository => {
+  switch (source) {
+    case 'rest':
+      return createRestProductRepository(config.restBaseUrl);
+    case 'memory':
+      return createMemoryProductRepository(config.memoryProducts ?? []);
+    default:
+      return createFirestoreProductRepository();
+  }
+};
+
+/**
+ * Tags a repository's page cursor with the source that issued it
+ */
+const toCatalogPage = (page: ProductPage, source: ProductSource): CatalogPage => ({
+  products: page.products,
+  nextCursor: page.nextCursor === null ? null : { source, value: page.nextCursor }
+});
+
+/**
+ * Wraps a primary repository and optional fallback into a ProductCatalog
+ */
+export const createProductCatalog = (
+  config: ProductSourceConfig,
+  primary: ProductRepository = createProductRepository(config.source, config),
+  fallback: ProductRepository | null = config.fallback ? createProductRepository(config.fallback, config) : null
+): ProductCatalog => {
+  const read = async <T>(
+    description: string,
+    load: (repository: ProductRepository) => Promise<T>
+  ): Promise<Sourced<T>> => {
+    try {
+      return { data: await load(primary), source: primary.source, degraded: false };
+    } catch (error) {
+      if (!fallback) {
+        throw error;
+      }
+      console.error(`⚠️  ${primary.source} failed to load ${description}, falling back to ${fallback.source}:`, error);
+      try {
+        return { data: await load(fallback), source: fallback.source, degraded: true };
+      } catch (fallbackError) {
+        console.error(`❌ Both ${primary.source} and ${fallback.source} failed to load ${description}:`, fallbackError);
+        throw new Error(`Failed to load ${description} from both ${primary.source} and ${fallback.source}`);
+      }
+    }
+  };
+
+  return {
+    config,
+    getProduct: (productId) => read(`product ${productId}`, repository => repository.getProduct(productId)),
+    getProducts: (query = {}) => read(
+      query.category ? `products for category "${query.category}"` : 'products',
+      repository => repository.getProducts(query)
+    ),
+    getProductsPage: async ({ cursor, ...options } = {}) => {
+      if (!cursor) {
+        const { data, source, degraded } = await read('products', repository => repository.getProductsPage(options));
+        return { data: toCatalogPage(data, source), source, degraded };
+      }
+
+      // Later pages come from whichever source served the first, and never fall back
+      const repository = [primary, fallback].find(candidate => candidate?.source === cursor.source);
+      if (!repository) {
+        throw new Error(`Cannot continue a ${cursor.source} product listing: that source is not configured`);
+      }
+      const page = await repository.getProductsPage({ ...options, cursor: cursor.value });
+      return { data: toCatalogPage(page, repository.source), source: repository.source, degraded: repository !== primary };
+    },
+    getCategories: () => read('categories', repository => repository.getCategories())
+  };
+};
+
+let catalog: ProductCatalog | null = null;
+
+/**
+ * Sets the product sources for the app; call once at startup
+ */
+export const configureProductCatalog = (config: ProductSourceConfig): ProductCatalog => {
+  catalog = createProductCatalog(config);
+  console.log(`✅ Products from ${config.source}${config.fallback ? ` (fallback: ${config.fallback})` : ''}`);
+  return catalog;
+};
+
+/**
+ * The configured catalog (the defaults if configureProductCatalog hasn't been called)
+ */
+export const getProductCatalog = (): ProductCatalog => {
+  if (!catalog) {
+    catalog = createProductCatalog(DEFAULT_PRODUCT_SOURCE_CONFIG);
+  }
+  return catalog;
+};
@@ -0,0 +1,113 @@
+/**
+ * Product Changes
+ *
+ * Describes the admin product table's writes as data, so one mutation can
+ * apply each to the cached catalog straight away (optimistic update), send
+ * it to the product API, and build the change that undoes it.
+ *
+ * @fileoverview Admin product changes: optimistic apply, undo and write
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+import { archiveProducts, restoreProducts, updateProduct, updateProducts } from './productApi';
+
+export type ProductChange =
+  | { kind: 'update'; productIds: string[]; updates: Partial<Product> }                   // Same fields on every product
+  | { kind: 'updateEach'; updates: { productId: string; updates: Partial<Product> }[] }  // Different fields per product
+  | { kind: 'archive'; productIds: string[] }
+  | { kind: 'restore'; productIds: string[] };                                           // Archived back to how it was
+
+// Fields an archive sets, and so the fields undoing one puts back
+const ARCHIVE_FIELDS = ['active', 'activeBeforeArchive', 'archivedAt', 'archivedBy'] as const satisfies readonly (keyof Product)[];
+
+/**
+ * Returns the products as they'll be once the change is saved
+ */
+export const applyProductChange = (products: Product[], change: ProductChange): Product[] => {
+  switch (change.kind) {
+    case 'update': {
+      const ids = new Set(change.productIds);
+      return products.map(product => (ids.has(String(product.id)) ? { ...product, ...change.updates } : product));
+    }
+    case 'updateEach': {
+      const byId = new Map(change.updates.map(entry => [entry.productId, entry.updates]));
+      return products.map(product => {
+        const updates = byId.get(String(product.id));
+        return updates ? { ...product, ...updates } : product;
+      });
+    }
+    case 'archive':
+    case 'restore': {
+      const ids = new Set(change.productIds);
+      const updatesFor = (product: Product): Partial<Product> => change.kind === 'archive'
+        ? {
+          active: false,
+          activeBeforeArchive: product.archivedAt ? product.activeBeforeArchive : product.active !== false,
+          archivedAt: new Date()
+        }
+        : { active: product.activeBeforeArchive ?? true, activeBeforeArchive: undefined, archivedAt: undefined, archivedBy: undefined };
+      return products.map(product => (ids.has(String(product.id)) ? { ...product, ...updatesFor(product) } : product));
+    }
+  }
+};
+
+/**
+ * Builds the change that reverses the given one
+ *
+ * Updates and archives are reversed field by field, so undoing one puts back
+ * only the fields it touched (including whether an archived product was
+ * active) and keeps stock that orders took in the meantime.
+ *
+ * @param change - Change about to be applied
+ * @param products - Products as they are before the change
+ */
+export const invertProductChange = (change: ProductChange, products: Product[]): ProductChange => {
+  if (change.kind === 'restore') {
+    return { kind: 'archive', productIds: change.productIds };
+  }
+  const ids = new Set(change.kind === 'updateEach' ? change.updates.map(entry => entry.productId) : change.productIds);
+  const affected = products.filter(product => ids.has(String(product.id)));
+
+  const fieldsFor = (productId: string): (keyof Product)[] => {
+    switch (change.kind) {
+      case 'update':
+        return Object.keys(change.updates) as (keyof Product)[];
+      case 'updateEach':
+        return Object.keys(change.updates.find(entry => entry.productId === productId)?.updates ?? {}) as (keyof Product)[];
+      case 'archive':
+        return [...ARCHIVE_FIELDS];
+    }
+  };
+  return {
+    kind: 'updateEach',
+    updates: affected.map(product => ({
+      productId: String(product.id),
+      updates: Object.fromEntries(fieldsFor(String(product.id)).map(field => [field, product[field]])) as Partial<Product>
+    }))
+  };
+};
+
+/**
+ * Saves the change through the product API
+ */
+export const runProductChange = async (change: ProductChange): Promise<void> => {
+  switch (change.kind) {
+    case 'update':
+      if (change.productIds.length === 1) {
+        await updateProduct(change.productIds[0], change.updates);
+      } else {
+        await updateProducts(change.productIds, change.updates);
+      }
+      return;
+    case 'updateEach':
+      await Promise.all(change.updates.map(entry => updateProduct(entry.productId, entry.updates)));
+      return;
+    case 'archive':
+      await archiveProducts(change.productIds);
+      return;
+    case 'restore':
+      await restoreProducts(change.productIds);
+      return;
+  }
+};
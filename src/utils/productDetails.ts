@@ -0,0 +1,104 @@
+/**
+ * Product Detail Helpers
+ *
+ * Pure helpers behind the product detail page: the gallery image list, the
+ * spec table rows for the optional catalog fields, and the "related products"
+ * strip ranked by shared category and tags.
+ *
+ * @fileoverview Gallery, spec and related-product helpers for the product page
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+
+/**
+ * A labelled row in the product spec table
+ */
+export interface ProductSpec {
+  label: string;
+  value: string;
+}
+
+// How much a shared category counts compared to a single shared tag
+const CATEGORY_SCORE = 2;
+const TAG_SCORE = 1;
+
+export const DEFAULT_RELATED_LIMIT = 4;
+
+/**
+ * Returns the product's images for the gallery, primary image first and
+ * variant images last, skipping blanks and duplicates
+ */
+export const getProductImages = (product: Pick<Product, 'image' | 'images' | 'variants'>): string[] => {
+  const variantImages = (product.variants ?? []).map(variant => variant.image ?? '');
+  const images = [product.image, ...(product.images ?? []), ...variantImages]
+    .map(url => (url ?? '').trim())
+    .filter(url => url !== '');
+  return Array.from(new Set(images));
+};
+
+/**
+ * Builds spec table rows for the optional fields that are actually set
+ */
+export const getProductSpecs = (product: Product): ProductSpec[] => {
+  const specs: ProductSpec[] = [];
+
+  if (product.brand) {
+    specs.push({ label: 'Brand', value: product.brand });
+  }
+  if (product.sku) {
+    specs.push({ label: 'SKU', value: product.sku });
+  }
+  specs.push({ label: 'Category', value: product.category });
+  if (typeof product.weight === 'number' && Number.isFinite(product.weight)) {
+    specs.push({ label: 'Weight', value: `${product.weight} kg` });
+  }
+  if (product.dimensions) {
+    const { length, width, height } = product.dimensions;
+    specs.push({ label: 'Dimensions', value: `${length} × ${width} × ${height} cm` });
+  }
+  if (product.tags && product.tags.length > 0) {
+    specs.push({ label: 'Tags', value: product.tags.join(', ') });
+  }
+
+  return specs;
+};
+
+/**
+ * Scores how closely a candidate relates to a product: a shared category is
+ * worth CATEGORY_SCORE and each shared tag (case-insensitive) TAG_SCORE
+ */
+export const getRelatednessScore = (product: Product, candidate: Product): number => {
+  let score = product.category === candidate.category ? CATEGORY_SCORE : 0;
+
+  const tags = new Set((product.tags ?? []).map(tag => tag.toLowerCase()));
+  new Set((candidate.tags ?? []).map(tag => tag.toLowerCase())).forEach(tag => {
+    if (tags.has(tag)) {
+      score += TAG_SCORE;
+    }
+  });
+
+  return score;
+};
+
+/**
+ * Picks the products most related to `product` out of `candidates`
+ * Excludes the product itself, inactive products and anything unrelated;
+ * ties go to the better-rated product so the strip leads with strong picks
+ */
+export const getRelatedProducts = (
+  product: Product,
+  candidates: Product[],
+  limit: number = DEFAULT_RELATED_LIMIT
+): Product[] => {
+  return candidates
+    .filter(candidate => String(candidate.id) !== String(product.id) && candidate.active !== false)
+    .map(candidate => ({ candidate, score: getRelatednessScore(product, candidate) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      (b.candidate.rating?.rate ?? 0) - (a.candidate.rating?.rate ?? 0)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
@@ -0,0 +1,213 @@
+/**
+ * Product Facet Filtering
+ *
+ * Combinable catalog filters (category, price range, brands, minimum rating,
+ * tags, in-stock only), live counts for every facet value, and conversion of
+ * the filter state to and from the URL query string so filtered views can be shared.
+ *
+ * Counts follow the usual faceted-search rule: each facet's counts apply every
+ * *other* active filter, so ticking one brand still shows how many products the
+ * remaining brands would add.
+ *
+ * @fileoverview Facet filters, facet counts and URL query-string state
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+import { getAvailableStock } from '../features/cart/cartSlice';
+import { hasPurchasableVariant, hasVariants } from './productVariants';
+
+/**
+ * Active filter state; empty arrays and undefined values mean "no filter"
+ */
+export interface ProductFilters {
+  category: string;
+  minPrice?: number;
+  maxPrice?: number;
+  brands: string[];
+  minRating?: number;
+  tags: string[];
+  inStockOnly: boolean;
+}
+
+/**
+ * A selectable facet value and how many products it would show
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts for every facet, ready to render next to the filter controls
+ */
+export interface ProductFacets {
+  priceRange: { min: number; max: number };
+  brands: FacetCount[];
+  tags: FacetCount[];
+  ratings: { minRating: number; count: number }[];
+  inStock: number;
+}
+
+type FacetKey = 'category' | 'price' | 'brands' | 'rating' | 'tags' | 'inStock';
+
+// Rating thresholds offered in the "minimum rating" facet
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export const EMPTY_FILTERS: ProductFilters = {
+  category: '',
+  brands: [],
+  tags: [],
+  inStockOnly: false
+};
+
+/**
+ * Whether a product can currently be bought; products that don't track stock count as in stock
+ */
+export const isInStock = (product: Product): boolean => {
+  if (hasVariants(product)) {
+    return hasPurchasableVariant(product);
+  }
+  const available = getAvailableStock(product);
+  return available === undefined || available > 0;
+};
+
+/**
+ * Checks one product against every active filter except the skipped one
+ */
+const matchesFilters = (product: Product, filters: ProductFilters, skip?: FacetKey): boolean => {
+  if (skip !== 'category' && filters.category && product.category !== filters.category) {
+    return false;
+  }
+  if (skip !== 'price') {
+    if (filters.minPrice !== undefined && product.price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && product.price > filters.maxPrice) return false;
+  }
+  if (skip !== 'brands' && filters.brands.length > 0 && !(product.brand && filters.brands.includes(product.brand))) {
+    return false;
+  }
+  if (skip !== 'rating' && filters.minRating !== undefined && (product.rating?.rate ?? 0) < filters.minRating) {
+    return false;
+  }
+  if (skip !== 'tags' && filters.tags.length > 0 && !(product.tags || []).some(tag => filters.tags.includes(tag))) {
+    return false;
+  }
+  if (skip !== 'inStock' && filters.inStockOnly && !isInStock(product)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Whether any filter other than category is set
+ */
+export const hasFacetFilters = (filters: ProductFilters): boolean =>
+  filters.minPrice !== undefined ||
+  filters.maxPrice !== undefined ||
+  filters.brands.length > 0 ||
+  filters.minRating !== undefined ||
+  filters.tags.length > 0 ||
+  filters.inStockOnly;
+
+/**
+ * Returns the products that match every active filter
+ *
+ * @param products - Products to filter
+ * @param filters - Active filters
+ * @returns Product[] - Matching products, in their original order
+ */
+export const applyFilters = (products: Product[], filters: ProductFilters): Product[] =>
+  products.filter(product => matchesFilters(product, filters));
+
+/**
+ * Tallies values of a multi-value facet, sorted by count then name
+ */
+const countValues = (products: Product[], getValues: (product: Product) => string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  products.forEach(product => {
+    new Set(getValues(product)).forEach(value => {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Computes counts for every facet value given the current filters
+ *
+ * @param products - Products the facets describe (catalog or search results)
+ * @param filters - Active filters
+ * @returns ProductFacets - Price bounds and per-value counts
+ */
+export const computeFacets = (products: Product[], filters: ProductFilters): ProductFacets => {
+  const without = (skip: FacetKey) => products.filter(product => matchesFilters(product, filters, skip));
+
+  // Price bounds only respect the category, so the slider range doesn't jump around as other filters change
+  const inCategory = products.filter(product => !filters.category || product.category === filters.category);
+  const prices = inCategory.map(product => product.price).filter(price => Number.isFinite(price));
+
+  const ratingBase = without('rating');
+
+  return {
+    priceRange: {
+      min: prices.length > 0 ? Math.floor(Math.min(...prices)) : 0,
+      max: prices.length > 0 ? Math.ceil(Math.max(...prices)) : 0
+    },
+    brands: countValues(without('brands'), product => (product.brand ? [product.brand] : [])),
+    tags: countValues(without('tags'), product => product.tags || []),
+    ratings: RATING_THRESHOLDS.map(minRating => ({
+      minRating,
+      count: ratingBase.filter(product => (product.rating?.rate ?? 0) >= minRating).length
+    })),
+    inStock: without('inStock').filter(isInStock).length
+  };
+};
+
+/**
+ * Reads filter state from a URL query string
+ *
+ * @param search - Query string, with or without the leading '?'
+ * @returns ProductFilters - Parsed filters; unknown or malformed values are ignored
+ */
+export const parseFiltersFromQuery = (search: string): ProductFilters => {
+  const params = new URLSearchParams(search);
+  const toNumber = (value: string | null): number | undefined => {
+    if (value === null || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  return {
+    category: params.get('category') ?? '',
+    minPrice: toNumber(params.get('minPrice')),
+    maxPrice: toNumber(params.get('maxPrice')),
+    brands: params.getAll('brand'),
+    minRating: toNumber(params.get('rating')),
+    tags: params.getAll('tag'),
+    inStockOnly: params.get('inStock') === '1'
+  };
+};
+
+/**
+ * Writes filter state into URL query parameters, leaving unrelated parameters alone
+ *
+ * @param filters - Active filters
+ * @param search - Current query string to merge into
+ * @returns string - Query string without the leading '?'
+ */
+export const filtersToQuery = (filters: ProductFilters, search: string = ''): string => {
+  const params = new URLSearchParams(search);
+  ['category', 'minPrice', 'maxPrice', 'brand', 'rating', 'tag', 'inStock'].forEach(key => params.delete(key));
+
+  if (filters.category) params.set('category', filters.category);
+  if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+  filters.brands.forEach(brand => params.append('brand', brand));
+  if (filters.minRating !== undefined) params.set('rating', String(filters.minRating));
+  filters.tags.forEach(tag => params.append('tag', tag));
+  if (filters.inStockOnly) params.set('inStock', '1');
+
+  return params.toString();
+};
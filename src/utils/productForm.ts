@@ -0,0 +1,178 @@
+/**
+ * Product Form
+ *
+ * Converts between products and the text fields the admin product editor
+ * shows: numbers as text, gallery images one per line, tags comma separated,
+ * and variant options plus variants as one JSON document. Converting back
+ * checks the text first (numbers, JSON) and then the product schema, so every
+ * message can be shown next to its field.
+ *
+ * @fileoverview Admin product editor state and conversions
+ * @version 1.0.0
+ */
+
+import type { Product, TaxClass } from '../types/product';
+import { validate, FieldError } from './validation';
+import { productSchema } from './schemas';
+
+export interface ProductDraft {
+  title: string;
+  price: string;
+  description: string;
+  category: string;
+  image: string;
+  images: string;                     // One URL per line
+  stock: string;                      // Blank when stock isn't tracked
+  tags: string;                       // Comma separated
+  brand: string;
+  sku: string;
+  weight: string;
+  taxClass: TaxClass | '';            // Blank for the standard rate
+  length: string;
+  width: string;
+  height: string;
+  active: boolean;
+  variants: string;                   // JSON { variantOptions, variants }; blank for none
+}
+
+/**
+ * Product fields staff edit; the rest (ID, ratings, timestamps) are managed by the app
+ */
+export const EDITABLE_PRODUCT_FIELDS = [
+  'title', 'price', 'description', 'category', 'image', 'images', 'stock', 'tags',
+  'brand', 'sku', 'weight', 'taxClass', 'dimensions', 'active', 'variantOptions', 'variants'
+] as const satisfies readonly (keyof Product)[];
+
+export type EditableProductField = typeof EDITABLE_PRODUCT_FIELDS[number];
+
+export const EMPTY_PRODUCT_DRAFT: ProductDraft = {
+  title: '', price: '', description: '', category: '', image: '', images: '', stock: '', tags: '',
+  brand: '', sku: '', weight: '', taxClass: '', length: '', width: '', height: '', active: true, variants: ''
+};
+
+const numberText = (value: number | undefined): string => (value === undefined ? '' : String(value));
+
+/**
+ * Fills the editor's fields from a product
+ */
+export const toProductDraft = (product: Product): ProductDraft => ({
+  title: product.title,
+  price: numberText(product.price),
+  description: product.description ?? '',
+  category: product.category,
+  image: product.image,
+  images: (product.images ?? []).join('\n'),
+  stock: numberText(product.stock),
+  tags: (product.tags ?? []).join(', '),
+  brand: product.brand ?? '',
+  sku: product.sku ?? '',
+  weight: numberText(product.weight),
+  taxClass: product.taxClass === 'standard' ? '' : product.taxClass ?? '',
+  length: numberText(product.dimensions?.length),
+  width: numberText(product.dimensions?.width),
+  height: numberText(product.dimensions?.height),
+  active: product.active !== false,
+  variants: product.variants?.length
+    ? JSON.stringify({ variantOptions: product.variantOptions ?? [], variants: product.variants }, null, 2)
+    : ''
+});
+
+const splitList = (text: string, separator: RegExp): string[] =>
+  text.split(separator).map(entry => entry.trim()).filter(Boolean);
+
+/**
+ * Reads the editor's fields back into product data
+ *
+ * Blank optional fields come back as undefined, which updateProduct treats as
+ * "remove this field".
+ *
+ * @returns The product fields, and every problem found (empty when valid)
+ */
+export const fromProductDraft = (draft: ProductDraft): { product: Pick<Product, EditableProductField>; errors: FieldError[] } => {
+  const errors: FieldError[] = [];
+
+  const readNumber = (field: string, text: string): number | undefined => {
+    if (!text.trim()) {
+      return undefined;
+    }
+    const value = Number(text.trim());
+    if (Number.isNaN(value)) {
+      errors.push({ field, message: 'Enter a number' });
+    }
+    return value;
+  };
+
+  const dimensionTexts = [draft.length, draft.width, draft.height];
+  let dimensions: Product['dimensions'];
+  if (dimensionTexts.some(text => text.trim())) {
+    const [length, width, height] = ['length', 'width', 'height'].map((key, index) =>
+      readNumber(`dimensions.${key}`, dimensionTexts[index]));
+    if (length === undefined || width === undefined || height === undefined) {
+      errors.push({ field: 'dimensions', message: 'Enter length, width and height, or leave all three blank' });
+    } else {
+      dimensions = { length, width, height };
+    }
+  }
+
+  let variantOptions: Product['variantOptions'];
+  let variants: Product['variants'];
+  if (draft.variants.trim()) {
+    try {
+      const parsed = JSON.parse(draft.variants) as Pick<Product, 'variantOptions' | 'variants'>;
+      if (!Array.isArray(parsed?.variants) || !Array.isArray(parsed?.variantOptions)) {
+        throw new Error('Missing arrays');
+      }
+      ({ variantOptions, variants } = parsed);
+    } catch {
+      errors.push({ field: 'variants', message: 'Enter JSON with "variantOptions" and "variants" arrays, or leave blank' });
+    }
+  }
+
+  const product: Pick<Product, EditableProductField> = {
+    title: draft.title.trim(),
+    price: readNumber('price', draft.price) as number,
+    description: draft.description.trim(),
+    category: draft.category.trim(),
+    image: draft.image.trim(),
+    images: splitList(draft.images, /\n/),
+    stock: readNumber('stock', draft.stock),
+    tags: splitList(draft.tags, /,/),
+    brand: draft.brand.trim() || undefined,
+    sku: draft.sku.trim() || undefined,
+    weight: readNumber('weight', draft.weight),
+    taxClass: draft.taxClass || undefined,
+    dimensions,
+    active: draft.active,
+    variantOptions,
+    variants
+  };
+
+  const schemaErrors = validate(productSchema, product)
+    .filter(error => !errors.some(existing => existing.field === error.field));
+  return { product, errors: [...errors, ...schemaErrors] };
+};
+
+// Missing, empty text and empty lists all show as a blank field
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Picks the editable fields whose values differ between the stored product
+ * and the edited one, so a save only writes what changed (and can't undo
+ * stock that orders took while the editor was open)
+ */
+export const getChangedFields = (
+  original: Product,
+  edited: Pick<Product, EditableProductField>
+): Partial<Product> => {
+  const changes: Partial<Product> = {};
+  EDITABLE_PRODUCT_FIELDS.forEach(field => {
+    const before = original[field];
+    const after = edited[field];
+    const same = JSON.stringify(before) === JSON.stringify(after) || (isBlank(before) && isBlank(after));
+    if (!same) {
+      (changes as Record<string, unknown>)[field] = after;
+    }
+  });
+  return changes;
+};
@@ -0,0 +1,507 @@
+/**
+ * Bulk Product Import / Export
+ *
+ * Lets merchandisers maintain the catalog in spreadsheets. An import runs in
+ * three steps:
+ * 1. Parse CSV or JSON into rows (spreadsheet row numbers are kept for error messages)
+ * 2. Plan: validate every row and diff it against the catalog by `sku`, giving a
+ *    dry run of what would be created, updated, left unchanged or rejected
+ * 3. Commit the plan in Firestore batched writes, reporting progress per batch
+ *
+ * Blank cells (or missing JSON keys) leave the existing value alone, so a sheet
+ * with only `sku` and `price` columns is a bulk price update. Ratings are never
+ * imported; reviews maintain them. Variants can only be imported from JSON.
+ *
+ * Export writes the current catalog in the same columns, so an exported file can
+ * be edited and imported straight back.
+ *
+ * @fileoverview CSV/JSON catalog import with dry-run diff, and catalog export
+ * @version 1.0.0
+ */
+
+import { db } from '../config/firebase';
+import { collection, doc, writeBatch } from 'firebase/firestore';
+import type { Product } from '../types/product';
+import { clearSearchIndex } from './searchIndex';
+import { productSchema } from './schemas';
+import { validate } from './validation';
+import { requireRole } from './roles';
+
+export type ImportFormat = 'csv' | 'json';
+
+/**
+ * One row of the source file, before validation
+ */
+export interface ImportRow {
+  rowNumber: number; // Spreadsheet row (header is row 1) or 1-based position in the JSON array
+  values: Record<string, unknown>;
+}
+
+/**
+ * The product fields an import can set; everything except sku is optional so
+ * partial rows can update a subset of fields
+ */
+export type ImportedProduct = Partial<Omit<Product, 'id' | 'rating' | 'ratingTotal' | 'createdAt' | 'updatedAt'>> & {
+  sku: string;
+};
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+/**
+ * What committing a row would do
+ */
+export interface ImportPlanEntry {
+  rowNumber: number;
+  action: ImportAction;
+  sku?: string;
+  title?: string;
+  product?: ImportedProduct;
+  existingId?: string; // Product being updated (update and unchanged only)
+  changedFields: string[]; // Fields that differ from the catalog (update only)
+  errors: string[]; // Why the row can't be imported (invalid only)
+}
+
+export interface ImportPlan {
+  entries: ImportPlanEntry[];
+  counts: Record<ImportAction, number>;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+// Firestore allows 500 writes per batch; stay clear of it
+export const IMPORT_BATCH_SIZE = 400;
+
+// Column order for CSV export; import accepts these headers in any order
+export const PRODUCT_CSV_COLUMNS = [
+  'id', 'sku', 'title', 'price', 'description', 'category', 'image', 'images', 'stock',
+  'brand', 'tags', 'weight', 'length', 'width', 'height', 'active', 'rating', 'ratingCount'
+] as const;
+
+// Separator for list columns (images, tags) inside a single CSV cell
+const LIST_SEPARATOR = '|';
+
+// Required when a row creates a product (updates can leave them out)
+const REQUIRED_FOR_CREATE: (keyof ImportedProduct)[] = ['title', 'price', 'category'];
+
+/**
+ * Splits CSV text into rows of cells
+ * Handles quoted cells with commas, doubled quotes and line breaks, CRLF line
+ * endings and a leading byte-order mark
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Parses an import file into rows keyed by column name
+ *
+ * @throws {Error} When the file can't be parsed at all (bad JSON, no header row)
+ */
+export const parseImportFile = (text: string, format: ImportFormat): ImportRow[] => {
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(text);
+    const items = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { products?: unknown } | null)?.products;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON imports must be an array of products (or { "products": [...] })');
+    }
+    return items.map((item, index) => ({
+      rowNumber: index + 1,
+      values: item && typeof item === 'object' ? item as Record<string, unknown> : {}
+    }));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header.every(cell => cell.trim() === '')) {
+    throw new Error('CSV imports need a header row');
+  }
+  const columns = header.map(cell => cell.trim());
+
+  return rows
+    .map((cells, index) => ({
+      rowNumber: index + 2,
+      values: Object.fromEntries(columns.map((column, columnIndex) => [column, cells[columnIndex] ?? '']))
+    }))
+    // Spreadsheets often leave trailing empty lines
+    .filter(row => Object.values(row.values).some(value => String(value).trim() !== ''));
+};
+
+/**
+ * Guesses the format from the file name, then from the content
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  if (/\.json$/i.test(fileName)) {
+    return 'json';
+  }
+  if (/\.csv$/i.test(fileName)) {
+    return 'csv';
+  }
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : Number(String(value).trim());
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(LIST_SEPARATOR))
+    .map(item => item.trim())
+    .filter(item => item !== '');
+
+/**
+ * Validates one row and converts it to product fields
+ * Returns the fields the row sets, plus every problem found (not just the first)
+ */
+export const validateImportRow = (row: ImportRow): { product?: ImportedProduct; errors: string[] } => {
+  const { values } = row;
+  const errors: string[] = [];
+  const product: Partial<ImportedProduct> = {};
+
+  const text = (key: 'sku' | 'title' | 'description' | 'category' | 'image' | 'brand') => {
+    if (!isBlank(values[key])) {
+      product[key] = String(values[key]).trim();
+    }
+  };
+  (['sku', 'title', 'description', 'category', 'image', 'brand'] as const).forEach(text);
+
+  if (!product.sku) {
+    errors.push('sku is required');
+  }
+
+  if (!isBlank(values.price)) {
+    const price = toNumber(values.price);
+    if (!Number.isFinite(price) || price <= 0) {
+      errors.push(`price must be a positive number (got "${values.price}")`);
+    } else {
+      product.price = Math.round(price * 100) / 100;
+    }
+  }
+
+  if (!isBlank(values.stock)) {
+    const stock = toNumber(values.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.push(`stock must be a whole number of 0 or more (got "${values.stock}")`);
+    } else {
+      product.stock = stock;
+    }
+  }
+
+  if (!isBlank(values.weight)) {
+    const weight = toNumber(values.weight);
+    if (!Number.isFinite(weight) || weight < 0) {
+      errors.push(`weight must be 0 or more (got "${values.weight}")`);
+    } else {
+      product.weight = weight;
+    }
+  }
+
+  // JSON rows may nest dimensions; CSV rows use length/width/height columns
+  const dimensionSource = (values.dimensions && typeof values.dimensions === 'object'
+    ? values.dimensions
+    : values) as Record<string, unknown>;
+  const dimensionKeys = ['length', 'width', 'height'] as const;
+  const givenDimensions = dimensionKeys.filter(key => !isBlank(dimensionSource[key]));
+  if (givenDimensions.length > 0) {
+    const dimensions = dimensionKeys.map(key => toNumber(dimensionSource[key]));
+    if (givenDimensions.length < 3 || dimensions.some(value => !Number.isFinite(value) || value < 0)) {
+      errors.push('length, width and height must all be numbers of 0 or more');
+    } else {
+      const [length, width, height] = dimensions;
+      product.dimensions = { length, width, height };
+    }
+  }
+
+  if (!isBlank(values.images)) {
+    product.images = toList(values.images);
+  }
+  if (!isBlank(values.tags)) {
+    product.tags = toList(values.tags);
+  }
+
+  if (!isBlank(values.active)) {
+    const active = String(values.active).trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(active)) {
+      product.active = true;
+    } else if (['false', 'no', '0'].includes(active)) {
+      product.active = false;
+    } else {
+      errors.push(`active must be true or false (got "${values.active}")`);
+    }
+  }
+
+  if (values.variantOptions !== undefined || values.variants !== undefined) {
+    if (!Array.isArray(values.variantOptions) || !Array.isArray(values.variants)) {
+      errors.push('variantOptions and variants must both be arrays');
+    } else {
+      product.variantOptions = values.variantOptions as Product['variantOptions'];
+      product.variants = values.variants as Product['variants'];
+    }
+  }
+
+  // The same rules as every other product write, mainly for the shape of JSON variants
+  if (errors.length === 0) {
+    errors.push(...validate(productSchema, product, { partial: true }).map(error => error.message));
+  }
+
+  return errors.length > 0 ? { errors } : { product: product as ImportedProduct, errors };
+};
+
+/**
+ * JSON with object keys sorted, so values compare equal regardless of key order
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  ) ?? 'undefined';
+
+/**
+ * Lists the imported fields whose value differs from the catalog product
+ * Products without an `active` flag count as active, as everywhere else
+ */
+const getChangedFields = (product: ImportedProduct, existing: Product): string[] =>
+  Object.entries(product)
+    .filter(([field]) => field !== 'sku')
+    .filter(([field, value]) => {
+      const current = field === 'active' ? existing.active ?? true : existing[field as keyof Product];
+      return stableStringify(value) !== stableStringify(current);
+    })
+    .map(([field]) => field);
+
+/**
+ * Dry run: validates every row and diffs it against the catalog by sku
+ *
+ * @param rows - Parsed rows from parseImportFile
+ * @param catalog - Current products, including inactive ones
+ * @returns The action each row would take, with counts per action
+ */
+export const planImport = (rows: ImportRow[], catalog: Product[]): ImportPlan => {
+  const bySku = new Map<string, Product>();
+  catalog.forEach(product => {
+    if (product.sku && !bySku.has(product.sku)) {
+      bySku.set(product.sku, product);
+    }
+  });
+
+  const seenSkus = new Map<string, number>();
+  const entries = rows.map((row): ImportPlanEntry => {
+    const { product, errors } = validateImportRow(row);
+    const sku = product?.sku ?? (isBlank(row.values.sku) ? undefined : String(row.values.sku).trim());
+    const title = isBlank(row.values.title) ? undefined : String(row.values.title).trim();
+    const entry = { rowNumber: row.rowNumber, sku, title, changedFields: [] as string[], errors };
+
+    if (!product) {
+      return { ...entry, action: 'invalid' };
+    }
+
+    const firstRow = seenSkus.get(product.sku);
+    if (firstRow !== undefined) {
+      return { ...entry, action: 'invalid', errors: [`sku ${product.sku} already appears on row ${firstRow}`] };
+    }
+    seenSkus.set(product.sku, row.rowNumber);
+
+    const existing = bySku.get(product.sku);
+    if (!existing) {
+      const missing = REQUIRED_FOR_CREATE.filter(field => product[field] === undefined);
+      if (missing.length > 0) {
+        return { ...entry, action: 'invalid', errors: missing.map(field => `${field} is required for new products`) };
+      }
+      return { ...entry, action: 'create', product };
+    }
+
+    const changedFields = getChangedFields(product, existing);
+    return {
+      ...entry,
+      action: changedFields.length > 0 ? 'update' : 'unchanged',
+      title: title ?? existing.title,
+      product,
+      existingId: String(existing.id),
+      changedFields
+    };
+  });
+
+  const counts: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  entries.forEach(entry => {
+    counts[entry.action]++;
+  });
+
+  return { entries, counts };
+};
+
+/**
+ * Commits a plan's creates and updates in Firestore batched writes
+ *
+ * Each batch is atomic, but the import as a whole isn't: if a batch fails, the
+ * batches before it stay written. Unchanged and invalid rows are skipped.
+ *
+ * @param plan - Plan from planImport (re-plan if the catalog may have changed)
+ * @param onProgress - Called after each batch with rows written so far and the total
+ * @param batchSize - Writes per batch (defaults to IMPORT_BATCH_SIZE)
+ * @returns Promise<ImportResult> - How many products were created and updated
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
+ * @throws Error if a batch fails to commit
+ */
+export const importProducts = async (
+  plan: ImportPlan,
+  onProgress?: (done: number, total: number) => void,
+  batchSize: number = IMPORT_BATCH_SIZE
+): Promise<ImportResult> => {
+  const writes = plan.entries.filter(entry =>
+    (entry.action === 'create' || entry.action === 'update') && entry.product
+  );
+  const result: ImportResult = { created: 0, updated: 0 };
+
+  try {
+    await requireRole('staff');
+    for (let start = 0; start < writes.length; start += batchSize) {
+      const chunk = writes.slice(start, start + batchSize);
+      const batch = writeBatch(db);
+      const now = new Date();
+
+      chunk.forEach(entry => {
+        const product = entry.product as ImportedProduct;
+        if (entry.action === 'create') {
+          batch.set(doc(collection(db, 'products')), {
+            description: '',
+            image: '',
+            ...product,
+            rating: { rate: 0, count: 0 },
+            tags: product.tags ?? [],
+            active: product.active ?? true,
+            createdAt: now,
+            updatedAt: now
+          });
+        } else {
+          const updates = Object.fromEntries(entry.changedFields.map(field => [field, product[field as keyof ImportedProduct]]));
+          batch.update(doc(db, 'products', entry.existingId as string), { ...updates, updatedAt: now });
+        }
+      });
+
+      await batch.commit();
+      chunk.forEach(entry => {
+        if (entry.action === 'create') {
+          result.created++;
+        } else {
+          result.updated++;
+        }
+      });
+      onProgress?.(start + chunk.length, writes.length);
+    }
+
+    console.log(`✅ Imported products: ${result.created} created, ${result.updated} updated`);
+    return result;
+  } catch (error) {
+    console.error('❌ Error importing products:', error);
+    throw error;
+  } finally {
+    // Titles, tags and activity may have changed; the next search rebuilds the index
+    if (result.created + result.updated > 0) {
+      clearSearchIndex();
+    }
+  }
+};
+
+/**
+ * Flattens a product into export columns (see PRODUCT_CSV_COLUMNS)
+ */
+const toExportRecord = (product: Product): Record<(typeof PRODUCT_CSV_COLUMNS)[number], string | number | boolean | undefined> => ({
+  id: String(product.id),
+  sku: product.sku,
+  title: product.title,
+  price: product.price,
+  description: product.description,
+  category: product.category,
+  image: product.image,
+  images: product.images?.join(LIST_SEPARATOR),
+  stock: product.stock,
+  brand: product.brand,
+  tags: product.tags?.join(LIST_SEPARATOR),
+  weight: product.weight,
+  length: product.dimensions?.length,
+  width: product.dimensions?.width,
+  height: product.dimensions?.height,
+  active: product.active ?? true,
+  rating: product.rating?.rate,
+  ratingCount: product.rating?.count
+});
+
+const escapeCsvCell = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Exports products as CSV with a header row; id, rating and ratingCount are
+ * informational and ignored on import
+ */
+export const productsToCsv = (products: Product[]): string => {
+  const lines = products.map(product => {
+    const record = toExportRecord(product);
+    return PRODUCT_CSV_COLUMNS.map(column => escapeCsvCell(record[column])).join(',');
+  });
+  return [PRODUCT_CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+/**
+ * Exports products as a JSON array, including variants (which CSV can't hold)
+ */
+export const productsToJson = (products: Product[]): string => {
+  const records = products.map(product => {
+    const exported: Partial<Product> = { ...product, id: String(product.id) };
+    delete exported.createdAt;
+    delete exported.updatedAt;
+    delete exported.ratingTotal;
+    return exported;
+  });
+  return JSON.stringify(records, null, 2);
+};
@@ -0,0 +1,96 @@
+/**
+ * Product Repository
+ *
+ * The read side of the product catalog, behind one interface so the data
+ * source can be swapped by configuration: Firestore (the real store), a
+ * FakeStore-compatible REST API, or an in-memory list. productCatalog.ts picks
+ * the implementation and reports which one actually served each result.
+ *
+ * Writes are not part of the interface; they always go to Firestore through
+ * productApi.
+ *
+ * @fileoverview Product repository interface, query options and sort modes
+ * @version 1.0.0
+ */
+
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import type { Product } from '../types/product';
+
+/**
+ * Where product data comes from
+ */
+export type ProductSource = 'firestore' | 'rest' | 'memory';
+
+/**
+ * Fields product queries can be sorted by (dotted paths reach into rating)
+ */
+export type ProductSortKey = 'title' | 'price' | 'createdAt' | 'rating.rate' | 'rating.count';
+
+/**
+ * Catalog sort options offered to shoppers
+ */
+export type ProductSortMode = 'price-asc' | 'price-desc' | 'newest' | 'top-rated' | 'most-reviewed' | 'title-asc';
+
+/**
+ * Field and direction behind each sort mode. Every entry needs matching composite
+ * indexes in firestore.indexes.json (see utils/firestoreIndexes.ts)
+ */
+export const PRODUCT_SORT_MODES: Record<ProductSortMode, { label: string; field: ProductSortKey; direction: 'asc' | 'desc' }> = {
+  'title-asc': { label: 'Title: A–Z', field: 'title', direction: 'asc' },
+  'price-asc': { label: 'Price: Low to High', field: 'price', direction: 'asc' },
+  'price-desc': { label: 'Price: High to Low', field: 'price', direction: 'desc' },
+  'newest': { label: 'Newest', field: 'createdAt', direction: 'desc' },
+  'top-rated': { label: 'Top Rated', field: 'rating.rate', direction: 'desc' },
+  'most-reviewed': { label: 'Most Reviewed', field: 'rating.count', direction: 'desc' }
+};
+
+export const DEFAULT_SORT_MODE: ProductSortMode = 'title-asc';
+
+/**
+ * Position to continue a paged listing from: a Firestore document snapshot,
+ * or an offset for the REST and in-memory sources. Cursors only make sense to
+ * the source that issued them.
+ */
+export type ProductCursor = QueryDocumentSnapshot<DocumentData> | number;
+
+/**
+ * Filters and ordering for a full product listing
+ */
+export interface ProductQuery {
+  activeOnly?: boolean;              // Only active products (default true)
+  category?: string;                 // Only products in this category
+  sortMode?: ProductSortMode;        // Ordering; unsorted when omitted
+}
+
+/**
+ * Options for a paged product listing
+ */
+export interface ProductPageOptions {
+  pageSize?: number;                 // Products per page (default 12)
+  cursor?: ProductCursor | null;     // Start after this product; omit for the first page
+  sortBy?: ProductSortKey;           // Field to order by (default 'title')
+  sortDirection?: 'asc' | 'desc';    // Order direction (default 'asc')
+  category?: string;                 // Only products in this category
+  activeOnly?: boolean;              // Only active products (default true)
+}
+
+/**
+ * One page of products plus the cursor for the next page
+ */
+export interface ProductPage {
+  products: Product[];
+  nextCursor: ProductCursor | null;  // null when there are no more pages
+}
+
+export const DEFAULT_PRODUCT_PAGE_SIZE = 12;
+
+/**
+ * Read access to a product catalog
+ */
+export interface ProductRepository {
+  readonly source: ProductSource;
+  getProduct(productId: string): Promise<Product | null>;
+  getProducts(query?: ProductQuery): Promise<Product[]>;
+  getProductsPage(options?: ProductPageOptions): Promise<ProductPage>;
+  getCategories(): Promise<string[]>;
+}
@@ -0,0 +1,129 @@
+/**
+ * Product Variants
+ *
+ * Helpers for products sold in several combinations of options (size, colour, ...).
+ * Each combination is a ProductVariant with its own SKU, stock and optional price
+ * and image overrides. Cart and order lines carry the chosen variant's ID, and
+ * the line key built from product and variant ID keeps two sizes of one product
+ * on separate lines.
+ *
+ * @fileoverview Variant lookup, availability and cart/order line keys
+ * @version 1.0.0
+ */
+
+import type { Product, ProductVariant } from '../types/product';
+
+/**
+ * A product resolved to one of its variants: price, stock, image and SKU come
+ * from the variant, and the variant is identified for the cart and order
+ */
+export type VariantProduct = Omit<Product, 'variants' | 'variantOptions'> & {
+  variantId: string;
+  variantLabel: string;
+};
+
+/**
+ * Whether the product has to be bought as one of its variants
+ */
+export const hasVariants = (product: Pick<Product, 'variants'>): boolean =>
+  Array.isArray(product.variants) && product.variants.length > 0;
+
+/**
+ * Identifies a cart or order line: the product ID, plus the variant ID when there is one
+ */
+export const getLineKey = (productId: string | number, variantId?: string): string =>
+  variantId ? `${productId}::${variantId}` : String(productId);
+
+/**
+ * Human-readable variant name such as "M / Red", in the product's option order
+ */
+export const getVariantLabel = (
+  variant: Pick<ProductVariant, 'options'>,
+  product?: Pick<Product, 'variantOptions'>
+): string => {
+  const names = product?.variantOptions?.map(option => option.name) ?? Object.keys(variant.options);
+  return names
+    .map(name => variant.options[name])
+    .filter(value => value !== undefined && value !== '')
+    .join(' / ');
+};
+
+export const getVariantById = (product: Pick<Product, 'variants'>, variantId: string): ProductVariant | undefined =>
+  product.variants?.find(variant => variant.id === variantId);
+
+/**
+ * Finds the variant matching a complete selection (one value per option axis)
+ */
+export const findVariant = (
+  product: Pick<Product, 'variants' | 'variantOptions'>,
+  selection: Record<string, string>
+): ProductVariant | undefined => {
+  const names = product.variantOptions?.map(option => option.name) ?? [];
+  if (names.some(name => !selection[name])) {
+    return undefined;
+  }
+  return product.variants?.find(variant => names.every(name => variant.options[name] === selection[name]));
+};
+
+/**
+ * Variants with no stock figure are untracked and always purchasable
+ */
+const isVariantPurchasable = (variant: ProductVariant): boolean =>
+  typeof variant.stock !== 'number' || variant.stock > 0;
+
+/**
+ * Whether picking `value` for option `name` can still lead to a purchasable variant,
+ * given the values already chosen for the other options
+ */
+export const isOptionValueAvailable = (
+  product: Pick<Product, 'variants'>,
+  selection: Record<string, string>,
+  name: string,
+  value: string
+): boolean =>
+  (product.variants ?? []).some(variant =>
+    variant.options[name] === value &&
+    isVariantPurchasable(variant) &&
+    Object.entries(selection).every(([otherName, otherValue]) =>
+      otherName === name || !otherValue || variant.options[otherName] === otherValue
+    )
+  );
+
+/**
+ * Whether any variant can be bought; used for catalog-level stock status
+ */
+export const hasPurchasableVariant = (product: Pick<Product, 'variants'>): boolean =>
+  (product.variants ?? []).some(isVariantPurchasable);
+
+/**
+ * Lowest and highest variant prices, for "from $X" displays
+ */
+export const getVariantPriceRange = (product: Pick<Product, 'price' | 'variants'>): { min: number; max: number } => {
+  const prices = (product.variants ?? []).map(variant => variant.price ?? product.price);
+  if (prices.length === 0) {
+    return { min: product.price, max: product.price };
+  }
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};
+
+/**
+ * Resolves a product to one of its variants for the cart
+ * Drops the variant list itself so cart lines stay small
+ */
+export const resolveVariant = (product: Product, variant: ProductVariant): VariantProduct => {
+  const resolved: Product = {
+    ...product,
+    price: variant.price ?? product.price,
+    stock: variant.stock,
+    image: variant.image || product.image,
+    sku: variant.sku ?? product.sku
+  };
+  delete resolved.variants;
+  delete resolved.variantOptions;
+
+  return {
+    ...resolved,
+    variantId: variant.id,
+    variantLabel: getVariantLabel(variant, product)
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * REST Product Repository
+ *
+ * Reads products from a FakeStore-compatible HTTP API (GET /products,
+ * /products/:id, /products/category/:category, /products/categories). The API
+ * has no server-side sorting or cursors, so listings are fetched whole and
+ * filtered, sorted and paged in memory.
+ *
+ * @fileoverview ProductRepository over a FakeStore-compatible REST API
+ * @version 1.0.0
+ */
+
+import type { Product, Rating } from '../types/product';
+import type { ProductRepository } from './productRepository';
+import { createMemoryProductRepository } from './memoryProductRepository';
+
+export const DEFAULT_REST_BASE_URL = 'https://fakestoreapi.com';
+
+/**
+ * Product as the REST API returns it
+ */
+interface RestProduct {
+  id: number | string;
+  title: string;
+  price: number;
+  description: string;
+  category: string;
+  image: string;
+  rating?: Rating;
+}
+
+/**
+ * Maps an API product onto our Product type, keeping its rating
+ */
+export const fromRestProduct = (item: RestProduct): Product => ({
+  id: String(item.id),
+  title: item.title,
+  description: item.description,
+  price: item.price,
+  category: item.category,
+  image: item.image,
+  rating: {
+    rate: item.rating?.rate ?? 0,
+    count: item.rating?.count ?? 0
+  },
+  tags: [item.category],
+  active: true
+});
+
+/**
+ * Creates a repository reading from a FakeStore-compatible API
+ *
+ * @param baseUrl - API root, without a trailing slash (default https://fakestoreapi.com)
+ * @param fetchFn - fetch implementation, replaceable in tests
+ */
+export const createRestProductRepository = (
+  baseUrl: string = DEFAULT_REST_BASE_URL,
+  fetchFn: typeof fetch = (...args) => fetch(...args)
+): ProductRepository => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string): Promise<T | null> => {
+    const response = await fetchFn(`${root}${path}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Product API error: ${response.status}`);
+    }
+    // FakeStore answers unknown product IDs with an empty 200
+    const text = await response.text();
+    return text ? JSON.parse(text) as T : null;
+  };
+
+  const fetchProducts = async (category?: string): Promise<Product[]> => {
+    const path = category ? `/products/category/${encodeURIComponent(category)}` : '/products';
+    return ((await request<RestProduct[]>(path)) ?? []).map(fromRestProduct);
+  };
+
+  return {
+    source: 'rest',
+
+    getProduct: async (productId) => {
+      const item = await request<RestProduct>(`/products/${encodeURIComponent(productId)}`);
+      return item ? fromRestProduct(item) : null;
+    },
+
+    getProducts: async (query = {}) =>
+      createMemoryProductRepository(await fetchProducts(query.category), 'rest').getProducts(query),
+
+    getProductsPage: async (options = {}) =>
+      createMemoryProductRepository(await fetchProducts(options.category), 'rest').getProductsPage(options),
+
+    getCategories: async () => ((await request<string[]>('/products/categories')) ?? []).sort()
+  };
+};
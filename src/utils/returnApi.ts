@@ -0,0 +1,536 @@
+/**
+ * Returns (RMA) Management API
+ *
+ * This module lets customers request returns on delivered orders and lets staff
+ * move those requests through their lifecycle. Each return lives in the Firestore
+ * 'returns' collection and references its order by ID.
+ *
+ * Lifecycle: requested → approved → received → refunded, with rejection possible
+ * until the items have been received. Approving a return claims its quantities
+ * on the order's returnedQuantities (only staff write orders past cancellation),
+ * and refunding it restocks its items and adds its amount to the order's
+ * refundedTotal.
+ *
+ * @fileoverview Return request CRUD operations with Firebase Firestore
+ * @version 1.0.0
+ */
+
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    orderBy,
+    runTransaction
+} from 'firebase/firestore';
+import { db, auth } from '../config/firebase';
+import { Order, OrderItem, OrderAccessDeniedError, getRestockUpdates } from './orderApi';
+import { getLineKey } from './productVariants';
+import { requireRole } from './roles';
+
+/**
+ * Status of a return request
+ */
+export type ReturnStatus = 'requested' | 'approved' | 'received' | 'refunded' | 'rejected';
+
+/**
+ * A line being returned, priced at what the customer paid
+ *
+ * @interface ReturnItem
+ * @property {string} productId - Product being returned
+ * @property {string} name - Display name of the product
+ * @property {number} price - Unit price paid on the original order
+ * @property {number} quantity - Number of units being returned
+ * @property {string} [variantId] - Variant being returned, when the order line was for one
+ * @property {string} [variantLabel] - Display name of the variant
+ */
+export interface ReturnItem {
+    productId: string;
+    name: string;
+    price: number;
+    quantity: number;
+    variantId?: string;
+    variantLabel?: string;
+}
+
+/**
+ * A single entry in a return's status history
+ *
+ * @interface ReturnStatusChange
+ * @property {ReturnStatus} from - Status before the change
+ * @property {ReturnStatus} to - Status after the change
+ * @property {Date} at - When the change happened
+ * @property {string | null} actorUid - User who made the change
+ * @property {string | null} note - Optional free-text explanation
+ */
+export interface ReturnStatusChange {
+    from: ReturnStatus;
+    to: ReturnStatus;
+    at: Date;
+    actorUid: string | null;
+    note: string | null;
+}
+
+/**
+ * Represents a return request in the system
+ *
+ * @interface ReturnRequest
+ * @property {string} returnId - Unique identifier for the return
+ * @property {string} orderId - Order the items were bought on
+ * @property {string} userId - Customer who requested the return
+ * @property {ReturnItem[]} items - Lines and quantities being returned
+ * @property {string} reason - Customer's reason for the return
+ * @property {ReturnStatus} status - Current return status
+ * @property {number} refundAmount - Amount refunded once the return completes
+ * @property {Date} createdAt - When the return was requested
+ * @property {ReturnStatusChange[]} statusHistory - Every status change, oldest first
+ */
+export interface ReturnRequest {
+    returnId: string;
+    orderId: string;
+    userId: string;
+    items: ReturnItem[];
+    reason: string;
+    status: ReturnStatus;
+    refundAmount: number;
+    createdAt: Date;
+    statusHistory: ReturnStatusChange[];
+}
+
+/**
+ * Line and quantity the customer selected to return
+ *
+ * @interface ReturnSelection
+ * @property {string} productId - Product from the original order
+ * @property {string} [variantId] - Variant from the original order, when the line was for one
+ * @property {number} quantity - Number of units to return
+ */
+export interface ReturnSelection {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+/**
+ * Allowed return status transitions. Refunded and rejected are final.
+ */
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+    requested: ['approved', 'rejected'],
+    approved: ['received', 'rejected'],
+    received: ['refunded'],
+    refunded: [],
+    rejected: []
+};
+
+/**
+ * Statuses of returns that still need a staff action
+ */
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received'];
+
+/**
+ * Thrown when a return request or status change isn't allowed
+ *
+ * @class InvalidReturnError
+ */
+export class InvalidReturnError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidReturnError';
+    }
+}
+
+/**
+ * Units of each line on an order that can still be returned
+ *
+ * Approved returns are already claimed on the order's returnedQuantities; pass
+ * the order's returns to also hold back what requests awaiting staff ask for.
+ *
+ * @param {Order} order - The delivered order
+ * @param {ReturnRequest[]} [returns] - The order's returns
+ * @returns {Record<string, number>} Remaining returnable quantity per line key
+ *          (the productId, or getLineKey(productId, variantId) for variant lines)
+ */
+export const getReturnableQuantities = (
+    order: Pick<Order, 'products' | 'returnedQuantities'>,
+    returns: Pick<ReturnRequest, 'status' | 'items'>[] = []
+): Record<string, number> => {
+    const claimed: Record<string, number> = { ...(order.returnedQuantities || {}) };
+    returns
+        .filter(returnRequest => returnRequest.status === 'requested')
+        .forEach(returnRequest => returnRequest.items.forEach(item => {
+            const key = getLineKey(item.productId, item.variantId);
+            claimed[key] = (claimed[key] || 0) + item.quantity;
+        }));
+
+    const returnable: Record<string, number> = {};
+    order.products.forEach((item: OrderItem) => {
+        const key = getLineKey(item.productId, item.variantId);
+        returnable[key] = (returnable[key] || 0) + item.quantity;
+    });
+    Object.entries(claimed).forEach(([key, quantity]) => {
+        if (key in returnable) {
+            returnable[key] = Math.max(0, returnable[key] - quantity);
+        }
+    });
+    return returnable;
+};
+
+/**
+ * What a return refunds, priced from the order's lines rather than the amount
+ * stored on the return
+ *
+ * @throws {InvalidReturnError} When an item isn't on the order or its quantity isn't a whole, positive number
+ */
+const getRefundAmount = (order: Pick<Order, 'products'>, items: ReturnItem[]): number => {
+    const refundAmount = items.reduce((total, item) => {
+        const key = getLineKey(item.productId, item.variantId);
+        const line = order.products.find(orderItem => getLineKey(orderItem.productId, orderItem.variantId) === key);
+        if (!line) {
+            throw new InvalidReturnError(`Product ${item.productId} is not on this order`);
+        }
+        if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+            throw new InvalidReturnError(`Cannot return ${item.quantity} of ${line.name}`);
+        }
+        return total + (line.price * item.quantity);
+    }, 0);
+    return Math.round(refundAmount * 100) / 100; // Round to 2 decimal places
+};
+
+/**
+ * Builds a ReturnRequest from a Firestore document, converting timestamps to Dates
+ */
+const toReturnRequest = (data: Record<string, unknown>, returnId?: string): ReturnRequest => {
+    const toDate = (value: unknown): Date => {
+        const timestamp = value as { toDate?: () => Date } | undefined;
+        return (timestamp?.toDate ? timestamp.toDate() : value) as Date;
+    };
+
+    return {
+        ...data,
+        ...(returnId ? { returnId } : {}),
+        createdAt: toDate(data.createdAt),
+        statusHistory: ((data.statusHistory || []) as ReturnStatusChange[]).map(change => ({
+            ...change,
+            at: toDate(change.at)
+        }))
+    } as ReturnRequest;
+};
+
+/**
+ * Requests a return for items on a delivered order
+ *
+ * Runs in a transaction that checks the signed-in user owns the order, the order
+ * was delivered and each quantity is still returnable, counting the user's other
+ * requests on it, then stores the return. The order itself is left alone; staff
+ * claim the quantities when they approve the return.
+ *
+ * @async
+ * @function createReturnRequest
+ * @param {string} orderId - Delivered order the items came from
+ * @param {ReturnSelection[]} selections - Lines and quantities to return
+ * @param {string} reason - Customer's reason for the return (required)
+ * @returns {Promise<ReturnRequest>} Promise that resolves to the created return
+ * @throws {OrderAccessDeniedError} When no user is signed in or the order belongs to someone else
+ * @throws {InvalidReturnError} When the order isn't delivered or a quantity can't be returned
+ * @throws {Error} When the order doesn't exist or the Firestore operation fails
+ *
+ * @example
+ * ```typescript
+ * const returnRequest = await createReturnRequest(
+ *   'order123',
+ *   [{ productId: 'prod1', quantity: 1 }],
+ *   'Arrived damaged'
+ * );
+ * console.log('Return requested:', returnRequest.returnId);
+ * ```
+ */
+export const createReturnRequest = async (
+    orderId: string,
+    selections: ReturnSelection[],
+    reason: string
+): Promise<ReturnRequest> => {
+    try {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+            throw new InvalidReturnError('A return reason is required');
+        }
+
+        const requested = selections.filter(selection => selection.quantity > 0);
+        if (requested.length === 0) {
+            throw new InvalidReturnError('Select at least one item to return');
+        }
+
+        const currentUser = auth.currentUser;
+        if (!currentUser) {
+            throw new OrderAccessDeniedError(orderId);
+        }
+
+        const returnId = `return_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const orderDoc = doc(db, 'orders', orderId);
+
+        // Queries can't run inside a transaction, so load the user's other requests first
+        const earlierReturnsSnapshot = await getDocs(query(
+            collection(db, 'returns'),
+            where('orderId', '==', orderId),
+            where('userId', '==', currentUser.uid)
+        ));
+        const earlierReturns = earlierReturnsSnapshot.docs.map(doc => toReturnRequest(doc.data(), doc.id));
+
+        return await runTransaction(db, async (transaction) => {
+            const orderSnap = await transaction.get(orderDoc);
+            if (!orderSnap.exists()) {
+                throw new Error(`Order ${orderId} not found`);
+            }
+
+            const order = orderSnap.data() as Order;
+            if (order.userId !== currentUser.uid) {
+                throw new OrderAccessDeniedError(orderId);
+            }
+            if (order.status !== 'delivered') {
+                throw new InvalidReturnError('Only delivered orders can be returned');
+            }
+
+            const returnable = getReturnableQuantities(order, earlierReturns);
+
+            const items: ReturnItem[] = requested.map(selection => {
+                const key = getLineKey(selection.productId, selection.variantId);
+                const line = order.products.find(item => getLineKey(item.productId, item.variantId) === key);
+                if (!line) {
+                    throw new InvalidReturnError(`Product ${selection.productId} is not on this order`);
+                }
+                if (!Number.isInteger(selection.quantity) || selection.quantity > (returnable[key] || 0)) {
+                    throw new InvalidReturnError(
+                        `Only ${returnable[key] || 0} of ${line.name} can be returned`
+                    );
+                }
+                return {
+                    productId: line.productId,
+                    name: line.name,
+                    price: line.price,
+                    quantity: selection.quantity,
+                    ...(line.variantId ? { variantId: line.variantId } : {}),
+                    ...(line.variantLabel ? { variantLabel: line.variantLabel } : {})
+                };
+            });
+
+            const returnRequest: ReturnRequest = {
+                returnId,
+                orderId,
+                userId: currentUser.uid,
+                items,
+                reason: trimmedReason,
+                status: 'requested',
+                refundAmount: getRefundAmount(order, items),
+                createdAt: new Date(),
+                statusHistory: []
+            };
+
+            transaction.set(doc(db, 'returns', returnId), returnRequest);
+
+            return returnRequest;
+        });
+    } catch (error) {
+        console.error('Error creating return request:', error);
+        throw error;
+    }
+};
+
+/**
+ * Retrieves a single return by its unique ID
+ *
+ * @async
+ * @function getReturnRequest
+ * @param {string} returnId - Unique identifier of the return
+ * @returns {Promise<ReturnRequest | null>} Promise that resolves to the return or null if not found
+ * @throws {Error} When Firestore operation fails
+ */
+export const getReturnRequest = async (returnId: string): Promise<ReturnRequest | null> => {
+    try {
+        const returnSnap = await getDoc(doc(db, 'returns', returnId));
+
+        if (returnSnap.exists()) {
+            return toReturnRequest(returnSnap.data(), returnSnap.id);
+        }
+
+        return null;
+    } catch (error) {
+        console.error('Error retrieving return request:', error);
+        throw error;
+    }
+};
+
+/**
+ * Retrieves all returns for an order, newest first
+ *
+ * @async
+ * @function getOrderReturns
+ * @param {string} orderId - Order whose returns to fetch
+ * @returns {Promise<ReturnRequest[]>} Promise that resolves to the order's returns
+ * @throws {Error} When Firestore query fails
+ */
+export const getOrderReturns = async (orderId: string): Promise<ReturnRequest[]> => {
+    try {
+        const orderReturnsQuery = query(
+            collection(db, 'returns'),
+            where('orderId', '==', orderId),
+            orderBy('createdAt', 'desc')
+        );
+
+        const querySnapshot = await getDocs(orderReturnsQuery);
+
+        return querySnapshot.docs.map(doc => toReturnRequest(doc.data(), doc.id));
+    } catch (error) {
+        console.error('Error retrieving order returns:', error);
+        throw error;
+    }
+};
+
+/**
+ * Retrieves every return still waiting on staff, oldest first (staff only)
+ *
+ * @async
+ * @function getOpenReturns
+ * @returns {Promise<ReturnRequest[]>} Promise that resolves to the requested, approved and received returns
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {Error} When Firestore query fails
+ */
+export const getOpenReturns = async (): Promise<ReturnRequest[]> => {
+    try {
+        await requireRole('staff');
+
+        // Sorted here: an `in` filter with orderBy would need a composite index
+        const openReturnsQuery = query(
+            collection(db, 'returns'),
+            where('status', 'in', OPEN_RETURN_STATUSES)
+        );
+
+        const querySnapshot = await getDocs(openReturnsQuery);
+
+        return querySnapshot.docs
+            .map(doc => toReturnRequest(doc.data(), doc.id))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+        console.error('Error retrieving open returns:', error);
+        throw error;
+    }
+};
+
+/**
+ * Moves a return to its next status (staff action)
+ *
+ * Side effects happen in the same transaction as the status change:
+ * - 'approved' claims the quantities on the order's returnedQuantities
+ * - 'rejected' releases an approved return's quantities so they can be returned again
+ * - 'refunded' restocks every returned product and adds the refund to the order's refundedTotal
+ *
+ * The refund is priced from the order's lines when approving and refunding,
+ * whatever amount the return was stored with. Returns whose customer doesn't
+ * own the order can only be rejected.
+ *
+ * @async
+ * @function updateReturnStatus
+ * @param {string} returnId - Return to update
+ * @param {ReturnStatus} status - New status
+ * @param {{ actorUid?: string; note?: string }} [options] - Who made the change and why
+ * @returns {Promise<boolean>} Promise that resolves to true if update successful
+ * @throws {RoleRequiredError} Unless the signed-in user is staff or admin
+ * @throws {InvalidReturnError} When the transition isn't in RETURN_STATUS_TRANSITIONS, the return isn't from the order's
+ *         customer or doesn't match its lines, or approving would return more than was delivered
+ * @throws {Error} When the return or order doesn't exist or the Firestore operation fails
+ */
+export const updateReturnStatus = async (
+    returnId: string,
+    status: ReturnStatus,
+    options: { actorUid?: string; note?: string } = {}
+): Promise<boolean> => {
+    try {
+        await requireRole('staff');
+        const returnDoc = doc(db, 'returns', returnId);
+
+        await runTransaction(db, async (transaction) => {
+            const returnSnap = await transaction.get(returnDoc);
+            if (!returnSnap.exists()) {
+                throw new Error(`Return ${returnId} not found`);
+            }
+
+            const returnRequest = returnSnap.data() as ReturnRequest;
+            if (!RETURN_STATUS_TRANSITIONS[returnRequest.status]?.includes(status)) {
+                throw new InvalidReturnError(`Return ${returnId} cannot move from '${returnRequest.status}' to '${status}'`);
+            }
+
+            // Read everything the side effects need before writing
+            const orderDoc = doc(db, 'orders', returnRequest.orderId);
+            const orderSnap = await transaction.get(orderDoc);
+            if (!orderSnap.exists()) {
+                throw new Error(`Order ${returnRequest.orderId} not found`);
+            }
+            const order = orderSnap.data() as Order;
+
+            // A return filed against someone else's order can only be turned down
+            if (status !== 'rejected' && returnRequest.userId !== order.userId) {
+                throw new InvalidReturnError(`Return ${returnId} was not requested by the customer on order ${returnRequest.orderId}`);
+            }
+            const refundAmount = status === 'rejected'
+                ? returnRequest.refundAmount
+                : getRefundAmount(order, returnRequest.items);
+
+            const restockUpdates = status === 'refunded'
+                ? await getRestockUpdates(transaction, returnRequest.items)
+                : [];
+
+            if (status === 'approved') {
+                const returnable = getReturnableQuantities(order);
+                const returnedQuantities = { ...(order.returnedQuantities || {}) };
+                returnRequest.items.forEach(item => {
+                    const key = getLineKey(item.productId, item.variantId);
+                    if (item.quantity > (returnable[key] || 0)) {
+                        throw new InvalidReturnError(`Only ${returnable[key] || 0} of ${item.name} can still be returned`);
+                    }
+                    returnable[key] -= item.quantity;
+                    returnedQuantities[key] = (returnedQuantities[key] || 0) + item.quantity;
+                });
+                transaction.update(orderDoc, { returnedQuantities });
+            }
+
+            // Requests awaiting approval never claimed anything
+            if (status === 'rejected' && returnRequest.status === 'approved') {
+                const returnedQuantities = { ...(order.returnedQuantities || {}) };
+                returnRequest.items.forEach(item => {
+                    const key = getLineKey(item.productId, item.variantId);
+                    returnedQuantities[key] = Math.max(0, (returnedQuantities[key] || 0) - item.quantity);
+                });
+                transaction.update(orderDoc, { returnedQuantities });
+            }
+
+            if (status === 'refunded') {
+                restockUpdates.forEach(({ ref, data }) => {
+                    transaction.update(ref, data);
+                });
+
+                const refundedTotal = (order.refundedTotal || 0) + refundAmount;
+                transaction.update(orderDoc, { refundedTotal: Math.round(refundedTotal * 100) / 100 });
+            }
+
+            const change: ReturnStatusChange = {
+                from: returnRequest.status,
+                to: status,
+                at: new Date(),
+                actorUid: options.actorUid ?? null,
+                note: options.note?.trim() || null
+            };
+
+            transaction.update(returnDoc, {
+                status,
+                refundAmount,
+                statusHistory: [...(returnRequest.statusHistory || []), change]
+            });
+        });
+
+        return true;
+    } catch (error) {
+        console.error('Error updating return status:', error);
+        throw error;
+    }
+};
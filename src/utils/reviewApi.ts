@@ -0,0 +1,427 @@
+/**
+ * Product Reviews API
+ *
+ * Customers can leave one review per product: a star rating, a title and a body.
+ * Reviews live in each product's 'reviews' subcollection, keyed by the author's
+ * user ID, which is what enforces one review per user and limits edits and
+ * deletes to the author.
+ *
+ * Every write also updates the product's rating (rate and count) in the same
+ * transaction, using the running star total kept in Product.ratingTotal. The
+ * static rating copied from FakeStore is replaced once the first real review lands.
+ *
+ * @fileoverview Product review CRUD operations with Firebase Firestore
+ * @version 1.0.0
+ */
+
+import {
+    collection,
+    deleteField,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    orderBy,
+    runTransaction
+} from 'firebase/firestore';
+import { db, auth } from '../config/firebase';
+import { getUserOrders } from './orderApi';
+import type { Product, Rating } from '../types/product';
+
+/**
+ * A customer's review of a product
+ *
+ * @interface Review
+ * @property {string} reviewId - Same as userId; one review per user per product
+ * @property {string} productId - Product being reviewed
+ * @property {string} userId - Author of the review
+ * @property {string} authorName - Name shown next to the review
+ * @property {number} rating - Whole stars from 1 to 5
+ * @property {string} title - Short headline
+ * @property {string} body - Review text
+ * @property {boolean} verifiedPurchase - Whether the author has a delivered order containing the product
+ * @property {string} [verifiedOrderId] - The delivered order behind verifiedPurchase, checked by the security rules
+ * @property {number} [verifiedLine] - Index of the product's line on that order
+ * @property {Date} createdAt - When the review was first posted
+ * @property {Date} [updatedAt] - When the author last edited the review
+ */
+export interface Review {
+    reviewId: string;
+    productId: string;
+    userId: string;
+    authorName: string;
+    rating: number;
+    title: string;
+    body: string;
+    verifiedPurchase: boolean;
+    verifiedOrderId?: string;
+    verifiedLine?: number;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * The parts of a review the author writes
+ */
+export interface ReviewInput {
+    rating: number;
+    title: string;
+    body: string;
+}
+
+/**
+ * Thrown when a review can't be written: invalid input, not signed in,
+ * a second review for the same product, or editing a review that doesn't exist
+ *
+ * @class InvalidReviewError
+ */
+export class InvalidReviewError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidReviewError';
+    }
+}
+
+/**
+ * Trims and checks the author's input
+ *
+ * @throws {InvalidReviewError} When the rating isn't 1–5 stars or the title or body is empty
+ */
+const validateReviewInput = (input: ReviewInput): ReviewInput => {
+    if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+        throw new InvalidReviewError('Rating must be between 1 and 5 stars');
+    }
+    const title = input.title.trim();
+    const body = input.body.trim();
+    if (!title) {
+        throw new InvalidReviewError('A review title is required');
+    }
+    if (!body) {
+        throw new InvalidReviewError('Review text is required');
+    }
+    return { rating: input.rating, title, body };
+};
+
+/**
+ * Builds the product rating from the star total and review count
+ * The average is rounded to one decimal place, matching the catalog data
+ */
+export const computeRating = (ratingTotal: number, count: number): Rating => ({
+    rate: count > 0 ? Math.round((ratingTotal / count) * 10) / 10 : 0,
+    count
+});
+
+/**
+ * Converts Firestore timestamps on a review document to Dates
+ */
+const toReview = (data: Record<string, unknown>, reviewId: string): Review => {
+    const toDate = (value: unknown): Date | undefined => {
+        const timestamp = value as { toDate?: () => Date } | undefined;
+        return (timestamp?.toDate ? timestamp.toDate() : value) as Date | undefined;
+    };
+
+    return {
+        ...data,
+        reviewId,
+        createdAt: toDate(data.createdAt),
+        updatedAt: toDate(data.updatedAt)
+    } as Review;
+};
+
+const getSignedInUser = () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+        throw new InvalidReviewError('Sign in to review products');
+    }
+    return currentUser;
+};
+
+/**
+ * Applies a change in stars to the product's rating inside a transaction
+ *
+ * Products that have never had a real review start from zero rather than from
+ * the static rating they were imported with.
+ */
+const applyRatingChange = (
+    product: Partial<Product>,
+    starsDelta: number,
+    countDelta: number
+): Pick<Product, 'rating' | 'ratingTotal'> => {
+    const hasReviewTotals = typeof product.ratingTotal === 'number';
+    const currentTotal = hasReviewTotals ? product.ratingTotal ?? 0 : 0;
+    const currentCount = hasReviewTotals ? product.rating?.count ?? 0 : 0;
+
+    const ratingTotal = Math.max(0, currentTotal + starsDelta);
+    const count = Math.max(0, currentCount + countDelta);
+
+    return { rating: computeRating(ratingTotal, count), ratingTotal };
+};
+
+/**
+ * Where a user received a product: the delivered order and the index of its line
+ */
+export interface VerifiedPurchase {
+    orderId: string;
+    line: number;
+}
+
+/**
+ * Finds a delivered order on which the user received the product
+ *
+ * @async
+ * @function findVerifiedPurchase
+ * @param {string} userId - Customer to check
+ * @param {string} productId - Product to look for
+ * @returns {Promise<VerifiedPurchase | null>} Promise that resolves to the order and line, or null if none
+ * @throws {Error} When the orders query fails
+ */
+export const findVerifiedPurchase = async (userId: string, productId: string): Promise<VerifiedPurchase | null> => {
+    const orders = await getUserOrders(userId);
+    for (const order of orders) {
+        const line = order.status === 'delivered'
+            ? order.products.findIndex(item => item.productId === productId)
+            : -1;
+        if (line >= 0) {
+            return { orderId: order.orderId, line };
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks whether a user has received the product on any delivered order
+ *
+ * @async
+ * @function hasPurchasedProduct
+ * @param {string} userId - Customer to check
+ * @param {string} productId - Product to look for
+ * @returns {Promise<boolean>} Promise that resolves to true for a verified purchase
+ * @throws {Error} When the orders query fails
+ */
+export const hasPurchasedProduct = async (userId: string, productId: string): Promise<boolean> => {
+    return (await findVerifiedPurchase(userId, productId)) !== null;
+};
+
+/**
+ * The verified-purchase fields stored on a review; the security rules only
+ * accept verifiedPurchase with the order line that proves it
+ */
+const toVerifiedFields = (purchase: VerifiedPurchase | null): Pick<Review, 'verifiedPurchase' | 'verifiedOrderId' | 'verifiedLine'> =>
+    purchase
+        ? { verifiedPurchase: true, verifiedOrderId: purchase.orderId, verifiedLine: purchase.line }
+        : { verifiedPurchase: false };
+
+/**
+ * Posts the signed-in user's review of a product
+ *
+ * The verified-purchase flag comes from the user's delivered orders, and the
+ * order line it rests on is stored with it. The review and the product's
+ * updated rating are written in one transaction.
+ *
+ * @async
+ * @function createReview
+ * @param {string} productId - Product being reviewed
+ * @param {ReviewInput} input - Stars, title and body
+ * @returns {Promise<Review>} Promise that resolves to the stored review
+ * @throws {InvalidReviewError} When the input is invalid, no user is signed in or the user already reviewed the product
+ * @throws {Error} When the product doesn't exist or the Firestore operation fails
+ *
+ * @example
+ * ```typescript
+ * const review = await createReview('prod123', {
+ *   rating: 5,
+ *   title: 'Great sound',
+ *   body: 'Battery easily lasts a week.'
+ * });
+ * console.log('Verified purchase:', review.verifiedPurchase);
+ * ```
+ */
+export const createReview = async (productId: string, input: ReviewInput): Promise<Review> => {
+    try {
+        const { rating, title, body } = validateReviewInput(input);
+        const currentUser = getSignedInUser();
+
+        // Order queries can't run inside a transaction, so check purchases first
+        const verified = toVerifiedFields(await findVerifiedPurchase(currentUser.uid, productId));
+
+        const productDoc = doc(db, 'products', productId);
+        const reviewDoc = doc(db, 'products', productId, 'reviews', currentUser.uid);
+
+        return await runTransaction(db, async (transaction) => {
+            const productSnap = await transaction.get(productDoc);
+            if (!productSnap.exists()) {
+                throw new Error(`Product ${productId} not found`);
+            }
+            const reviewSnap = await transaction.get(reviewDoc);
+            if (reviewSnap.exists()) {
+                throw new InvalidReviewError('You have already reviewed this product');
+            }
+
+            const review: Review = {
+                reviewId: currentUser.uid,
+                productId,
+                userId: currentUser.uid,
+                authorName: currentUser.displayName || currentUser.email?.split('@')[0] || 'Customer',
+                rating,
+                title,
+                body,
+                ...verified,
+                createdAt: new Date()
+            };
+
+            transaction.set(reviewDoc, review);
+            transaction.update(productDoc, {
+                ...applyRatingChange(productSnap.data() as Partial<Product>, rating, 1),
+                updatedAt: new Date()
+            });
+
+            return review;
+        });
+    } catch (error) {
+        console.error('Error creating review:', error);
+        throw error;
+    }
+};
+
+/**
+ * Edits the signed-in user's review of a product
+ *
+ * Re-checks the verified-purchase flag, since the order may have been
+ * delivered after the review was first posted.
+ *
+ * @async
+ * @function updateReview
+ * @param {string} productId - Product the review belongs to
+ * @param {ReviewInput} input - New stars, title and body
+ * @returns {Promise<Review>} Promise that resolves to the updated review
+ * @throws {InvalidReviewError} When the input is invalid, no user is signed in or the user hasn't reviewed the product
+ * @throws {Error} When the product doesn't exist or the Firestore operation fails
+ */
+export const updateReview = async (productId: string, input: ReviewInput): Promise<Review> => {
+    try {
+        const { rating, title, body } = validateReviewInput(input);
+        const currentUser = getSignedInUser();
+        const verified = toVerifiedFields(await findVerifiedPurchase(currentUser.uid, productId));
+
+        const productDoc = doc(db, 'products', productId);
+        const reviewDoc = doc(db, 'products', productId, 'reviews', currentUser.uid);
+
+        return await runTransaction(db, async (transaction) => {
+            const productSnap = await transaction.get(productDoc);
+            if (!productSnap.exists()) {
+                throw new Error(`Product ${productId} not found`);
+            }
+            const reviewSnap = await transaction.get(reviewDoc);
+            if (!reviewSnap.exists()) {
+                throw new InvalidReviewError("You haven't reviewed this product yet");
+            }
+
+            const existing = toReview(reviewSnap.data(), reviewSnap.id);
+            const updates = { rating, title, body, ...verified, updatedAt: new Date() };
+            // A review no longer backed by a delivered order drops the order line it named
+            const unverified = verified.verifiedPurchase ? {} : { verifiedOrderId: deleteField(), verifiedLine: deleteField() };
+
+            transaction.update(reviewDoc, { ...updates, ...unverified });
+            transaction.update(productDoc, {
+                ...applyRatingChange(productSnap.data() as Partial<Product>, rating - existing.rating, 0),
+                updatedAt: new Date()
+            });
+
+            return { ...existing, verifiedOrderId: undefined, verifiedLine: undefined, ...updates };
+        });
+    } catch (error) {
+        console.error('Error updating review:', error);
+        throw error;
+    }
+};
+
+/**
+ * Deletes the signed-in user's review of a product and takes it out of the rating
+ *
+ * @async
+ * @function deleteReview
+ * @param {string} productId - Product the review belongs to
+ * @returns {Promise<void>} Promise that resolves when the review is removed
+ * @throws {InvalidReviewError} When no user is signed in or the user hasn't reviewed the product
+ * @throws {Error} When the product doesn't exist or the Firestore operation fails
+ */
+export const deleteReview = async (productId: string): Promise<void> => {
+    try {
+        const currentUser = getSignedInUser();
+
+        const productDoc = doc(db, 'products', productId);
+        const reviewDoc = doc(db, 'products', productId, 'reviews', currentUser.uid);
+
+        await runTransaction(db, async (transaction) => {
+            const productSnap = await transaction.get(productDoc);
+            if (!productSnap.exists()) {
+                throw new Error(`Product ${productId} not found`);
+            }
+            const reviewSnap = await transaction.get(reviewDoc);
+            if (!reviewSnap.exists()) {
+                throw new InvalidReviewError("You haven't reviewed this product");
+            }
+
+            const existing = toReview(reviewSnap.data(), reviewSnap.id);
+
+            transaction.delete(reviewDoc);
+            transaction.update(productDoc, {
+                ...applyRatingChange(productSnap.data() as Partial<Product>, -existing.rating, -1),
+                updatedAt: new Date()
+            });
+        });
+    } catch (error) {
+        console.error('Error deleting review:', error);
+        throw error;
+    }
+};
+
+/**
+ * Retrieves all reviews of a product, newest first
+ *
+ * @async
+ * @function getProductReviews
+ * @param {string} productId - Product whose reviews to fetch
+ * @returns {Promise<Review[]>} Promise that resolves to the product's reviews
+ * @throws {Error} When Firestore query fails
+ */
+export const getProductReviews = async (productId: string): Promise<Review[]> => {
+    try {
+        const reviewsQuery = query(
+            collection(db, 'products', productId, 'reviews'),
+            orderBy('createdAt', 'desc')
+        );
+
+        const querySnapshot = await getDocs(reviewsQuery);
+
+        return querySnapshot.docs.map(doc => toReview(doc.data(), doc.id));
+    } catch (error) {
+        console.error('Error retrieving product reviews:', error);
+        throw error;
+    }
+};
+
+/**
+ * Retrieves one user's review of a product
+ *
+ * @async
+ * @function getUserReview
+ * @param {string} productId - Product the review belongs to
+ * @param {string} userId - Author of the review
+ * @returns {Promise<Review | null>} Promise that resolves to the review or null if the user hasn't reviewed the product
+ * @throws {Error} When Firestore operation fails
+ */
+export const getUserReview = async (productId: string, userId: string): Promise<Review | null> => {
+    try {
+        const reviewSnap = await getDoc(doc(db, 'products', productId, 'reviews', userId));
+
+        if (reviewSnap.exists()) {
+            return toReview(reviewSnap.data(), reviewSnap.id);
+        }
+
+        return null;
+    } catch (error) {
+        console.error('Error retrieving review:', error);
+        throw error;
+    }
+};
@@ -0,0 +1,96 @@
+/**
+ * User Roles
+ *
+ * Every user has a role stored on their profile (`users/{uid}.role`):
+ * customers shop, staff also manage products, orders and returns, and admins
+ * can additionally manage users and permanently delete data. Each role can do
+ * everything the roles below it can. Profiles without a role are customers.
+ *
+ * The admin API functions call requireRole before writing, so the UI gets a
+ * clear RoleRequiredError; firestore.rules enforces the same checks on the
+ * server, which is what actually protects the data.
+ *
+ * @fileoverview Role hierarchy and role checks for API functions
+ * @version 1.0.0
+ */
+
+import { auth, db } from '../config/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+
+export type UserRole = 'customer' | 'staff' | 'admin';
+
+/**
+ * Roles from least to most privileged
+ */
+export const USER_ROLES: UserRole[] = ['customer', 'staff', 'admin'];
+
+export const DEFAULT_USER_ROLE: UserRole = 'customer';
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  USER_ROLES.includes(value as UserRole);
+
+/**
+ * Whether `role` includes the permissions of `required`
+ */
+export const hasRole = (role: UserRole | null | undefined, required: UserRole): boolean =>
+  !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+/**
+ * Thrown when the signed-in user's role doesn't allow an action, or nobody is signed in
+ */
+export class RoleRequiredError extends Error {
+  required: UserRole;
+  role: UserRole | null;              // The user's role; null when signed out
+
+  constructor(required: UserRole, role: UserRole | null) {
+    super(role
+      ? `This action requires the ${required} role; you are signed in as ${role}`
+      : `Sign in as ${required} to do this`);
+    this.name = 'RoleRequiredError';
+    this.required = required;
+    this.role = role;
+  }
+}
+
+/**
+ * Reads a user's role from their profile; missing profiles and roles count as customer
+ */
+export const getUserRole = async (uid: string): Promise<UserRole> => {
+  const userSnap = await getDoc(doc(db, 'users', uid));
+  const role = userSnap.exists() ? userSnap.data().role : undefined;
+  return isUserRole(role) ? role : DEFAULT_USER_ROLE;
+};
+
+// Set by runWithRole for trusted tooling that has no signed-in user
+let roleOverride: UserRole | null = null;
+
+/**
+ * Runs `task` with role checks satisfied as `role`. For trusted tooling such
+ * as the seed command, where nobody is signed in; Firestore security rules
+ * still apply to everything it writes.
+ */
+export const runWithRole = async <T>(role: UserRole, task: () => Promise<T>): Promise<T> => {
+  const previous = roleOverride;
+  roleOverride = role;
+  try {
+    return await task();
+  } finally {
+    roleOverride = previous;
+  }
+};
+
+/**
+ * Checks that the signed-in user has at least the `required` role
+ *
+ * @returns The user's ID (null under runWithRole) and role
+ * @throws RoleRequiredError when signed out or the role is too low
+ */
+export const requireRole = async (required: UserRole): Promise<{ uid: string | null; role: UserRole }> => {
+  const uid = auth.currentUser?.uid ?? null;
+  const role = roleOverride ?? (uid ? await getUserRole(uid) : null);
+
+  if (!hasRole(role, required)) {
+    throw new RoleRequiredError(required, role);
+  }
+  return { uid, role: role as UserRole };
+};
@@ -0,0 +1,184 @@
+/**
+ * Data Schemas
+ *
+ * Declarative rules for everything the app writes to Firestore. The API write
+ * functions enforce these (throwing ValidationError), and the forms run the
+ * same schemas first so each message can be shown next to its field.
+ *
+ * @fileoverview Product, user profile and order schemas
+ * @version 1.0.0
+ */
+
+import type { FieldSpec, Schema } from './validation';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+const ORDER_STATUSES = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'] as const;
+const USER_ROLES = ['customer', 'staff', 'admin'] as const;
+const TAX_CLASSES = ['standard', 'reduced', 'zero'] as const;
+
+const stringList = (label: string): FieldSpec => ({
+  type: 'array',
+  label,
+  items: { type: 'string', label: `${label} entry` }
+});
+
+export const productVariantSchema: Schema = {
+  id: { type: 'string', label: 'Variant ID', required: true },
+  options: { type: 'object', label: 'Variant options', required: true },
+  sku: { type: 'string', label: 'Variant SKU', max: 64 },
+  price: { type: 'number', label: 'Variant price', positive: true },
+  stock: { type: 'number', label: 'Variant stock', integer: true, min: 0 },
+  image: { type: 'string', label: 'Variant image' }
+};
+
+export const productSchema: Schema = {
+  title: { type: 'string', required: true, max: 200 },
+  price: { type: 'number', required: true, positive: true },
+  description: { type: 'string', max: 5000 },
+  category: { type: 'string', required: true, max: 100 },
+  image: { type: 'string', label: 'Image URL', required: true },
+  images: stringList('Images'),
+  rating: {
+    type: 'object',
+    fields: {
+      rate: { type: 'number', label: 'Rating', min: 0, max: 5 },
+      count: { type: 'number', label: 'Rating count', integer: true, min: 0 }
+    }
+  },
+  ratingTotal: { type: 'number', label: 'Rating total', min: 0 },
+  stock: { type: 'number', integer: true, min: 0 },
+  stockOrderId: { type: 'string', label: 'Stock order' },
+  tags: stringList('Tags'),
+  brand: { type: 'string', max: 100 },
+  sku: { type: 'string', label: 'SKU', max: 64 },
+  weight: { type: 'number', min: 0 },
+  taxClass: { type: 'string', label: 'Tax class', oneOf: TAX_CLASSES },
+  dimensions: {
+    type: 'object',
+    fields: {
+      length: { type: 'number', required: true, min: 0 },
+      width: { type: 'number', required: true, min: 0 },
+      height: { type: 'number', required: true, min: 0 }
+    }
+  },
+  createdAt: { type: 'date', label: 'Created date' },
+  updatedAt: { type: 'date', label: 'Updated date' },
+  active: { type: 'boolean' },
+  archivedAt: { type: 'date', label: 'Archived date' },
+  archivedBy: { type: 'string', label: 'Archived by' },
+  activeBeforeArchive: { type: 'boolean', label: 'Active before archiving' },
+  variantOptions: {
+    type: 'array',
+    label: 'Variant options',
+    items: {
+      type: 'object',
+      label: 'Variant option',
+      fields: {
+        name: { type: 'string', label: 'Option name', required: true },
+        values: { type: 'array', label: 'Option values', required: true, min: 1, items: { type: 'string', label: 'Option value' } }
+      }
+    }
+  },
+  variants: {
+    type: 'array',
+    max: 20,                    // The security rules check variant stock one index at a time, up to 20
+    items: { type: 'object', label: 'Variant', fields: productVariantSchema }
+  }
+};
+
+export const userProfileSchema: Schema = {
+  uid: { type: 'string', label: 'User ID', required: true },
+  email: { type: 'string', required: true, pattern: EMAIL_PATTERN, patternMessage: 'Enter a valid email address' },
+  displayName: { type: 'string', label: 'Display name', max: 100 },
+  firstName: { type: 'string', label: 'First name', max: 50 },
+  lastName: { type: 'string', label: 'Last name', max: 50 },
+  phoneNumber: {
+    type: 'string',
+    label: 'Phone number',
+    pattern: PHONE_PATTERN,
+    patternMessage: 'Enter a phone number of 7 to 20 digits, spaces or dashes'
+  },
+  address: {
+    type: 'object',
+    fields: {
+      street: { type: 'string', max: 200 },
+      city: { type: 'string', max: 100 },
+      state: { type: 'string', max: 100 },
+      zipCode: {
+        type: 'string',
+        label: 'Zip code',
+        pattern: /^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/,
+        patternMessage: 'Enter a valid zip or postal code'
+      },
+      country: { type: 'string', max: 100 }
+    }
+  },
+  preferences: {
+    type: 'object',
+    fields: {
+      notifications: { type: 'boolean' },
+      newsletter: { type: 'boolean' },
+      theme: { type: 'string', oneOf: ['light', 'dark', 'auto'] }
+    }
+  },
+  role: { type: 'string', oneOf: USER_ROLES },
+  createdAt: { type: 'date', label: 'Created date' },
+  updatedAt: { type: 'date', label: 'Updated date' }
+};
+
+export const orderItemSchema: Schema = {
+  productId: { type: 'string', label: 'Product ID', required: true },
+  name: { type: 'string', required: true },
+  price: { type: 'number', required: true, min: 0 },
+  quantity: { type: 'number', required: true, integer: true, min: 1 },
+  variantId: { type: 'string', label: 'Variant ID' },
+  variantLabel: { type: 'string', label: 'Variant' },
+  snapshot: {
+    type: 'object',
+    label: 'Product snapshot',
+    fields: {
+      title: { type: 'string', required: true },
+      image: { type: 'string' },
+      sku: { type: 'string', label: 'SKU' },
+      category: { type: 'string' },
+      brand: { type: 'string' },
+      variantId: { type: 'string', label: 'Variant ID' },
+      variantLabel: { type: 'string', label: 'Variant' },
+      unitPrice: { type: 'number', label: 'Unit price', required: true, min: 0 },
+      taxClass: { type: 'string', label: 'Tax class', required: true, oneOf: TAX_CLASSES }
+    }
+  }
+};
+
+export const createOrderSchema: Schema = {
+  userId: { type: 'string', label: 'User ID', required: true },
+  products: {
+    type: 'array',
+    label: 'Order items',
+    required: true,
+    min: 1,
+    items: { type: 'object', label: 'Order item', fields: orderItemSchema }
+  },
+  shippingAddress: { type: 'string', label: 'Shipping address', required: true, min: 5, max: 500 }
+};
+
+export const orderSchema: Schema = {
+  ...createOrderSchema,
+  orderId: { type: 'string', label: 'Order ID', required: true },
+  totalPrice: { type: 'number', label: 'Total price', required: true, min: 0 },
+  status: { type: 'string', required: true, oneOf: ORDER_STATUSES },
+  createdAt: { type: 'date', label: 'Created date', required: true },
+  statusHistory: { type: 'array', label: 'Status history' },
+  cancellationReason: { type: 'string', label: 'Cancellation reason', max: 500 },
+  cancelledAt: { type: 'date', label: 'Cancelled date' },
+  refundedTotal: { type: 'number', label: 'Refunded total', min: 0 },
+  returnedQuantities: { type: 'object', label: 'Returned quantities' }
+};
+
+export const orderNoteSchema: Schema = {
+  text: { type: 'string', label: 'Note', required: true, max: 2000 },
+  authorUid: { type: 'string', label: 'Author', required: true },
+  createdAt: { type: 'date', label: 'Created date', required: true }
+};
@@ -0,0 +1,236 @@
+/**
+ * Product Search Index
+ *
+ * Tokenized, in-memory search index over the product catalog. Text is normalized
+ * (lowercased, accents and punctuation stripped) and split into terms, each
+ * weighted by the field it came from so title matches outrank description matches.
+ * Queries match whole terms, prefixes ("head" → "headphones") and near misses
+ * within a small edit distance ("hedphones" → "headphones").
+ *
+ * The index is built from the catalog on first search and kept current by
+ * productApi's createProduct(WithId), updateProduct(s), archiveProducts,
+ * restoreProducts and purgeProduct.
+ *
+ * @fileoverview Tokenized product search with prefix matching, typo tolerance and ranking
+ * @version 1.0.0
+ */
+
+import type { Product } from '../types/product';
+
+/**
+ * How much a term counts depending on the field it was found in
+ */
+export const FIELD_WEIGHTS = {
+  title: 5,
+  brand: 3,
+  tags: 3,
+  category: 2,
+  description: 1
+} as const;
+
+// How much of a field weight a match keeps, by match kind
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = 0.4;
+
+// Common words that would match nearly every product
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'with', 'in', 'on', 'to', 'or', 'by', 'is']);
+
+interface IndexEntry {
+  product: Product;
+  terms: Map<string, number>; // term → highest field weight it appears with
+}
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+}
+
+const entries = new Map<string, IndexEntry>();
+let built = false;
+
+/**
+ * Lowercases text, strips accents and replaces anything that isn't a letter or digit with spaces
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Splits text into normalized search terms, dropping stop words
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(' ')
+    .filter(term => term.length > 0 && !STOP_WORDS.has(term));
+
+/**
+ * Edits allowed for a query term to still count as a match; short terms must be exact
+ */
+const allowedTypos = (term: string): number => {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+};
+
+/**
+ * Levenshtein distance that gives up once it exceeds maxDistance
+ */
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Builds the weighted term map for a product
+ */
+const buildTerms = (product: Product): Map<string, number> => {
+  const terms = new Map<string, number>();
+  const addField = (text: string | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach(term => {
+      terms.set(term, Math.max(terms.get(term) ?? 0, weight));
+    });
+  };
+
+  addField(product.title, FIELD_WEIGHTS.title);
+  addField(product.brand, FIELD_WEIGHTS.brand);
+  (product.tags || []).forEach(tag => addField(tag, FIELD_WEIGHTS.tags));
+  addField(product.category, FIELD_WEIGHTS.category);
+  addField(product.description, FIELD_WEIGHTS.description);
+  return terms;
+};
+
+/**
+ * Scores how well one query term matches a product's terms (0 when it doesn't match)
+ */
+const scoreTerm = (queryTerm: string, terms: Map<string, number>): number => {
+  const maxTypos = allowedTypos(queryTerm);
+  let best = 0;
+
+  terms.forEach((weight, term) => {
+    let score = 0;
+    if (term === queryTerm) {
+      score = weight * EXACT_MATCH;
+    } else if (term.startsWith(queryTerm)) {
+      score = weight * PREFIX_MATCH;
+    } else if (maxTypos > 0) {
+      // Compare against the same-length prefix too, so typos in a partly typed word still match
+      const candidate = term.length > queryTerm.length ? term.slice(0, queryTerm.length) : term;
+      if (editDistance(queryTerm, candidate, maxTypos) <= maxTypos) {
+        score = weight * TYPO_MATCH;
+      }
+    }
+    best = Math.max(best, score);
+  });
+
+  return best;
+};
+
+/**
+ * Whether the index has been populated from the catalog
+ */
+export const isSearchIndexBuilt = (): boolean => built;
+
+/**
+ * Replaces the index contents with the given catalog
+ *
+ * @param products - Every product that should be searchable
+ */
+export const buildSearchIndex = (products: Product[]): void => {
+  entries.clear();
+  products.forEach(product => {
+    entries.set(String(product.id), { product, terms: buildTerms(product) });
+  });
+  built = true;
+};
+
+/**
+ * Adds a product to the index, or re-indexes it if already present
+ *
+ * @param product - Product to index
+ */
+export const indexProduct = (product: Product): void => {
+  entries.set(String(product.id), { product, terms: buildTerms(product) });
+};
+
+/**
+ * Applies a partial update to an indexed product; does nothing if the product isn't indexed
+ *
+ * @param productId - Product that changed
+ * @param updates - Changed fields
+ */
+export const updateIndexedProduct = (productId: string, updates: Partial<Product>): void => {
+  const existing = entries.get(productId);
+  if (existing) {
+    indexProduct({ ...existing.product, ...updates, id: existing.product.id });
+  }
+};
+
+/**
+ * Removes a product from the index
+ *
+ * @param productId - Product to remove
+ */
+export const removeFromSearchIndex = (productId: string): void => {
+  entries.delete(productId);
+};
+
+/**
+ * Empties the index so the next search rebuilds it
+ */
+export const clearSearchIndex = (): void => {
+  entries.clear();
+  built = false;
+};
+
+/**
+ * Searches the index. Every query term has to match (exactly, as a prefix or
+ * within the typo allowance); results are ordered by summed match score.
+ *
+ * @param searchTerm - Raw text typed by the user
+ * @param activeOnly - If true, skip products with active === false
+ * @returns SearchResult[] - Matching products, best match first
+ */
+export const searchIndex = (searchTerm: string, activeOnly: boolean = true): SearchResult[] => {
+  const queryTerms = tokenize(searchTerm);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+  entries.forEach(({ product, terms }) => {
+    if (activeOnly && product.active === false) return;
+
+    let total = 0;
+    for (const queryTerm of queryTerms) {
+      const score = scoreTerm(queryTerm, terms);
+      if (score === 0) return;
+      total += score;
+    }
+    results.push({ product, score: total });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.product.title.localeCompare(b.product.title));
+};
@@ -0,0 +1,324 @@
+/**
+ * Seed Data Generator
+ *
+ * Builds a realistic, deterministic dataset — a catalog across several
+ * categories, customers with profiles and addresses, and orders in every
+ * status spread over the past months — from a numeric seed. The same seed and
+ * options always give the same data, so fixtures and demos are reproducible.
+ *
+ * Generation is pure; seedDatabase.ts writes the result through the APIs.
+ *
+ * @fileoverview Deterministic catalog, user and order fixtures
+ * @version 1.0.0
+ */
+
+import type { Product, ProductVariant, VariantOption } from '../types/product';
+import type { Order, OrderItem } from './orderApi';
+import type { UserProfile } from './userApi';
+import type { UserRole } from './roles';
+import { getLineKey, getVariantLabel } from './productVariants';
+
+/**
+ * How much data to generate
+ */
+export interface SeedOptions {
+  seed?: number;                      // Same seed, same dataset
+  products?: number;
+  users?: number;
+  orders?: number;
+  endDate?: Date;                     // Orders are dated in the months before this
+}
+
+export const DEFAULT_SEED_OPTIONS: Required<SeedOptions> = {
+  seed: 1,
+  products: 40,
+  users: 12,
+  orders: 60,
+  endDate: new Date('2025-06-30T12:00:00Z')
+};
+
+export type SeedProductData = Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'active'>;
+
+export interface SeedProduct {
+  id: string;
+  data: SeedProductData;
+}
+
+export interface SeedUser {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  profile: Required<Pick<UserProfile, 'firstName' | 'lastName' | 'phoneNumber' | 'address'>>;
+}
+
+export interface SeedOrder {
+  userId: string;
+  products: OrderItem[];
+  shippingAddress: string;
+  createdAt: Date;
+  history: { status: Order['status']; at: Date }[];   // Status changes after creation, oldest first
+}
+
+export interface SeedData {
+  categories: string[];
+  products: SeedProduct[];
+  users: SeedUser[];
+  orders: SeedOrder[];
+}
+
+/**
+ * Seeded pseudo-random numbers (mulberry32); Math.random can't be replayed
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  return { next, int, pick };
+};
+
+interface CategoryTemplate {
+  name: string;
+  nouns: string[];
+  brands: string[];
+  priceRange: [number, number];
+  variantOptions?: VariantOption[];   // Products in this category are sold in these combinations
+}
+
+const CATEGORIES: CategoryTemplate[] = [
+  {
+    name: 'electronics',
+    nouns: ['Headphones', 'Charger', 'Keyboard', 'Monitor', 'Speaker', 'Webcam', 'SSD'],
+    brands: ['Voltix', 'Nordsound', 'Pixelline'],
+    priceRange: [15, 400]
+  },
+  {
+    name: 'jewelery',
+    nouns: ['Ring', 'Necklace', 'Bracelet', 'Earrings', 'Pendant'],
+    brands: ['Aurelle', 'Stonecraft'],
+    priceRange: [20, 600]
+  },
+  {
+    name: "men's clothing",
+    nouns: ['Jacket', 'Shirt', 'Hoodie', 'Chinos', 'Sweater'],
+    brands: ['Harbor & Pine', 'Northfield'],
+    priceRange: [18, 180],
+    variantOptions: [{ name: 'Size', values: ['S', 'M', 'L', 'XL'] }, { name: 'Colour', values: ['Navy', 'Grey'] }]
+  },
+  {
+    name: "women's clothing",
+    nouns: ['Dress', 'Blouse', 'Cardigan', 'Skirt', 'Coat'],
+    brands: ['Lumen', 'Wildrose'],
+    priceRange: [18, 220],
+    variantOptions: [{ name: 'Size', values: ['XS', 'S', 'M', 'L'] }]
+  },
+  {
+    name: 'home',
+    nouns: ['Lamp', 'Mug Set', 'Throw Blanket', 'Planter', 'Cutting Board'],
+    brands: ['Oakhaven', 'Kiln & Co'],
+    priceRange: [8, 120]
+  }
+];
+
+const ADJECTIVES = ['Classic', 'Compact', 'Premium', 'Everyday', 'Vintage', 'Modern', 'Lightweight', 'Deluxe'];
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Linus', 'Margaret', 'Tim', 'Barbara', 'Ken', 'Radia', 'Dennis', 'Frances', 'Edsger'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Torvalds', 'Hamilton', 'Berners-Lee', 'Liskov', 'Thompson', 'Perlman', 'Ritchie'];
+const STREETS = ['Maple Avenue', 'Oak Street', 'Harbor Road', 'Elm Court', 'Station Lane', 'Hillcrest Drive'];
+const CITIES: [string, string][] = [['Springfield', 'IL'], ['Portland', 'OR'], ['Austin', 'TX'], ['Madison', 'WI'], ['Boulder', 'CO']];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// How many days before the end date an order in each status is placed; open
+// orders are recent, finished ones can be months old
+const STATUS_AGE_DAYS: Record<Order['status'], [number, number]> = {
+  pending: [0, 2],
+  confirmed: [1, 6],
+  shipped: [3, 12],
+  delivered: [10, 180],
+  cancelled: [5, 180]
+};
+
+// Changes that take a new order (always pending) to each final status
+const STATUS_PATHS: Record<Order['status'], Order['status'][][]> = {
+  pending: [[]],
+  confirmed: [['confirmed']],
+  shipped: [['confirmed', 'shipped']],
+  delivered: [['confirmed', 'shipped', 'delivered']],
+  cancelled: [['cancelled'], ['confirmed', 'cancelled']]
+};
+
+const ORDER_STATUSES = Object.keys(STATUS_PATHS) as Order['status'][];
+
+const pad = (value: number): string => String(value).padStart(3, '0');
+
+const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Every combination of the option values, as variants without stock yet
+ */
+const buildVariants = (productId: string, options: VariantOption[]): ProductVariant[] =>
+  options
+    .reduce<Record<string, string>[]>(
+      (combinations, option) => combinations.flatMap(combination =>
+        option.values.map(value => ({ ...combination, [option.name]: value }))
+      ),
+      [{}]
+    )
+    .map(combination => {
+      const id = Object.values(combination).join('-').toLowerCase();
+      return { id, options: combination, sku: `${productId}-${id}`.toUpperCase() };
+    });
+
+const generateProducts = (random: ReturnType<typeof createRandom>, count: number): SeedProduct[] =>
+  Array.from({ length: count }, (_, index) => {
+    const id = `seed-product-${pad(index + 1)}`;
+    const category = CATEGORIES[index % CATEGORIES.length];
+    const brand = random.pick(category.brands);
+    const noun = random.pick(category.nouns);
+    const adjective = random.pick(ADJECTIVES);
+    const [minPrice, maxPrice] = category.priceRange;
+    const ratingCount = random.int(0, 400);
+
+    const data: SeedProductData = {
+      title: `${brand} ${adjective} ${noun}`,
+      price: roundPrice(minPrice + random.next() * (maxPrice - minPrice)),
+      description: `${adjective} ${noun.toLowerCase()} from ${brand}, part of our ${category.name} range.`,
+      category: category.name,
+      image: `https://picsum.photos/seed/${id}/400/400`,
+      rating: { rate: ratingCount > 0 ? random.int(25, 50) / 10 : 0, count: ratingCount },
+      tags: [category.name, noun.toLowerCase(), adjective.toLowerCase()],
+      brand,
+      sku: id.toUpperCase(),
+      weight: roundPrice(0.1 + random.next() * 4),
+      dimensions: { length: random.int(5, 60), width: random.int(5, 40), height: random.int(1, 30) }
+    };
+
+    if (category.variantOptions) {
+      data.variantOptions = category.variantOptions;
+      data.variants = buildVariants(id, category.variantOptions);
+    }
+
+    return { id, data };
+  });
+
+// The first seeded users get fixed addresses, so there is always an admin and staff account to sign in with
+const SEED_ACCOUNTS: { email: string; role: UserRole }[] = [
+  { email: 'admin@example.com', role: 'admin' },
+  { email: 'staff@example.com', role: 'staff' }
+];
+
+const generateUsers = (random: ReturnType<typeof createRandom>, count: number): SeedUser[] =>
+  Array.from({ length: count }, (_, index) => {
+    const firstName = random.pick(FIRST_NAMES);
+    const lastName = random.pick(LAST_NAMES);
+    const [city, state] = random.pick(CITIES);
+    const account = SEED_ACCOUNTS[index];
+
+    return {
+      uid: `seed-user-${pad(index + 1)}`,
+      email: account?.email ?? `${firstName}.${lastName}.${index + 1}@example.com`.toLowerCase(),
+      displayName: `${firstName} ${lastName}`,
+      role: account?.role ?? 'customer',
+      profile: {
+        firstName,
+        lastName,
+        phoneNumber: `+1 555-${String(random.int(100, 999))}-${String(random.int(1000, 9999))}`,
+        address: {
+          street: `${random.int(1, 999)} ${random.pick(STREETS)}`,
+          city,
+          state,
+          zipCode: String(random.int(10000, 99999)),
+          country: 'US'
+        }
+      }
+    };
+  });
+
+const formatAddress = ({ profile }: SeedUser): string => {
+  const { street, city, state, zipCode, country } = profile.address;
+  return `${profile.firstName} ${profile.lastName}, ${street}, ${city}, ${state} ${zipCode}, ${country}`;
+};
+
+/**
+ * Generates the dataset for a seed. Stock is set last, to what the orders
+ * took plus some left over (sometimes none), so every order can be placed.
+ */
+export const generateSeedData = (options: SeedOptions = {}): SeedData => {
+  const { seed, products: productCount, users: userCount, orders: orderCount, endDate } = {
+    ...DEFAULT_SEED_OPTIONS,
+    ...options
+  };
+  const random = createRandom(seed);
+
+  const products = generateProducts(random, productCount);
+  const users = generateUsers(random, userCount);
+  const sold = new Map<string, number>();
+
+  const orders: SeedOrder[] = users.length === 0 || products.length === 0 ? [] : Array.from({ length: orderCount }, (_, index) => {
+    const user = random.pick(users);
+    // Cycle through the statuses so every one is represented
+    const status = index < ORDER_STATUSES.length ? ORDER_STATUSES[index] : random.pick(ORDER_STATUSES);
+    const [minAge, maxAge] = STATUS_AGE_DAYS[status];
+    const createdAt = new Date(endDate.getTime() - random.int(minAge, maxAge) * DAY_MS - random.int(0, 23) * HOUR_MS);
+
+    const lines = new Map<string, OrderItem>();
+    Array.from({ length: random.int(1, 3) }).forEach(() => {
+      const { id, data } = random.pick(products);
+      const variant = data.variants ? random.pick(data.variants) : undefined;
+      const key = getLineKey(id, variant?.id);
+      const quantity = random.int(1, 3);
+      const existing = lines.get(key);
+
+      sold.set(key, (sold.get(key) ?? 0) + quantity);
+      if (existing) {
+        existing.quantity += quantity;
+      } else {
+        lines.set(key, {
+          productId: id,
+          name: data.title,
+          price: variant?.price ?? data.price,
+          quantity,
+          ...(variant ? { variantId: variant.id, variantLabel: getVariantLabel(variant, data) } : {})
+        });
+      }
+    });
+
+    let at = createdAt.getTime();
+    const history = random.pick(STATUS_PATHS[status]).map(next => {
+      at += random.int(2, 36) * HOUR_MS;
+      return { status: next, at: new Date(Math.min(at, endDate.getTime())) };
+    });
+
+    return {
+      userId: user.uid,
+      products: [...lines.values()],
+      shippingAddress: formatAddress(user),
+      createdAt,
+      history
+    };
+  });
+
+  const restock = (key: string): number => (sold.get(key) ?? 0) + (random.next() < 0.1 ? 0 : random.int(1, 40));
+  products.forEach(({ id, data }) => {
+    if (data.variants) {
+      data.variants = data.variants.map(variant => ({ ...variant, stock: restock(getLineKey(id, variant.id)) }));
+    } else {
+      data.stock = restock(id);
+    }
+  });
+
+  return {
+    categories: [...new Set(products.map(product => product.data.category))].sort(),
+    products,
+    users,
+    orders
+  };
+};
@@ -0,0 +1,90 @@
+/**
+ * Database Seeding
+ *
+ * Writes a generated dataset (see seedData.ts) through the same API functions
+ * the app uses — createProductWithId, createUserProfile/updateUserProfile/setUserRole,
+ * createOrder and updateOrderStatus — so seeded data passes the same schemas,
+ * reserves stock the same way and lands wherever `firebase/firestore` points:
+ * Firestore, or the in-memory backend when VITE_DATA_BACKEND=memory.
+ *
+ * Run it from the command line with `npm run seed` (scripts/seed.mjs).
+ *
+ * @fileoverview Populates a catalog, users and orders from seed data
+ * @version 1.0.0
+ */
+
+import { db } from '../config/firebase';
+import { doc, updateDoc } from 'firebase/firestore';
+import { createProductWithId } from './productApi';
+import { createUserProfile, setUserRole, updateUserProfile } from './userApi';
+import { createOrder, updateOrderStatus, Order, OrderStatusChange } from './orderApi';
+import { generateSeedData, SeedData, SeedOptions } from './seedData';
+import { DEFAULT_USER_ROLE, runWithRole } from './roles';
+
+/**
+ * What was written
+ */
+export interface SeedSummary {
+  categories: number;
+  products: number;
+  users: number;
+  orders: number;
+  orderIds: string[];                 // Assigned by createOrder, so they differ between runs
+}
+
+/**
+ * Writes products, then users, then orders (oldest first, so stock runs down in order)
+ *
+ * Order IDs and product timestamps come from the APIs; each order's creation
+ * date and status history are then back-dated to the generated dates. The API
+ * role checks are satisfied as admin, since seeding usually runs with nobody
+ * signed in; against Firestore, the security rules still decide what is written.
+ */
+export const writeSeedData = (data: SeedData): Promise<SeedSummary> => runWithRole('admin', async () => {
+  for (const { id, data: product } of data.products) {
+    await createProductWithId(id, product);
+  }
+  console.log(`🌱 Seeded ${data.products.length} products in ${data.categories.length} categories`);
+
+  for (const { uid, email, displayName, role, profile } of data.users) {
+    await createUserProfile(uid, email, displayName);
+    await updateUserProfile(uid, profile);
+    if (role !== DEFAULT_USER_ROLE) {
+      await setUserRole(uid, role);
+    }
+  }
+  console.log(`🌱 Seeded ${data.users.length} users`);
+
+  const orderIds: string[] = [];
+  const orders = [...data.orders].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const { userId, products, shippingAddress, createdAt, history } of orders) {
+    const order = await createOrder({ userId, products, shippingAddress });
+    for (const { status } of history) {
+      await updateOrderStatus(order.orderId, status);
+    }
+
+    let from: Order['status'] = 'pending';
+    const statusHistory = history.map(({ status, at }): OrderStatusChange => {
+      const change = { from, to: status, at, actorUid: null, note: null };
+      from = status;
+      return change;
+    });
+    await updateDoc(doc(db, 'orders', order.orderId), { createdAt, statusHistory });
+    orderIds.push(order.orderId);
+  }
+  console.log(`🌱 Seeded ${orderIds.length} orders`);
+
+  return {
+    categories: data.categories.length,
+    products: data.products.length,
+    users: data.users.length,
+    orders: orderIds.length,
+    orderIds
+  };
+});
+
+/**
+ * Generates the dataset for the options and writes it
+ */
+export const seedDatabase = (options: SeedOptions = {}): Promise<SeedSummary> =>
+  writeSeedData(generateSeedData(options));
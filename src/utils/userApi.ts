@@ -22,6 +22,9 @@ import {
   Timestamp 
 } from 'firebase/firestore';
 import { deleteUser, User } from 'firebase/auth';
+import { userProfileSchema } from './schemas';
+import { assertValid, validate, FieldError, ValidateOptions } from './validation';
+import { DEFAULT_USER_ROLE, requireRole, UserRole } from './roles';
 
 /**
  * Enhanced User Profile Interface for Assignment Requirements
@@ -45,6 +48,7 @@ export interface UserProfile {
     newsletter: boolean;
     theme: 'light' | 'dark' | 'auto';
   };
+  role?: UserRole;                  // Access level; missing means customer (change with setUserRole)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -86,10 +90,12 @@ export const createUserProfile = async (
         newsletter: false,
         theme: 'auto'
       },
+      role: DEFAULT_USER_ROLE,
       createdAt: now,
       updatedAt: now
     };
     
+    assertValid('user profile', userProfileSchema, userData);
     const userDocRef = doc(db, 'users', uid);
     await setDoc(userDocRef, userData);
     
@@ -138,13 +144,18 @@ export const getUserProfile = async (uid: string): Promise<UserProfile | null> =
  * @param uid - User identifier
  * @param updates - Partial user profile data to update
  * @returns Promise that resolves when update is complete
- * @throws Error if update fails
+ * @throws ValidationError if a given field fails the user profile schema
+ * @throws Error if the updates include a role (use setUserRole) or update fails
  */
 export const updateUserProfile = async (
   uid: string, 
   updates: Partial<UserProfile>
 ): Promise<void> => {
   try {
+    if ('role' in updates) {
+      throw new Error('Roles can only be changed by an admin with setUserRole');
+    }
+    assertValid('user profile', userProfileSchema, updates, { partial: true });
     const userDocRef = doc(db, 'users', uid);
     
     // Add updatedAt timestamp
@@ -204,13 +215,15 @@ export const deleteCompleteUserAccount = async (user: User): Promise<void> => {
 };
 
 /**
- * Get all users (Admin function - use carefully)
+ * Get all users (admin only)
  * 
  * @returns Promise<UserProfile[]> - Array of all user profiles
+ * @throws RoleRequiredError unless the signed-in user is an admin
  * @throws Error if retrieval fails
  */
 export const getAllUsers = async (): Promise<UserProfile[]> => {
   try {
+    await requireRole('admin');
     const usersCollection = collection(db, 'users');
     const querySnapshot = await getDocs(usersCollection);
     
@@ -235,14 +248,16 @@ export const getAllUsers = async (): Promise<UserProfile[]> => {
 };
 
 /**
- * Search users by email
+ * Search users by email (staff and admins, e.g. to find a customer's orders)
  * 
  * @param email - Email to search for
  * @returns Promise<UserProfile | null> - User profile or null
+ * @throws RoleRequiredError unless the signed-in user is staff or admin
  * @throws Error if search fails
  */
 export const getUserByEmail = async (email: string): Promise<UserProfile | null> => {
   try {
+    await requireRole('staff');
     const usersRef = collection(db, 'users');
     const q = query(usersRef, where('email', '==', email));
     const querySnapshot = await getDocs(q);
@@ -270,24 +285,42 @@ export const getUserByEmail = async (email: string): Promise<UserProfile | null>
 };
 
 /**
- * Validates user profile data before operations
+ * Changes a user's role (admin only)
+ * 
+ * Admins can't change their own role, so the store can't be left without one.
  * 
- * @param profile - User profile to validate
- * @returns boolean - True if valid, false otherwise
+ * @param uid - User whose role changes
+ * @param role - New role
+ * @returns Promise that resolves when the role is saved
+ * @throws RoleRequiredError unless the signed-in user is an admin
+ * @throws ValidationError if the role isn't one of USER_ROLES
+ * @throws Error if the admin targets themselves or the update fails
  */
-export const validateUserProfile = (profile: Partial<UserProfile>): boolean => {
-  if (!profile.email) {
-    console.error('Validation failed: Email is required');
-    return false;
-  }
-  
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(profile.email)) {
-    console.error('Validation failed: Invalid email format');
-    return false;
+export const setUserRole = async (uid: string, role: UserRole): Promise<void> => {
+  try {
+    const admin = await requireRole('admin');
+    if (admin.uid === uid) {
+      throw new Error('Admins cannot change their own role');
+    }
+    assertValid('user profile', userProfileSchema, { role }, { partial: true });
+    
+    await updateDoc(doc(db, 'users', uid), { role, updatedAt: new Date() });
+    console.log(`✅ Role for ${uid} set to ${role}`);
+  } catch (error) {
+    console.error('❌ Error setting user role:', error);
+    throw error;
   }
-  
-  return true;
+};
+
+/**
+ * Validates user profile data against the user profile schema
+ * 
+ * @param profile - User profile data to validate
+ * @param options - Pass `{ partial: true }` to check only the fields given (for updates)
+ * @returns FieldError[] - Every problem found, empty if valid
+ */
+export const validateUserProfile = (profile: Partial<UserProfile>, options: ValidateOptions = {}): FieldError[] => {
+  return validate(userProfileSchema, profile, options);
 };
 
 /**
@@ -302,6 +335,7 @@ export const updateUserPreferences = async (
   preferences: Partial<UserProfile['preferences']>
 ): Promise<void> => {
   try {
+    assertValid('user profile', userProfileSchema, { preferences }, { partial: true });
     const userDocRef = doc(db, 'users', uid);
     await updateDoc(userDocRef, {
       preferences,
@@ -0,0 +1,227 @@
+/**
+ * Schema Validation
+ *
+ * Small declarative validator shared by the API write functions and the forms
+ * that feed them. A schema maps each field to a FieldSpec (type, required,
+ * bounds, allowed values, nested fields); validate() walks the data and returns
+ * every problem as a FieldError with a dotted path such as `address.zipCode`
+ * or `products.0.quantity`, so a form can show each message next to its input.
+ *
+ * Optional strings treat '' as "not set": profiles are created with empty
+ * name, phone and address fields, and those must stay valid.
+ *
+ * @fileoverview Declarative field schemas with field-level error lists
+ * @version 1.0.0
+ */
+
+/**
+ * One problem with one field
+ */
+export interface FieldError {
+  field: string;    // Dotted path, e.g. 'title' or 'products.0.quantity'
+  message: string;  // Ready to show to the user, e.g. 'Price must be greater than 0'
+}
+
+/**
+ * Declarative rules for a single field
+ */
+export interface FieldSpec {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+  label?: string;               // Name used in messages (defaults to the field name)
+  required?: boolean;           // Must be present; strings must also be non-blank
+  min?: number;                 // Minimum value, string length or array length
+  max?: number;                 // Maximum value, string length or array length
+  positive?: boolean;           // Numbers must be greater than 0
+  integer?: boolean;            // Numbers must be whole
+  pattern?: RegExp;             // Strings must match
+  patternMessage?: string;      // Message when `pattern` doesn't match
+  oneOf?: readonly unknown[];   // Allowed values
+  fields?: Schema;              // Nested fields of an object
+  items?: FieldSpec;            // Spec every array element must meet
+}
+
+/**
+ * Field name → rules; fields not listed are not checked
+ */
+export type Schema = Record<string, FieldSpec>;
+
+/**
+ * Options for validate
+ */
+export interface ValidateOptions {
+  partial?: boolean;  // Only check the top-level fields present (for updates); nested objects are still checked in full
+}
+
+/**
+ * Thrown by API writes when the data fails its schema. Nothing is written.
+ *
+ * @property errors - Every field problem found
+ */
+export class ValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(entity: string, errors: FieldError[]) {
+    super(`Invalid ${entity}: ${errors.map(error => error.message).join('; ')}`);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+const isPresent = (value: unknown): boolean =>
+  value !== undefined && value !== null && !(typeof value === 'string' && value.trim() === '');
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Checks one value against its spec, appending problems to `errors`
+ */
+const validateValue = (value: unknown, spec: FieldSpec, path: string, errors: FieldError[]): void => {
+  const label = spec.label ?? capitalize(path.split('.').pop() ?? path);
+  const fail = (message: string) => errors.push({ field: path, message });
+
+  if (!isPresent(value)) {
+    if (spec.required) {
+      fail(`${label} is required`);
+    }
+    return;
+  }
+
+  switch (spec.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        fail(`${label} must be text`);
+        return;
+      }
+      const length = value.trim().length;
+      if (spec.min !== undefined && length < spec.min) {
+        fail(`${label} must be at least ${spec.min} characters`);
+      }
+      if (spec.max !== undefined && length > spec.max) {
+        fail(`${label} must be at most ${spec.max} characters`);
+      }
+      if (spec.pattern && !spec.pattern.test(value.trim())) {
+        fail(spec.patternMessage ?? `${label} is not in a valid format`);
+      }
+      break;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`${label} must be a number`);
+        return;
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        fail(`${label} must be a whole number`);
+      }
+      if (spec.positive && value <= 0) {
+        fail(`${label} must be greater than 0`);
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        fail(`${label} must be at least ${spec.min}`);
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        fail(`${label} must be at most ${spec.max}`);
+      }
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail(`${label} must be true or false`);
+      }
+      break;
+    case 'date':
+      if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+        fail(`${label} must be a valid date`);
+      }
+      break;
+    case 'array': {
+      if (!Array.isArray(value)) {
+        fail(`${label} must be a list`);
+        return;
+      }
+      if (spec.min !== undefined && value.length < spec.min) {
+        fail(spec.min === 1 ? `${label} must not be empty` : `${label} must have at least ${spec.min} entries`);
+      }
+      if (spec.max !== undefined && value.length > spec.max) {
+        fail(`${label} must have at most ${spec.max} entries`);
+      }
+      const { items } = spec;
+      if (items) {
+        value.forEach((item, index) => {
+          // Elements are reported by position but labelled by what they are
+          validateValue(item, { ...items, label: items.label ?? `${label} ${index + 1}` }, `${path}.${index}`, errors);
+        });
+      }
+      break;
+    }
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+        fail(`${label} must be an object`);
+        return;
+      }
+      if (spec.fields) {
+        validateFields(spec.fields, value as Record<string, unknown>, false, errors, `${path}.`);
+      }
+      break;
+  }
+
+  if (spec.oneOf && !spec.oneOf.includes(value)) {
+    fail(`${label} must be one of: ${spec.oneOf.join(', ')}`);
+  }
+};
+
+const validateFields = (
+  schema: Schema,
+  data: Record<string, unknown>,
+  partial: boolean,
+  errors: FieldError[],
+  prefix = ''
+): void => {
+  Object.entries(schema).forEach(([field, spec]) => {
+    if (partial && !(field in data)) {
+      return;
+    }
+    validateValue(data[field], spec, `${prefix}${field}`, errors);
+  });
+};
+
+/**
+ * Validates data against a schema
+ *
+ * @param schema - Field specs to check
+ * @param data - Data to check; fields not in the schema are ignored
+ * @param options - `partial` for updates that only send changed fields
+ * @returns Every problem found, empty when the data is valid
+ */
+export const validate = <T extends object>(
+  schema: Schema,
+  data: Partial<T>,
+  options: ValidateOptions = {}
+): FieldError[] => {
+  const errors: FieldError[] = [];
+  validateFields(schema, data as Record<string, unknown>, options.partial ?? false, errors);
+  return errors;
+};
+
+/**
+ * Validates data and throws a ValidationError listing every problem
+ *
+ * @param entity - What is being written, for the error message (e.g. 'product')
+ * @throws ValidationError if the data fails its schema
+ */
+export const assertValid = <T extends object>(
+  entity: string,
+  schema: Schema,
+  data: Partial<T>,
+  options: ValidateOptions = {}
+): void => {
+  const errors = validate(schema, data, options);
+  if (errors.length > 0) {
+    throw new ValidationError(entity, errors);
+  }
+};
+
+/**
+ * First message for a field (or anything nested under it), for showing next to its input
+ */
+export const getFieldError = (errors: FieldError[], field: string): string | undefined =>
+  errors.find(error => error.field === field || error.field.startsWith(`${field}.`))?.message;
@@ -0,0 +1,338 @@
+/**
+ * Firestore Security Rules Tests
+ *
+ * Checks firestore.rules against the Firestore emulator: who can read and
+ * write products, profiles, orders, order notes and returns for each role,
+ * and that customers can't promote themselves. Run with `npm run test:rules`,
+ * which starts the emulator (Firebase CLI and Java required).
+ *
+ * @fileoverview Security rules tests for customer, staff and admin roles
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+
+let testEnv: RulesTestEnvironment;
+
+const product = { title: 'Desk Lamp', price: 25, stock: 3, active: true };
+
+const shirt = {
+    title: 'T-Shirt',
+    price: 20,
+    active: true,
+    variants: [
+        { id: 's', options: { Size: 'S' }, sku: 'TS-S', stock: 2 },
+        { id: 'm', options: { Size: 'M' }, sku: 'TS-M', stock: 5 }
+    ]
+};
+
+const order = {
+    userId: 'customer1',
+    status: 'pending',
+    products: [{ productId: 'lamp', name: 'Desk Lamp', price: 25, quantity: 1 }],
+    totalPrice: 25
+};
+
+const review = { userId: 'customer1', authorName: 'Ada', rating: 4, title: 'Bright', body: 'Lights the whole desk.' };
+
+const firestoreAs = (uid?: string) =>
+    uid ? testEnv.authenticatedContext(uid).firestore() : testEnv.unauthenticatedContext().firestore();
+
+beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-ecommerce-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+});
+
+afterAll(async () => {
+    await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async context => {
+        const db = context.firestore();
+        await setDoc(doc(db, 'users/customer1'), { uid: 'customer1', role: 'customer' });
+        await setDoc(doc(db, 'users/customer2'), { uid: 'customer2' });
+        await setDoc(doc(db, 'users/staff1'), { uid: 'staff1', role: 'staff' });
+        await setDoc(doc(db, 'users/admin1'), { uid: 'admin1', role: 'admin' });
+        await setDoc(doc(db, 'products/lamp'), product);
+        await setDoc(doc(db, 'products/shirt'), shirt);
+        await setDoc(doc(db, 'orders/order1'), order);
+        await setDoc(doc(db, 'orders/order1/reservations/lamp'), { quantities: { lamp: 1 } });
+        await setDoc(doc(db, 'orders/delivered1'), { ...order, status: 'delivered' });
+    });
+});
+
+describe('products', () => {
+    it('can be read by anyone', async () => {
+        // Act & Assert
+        await assertSucceeds(getDoc(doc(firestoreAs(), 'products/lamp')));
+    });
+
+    it('can be created and edited by staff but not customers', async () => {
+        // Act & Assert
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'products/bulb'), product));
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'products/lamp'), { price: 1 }));
+        await assertSucceeds(setDoc(doc(firestoreAs('staff1'), 'products/bulb'), product));
+        await assertSucceeds(updateDoc(doc(firestoreAs('staff1'), 'products/lamp'), { price: 30 }));
+    });
+
+    it('refuses customer stock changes that no order accounts for', async () => {
+        // Act & Assert
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'products/lamp'), { stock: 2, updatedAt: new Date() }));
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'products/lamp'), { stock: 2, stockOrderId: 'order1' }));
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'products/shirt'), {
+            variants: [{ ...shirt.variants[0], price: 1 }, shirt.variants[1]]
+        }));
+        await assertFails(updateDoc(doc(firestoreAs(), 'products/lamp'), { stock: 1 }));
+    });
+
+    it('lets customers take exactly what the order they place reserves', async () => {
+        // Arrange
+        const placeOrder = (orderId: string, stock: number, extra: Record<string, unknown> = {}) => {
+            const db = firestoreAs('customer1');
+            const batch = writeBatch(db);
+            batch.set(doc(db, `orders/${orderId}`), order);
+            batch.set(doc(db, `orders/${orderId}/reservations/lamp`), { quantities: { lamp: 1 } });
+            batch.update(doc(db, 'products/lamp'), { stock, stockOrderId: orderId, updatedAt: new Date(), ...extra });
+            return batch.commit();
+        };
+
+        // Act & Assert
+        await assertFails(placeOrder('order2', 0));
+        await assertFails(placeOrder('order2', 2, { price: 1 }));
+        await assertSucceeds(placeOrder('order2', 2));
+    });
+
+    it('lets admins place orders, and take their stock, for other customers', async () => {
+        // Arrange
+        const placeOrderAs = (uid: string, orderId: string) => {
+            const db = firestoreAs(uid);
+            const batch = writeBatch(db);
+            batch.set(doc(db, `orders/${orderId}`), order);
+            batch.set(doc(db, `orders/${orderId}/reservations/lamp`), { quantities: { lamp: 1 } });
+            batch.update(doc(db, 'products/lamp'), { stock: 2, stockOrderId: orderId, updatedAt: new Date() });
+            return batch.commit();
+        };
+
+        // Act & Assert
+        await assertFails(placeOrderAs('customer2', 'order2'));
+        await assertSucceeds(placeOrderAs('admin1', 'order2'));
+    });
+
+    it('keeps variant prices, SKUs and images out of customers\' reach', async () => {
+        // Arrange
+        const placeOrder = (variants: Record<string, unknown>[]) => {
+            const db = firestoreAs('customer1');
+            const batch = writeBatch(db);
+            batch.set(doc(db, 'orders/order2'), order);
+            batch.set(doc(db, 'orders/order2/reservations/shirt'), { quantities: { 'shirt::s': 1 } });
+            batch.update(doc(db, 'products/shirt'), { variants, stockOrderId: 'order2' });
+            return batch.commit();
+        };
+        const [small, medium] = shirt.variants;
+
+        // Act & Assert
+        await assertFails(placeOrder([{ ...small, stock: 1, price: 1 }, medium]));
+        await assertFails(placeOrder([{ ...small, stock: 1, sku: 'FREE' }, medium]));
+        await assertFails(placeOrder([{ ...small, stock: 1, image: 'x.png' }, medium]));
+        await assertFails(placeOrder([{ ...small, stock: 1 }, { ...medium, stock: 9 }]));
+        await assertSucceeds(placeOrder([{ ...small, stock: 1 }, medium]));
+    });
+
+    it('gives back what the order reserved when the customer cancels it', async () => {
+        // Arrange
+        const cancel = (stock: number) => {
+            const db = firestoreAs('customer1');
+            const batch = writeBatch(db);
+            batch.update(doc(db, 'orders/order1'), { status: 'cancelled', cancellationReason: 'No longer needed' });
+            batch.update(doc(db, 'products/lamp'), { stock, stockOrderId: 'order1' });
+            return batch.commit();
+        };
+
+        // Act & Assert
+        await assertFails(cancel(9));
+        await assertSucceeds(cancel(4));
+    });
+
+    it('keeps reservations as the order placed them', async () => {
+        // Act & Assert
+        await assertSucceeds(getDoc(doc(firestoreAs('customer1'), 'orders/order1/reservations/lamp')));
+        await assertFails(getDoc(doc(firestoreAs('customer2'), 'orders/order1/reservations/lamp')));
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'orders/order1/reservations/lamp'), { quantities: { lamp: 3 } }));
+    });
+
+    it('can only be deleted by admins', async () => {
+        // Act & Assert
+        await assertFails(deleteDoc(doc(firestoreAs('staff1'), 'products/lamp')));
+        await assertSucceeds(deleteDoc(doc(firestoreAs('admin1'), 'products/lamp')));
+    });
+});
+
+describe('reviews', () => {
+    it('can be written by their author with 1 to 5 stars', async () => {
+        // Act & Assert
+        await assertFails(setDoc(doc(firestoreAs('customer2'), 'products/lamp/reviews/customer1'), review));
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'products/lamp/reviews/customer1'), { ...review, rating: 9 }));
+        await assertSucceeds(setDoc(doc(firestoreAs('customer1'), 'products/lamp/reviews/customer1'), review));
+    });
+
+    it('only claim a verified purchase with a delivered order line for the product', async () => {
+        // Arrange
+        const claim = (verified: Record<string, unknown>) =>
+            setDoc(doc(firestoreAs('customer1'), 'products/lamp/reviews/customer1'), { ...review, verifiedPurchase: true, ...verified });
+
+        // Act & Assert
+        await assertFails(claim({}));
+        await assertFails(claim({ verifiedOrderId: 'order1', verifiedLine: 0 }));
+        await assertFails(claim({ verifiedOrderId: 'delivered1', verifiedLine: 1 }));
+        await assertSucceeds(claim({ verifiedOrderId: 'delivered1', verifiedLine: 0 }));
+        await assertFails(setDoc(doc(firestoreAs('customer2'), 'products/lamp/reviews/customer2'), {
+            ...review,
+            userId: 'customer2',
+            verifiedPurchase: true,
+            verifiedOrderId: 'delivered1',
+            verifiedLine: 0
+        }));
+    });
+
+    it('move the product rating only by the author\'s own review', async () => {
+        // Arrange
+        const postReview = (rating: Record<string, unknown>) => {
+            const db = firestoreAs('customer1');
+            const batch = writeBatch(db);
+            batch.set(doc(db, 'products/lamp/reviews/customer1'), review);
+            batch.update(doc(db, 'products/lamp'), { ...rating, updatedAt: new Date() });
+            return batch.commit();
+        };
+
+        // Act & Assert
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'products/lamp'), {
+            rating: { rate: 5, count: 1000 },
+            ratingTotal: 5000
+        }));
+        await assertFails(postReview({ rating: { rate: 5, count: 1 }, ratingTotal: 5 }));
+        await assertSucceeds(postReview({ rating: { rate: 4, count: 1 }, ratingTotal: 4 }));
+    });
+});
+
+describe('users', () => {
+    it('can read their own profile but not other customers\'', async () => {
+        // Act & Assert
+        await assertSucceeds(getDoc(doc(firestoreAs('customer1'), 'users/customer1')));
+        await assertFails(getDoc(doc(firestoreAs('customer1'), 'users/customer2')));
+        await assertSucceeds(getDoc(doc(firestoreAs('staff1'), 'users/customer2')));
+    });
+
+    it('can create their profile only as a customer', async () => {
+        // Act & Assert
+        await assertFails(setDoc(doc(firestoreAs('new1'), 'users/new1'), { uid: 'new1', role: 'admin' }));
+        await assertSucceeds(setDoc(doc(firestoreAs('new1'), 'users/new1'), { uid: 'new1', role: 'customer' }));
+    });
+
+    it('cannot change their own role', async () => {
+        // Act & Assert
+        await assertSucceeds(updateDoc(doc(firestoreAs('customer1'), 'users/customer1'), { displayName: 'Ada' }));
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'users/customer1'), { role: 'admin' }));
+        await assertFails(updateDoc(doc(firestoreAs('customer2'), 'users/customer2'), { role: 'staff' }));
+        await assertFails(updateDoc(doc(firestoreAs('staff1'), 'users/customer1'), { role: 'staff' }));
+    });
+
+    it('can have their role changed by an admin', async () => {
+        // Act & Assert
+        await assertSucceeds(updateDoc(doc(firestoreAs('admin1'), 'users/customer1'), { role: 'staff' }));
+    });
+});
+
+describe('orders', () => {
+    it('can be read by their owner and staff only', async () => {
+        // Act & Assert
+        await assertSucceeds(getDoc(doc(firestoreAs('customer1'), 'orders/order1')));
+        await assertFails(getDoc(doc(firestoreAs('customer2'), 'orders/order1')));
+        await assertSucceeds(getDoc(doc(firestoreAs('staff1'), 'orders/order1')));
+    });
+
+    it('can be placed as pending for yourself only', async () => {
+        // Act & Assert
+        await assertSucceeds(setDoc(doc(firestoreAs('customer1'), 'orders/order2'), order));
+        await assertFails(setDoc(doc(firestoreAs('customer2'), 'orders/order3'), order));
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'orders/order4'), { ...order, status: 'delivered' }));
+    });
+
+    it('can be cancelled by the owner but only moved along by staff', async () => {
+        // Act & Assert
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'orders/order1'), { status: 'shipped' }));
+        await assertSucceeds(updateDoc(doc(firestoreAs('staff1'), 'orders/order1'), { status: 'confirmed' }));
+        await assertSucceeds(updateDoc(doc(firestoreAs('customer1'), 'orders/order1'), {
+            status: 'cancelled',
+            cancellationReason: 'Changed my mind',
+            cancelledAt: new Date(),
+            statusHistory: []
+        }));
+    });
+
+    it('have returned quantities claimed by staff only', async () => {
+        // Act & Assert
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'orders/delivered1'), { returnedQuantities: { lamp: 1 } }));
+        await assertSucceeds(updateDoc(doc(firestoreAs('staff1'), 'orders/delivered1'), { returnedQuantities: { lamp: 1 } }));
+    });
+
+    it('keeps the ordered lines as placed, even for staff', async () => {
+        // Act & Assert
+        await assertFails(updateDoc(doc(firestoreAs('staff1'), 'orders/order1'), { products: [] }));
+        await assertFails(updateDoc(doc(firestoreAs('admin1'), 'orders/order1'), { status: 'confirmed', products: [] }));
+    });
+});
+
+describe('order notes', () => {
+    it('can be written and read by staff but not by the customer', async () => {
+        // Arrange
+        const note = { text: 'Gift wrap', authorUid: 'staff1', createdAt: new Date() };
+
+        // Act & Assert
+        await assertFails(addDoc(collection(firestoreAs('customer1'), 'orders/order1/notes'), note));
+        await assertSucceeds(addDoc(collection(firestoreAs('staff1'), 'orders/order1/notes'), note));
+        await assertFails(getDocs(collection(firestoreAs('customer1'), 'orders/order1/notes')));
+        await assertSucceeds(getDocs(collection(firestoreAs('staff1'), 'orders/order1/notes')));
+    });
+});
+
+describe('returns', () => {
+    it('can be requested by the owner and processed by staff', async () => {
+        // Arrange
+        const request = { returnId: 'return1', orderId: 'delivered1', userId: 'customer1', status: 'requested' };
+
+        // Act & Assert
+        await assertFails(setDoc(doc(firestoreAs('customer2'), 'returns/return1'), request));
+        await assertSucceeds(setDoc(doc(firestoreAs('customer1'), 'returns/return1'), request));
+        await assertFails(updateDoc(doc(firestoreAs('customer1'), 'returns/return1'), { status: 'approved' }));
+        await assertSucceeds(updateDoc(doc(firestoreAs('staff1'), 'returns/return1'), { status: 'approved' }));
+    });
+
+    it('can only be requested against your own delivered order', async () => {
+        // Arrange
+        const request = { returnId: 'return1', orderId: 'delivered1', userId: 'customer2', status: 'requested' };
+
+        // Act & Assert
+        await assertFails(setDoc(doc(firestoreAs('customer2'), 'returns/return1'), request));
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'returns/return1'), {
+            ...request,
+            orderId: 'order1',
+            userId: 'customer1'
+        }));
+        await assertFails(setDoc(doc(firestoreAs('customer1'), 'returns/return1'), {
+            ...request,
+            orderId: 'missing',
+            userId: 'customer1'
+        }));
+    });
+});
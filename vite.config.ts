@@ -1,7 +1,22 @@
-import { defineConfig } from 'vite'
+import path from 'node:path'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd())
+
+  return {
+    plugins: [react()],
+    resolve: {
+      // VITE_DATA_BACKEND=memory swaps Firestore and Auth for the in-memory backend,
+      // so the app runs without a Firebase project or network
+      alias: env.VITE_DATA_BACKEND === 'memory'
+        ? [
+            { find: /^firebase\/firestore$/, replacement: path.resolve(process.cwd(), 'src/utils/memoryFirestore.ts') },
+            { find: /^firebase\/auth$/, replacement: path.resolve(process.cwd(), 'src/utils/memoryAuth.ts') },
+          ]
+        : [],
+    },
+  }
 })